@@ -1,4 +1,4 @@
-import { readFile } from "node:fs/promises";
+import { readdir, readFile } from "node:fs/promises";
 import { resolve } from "node:path";
 import { Pool } from "pg";
 
@@ -8,13 +8,19 @@ async function main(): Promise<void> {
     throw new Error("PMC_POSTGRES_URL is required.");
   }
 
-  const migrationPath = resolve(process.cwd(), "sql", "001_durable_runtime.sql");
-  const sql = await readFile(migrationPath, "utf8");
+  const migrationsDir = resolve(process.cwd(), "sql");
+  const migrationFiles = (await readdir(migrationsDir))
+    .filter((fileName) => fileName.endsWith(".sql"))
+    .sort();
   const pool = new Pool({ connectionString });
 
   try {
-    await pool.query(sql);
-    console.log(`db:migrate OK (${migrationPath})`);
+    for (const fileName of migrationFiles) {
+      const migrationPath = resolve(migrationsDir, fileName);
+      const sql = await readFile(migrationPath, "utf8");
+      await pool.query(sql);
+      console.log(`db:migrate OK (${migrationPath})`);
+    }
   } finally {
     await pool.end();
   }
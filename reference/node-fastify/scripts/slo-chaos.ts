@@ -8,6 +8,7 @@ interface SloReport {
   durationSeconds: number;
   concurrency: number;
   chaosMode: boolean;
+  scenario: string;
   totals: {
     requests: number;
     successes: number;
@@ -76,17 +77,26 @@ function parseNonNegativeFloatEnv(name: string, fallback: number): number {
   return value;
 }
 
+// Provider faults come from the sandbox scenario; the ratio adds payments no provider can take.
 function pickToken(chaosMode: boolean, unavailableRatio: number): string {
-  const random = Math.random();
-  if (chaosMode && unavailableRatio > 0 && random < unavailableRatio) {
+  if (chaosMode && unavailableRatio > 0 && Math.random() < unavailableRatio) {
     return "tok_test_unavailable";
   }
-  if (random < 0.25) {
-    return "tok_test_transient";
-  }
   return "tok_test_visa";
 }
 
+async function activateScenario(app: ReturnType<typeof buildApp>, name: string): Promise<void> {
+  const response = await app.inject({
+    method: "PUT",
+    url: "/v1/sandbox/active-scenario",
+    headers: { authorization: "Bearer dev_pmc_key" },
+    payload: { name },
+  });
+  if (response.statusCode !== 200) {
+    throw new Error(`sandbox scenario '${name}' could not be activated: ${response.body}`);
+  }
+}
+
 async function executeFlow(
   app: ReturnType<typeof buildApp>,
   sequence: number,
@@ -153,6 +163,7 @@ async function main(): Promise<void> {
   const maxP99Ms = parsePositiveFloatEnv("SLO_MAX_P99_MS", 140);
   const unavailableRatio = parseNonNegativeFloatEnv("CHAOS_PROVIDER_UNAVAILABLE_RATIO", 0);
   const chaosMode = (process.env.SLO_CHAOS_MODE ?? "true").trim().toLowerCase() !== "false";
+  const scenario = chaosMode ? (process.env.SLO_CHAOS_SCENARIO?.trim() || "provider_b_degraded") : "default";
   const outputFile = process.env.SLO_OUTPUT_FILE?.trim();
 
   if (unavailableRatio >= 1) {
@@ -163,6 +174,8 @@ async function main(): Promise<void> {
   const app = buildApp({
     ...baseConfig,
     rateLimitEnabled: false,
+    // The run switches scenarios through the sandbox routes.
+    sandboxAdminEnabled: true,
   });
   await app.ready();
 
@@ -174,6 +187,7 @@ async function main(): Promise<void> {
   const failureReasons = new Map<string, number>();
 
   try {
+    await activateScenario(app, scenario);
     await Promise.all(
       Array.from({ length: concurrency }, async () => {
         while (Date.now() < deadline) {
@@ -207,6 +221,7 @@ async function main(): Promise<void> {
   const p99Pass = p99Ms <= maxP99Ms;
 
   console.log("\nSLO chaos report");
+  console.log(`scenario: ${scenario}`);
   console.log(`requests: ${requests}`);
   console.log(`successes: ${successes}`);
   console.log(`failures: ${failures}`);
@@ -227,6 +242,7 @@ async function main(): Promise<void> {
     durationSeconds,
     concurrency,
     chaosMode,
+    scenario,
     totals: {
       requests,
       successes,
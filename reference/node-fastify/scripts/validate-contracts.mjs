@@ -45,6 +45,18 @@ for (const requiredPath of [
   "/v1/payment-intents/{id}/confirm",
   "/v1/payment-intents/{id}/capture",
   "/v1/payment-intents/{id}/cancel",
+  "/v1/payment-intents/{id}/resume",
+  "/v1/payment-intents/{id}/review",
+  "/v1/reviews",
+  "/v1/intent-recoveries",
+  "/v1/routing/simulate",
+  "/v1/routing/scores",
+  "/v1/providers",
+  "/v1/providers/{name}/circuit",
+  "/v1/circuit-overrides",
+  "/v1/sandbox/scenarios",
+  "/v1/sandbox/active-scenario",
+  "/v1/sandbox/test-tokens",
   "/v1/refunds",
   "/v1/chargebacks",
   "/v1/chargebacks/{id}/resolve",
@@ -58,6 +70,9 @@ for (const requiredPath of [
   "/v1/webhook-dead-letters/{id}",
   "/v1/webhook-dead-letters/{id}/replay",
   "/v1/webhook-dead-letters/replay-batch",
+  "/v1/event-dead-letters",
+  "/v1/event-dead-letters/{id}/requeue",
+  "/v1/provider-notifications/{provider}",
 ]) {
   ensure(Boolean(openApi.paths?.[requiredPath]), `OpenAPI required path missing: '${requiredPath}'.`);
 }
@@ -67,6 +82,11 @@ for (const pathKey of ["/health/live", "/health/ready", "/metrics"]) {
   ensure(Boolean(operation), `OpenAPI operation GET ${pathKey} missing.`);
   ensure(Array.isArray(operation?.security) && operation.security.length === 0, `${pathKey} must be public.`);
 }
+ensure(
+  Array.isArray(openApi.paths?.["/v1/provider-notifications/{provider}"]?.post?.security)
+    && openApi.paths["/v1/provider-notifications/{provider}"].post.security.length === 0,
+  "/v1/provider-notifications/{provider} must authenticate by signature, not API key.",
+);
 
 function hasRequiredIdempotencyHeader(operation) {
   const parameters = operation?.parameters ?? [];
@@ -105,6 +125,8 @@ for (const [pathKey, method] of [
   ["/v1/payment-intents/{id}/confirm", "post"],
   ["/v1/payment-intents/{id}/capture", "post"],
   ["/v1/payment-intents/{id}/cancel", "post"],
+  ["/v1/payment-intents/{id}/resume", "post"],
+  ["/v1/payment-intents/{id}/review", "post"],
   ["/v1/refunds", "post"],
   ["/v1/chargebacks", "post"],
   ["/v1/chargebacks/{id}/resolve", "post"],
@@ -125,6 +147,8 @@ for (const [pathKey, method, successStatus] of [
   ["/v1/payment-intents/{id}/confirm", "post", "200"],
   ["/v1/payment-intents/{id}/capture", "post", "200"],
   ["/v1/payment-intents/{id}/cancel", "post", "200"],
+  ["/v1/payment-intents/{id}/resume", "post", "200"],
+  ["/v1/payment-intents/{id}/review", "post", "200"],
   ["/v1/refunds", "post", "201"],
   ["/v1/chargebacks", "post", "201"],
   ["/v1/chargebacks/{id}/resolve", "post", "200"],
@@ -154,6 +178,8 @@ for (const pathKey of [
   "/v1/payment-intents",
   "/v1/refunds",
   "/v1/chargebacks",
+  "/v1/reviews",
+  "/v1/intent-recoveries",
   "/v1/payment-events",
   "/v1/webhook-endpoints",
   "/v1/webhook-deliveries",
@@ -586,7 +612,7 @@ ensure(
   paymentIntentSchema?.properties?.payment_method_type?.type === "string",
   "OpenAPI schema 'PaymentIntent.payment_method_type' must be string.",
 );
-for (const field of ["authorized_amount", "captured_amount", "refunded_amount", "amount_refundable"]) {
+for (const field of ["authorized_amount", "captured_amount", "refunded_amount", "amount_refundable", "version"]) {
   ensure(
     paymentIntentSchema?.properties?.[field]?.type === "integer",
     `OpenAPI schema 'PaymentIntent.${field}' must be integer.`,
@@ -643,11 +669,16 @@ const requiredEvents = [
   "payment_intent.succeeded",
   "payment_intent.failed",
   "payment_intent.canceled",
+  "payment_intent.authorization_released",
   "refund.succeeded",
   "refund.failed",
   "chargeback.opened",
   "chargeback.won",
   "chargeback.lost",
+  "review.approved",
+  "review.rejected",
+  "review.canceled",
+  "provider.circuit_state_changed",
 ];
 ensure(
   Array.isArray(eventEnum) && requiredEvents.every((eventType) => eventEnum.includes(eventType)),
@@ -0,0 +1,62 @@
+CREATE TABLE IF NOT EXISTS pmc_webhook_endpoints (
+  id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  secret TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_endpoints_created_idx
+  ON pmc_webhook_endpoints (created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_endpoints_enabled_idx
+  ON pmc_webhook_endpoints (enabled);
+
+CREATE TABLE IF NOT EXISTS pmc_webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  endpoint_id TEXT NOT NULL REFERENCES pmc_webhook_endpoints (id),
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  attempt INTEGER NOT NULL CHECK (attempt > 0),
+  status TEXT NOT NULL,
+  response_status INTEGER NULL,
+  error_code TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  delivered_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_deliveries_created_idx
+  ON pmc_webhook_deliveries (created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_deliveries_endpoint_idx
+  ON pmc_webhook_deliveries (endpoint_id);
+
+CREATE TABLE IF NOT EXISTS pmc_webhook_dead_letters (
+  id TEXT PRIMARY KEY,
+  endpoint_id TEXT NOT NULL REFERENCES pmc_webhook_endpoints (id),
+  endpoint_url TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  attempts INTEGER NOT NULL CHECK (attempts > 0),
+  status TEXT NOT NULL,
+  replay_count INTEGER NOT NULL CHECK (replay_count >= 0),
+  failure_reason TEXT NOT NULL,
+  response_status INTEGER NULL,
+  error_code TEXT NULL,
+  failed_at TIMESTAMPTZ NOT NULL,
+  last_replayed_at TIMESTAMPTZ NULL,
+  event JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_dead_letters_failed_idx
+  ON pmc_webhook_dead_letters (failed_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_dead_letters_status_idx
+  ON pmc_webhook_dead_letters (status);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_dead_letters_event_type_idx
+  ON pmc_webhook_dead_letters (event_type);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_dead_letters_endpoint_idx
+  ON pmc_webhook_dead_letters (endpoint_id);
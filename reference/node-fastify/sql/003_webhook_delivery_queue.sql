@@ -0,0 +1,15 @@
+ALTER TABLE pmc_webhook_deliveries
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NULL;
+
+CREATE TABLE IF NOT EXISTS pmc_webhook_delivery_queue (
+  id TEXT PRIMARY KEY,
+  endpoint_id TEXT NOT NULL REFERENCES pmc_webhook_endpoints (id),
+  event JSONB NOT NULL,
+  attempt INTEGER NOT NULL CHECK (attempt > 0),
+  next_attempt_at TIMESTAMPTZ NOT NULL,
+  leased_until TIMESTAMPTZ NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS pmc_webhook_delivery_queue_due_idx
+  ON pmc_webhook_delivery_queue (next_attempt_at ASC, id ASC);
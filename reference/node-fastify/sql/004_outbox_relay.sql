@@ -0,0 +1,3 @@
+CREATE INDEX IF NOT EXISTS pmc_outbox_unpublished_idx
+  ON pmc_outbox_events (id)
+  WHERE published_at IS NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE pmc_payment_intents
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,6 @@
+ALTER TABLE pmc_payment_intents
+  ADD COLUMN IF NOT EXISTS authorization_expires_at TIMESTAMPTZ NULL;
+
+CREATE INDEX IF NOT EXISTS pmc_payment_intents_authorization_expires_at_idx
+  ON pmc_payment_intents (authorization_expires_at)
+  WHERE status = 'requires_action' AND authorization_expires_at IS NOT NULL;
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS pmc_payment_reviews (
+  id TEXT PRIMARY KEY,
+  payment_intent_id TEXT NOT NULL UNIQUE REFERENCES pmc_payment_intents (id),
+  status TEXT NOT NULL,
+  risk_reason TEXT NOT NULL,
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  currency CHAR(3) NOT NULL,
+  customer_id TEXT NOT NULL,
+  note TEXT NULL,
+  decided_at TIMESTAMPTZ NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS pmc_payment_reviews_created_idx
+  ON pmc_payment_reviews (created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS pmc_payment_reviews_status_idx
+  ON pmc_payment_reviews (status);
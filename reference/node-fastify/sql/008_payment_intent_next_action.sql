@@ -0,0 +1,2 @@
+ALTER TABLE pmc_payment_intents
+  ADD COLUMN IF NOT EXISTS next_action JSONB NULL;
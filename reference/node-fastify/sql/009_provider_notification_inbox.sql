@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS pmc_provider_notifications (
+  provider TEXT NOT NULL,
+  notification_id TEXT NOT NULL,
+  payment_intent_id TEXT NOT NULL REFERENCES pmc_payment_intents (id),
+  status TEXT NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (provider, notification_id)
+);
+
+CREATE INDEX IF NOT EXISTS pmc_provider_notifications_payment_intent_idx
+  ON pmc_provider_notifications (payment_intent_id);
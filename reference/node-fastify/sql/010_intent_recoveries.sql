@@ -0,0 +1,21 @@
+CREATE INDEX IF NOT EXISTS pmc_payment_intents_processing_updated_idx
+  ON pmc_payment_intents (updated_at)
+  WHERE status = 'processing';
+
+CREATE TABLE IF NOT EXISTS pmc_intent_recoveries (
+  id TEXT PRIMARY KEY,
+  payment_intent_id TEXT NOT NULL REFERENCES pmc_payment_intents (id),
+  provider TEXT NULL,
+  provider_reference TEXT NULL,
+  provider_status TEXT NOT NULL,
+  resolved_status TEXT NOT NULL,
+  failure_code TEXT NULL,
+  stuck_since TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS pmc_intent_recoveries_created_idx
+  ON pmc_intent_recoveries (created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS pmc_intent_recoveries_payment_intent_idx
+  ON pmc_intent_recoveries (payment_intent_id);
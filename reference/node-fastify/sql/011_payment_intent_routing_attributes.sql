@@ -0,0 +1,3 @@
+ALTER TABLE pmc_payment_intents
+  ADD COLUMN IF NOT EXISTS card_bin_country CHAR(2) NULL,
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
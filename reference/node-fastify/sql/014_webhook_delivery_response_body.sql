@@ -0,0 +1,2 @@
+ALTER TABLE pmc_webhook_deliveries
+  ADD COLUMN IF NOT EXISTS response_body TEXT NULL;
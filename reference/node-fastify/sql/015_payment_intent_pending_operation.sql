@@ -0,0 +1,2 @@
+ALTER TABLE pmc_payment_intents
+  ADD COLUMN IF NOT EXISTS pending_operation TEXT NULL;
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS pmc_circuit_overrides (
+  id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  state TEXT NOT NULL,
+  ttl_seconds INTEGER NOT NULL,
+  forced_until TIMESTAMPTZ NOT NULL,
+  reason TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS pmc_circuit_overrides_created_idx
+  ON pmc_circuit_overrides (created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS pmc_circuit_overrides_provider_idx
+  ON pmc_circuit_overrides (provider, created_at DESC);
@@ -0,0 +1,126 @@
+import type { Redis } from "ioredis";
+import type { Pool } from "pg";
+import { PeriodicTask } from "../../infra/periodic-task.js";
+
+interface OutboxRelayOptions {
+  streamKey: string;
+  batchSize: number;
+  pollIntervalMs: number;
+  /**
+   * Rows younger than this are left to the inline publish that inserted them,
+   * so the relay only picks up events whose XADD was lost.
+   */
+  minAgeMs: number;
+  onPass?: (stats: OutboxRelayPassStats) => void;
+}
+
+export interface OutboxRelayPassStats {
+  relayed: number;
+  pending: number;
+  lagSeconds: number;
+}
+
+interface UnpublishedOutboxRow {
+  event_id: string;
+  payload: unknown;
+}
+
+/**
+ * Republishes outbox rows that never reached the stream (Redis outage, crash
+ * between INSERT and XADD). Consumers dedupe through the inbox table, so a
+ * row relayed twice is delivered once.
+ */
+export class PgRedisOutboxRelay {
+  // A failed pass (Redis or PostgreSQL unavailable) leaves rows unpublished for the next one.
+  private readonly task: PeriodicTask;
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly redis: Redis,
+    private readonly options: OutboxRelayOptions,
+  ) {
+    this.task = new PeriodicTask({
+      intervalMs: options.pollIntervalMs,
+      runPass: async () => {
+        const stats = await this.relayBatch();
+        this.options.onPass?.(stats);
+        // A full batch likely left more rows behind; relay them without waiting.
+        return stats.relayed >= this.options.batchSize;
+      },
+    });
+  }
+
+  start(): void {
+    this.task.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.task.stop();
+  }
+
+  /**
+   * Relays one batch and reports the remaining backlog. Rows stay locked until
+   * their stream ids are stamped, so concurrent relays never pick the same row.
+   */
+  async relayBatch(): Promise<OutboxRelayPassStats> {
+    const client = await this.pool.connect();
+    let relayed = 0;
+    try {
+      await client.query("BEGIN");
+      const result = await client.query<UnpublishedOutboxRow>(
+        `
+          SELECT event_id, payload
+          FROM pmc_outbox_events
+          WHERE published_at IS NULL
+            AND created_at <= NOW() - ($1::int * INTERVAL '1 millisecond')
+          ORDER BY id
+          LIMIT $2
+          FOR UPDATE SKIP LOCKED
+        `,
+        [this.options.minAgeMs, this.options.batchSize],
+      );
+
+      for (const row of result.rows) {
+        const streamId = await this.redis.xadd(
+          this.options.streamKey,
+          "*",
+          "event_id",
+          row.event_id,
+          "event_json",
+          JSON.stringify(row.payload),
+        );
+        await client.query(
+          `
+            UPDATE pmc_outbox_events
+            SET published_at = NOW(),
+                stream_id = $2
+            WHERE event_id = $1
+          `,
+          [row.event_id, streamId],
+        );
+        relayed += 1;
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const backlog = await this.pool.query<{ pending: number; lag_seconds: number | string | null }>(
+      `
+        SELECT COUNT(*)::int AS pending,
+               EXTRACT(EPOCH FROM NOW() - MIN(created_at)) AS lag_seconds
+        FROM pmc_outbox_events
+        WHERE published_at IS NULL
+      `,
+    );
+    const row = backlog.rows[0];
+    return {
+      relayed,
+      pending: row?.pending ?? 0,
+      lagSeconds: Math.max(0, Number(row?.lag_seconds ?? 0)),
+    };
+  }
+}
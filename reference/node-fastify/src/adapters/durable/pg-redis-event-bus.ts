@@ -1,8 +1,15 @@
 import type { Redis } from "ioredis";
-import type { Pool } from "pg";
-import type { PaymentEvent } from "../../domain/types.js";
+import type { Pool, PoolClient } from "pg";
+import type { EventDeadLetterRecord, PaymentEvent } from "../../domain/types.js";
 import { AppError } from "../../infra/app-error.js";
-import type { EventBusPort, PaymentEventListInput, PaymentEventListResult } from "../../ports/event-bus.js";
+import type {
+  EventBusPort,
+  EventDeadLetterListInput,
+  EventDeadLetterListResult,
+  PaymentEventListInput,
+  PaymentEventListResult,
+} from "../../ports/event-bus.js";
+import { decodeKeysetCursor, keysetTimestampSql, toKeysetPage } from "../postgres/keyset-cursor.js";
 
 interface PgRedisEventBusOptions {
   streamKey: string;
@@ -10,11 +17,19 @@ interface PgRedisEventBusOptions {
   consumerName: string;
   blockMs: number;
   batchSize: number;
+  deadLetterStreamKey?: string;
+  claimIdleMs?: number;
+  claimIntervalMs?: number;
+  maxDeliveries?: number;
 }
 
 type StreamMessageFields = string[];
 type StreamMessage = [string, StreamMessageFields];
 type StreamResponse = [string, StreamMessage[]];
+type AutoClaimResponse = [string, Array<StreamMessage | null>, string[]?];
+type PendingEntry = [string, string, number, number];
+
+const streamEntryIdPattern = /^\d+-\d+$/;
 
 function fieldValue(fields: StreamMessageFields, name: string): string | undefined {
   for (let index = 0; index < fields.length; index += 2) {
@@ -30,6 +45,7 @@ export class PgRedisDurableEventBus implements EventBusPort {
   private readonly consumerRedis: Redis;
   private running = false;
   private consumerLoopPromise: Promise<void> | null = null;
+  private lastClaimAt = 0;
 
   constructor(
     private readonly pool: Pool,
@@ -40,9 +56,22 @@ export class PgRedisDurableEventBus implements EventBusPort {
     this.consumerRedis = this.redis.duplicate();
   }
 
+  private get deadLetterStreamKey(): string {
+    return this.options.deadLetterStreamKey ?? `${this.options.streamKey}:dead`;
+  }
+
   async publish(event: PaymentEvent): Promise<void> {
+    await this.stageEvent(this.pool, event);
+    await this.publishStaged(event);
+  }
+
+  /**
+   * Inserts the outbox row through `queryable`, e.g. a unit-of-work
+   * transaction, without touching the stream.
+   */
+  async stageEvent(queryable: Pool | PoolClient, event: PaymentEvent): Promise<void> {
     const paymentIntentId = typeof event.data.payment_intent_id === "string" ? event.data.payment_intent_id : null;
-    await this.pool.query(
+    await queryable.query(
       `
         INSERT INTO pmc_outbox_events (
           event_id,
@@ -56,15 +85,26 @@ export class PgRedisDurableEventBus implements EventBusPort {
       `,
       [event.id, event.type, paymentIntentId, event.occurred_at, JSON.stringify(event)],
     );
+  }
 
-    const streamId = await this.redis.xadd(
-      this.options.streamKey,
-      "*",
-      "event_id",
-      event.id,
-      "event_json",
-      JSON.stringify(event),
-    );
+  /**
+   * Pushes a committed outbox row to the stream and stamps it as published.
+   */
+  async publishStaged(event: PaymentEvent): Promise<void> {
+    let streamId: string | null;
+    try {
+      streamId = await this.redis.xadd(
+        this.options.streamKey,
+        "*",
+        "event_id",
+        event.id,
+        "event_json",
+        JSON.stringify(event),
+      );
+    } catch {
+      // The outbox row is committed; the outbox relay republishes it once Redis is back.
+      return;
+    }
 
     await this.pool.query(
       `
@@ -112,39 +152,107 @@ export class PgRedisDurableEventBus implements EventBusPort {
       index += 1;
     }
 
-    const result = await this.pool.query<{ event_id: string; payload: PaymentEvent }>(
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(occurred_at, event_id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
+    const result = await this.pool.query<{ event_id: string; payload: PaymentEvent; keyset_at: string }>(
       `
-        SELECT event_id, payload
+        SELECT event_id, payload, ${keysetTimestampSql("occurred_at")}
         FROM pmc_outbox_events
         WHERE ${conditions.join(" AND ")}
         ORDER BY occurred_at DESC, event_id DESC
+        LIMIT $${index}
       `,
       values,
     );
-    const items = result.rows.map((row) => row.payload);
-    const limit = Math.max(1, input.limit);
-    let startIndex = 0;
-
-    if (input.cursor) {
-      const cursorIndex = items.findIndex((item) => item.id === input.cursor);
-      if (cursorIndex < 0) {
-        throw new AppError(422, "invalid_cursor", "cursor not found for current collection.");
-      }
-      startIndex = cursorIndex + 1;
-    }
+    return toKeysetPage(result.rows, limit, (row) => row.payload);
+  }
 
-    const page = items.slice(startIndex, startIndex + limit);
-    const hasMore = startIndex + page.length < items.length;
+  async listDeadLetters(input: EventDeadLetterListInput): Promise<EventDeadLetterListResult> {
+    const limit = Math.max(1, input.limit);
+    // Exclusive range start keeps the cursor entry itself off the next page.
+    const end = input.cursor ? `(${this.assertStreamEntryId(input.cursor)}` : "+";
+    const entries = (await this.redis.xrevrange(
+      this.deadLetterStreamKey,
+      end,
+      "-",
+      "COUNT",
+      limit + 1,
+    )) as StreamMessage[];
+    const page = entries.slice(0, limit).map(([id, fields]) => this.toDeadLetterRecord(id, fields));
+    const hasMore = entries.length > limit;
     const lastItem = page.at(-1);
-    const nextCursor = hasMore && lastItem ? lastItem.id : undefined;
-
     return {
       data: page,
       hasMore,
-      ...(nextCursor ? { nextCursor } : {}),
+      ...(hasMore && lastItem ? { nextCursor: lastItem.id } : {}),
     };
   }
 
+  async requeueDeadLetter(id: string): Promise<EventDeadLetterRecord> {
+    const entryId = this.assertStreamEntryId(id);
+    const entries = (await this.redis.xrange(this.deadLetterStreamKey, entryId, entryId)) as StreamMessage[];
+    const entry = entries[0];
+    if (!entry) {
+      throw new AppError(404, "resource_not_found", "Event dead letter not found.");
+    }
+    const deadLetter = this.toDeadLetterRecord(entry[0], entry[1]);
+    await this.redis.xadd(
+      this.options.streamKey,
+      "*",
+      "event_id",
+      deadLetter.event_id,
+      "event_json",
+      JSON.stringify(deadLetter.event),
+    );
+    await this.redis.xdel(this.deadLetterStreamKey, entryId);
+    return deadLetter;
+  }
+
+  /**
+   * Takes over entries that another consumer (or an earlier failed pass)
+   * read but never acked once they sat idle for `claimIdleMs`. Entries past
+   * the delivery ceiling are parked in the dead-letter stream instead.
+   */
+  async reclaimPending(): Promise<number> {
+    let start = "0-0";
+    let reclaimed = 0;
+    do {
+      const [nextStart, messages] = (await this.consumerRedis.xautoclaim(
+        this.options.streamKey,
+        this.options.consumerGroup,
+        this.options.consumerName,
+        this.options.claimIdleMs ?? 60000,
+        start,
+        "COUNT",
+        this.options.batchSize,
+      )) as AutoClaimResponse;
+
+      for (const message of messages) {
+        // Entries trimmed from the stream come back as null; XAUTOCLAIM already dropped them from the PEL.
+        if (!message) {
+          continue;
+        }
+        const [streamEntryId, fields] = message;
+        const deliveryCount = await this.deliveryCount(streamEntryId);
+        if (deliveryCount > (this.options.maxDeliveries ?? 5)) {
+          await this.moveToDeadLetters(streamEntryId, fields, deliveryCount);
+        } else {
+          await this.handleStreamEntry(streamEntryId, fields);
+        }
+        reclaimed += 1;
+      }
+      start = nextStart;
+    } while (start !== "0-0" && this.running);
+    return reclaimed;
+  }
+
   async close(): Promise<void> {
     this.running = false;
     if (this.consumerLoopPromise) {
@@ -162,6 +270,7 @@ export class PgRedisDurableEventBus implements EventBusPort {
         continue;
       }
       try {
+        await this.reclaimIfDue();
         const response = (await this.consumerRedis.xreadgroup(
           "GROUP",
           this.options.consumerGroup,
@@ -181,18 +290,7 @@ export class PgRedisDurableEventBus implements EventBusPort {
 
         for (const [, messages] of response) {
           for (const [streamEntryId, fields] of messages) {
-            const eventJson = fieldValue(fields, "event_json");
-            const eventId = fieldValue(fields, "event_id");
-            if (!eventJson || !eventId) {
-              await this.consumerRedis.xack(this.options.streamKey, this.options.consumerGroup, streamEntryId);
-              continue;
-            }
-
-            const event = JSON.parse(eventJson) as PaymentEvent;
-            const processed = await this.processWithInbox(event);
-            if (processed) {
-              await this.consumerRedis.xack(this.options.streamKey, this.options.consumerGroup, streamEntryId);
-            }
+            await this.handleStreamEntry(streamEntryId, fields);
           }
         }
       } catch {
@@ -201,6 +299,94 @@ export class PgRedisDurableEventBus implements EventBusPort {
     }
   }
 
+  private async reclaimIfDue(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastClaimAt < (this.options.claimIntervalMs ?? 5000)) {
+      return;
+    }
+    this.lastClaimAt = now;
+    await this.reclaimPending();
+  }
+
+  /**
+   * Unacked entries stay in the group's pending list, so a failed subscriber
+   * is retried by the next reclaim pass once the entry has been idle long enough.
+   */
+  private async handleStreamEntry(streamEntryId: string, fields: StreamMessageFields): Promise<void> {
+    const eventJson = fieldValue(fields, "event_json");
+    const eventId = fieldValue(fields, "event_id");
+    if (!eventJson || !eventId) {
+      await this.consumerRedis.xack(this.options.streamKey, this.options.consumerGroup, streamEntryId);
+      return;
+    }
+
+    const event = JSON.parse(eventJson) as PaymentEvent;
+    const processed = await this.processWithInbox(event);
+    if (processed) {
+      await this.consumerRedis.xack(this.options.streamKey, this.options.consumerGroup, streamEntryId);
+    }
+  }
+
+  private async deliveryCount(streamEntryId: string): Promise<number> {
+    const pending = (await this.consumerRedis.xpending(
+      this.options.streamKey,
+      this.options.consumerGroup,
+      streamEntryId,
+      streamEntryId,
+      1,
+    )) as PendingEntry[];
+    return Number(pending[0]?.[3] ?? 1);
+  }
+
+  private async moveToDeadLetters(
+    streamEntryId: string,
+    fields: StreamMessageFields,
+    deliveryCount: number,
+  ): Promise<void> {
+    const eventJson = fieldValue(fields, "event_json");
+    const eventId = fieldValue(fields, "event_id");
+    if (eventJson && eventId) {
+      const event = JSON.parse(eventJson) as PaymentEvent;
+      await this.consumerRedis.xadd(
+        this.deadLetterStreamKey,
+        "*",
+        "event_id",
+        eventId,
+        "event_type",
+        event.type,
+        "event_json",
+        eventJson,
+        "stream_id",
+        streamEntryId,
+        "delivery_count",
+        String(deliveryCount),
+        "failed_at",
+        new Date().toISOString(),
+      );
+    }
+    await this.consumerRedis.xack(this.options.streamKey, this.options.consumerGroup, streamEntryId);
+  }
+
+  private toDeadLetterRecord(id: string, fields: StreamMessageFields): EventDeadLetterRecord {
+    const event = JSON.parse(fieldValue(fields, "event_json") ?? "{}") as PaymentEvent;
+    return {
+      id,
+      event_id: fieldValue(fields, "event_id") ?? event.id,
+      event_type: event.type,
+      stream_id: fieldValue(fields, "stream_id") ?? "",
+      delivery_count: Number(fieldValue(fields, "delivery_count") ?? 0),
+      failed_at: fieldValue(fields, "failed_at") ?? "",
+      event,
+    };
+  }
+
+  private assertStreamEntryId(id: string): string {
+    if (!streamEntryIdPattern.test(id)) {
+      throw new AppError(404, "resource_not_found", "Event dead letter not found.");
+    }
+    return id;
+  }
+
   private async processWithInbox(event: PaymentEvent): Promise<boolean> {
     const insertResult = await this.pool.query(
       `
@@ -249,5 +435,4 @@ export class PgRedisDurableEventBus implements EventBusPort {
       }
     }
   }
-
 }
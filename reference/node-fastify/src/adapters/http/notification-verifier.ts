@@ -0,0 +1,74 @@
+import { AppError } from "../../infra/app-error.js";
+import type { ClockPort } from "../../infra/clock.js";
+import type { HttpNotificationMapping } from "../../infra/http-provider-config.js";
+import { verifyNotificationSignature } from "../../infra/notification-signature.js";
+import type {
+  ProviderNotification,
+  ProviderNotificationRequest,
+  ProviderNotificationStatus,
+  ProviderNotificationVerifierPort,
+} from "../../ports/provider-notification.js";
+import { readPath, scalar } from "./provider-gateway.js";
+
+function invalidPayload(message: string): AppError {
+  return new AppError(422, "invalid_notification_payload", message);
+}
+
+/**
+ * Verifies the notifications of an HTTP provider with the secret and headers
+ * of its `notifications` entry, then reads id, reference, status and failure
+ * code from the body through the entry's field mapping.
+ */
+export class HttpNotificationVerifier implements ProviderNotificationVerifierPort {
+  constructor(
+    public readonly provider: string,
+    private readonly mapping: HttpNotificationMapping,
+    private readonly clock: ClockPort,
+  ) {}
+
+  verify(request: ProviderNotificationRequest): ProviderNotification {
+    verifyNotificationSignature(request.headers, request.rawBody, {
+      secret: this.mapping.secret.reveal(),
+      signatureHeader: this.mapping.signatureHeader,
+      timestampHeader: this.mapping.timestampHeader,
+      toleranceSeconds: this.mapping.toleranceSeconds,
+      clock: this.clock,
+    });
+    return this.parse(request.rawBody);
+  }
+
+  private parse(rawBody: string): ProviderNotification {
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      throw invalidPayload("Notification body must be valid JSON.");
+    }
+
+    const id = scalar(readPath(body, this.mapping.id));
+    if (!id || id.length > 128) {
+      throw invalidPayload(`Notification field '${this.mapping.id}' must hold an id with 1..128 chars.`);
+    }
+    const reference = scalar(readPath(body, this.mapping.reference));
+    if (!reference) {
+      throw invalidPayload(`Notification field '${this.mapping.reference}' must hold the provider reference.`);
+    }
+    const rawStatus = scalar(readPath(body, this.mapping.status));
+    let status: ProviderNotificationStatus;
+    if (rawStatus !== undefined && this.mapping.succeededValues.includes(rawStatus)) {
+      status = "succeeded";
+    } else if (rawStatus !== undefined && this.mapping.failedValues.includes(rawStatus)) {
+      status = "failed";
+    } else {
+      throw invalidPayload("Notification status is not supported.");
+    }
+    const failureCode = this.mapping.failureCode ? scalar(readPath(body, this.mapping.failureCode)) : undefined;
+
+    return {
+      id,
+      providerReference: reference,
+      status,
+      ...(failureCode ? { failureCode } : {}),
+    };
+  }
+}
@@ -0,0 +1,308 @@
+import { Agent, request } from "undici";
+import { normalizeDeclineCode } from "../../domain/decline-codes.js";
+import type { DeclineCode } from "../../domain/decline-codes.js";
+import type { PaymentMethodType } from "../../domain/types.js";
+import { AppError } from "../../infra/app-error.js";
+import type {
+  HttpOperationMapping,
+  HttpProviderConfig,
+  HttpProviderOperation,
+  HttpRequestSource,
+} from "../../infra/http-provider-config.js";
+import { redactSecrets } from "../../infra/secret.js";
+import type {
+  AuthorizeInput,
+  AuthorizeResult,
+  CaptureInput,
+  CaptureResult,
+  CompleteAuthorizationInput,
+  ProviderCallOptions,
+  ProviderGatewayPort,
+  ProviderStatusResult,
+  RefundInput,
+  RefundResult,
+  ReverseAuthorizationInput,
+  ReverseAuthorizationResult,
+} from "../../ports/provider-gateway.js";
+
+interface HttpProviderGatewayOptions {
+  // Responses are parsed in memory, so larger bodies are treated as invalid.
+  maxResponseBodyBytes?: number;
+}
+
+interface OperationOutcome {
+  ok: boolean;
+  reference?: string;
+  failureCode?: string;
+}
+
+const TRANSIENT_FAILURE = "transient_network_error";
+const INVALID_RESPONSE = "invalid_provider_response";
+const unreadableBody = Symbol("unreadableBody");
+
+export function readPath(document: unknown, path: string): unknown {
+  let current = document;
+  for (const segment of path.split(".")) {
+    if (!current || typeof current !== "object" || Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function writePath(document: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split(".");
+  let current = document;
+  for (const segment of segments.slice(0, -1)) {
+    const next = current[segment];
+    if (!next || typeof next !== "object" || Array.isArray(next)) {
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  }
+  current[segments[segments.length - 1] ?? path] = value;
+}
+
+export function scalar(value: unknown): string | undefined {
+  if (typeof value === "string" && value.length > 0) {
+    return value;
+  }
+  return typeof value === "number" || typeof value === "boolean" ? String(value) : undefined;
+}
+
+/**
+ * Talks to an acquirer's JSON API as described by its `providers` entry: each
+ * operation maps call inputs onto request body fields and reads the reference,
+ * status and failure code back from the response. HTTP statuses without a
+ * failure code in the body go through `status_codes`, and every raw code is
+ * normalized with the provider's `decline_codes`.
+ *
+ * The API key is only revealed when the request is sent and is scrubbed from
+ * anything the provider sends back, so it cannot reach intents, logs or errors.
+ */
+export class HttpProviderGateway implements ProviderGatewayPort {
+  public readonly name: string;
+  private readonly supportedMethods: Set<PaymentMethodType>;
+  private readonly agent = new Agent({ keepAliveTimeout: 10_000 });
+  private readonly maxResponseBodyBytes: number;
+
+  constructor(
+    private readonly config: HttpProviderConfig,
+    options: HttpProviderGatewayOptions = {},
+  ) {
+    this.name = config.name;
+    this.supportedMethods = new Set(config.supportedMethods);
+    this.maxResponseBodyBytes = options.maxResponseBodyBytes ?? 65_536;
+  }
+
+  supports(paymentMethod: PaymentMethodType): boolean {
+    return this.supportedMethods.has(paymentMethod);
+  }
+
+  async authorize(input: AuthorizeInput, options?: ProviderCallOptions): Promise<AuthorizeResult> {
+    const outcome = await this.call("authorize", {
+      amount: input.amount,
+      currency: input.currency,
+      payment_method_type: input.paymentMethodType,
+      payment_method_token: input.paymentMethodToken,
+      merchant_reference: input.merchantReference,
+    }, options);
+    return {
+      ok: outcome.ok,
+      // Without a provider id the merchant reference is the only handle left on the payment.
+      reference: outcome.reference ?? input.merchantReference,
+      ...(outcome.ok ? {} : this.failure(outcome)),
+    };
+  }
+
+  // Mapped providers never return a next action, so there is nothing to complete.
+  async completeAuthorization(input: CompleteAuthorizationInput): Promise<AuthorizeResult> {
+    void input;
+    throw this.unsupported("completing customer actions");
+  }
+
+  /**
+   * Runs the `operations.status` lookup. A 404 means the provider never saw
+   * the payment; errors and unmapped statuses throw, since no answer is not
+   * the same as a declined payment.
+   */
+  async getStatus(reference: string, options?: ProviderCallOptions): Promise<ProviderStatusResult> {
+    const mapping = this.config.statusLookup;
+    if (!mapping) {
+      throw this.unsupported("status lookups");
+    }
+
+    let response: { statusCode: number; document: unknown };
+    try {
+      response = await this.send(
+        mapping.method,
+        mapping.path.replace("{reference}", encodeURIComponent(reference)),
+        undefined,
+        options,
+      );
+    } catch {
+      throw this.statusUnavailable();
+    }
+    const { statusCode, document } = response;
+    if (statusCode === 404) {
+      return { status: "not_found" };
+    }
+    if (statusCode < 200 || statusCode >= 300 || document === unreadableBody) {
+      throw this.statusUnavailable();
+    }
+
+    const status = scalar(readPath(document, mapping.status));
+    const providerReference = mapping.reference ? scalar(readPath(document, mapping.reference)) : undefined;
+    const withReference = providerReference ? { reference: this.redact(providerReference) } : {};
+    if (status !== undefined && mapping.authorizedValues.includes(status)) {
+      return { status: "authorized", ...withReference };
+    }
+    if (status !== undefined && mapping.pendingValues.includes(status)) {
+      return { status: "pending", ...withReference };
+    }
+    if (status !== undefined && mapping.failedValues.includes(status)) {
+      const failureCode = (mapping.failureCode ? scalar(readPath(document, mapping.failureCode)) : undefined) ?? status;
+      return { status: "failed", ...withReference, ...this.failure({ ok: false, failureCode }) };
+    }
+    throw this.statusUnavailable();
+  }
+
+  async capture(input: CaptureInput, options?: ProviderCallOptions): Promise<CaptureResult> {
+    return this.settle(await this.call("capture", input, options, input.idempotencyKey));
+  }
+
+  async refund(input: RefundInput, options?: ProviderCallOptions): Promise<RefundResult> {
+    return this.settle(await this.call("refund", input, options, input.idempotencyKey));
+  }
+
+  async reverseAuthorization(
+    input: ReverseAuthorizationInput,
+    options?: ProviderCallOptions,
+  ): Promise<ReverseAuthorizationResult> {
+    return this.settle(await this.call("void", input, options, input.idempotencyKey));
+  }
+
+  async close(): Promise<void> {
+    await this.agent.close();
+  }
+
+  private settle(outcome: OperationOutcome): { ok: boolean; failureCode?: string; declineCode?: DeclineCode } {
+    return { ok: outcome.ok, ...(outcome.ok ? {} : this.failure(outcome)) };
+  }
+
+  private async call(
+    operation: HttpProviderOperation,
+    inputs: Partial<Record<HttpRequestSource, string | number>>,
+    options: ProviderCallOptions | undefined,
+    idempotencyKey?: string,
+  ): Promise<OperationOutcome> {
+    const mapping = this.config.operations[operation];
+    const body: Record<string, unknown> = {};
+    for (const [field, source] of Object.entries(mapping.body)) {
+      writePath(body, field, inputs[source]);
+    }
+    const path = mapping.path.replace("{reference}", encodeURIComponent(String(inputs.reference ?? "")));
+
+    let response: { statusCode: number; document: unknown };
+    try {
+      response = await this.send(mapping.method, path, body, options, idempotencyKey);
+    } catch {
+      // The underlying error may quote the request, so only its kind is kept.
+      return { ok: false, failureCode: options?.signal?.aborted ? "timeout" : TRANSIENT_FAILURE };
+    }
+    return this.interpret(mapping, response.statusCode, response.document);
+  }
+
+  private async send(
+    method: HttpOperationMapping["method"] | "GET",
+    path: string,
+    body: Record<string, unknown> | undefined,
+    options: ProviderCallOptions | undefined,
+    idempotencyKey?: string,
+  ): Promise<{ statusCode: number; document: unknown }> {
+    const { header, scheme, apiKey } = this.config.auth;
+    const response = await request(`${this.config.endpoint}${path}`, {
+      method,
+      headers: {
+        ...(body ? { "content-type": "application/json" } : {}),
+        accept: "application/json",
+        ...(idempotencyKey ? { "idempotency-key": idempotencyKey } : {}),
+        [header]: scheme ? `${scheme} ${apiKey.reveal()}` : apiKey.reveal(),
+      },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+      dispatcher: this.agent,
+      ...(options?.signal ? { signal: options.signal } : {}),
+    });
+    return { statusCode: response.statusCode, document: await this.readBody(response.body) };
+  }
+
+  private interpret(mapping: HttpOperationMapping, statusCode: number, document: unknown): OperationOutcome {
+    const { response } = mapping;
+    const reference = response.reference ? scalar(readPath(document, response.reference)) : undefined;
+    const bodyFailureCode = response.failureCode ? scalar(readPath(document, response.failureCode)) : undefined;
+    const withReference = reference ? { reference: this.redact(reference) } : {};
+
+    if (statusCode < 200 || statusCode >= 300) {
+      return { ok: false, ...withReference, failureCode: bodyFailureCode ?? this.failureForStatus(statusCode) };
+    }
+    if (document === unreadableBody) {
+      return { ok: false, failureCode: INVALID_RESPONSE };
+    }
+    if (response.status) {
+      const status = scalar(readPath(document, response.status));
+      if (!status || !response.successValues.includes(status)) {
+        return { ok: false, ...withReference, failureCode: bodyFailureCode ?? status ?? INVALID_RESPONSE };
+      }
+    }
+    return { ok: true, ...withReference };
+  }
+
+  private failureForStatus(statusCode: number): string {
+    const configured = this.config.statusCodes[String(statusCode)]
+      ?? this.config.statusCodes[`${Math.floor(statusCode / 100)}xx`];
+    if (configured) {
+      return configured;
+    }
+    return statusCode === 429 || statusCode >= 500 ? "provider_unavailable" : `http_${statusCode}`;
+  }
+
+  private failure(outcome: OperationOutcome): { failureCode: string; declineCode: DeclineCode } {
+    const failureCode = this.redact(outcome.failureCode ?? INVALID_RESPONSE);
+    return { failureCode, declineCode: normalizeDeclineCode(failureCode, this.config.declineCodes) };
+  }
+
+  private redact(text: string): string {
+    return redactSecrets(text, [this.config.auth.apiKey]);
+  }
+
+  private async readBody(body: AsyncIterable<Buffer> & { destroy(): unknown }): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of body) {
+      received += chunk.length;
+      if (received > this.maxResponseBodyBytes) {
+        body.destroy();
+        return unreadableBody;
+      }
+      chunks.push(chunk);
+    }
+    const text = Buffer.concat(chunks).toString("utf8").trim();
+    if (text.length === 0) {
+      return {};
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return unreadableBody;
+    }
+  }
+
+  private statusUnavailable(): AppError {
+    return new AppError(502, "provider_status_unavailable", `Provider '${this.name}' gave no usable status answer.`);
+  }
+
+  private unsupported(feature: string): AppError {
+    return new AppError(501, "provider_operation_not_supported", `Provider '${this.name}' does not support ${feature}.`);
+  }
+}
@@ -0,0 +1,205 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { Agent, request } from "undici";
+import type { WebhookSendInput, WebhookSendResult, WebhookSenderPort } from "../../ports/webhook-sender.js";
+
+export type WebhookHostResolver = (hostname: string) => Promise<LookupAddress[]>;
+
+export interface HttpWebhookSenderOptions {
+  requireHttps: boolean;
+  allowPrivateNetworks: boolean;
+  maxResponseBodyBytes: number;
+  resolveHost?: WebhookHostResolver;
+}
+
+const TRANSIENT_FAILURE = "transient_webhook_error";
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // Unspecified, loopback and IPv4-compatible (::a.b.c.d) addresses.
+  ["::", 96],
+  // NAT64 prefixes translate to the embedded IPv4 address, which may be internal.
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const ipv4MappedPattern = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+export function isBlockedWebhookAddress(address: string): boolean {
+  const mapped = ipv4MappedPattern.exec(address);
+  if (mapped?.[1]) {
+    return blockedAddresses.check(mapped[1], "ipv4");
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+class WebhookTargetBlockedError extends Error {
+  readonly code = "webhook_target_blocked";
+}
+
+function defaultResolveHost(hostname: string): Promise<LookupAddress[]> {
+  return new Promise((resolve, reject) => {
+    dnsLookup(hostname, { all: true }, (error, addresses) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(addresses);
+    });
+  });
+}
+
+function isTargetBlockedError(error: unknown): boolean {
+  let current: unknown = error;
+  for (let depth = 0; depth < 5 && current instanceof Error; depth += 1) {
+    if (current instanceof WebhookTargetBlockedError) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+function failureForStatus(statusCode: number): WebhookSendResult {
+  if (statusCode === 429) {
+    return { ok: false, statusCode, errorCode: "rate_limited" };
+  }
+  if (statusCode >= 400 && statusCode < 500) {
+    return { ok: false, statusCode, errorCode: "invalid_webhook_request" };
+  }
+  return { ok: false, statusCode, errorCode: TRANSIENT_FAILURE };
+}
+
+/**
+ * Delivers webhooks over HTTP(S). Addresses are checked inside the socket
+ * lookup, so the address that gets connected is the one that was validated
+ * (a second DNS answer cannot rebind the request to an internal host).
+ */
+export class HttpWebhookSender implements WebhookSenderPort {
+  private readonly agent: Agent;
+  private readonly resolveHost: WebhookHostResolver;
+
+  constructor(private readonly options: HttpWebhookSenderOptions) {
+    this.resolveHost = options.resolveHost ?? defaultResolveHost;
+    this.agent = new Agent({ connect: { lookup: this.safeLookup } });
+  }
+
+  async send(input: WebhookSendInput): Promise<WebhookSendResult> {
+    let target: URL;
+    try {
+      target = new URL(input.url);
+    } catch {
+      return { ok: false, errorCode: "invalid_webhook_url" };
+    }
+    if (target.protocol !== "https:" && target.protocol !== "http:") {
+      return { ok: false, errorCode: "invalid_webhook_url" };
+    }
+    if (target.protocol === "http:" && this.options.requireHttps) {
+      return { ok: false, errorCode: "insecure_webhook_url" };
+    }
+
+    // Sockets skip the lookup for IP literals, so those are checked here.
+    const literalHost = target.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (isIP(literalHost) !== 0 && !this.options.allowPrivateNetworks && isBlockedWebhookAddress(literalHost)) {
+      return { ok: false, errorCode: "webhook_target_blocked" };
+    }
+
+    const signal = AbortSignal.timeout(input.timeoutMs);
+    try {
+      const response = await request(target, {
+        method: "POST",
+        headers: input.headers,
+        body: input.body,
+        signal,
+        dispatcher: this.agent,
+      });
+      const responseBody = await this.readBody(response.body);
+      const result = response.statusCode >= 200 && response.statusCode < 300
+        ? { ok: true, statusCode: response.statusCode }
+        : failureForStatus(response.statusCode);
+      return { ...result, ...(responseBody ? { responseBody } : {}) };
+    } catch (error) {
+      if (isTargetBlockedError(error)) {
+        return { ok: false, errorCode: "webhook_target_blocked" };
+      }
+      if (signal.aborted) {
+        return { ok: false, errorCode: "webhook_timeout" };
+      }
+      return { ok: false, errorCode: TRANSIENT_FAILURE };
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.agent.close();
+  }
+
+  /**
+   * Keeps the first `maxResponseBodyBytes` of the body for the delivery
+   * record. A body within the cap is read to the end so the connection can be
+   * reused; a larger one is truncated and its socket dropped.
+   */
+  private async readBody(body: AsyncIterable<Buffer> & { destroy(): unknown }): Promise<string> {
+    const limit = this.options.maxResponseBodyBytes;
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of body) {
+      chunks.push(chunk.subarray(0, Math.max(0, limit - received)));
+      received += chunk.length;
+      if (received > limit) {
+        body.destroy();
+        break;
+      }
+    }
+    return Buffer.concat(chunks).toString("utf8");
+  }
+
+  private readonly safeLookup: LookupFunction = (hostname, lookupOptions, callback) => {
+    const family = lookupOptions.family === "IPv4" ? 4 : lookupOptions.family === "IPv6" ? 6 : lookupOptions.family;
+    this.resolveHost(hostname)
+      .then((addresses) => {
+        const candidates = addresses.filter((address) => !family || address.family === family);
+        const first = candidates[0];
+        if (!first) {
+          throw Object.assign(new Error(`No address found for ${hostname}.`), { code: "ENOTFOUND" });
+        }
+        if (
+          !this.options.allowPrivateNetworks
+          && candidates.some((address) => isBlockedWebhookAddress(address.address))
+        ) {
+          throw new WebhookTargetBlockedError(`Webhook host ${hostname} resolves to a blocked address.`);
+        }
+        if (lookupOptions.all) {
+          callback(null, candidates);
+        } else {
+          callback(null, first.address, first.family);
+        }
+      })
+      .catch((error: NodeJS.ErrnoException) => {
+        callback(error, "", 0);
+      });
+  };
+}
@@ -1,5 +1,10 @@
-import type { PaymentEvent } from "../../domain/types.js";
-import type { EventBusPort, PaymentEventListInput, PaymentEventListResult } from "../../ports/event-bus.js";
+import type { EventDeadLetterRecord, PaymentEvent } from "../../domain/types.js";
+import type {
+  EventBusPort,
+  EventDeadLetterListResult,
+  PaymentEventListInput,
+  PaymentEventListResult,
+} from "../../ports/event-bus.js";
 import { AppError } from "../../infra/app-error.js";
 
 export class InMemoryEventBus implements EventBusPort {
@@ -78,4 +83,13 @@ export class InMemoryEventBus implements EventBusPort {
   subscribe(handler: (event: PaymentEvent) => Promise<void>): void {
     this.subscribers.push(handler);
   }
+
+  // Subscriber failures surface to the publisher in memory, so nothing is ever parked.
+  async listDeadLetters(): Promise<EventDeadLetterListResult> {
+    return { data: [], hasMore: false };
+  }
+
+  async requeueDeadLetter(): Promise<EventDeadLetterRecord> {
+    throw new AppError(404, "resource_not_found", "Event dead letter not found.");
+  }
 }
@@ -1,12 +1,27 @@
-import type { ChargebackRecord, LedgerEntryRecord, PaymentIntentRecord, RefundRecord } from "../../domain/types.js";
+import type {
+  ChargebackRecord,
+  CircuitOverrideRecord,
+  IntentRecoveryRecord,
+  LedgerEntryRecord,
+  PaymentIntentRecord,
+  PaymentReviewRecord,
+  ProviderNotificationRecord,
+  RefundRecord,
+} from "../../domain/types.js";
 import type {
   ChargebackListInput,
   ChargebackListResult,
+  CircuitOverrideListInput,
+  CircuitOverrideListResult,
+  IntentRecoveryListInput,
+  IntentRecoveryListResult,
   LedgerEntryListInput,
   LedgerEntryListResult,
   PaymentIntentListInput,
   PaymentIntentListResult,
   PaymentRepositoryPort,
+  PaymentReviewListInput,
+  PaymentReviewListResult,
   RefundListInput,
   RefundListResult,
 } from "../../ports/payment-repository.js";
@@ -16,14 +31,24 @@ export class InMemoryPaymentRepository implements PaymentRepositoryPort {
   private readonly paymentIntents = new Map<string, PaymentIntentRecord>();
   private readonly refunds = new Map<string, RefundRecord>();
   private readonly chargebacks = new Map<string, ChargebackRecord>();
+  private readonly paymentReviews = new Map<string, PaymentReviewRecord>();
+  private readonly providerNotifications = new Map<string, ProviderNotificationRecord>();
+  private readonly intentRecoveries = new Map<string, IntentRecoveryRecord>();
+  private readonly circuitOverrides = new Map<string, CircuitOverrideRecord>();
   private readonly ledgerEntries = new Map<string, LedgerEntryRecord>();
 
-  async savePaymentIntent(intent: PaymentIntentRecord): Promise<void> {
-    this.paymentIntents.set(intent.id, intent);
+  // Records are copied in and out so callers mutating a loaded record change
+  // nothing until they save it, matching the PostgreSQL adapter.
+  async savePaymentIntent(intent: PaymentIntentRecord, expectedVersion?: number): Promise<void> {
+    if (expectedVersion !== undefined && this.paymentIntents.get(intent.id)?.version !== expectedVersion) {
+      throw new AppError(409, "concurrent_modification", `Payment intent '${intent.id}' was modified concurrently.`);
+    }
+    this.paymentIntents.set(intent.id, { ...intent });
   }
 
   async getPaymentIntentById(id: string): Promise<PaymentIntentRecord | null> {
-    return this.paymentIntents.get(id) ?? null;
+    const intent = this.paymentIntents.get(id);
+    return intent ? { ...intent } : null;
   }
 
   async listPaymentIntents(input: PaymentIntentListInput): Promise<PaymentIntentListResult> {
@@ -67,6 +92,26 @@ export class InMemoryPaymentRepository implements PaymentRepositoryPort {
             return false;
           }
         }
+        if (input.updatedBefore) {
+          const updatedBeforeMs = Date.parse(input.updatedBefore);
+          const intentUpdatedAtMs = Date.parse(intent.updated_at);
+          if (Number.isFinite(updatedBeforeMs) && Number.isFinite(intentUpdatedAtMs) && intentUpdatedAtMs > updatedBeforeMs) {
+            return false;
+          }
+        }
+        if (input.awaitingProviderAnswer && intent.authorized_amount > 0 && !intent.pending_operation) {
+          return false;
+        }
+        if (input.authorizationExpiresBefore) {
+          if (!intent.authorization_expires_at) {
+            return false;
+          }
+          const expiresBeforeMs = Date.parse(input.authorizationExpiresBefore);
+          const intentExpiresAtMs = Date.parse(intent.authorization_expires_at);
+          if (Number.isFinite(expiresBeforeMs) && Number.isFinite(intentExpiresAtMs) && intentExpiresAtMs > expiresBeforeMs) {
+            return false;
+          }
+        }
         return true;
       })
       .sort((a, b) => b.created_at.localeCompare(a.created_at));
@@ -113,11 +158,12 @@ export class InMemoryPaymentRepository implements PaymentRepositoryPort {
   }
 
   async saveChargeback(chargeback: ChargebackRecord): Promise<void> {
-    this.chargebacks.set(chargeback.id, chargeback);
+    this.chargebacks.set(chargeback.id, { ...chargeback });
   }
 
   async getChargebackById(id: string): Promise<ChargebackRecord | null> {
-    return this.chargebacks.get(id) ?? null;
+    const chargeback = this.chargebacks.get(id);
+    return chargeback ? { ...chargeback } : null;
   }
 
   async listChargebacks(input: ChargebackListInput): Promise<ChargebackListResult> {
@@ -149,6 +195,69 @@ export class InMemoryPaymentRepository implements PaymentRepositoryPort {
     return this.paginateChargebacks(items, input);
   }
 
+  async savePaymentReview(review: PaymentReviewRecord): Promise<void> {
+    this.paymentReviews.set(review.payment_intent_id, { ...review });
+  }
+
+  async getPaymentReviewByPaymentIntentId(paymentIntentId: string): Promise<PaymentReviewRecord | null> {
+    const review = this.paymentReviews.get(paymentIntentId);
+    return review ? { ...review } : null;
+  }
+
+  async recordProviderNotification(notification: ProviderNotificationRecord): Promise<boolean> {
+    const key = `${notification.provider}:${notification.notification_id}`;
+    if (this.providerNotifications.has(key)) {
+      return false;
+    }
+    this.providerNotifications.set(key, { ...notification });
+    return true;
+  }
+
+  async getProviderNotification(provider: string, notificationId: string): Promise<ProviderNotificationRecord | null> {
+    const notification = this.providerNotifications.get(`${provider}:${notificationId}`);
+    return notification ? { ...notification } : null;
+  }
+
+  async listPaymentReviews(input: PaymentReviewListInput): Promise<PaymentReviewListResult> {
+    const items = [...this.paymentReviews.values()]
+      .filter((review) => {
+        if (input.paymentIntentId && review.payment_intent_id !== input.paymentIntentId) {
+          return false;
+        }
+        if (input.status && review.status !== input.status) {
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((review) => ({ ...review }));
+    return this.paginatePaymentReviews(items, input);
+  }
+
+  async saveIntentRecovery(recovery: IntentRecoveryRecord): Promise<void> {
+    this.intentRecoveries.set(recovery.id, { ...recovery });
+  }
+
+  async listIntentRecoveries(input: IntentRecoveryListInput): Promise<IntentRecoveryListResult> {
+    const items = [...this.intentRecoveries.values()]
+      .filter((recovery) => !input.paymentIntentId || recovery.payment_intent_id === input.paymentIntentId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((recovery) => ({ ...recovery }));
+    return this.paginateIntentRecoveries(items, input);
+  }
+
+  async saveCircuitOverride(override: CircuitOverrideRecord): Promise<void> {
+    this.circuitOverrides.set(override.id, { ...override });
+  }
+
+  async listCircuitOverrides(input: CircuitOverrideListInput): Promise<CircuitOverrideListResult> {
+    const items = [...this.circuitOverrides.values()]
+      .filter((override) => !input.provider || override.provider === input.provider)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((override) => ({ ...override }));
+    return this.paginateCircuitOverrides(items, input);
+  }
+
   async saveLedgerEntry(entry: LedgerEntryRecord): Promise<void> {
     this.ledgerEntries.set(entry.id, entry);
   }
@@ -269,6 +378,84 @@ export class InMemoryPaymentRepository implements PaymentRepositoryPort {
     };
   }
 
+  private paginatePaymentReviews(items: PaymentReviewRecord[], input: PaymentReviewListInput): PaymentReviewListResult {
+    const limit = Math.max(1, input.limit);
+    let startIndex = 0;
+
+    if (input.cursor) {
+      const cursorIndex = items.findIndex((item) => item.id === input.cursor);
+      if (cursorIndex < 0) {
+        throw new AppError(422, "invalid_cursor", "cursor not found for current collection.");
+      }
+      startIndex = cursorIndex + 1;
+    }
+
+    const page = items.slice(startIndex, startIndex + limit);
+    const hasMore = startIndex + page.length < items.length;
+    const lastItem = page.at(-1);
+    const nextCursor = hasMore && lastItem ? lastItem.id : undefined;
+
+    return {
+      data: page,
+      hasMore,
+      ...(nextCursor ? { nextCursor } : {}),
+    };
+  }
+
+  private paginateIntentRecoveries(
+    items: IntentRecoveryRecord[],
+    input: IntentRecoveryListInput,
+  ): IntentRecoveryListResult {
+    const limit = Math.max(1, input.limit);
+    let startIndex = 0;
+
+    if (input.cursor) {
+      const cursorIndex = items.findIndex((item) => item.id === input.cursor);
+      if (cursorIndex < 0) {
+        throw new AppError(422, "invalid_cursor", "cursor not found for current collection.");
+      }
+      startIndex = cursorIndex + 1;
+    }
+
+    const page = items.slice(startIndex, startIndex + limit);
+    const hasMore = startIndex + page.length < items.length;
+    const lastItem = page.at(-1);
+    const nextCursor = hasMore && lastItem ? lastItem.id : undefined;
+
+    return {
+      data: page,
+      hasMore,
+      ...(nextCursor ? { nextCursor } : {}),
+    };
+  }
+
+  private paginateCircuitOverrides(
+    items: CircuitOverrideRecord[],
+    input: CircuitOverrideListInput,
+  ): CircuitOverrideListResult {
+    const limit = Math.max(1, input.limit);
+    let startIndex = 0;
+
+    if (input.cursor) {
+      const cursorIndex = items.findIndex((item) => item.id === input.cursor);
+      if (cursorIndex < 0) {
+        throw new AppError(422, "invalid_cursor", "cursor not found for current collection.");
+      }
+      startIndex = cursorIndex + 1;
+    }
+
+    const page = items.slice(startIndex, startIndex + limit);
+    const hasMore = startIndex + page.length < items.length;
+    const lastItem = page.at(-1);
+    const nextCursor = hasMore && lastItem ? lastItem.id : undefined;
+
+    return {
+      data: page,
+      hasMore,
+      ...(nextCursor ? { nextCursor } : {}),
+    };
+  }
+
   private paginateLedgerEntries(items: LedgerEntryRecord[], input: LedgerEntryListInput): LedgerEntryListResult {
     const limit = Math.max(1, input.limit);
     let startIndex = 0;
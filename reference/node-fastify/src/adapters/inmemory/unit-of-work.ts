@@ -0,0 +1,196 @@
+import type {
+  ChargebackRecord,
+  CircuitOverrideRecord,
+  IntentRecoveryRecord,
+  LedgerEntryRecord,
+  PaymentEvent,
+  PaymentIntentRecord,
+  PaymentReviewRecord,
+  ProviderNotificationRecord,
+  RefundRecord,
+} from "../../domain/types.js";
+import { AppError } from "../../infra/app-error.js";
+import type { EventBusPort } from "../../ports/event-bus.js";
+import type {
+  ChargebackListInput,
+  ChargebackListResult,
+  CircuitOverrideListInput,
+  CircuitOverrideListResult,
+  IntentRecoveryListInput,
+  IntentRecoveryListResult,
+  LedgerEntryListInput,
+  LedgerEntryListResult,
+  PaymentIntentListInput,
+  PaymentIntentListResult,
+  PaymentRepositoryPort,
+  PaymentReviewListInput,
+  PaymentReviewListResult,
+  RefundListInput,
+  RefundListResult,
+} from "../../ports/payment-repository.js";
+import type { UnitOfWorkContext, UnitOfWorkPort } from "../../ports/unit-of-work.js";
+
+/**
+ * Buffers writes until the unit commits. Lookups by id see the unit's own
+ * writes; list queries only see committed data.
+ */
+class StagedPaymentRepository implements PaymentRepositoryPort {
+  private readonly writes: Array<() => Promise<void>> = [];
+  private readonly stagedIntents = new Map<string, PaymentIntentRecord>();
+  private readonly intentBaseVersions = new Map<string, number | undefined>();
+  private readonly stagedChargebacks = new Map<string, ChargebackRecord>();
+  private readonly stagedReviews = new Map<string, PaymentReviewRecord>();
+  private readonly stagedNotifications = new Map<string, ProviderNotificationRecord>();
+
+  constructor(private readonly committed: PaymentRepositoryPort) {}
+
+  async savePaymentIntent(intent: PaymentIntentRecord, expectedVersion?: number): Promise<void> {
+    if (expectedVersion !== undefined) {
+      const current = await this.getPaymentIntentById(intent.id);
+      if (current?.version !== expectedVersion) {
+        throw new AppError(409, "concurrent_modification", `Payment intent '${intent.id}' was modified concurrently.`);
+      }
+    }
+    if (!this.intentBaseVersions.has(intent.id)) {
+      this.intentBaseVersions.set(intent.id, expectedVersion);
+    }
+    this.stagedIntents.set(intent.id, { ...intent });
+  }
+
+  async getPaymentIntentById(id: string): Promise<PaymentIntentRecord | null> {
+    const staged = this.stagedIntents.get(id);
+    return staged ? { ...staged } : this.committed.getPaymentIntentById(id);
+  }
+
+  listPaymentIntents(input: PaymentIntentListInput): Promise<PaymentIntentListResult> {
+    return this.committed.listPaymentIntents(input);
+  }
+
+  async saveRefund(refund: RefundRecord): Promise<void> {
+    const snapshot = { ...refund };
+    this.writes.push(() => this.committed.saveRefund(snapshot));
+  }
+
+  listRefunds(input: RefundListInput): Promise<RefundListResult> {
+    return this.committed.listRefunds(input);
+  }
+
+  async saveChargeback(chargeback: ChargebackRecord): Promise<void> {
+    const snapshot = { ...chargeback };
+    this.stagedChargebacks.set(chargeback.id, snapshot);
+    this.writes.push(() => this.committed.saveChargeback(snapshot));
+  }
+
+  async getChargebackById(id: string): Promise<ChargebackRecord | null> {
+    const staged = this.stagedChargebacks.get(id);
+    return staged ? { ...staged } : this.committed.getChargebackById(id);
+  }
+
+  listChargebacks(input: ChargebackListInput): Promise<ChargebackListResult> {
+    return this.committed.listChargebacks(input);
+  }
+
+  async savePaymentReview(review: PaymentReviewRecord): Promise<void> {
+    const snapshot = { ...review };
+    this.stagedReviews.set(review.payment_intent_id, snapshot);
+    this.writes.push(() => this.committed.savePaymentReview(snapshot));
+  }
+
+  async getPaymentReviewByPaymentIntentId(paymentIntentId: string): Promise<PaymentReviewRecord | null> {
+    const staged = this.stagedReviews.get(paymentIntentId);
+    return staged ? { ...staged } : this.committed.getPaymentReviewByPaymentIntentId(paymentIntentId);
+  }
+
+  listPaymentReviews(input: PaymentReviewListInput): Promise<PaymentReviewListResult> {
+    return this.committed.listPaymentReviews(input);
+  }
+
+  async recordProviderNotification(notification: ProviderNotificationRecord): Promise<boolean> {
+    if (await this.getProviderNotification(notification.provider, notification.notification_id)) {
+      return false;
+    }
+    const snapshot = { ...notification };
+    this.stagedNotifications.set(`${notification.provider}:${notification.notification_id}`, snapshot);
+    this.writes.push(async () => {
+      await this.committed.recordProviderNotification(snapshot);
+    });
+    return true;
+  }
+
+  async getProviderNotification(provider: string, notificationId: string): Promise<ProviderNotificationRecord | null> {
+    const staged = this.stagedNotifications.get(`${provider}:${notificationId}`);
+    return staged ? { ...staged } : this.committed.getProviderNotification(provider, notificationId);
+  }
+
+  async saveIntentRecovery(recovery: IntentRecoveryRecord): Promise<void> {
+    const snapshot = { ...recovery };
+    this.writes.push(() => this.committed.saveIntentRecovery(snapshot));
+  }
+
+  listIntentRecoveries(input: IntentRecoveryListInput): Promise<IntentRecoveryListResult> {
+    return this.committed.listIntentRecoveries(input);
+  }
+
+  async saveCircuitOverride(override: CircuitOverrideRecord): Promise<void> {
+    const snapshot = { ...override };
+    this.writes.push(() => this.committed.saveCircuitOverride(snapshot));
+  }
+
+  listCircuitOverrides(input: CircuitOverrideListInput): Promise<CircuitOverrideListResult> {
+    return this.committed.listCircuitOverrides(input);
+  }
+
+  async saveLedgerEntry(entry: LedgerEntryRecord): Promise<void> {
+    const snapshot = { ...entry };
+    this.writes.push(() => this.committed.saveLedgerEntry(snapshot));
+  }
+
+  listLedgerEntries(input: LedgerEntryListInput): Promise<LedgerEntryListResult> {
+    return this.committed.listLedgerEntries(input);
+  }
+
+  async commit(): Promise<void> {
+    // Every staged version is checked before anything is written, so a conflict on any intent leaves nothing applied.
+    for (const [id, expectedVersion] of this.intentBaseVersions) {
+      const current = await this.committed.getPaymentIntentById(id);
+      if (expectedVersion !== undefined && current?.version !== expectedVersion) {
+        throw new AppError(409, "concurrent_modification", `Payment intent '${id}' was modified concurrently.`);
+      }
+    }
+    for (const intent of this.stagedIntents.values()) {
+      await this.committed.savePaymentIntent(intent);
+    }
+    for (const write of this.writes) {
+      await write();
+    }
+  }
+}
+
+export class InMemoryUnitOfWork implements UnitOfWorkPort {
+  // Commits run one at a time, so no other unit writes between a commit's version checks and its writes.
+  private commitTail: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly repository: PaymentRepositoryPort,
+    private readonly eventBus: EventBusPort,
+  ) {}
+
+  async run<TResult>(work: (context: UnitOfWorkContext) => Promise<TResult>): Promise<TResult> {
+    const staged = new StagedPaymentRepository(this.repository);
+    const events: PaymentEvent[] = [];
+    const result = await work({
+      repository: staged,
+      publish: (event) => {
+        events.push(event);
+      },
+    });
+
+    const commit = this.commitTail.then(() => staged.commit());
+    this.commitTail = commit.catch(() => undefined);
+    await commit;
+    for (const event of events) {
+      await this.eventBus.publish(event);
+    }
+    return result;
+  }
+}
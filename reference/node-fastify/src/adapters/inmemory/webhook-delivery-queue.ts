@@ -0,0 +1,58 @@
+import type { WebhookQueuedDeliveryRecord } from "../../domain/types.js";
+import { AppError } from "../../infra/app-error.js";
+import type { WebhookDeliveryQueuePort } from "../../ports/webhook-delivery-queue.js";
+
+interface QueueEntry {
+  delivery: WebhookQueuedDeliveryRecord;
+  leasedUntil?: string;
+}
+
+export class InMemoryWebhookDeliveryQueue implements WebhookDeliveryQueuePort {
+  private readonly entries = new Map<string, QueueEntry>();
+
+  async enqueue(delivery: WebhookQueuedDeliveryRecord): Promise<void> {
+    this.entries.set(delivery.id, { delivery });
+  }
+
+  async claimDue(input: { now: string; limit: number; leaseUntil: string }): Promise<WebhookQueuedDeliveryRecord[]> {
+    const nowMs = Date.parse(input.now);
+    const due = [...this.entries.values()]
+      .filter((entry) => {
+        if (Date.parse(entry.delivery.next_attempt_at) > nowMs) {
+          return false;
+        }
+        return !entry.leasedUntil || Date.parse(entry.leasedUntil) <= nowMs;
+      })
+      .sort((a, b) => {
+        const byNextAttemptAt = a.delivery.next_attempt_at.localeCompare(b.delivery.next_attempt_at);
+        if (byNextAttemptAt !== 0) {
+          return byNextAttemptAt;
+        }
+        return a.delivery.id.localeCompare(b.delivery.id);
+      })
+      .slice(0, Math.max(1, input.limit));
+
+    for (const entry of due) {
+      entry.leasedUntil = input.leaseUntil;
+    }
+    return due.map((entry) => entry.delivery);
+  }
+
+  async reschedule(deliveryId: string, attempt: number, nextAttemptAt: string): Promise<void> {
+    const entry = this.entries.get(deliveryId);
+    if (!entry) {
+      throw new AppError(404, "resource_not_found", "Queued webhook delivery not found.");
+    }
+    this.entries.set(deliveryId, {
+      delivery: {
+        ...entry.delivery,
+        attempt,
+        next_attempt_at: nextAttemptAt,
+      },
+    });
+  }
+
+  async complete(deliveryId: string): Promise<void> {
+    this.entries.delete(deliveryId);
+  }
+}
@@ -0,0 +1,67 @@
+import { AppError } from "../../infra/app-error.js";
+
+// Internal cursor layout: "<ISO-8601 UTC timestamp>:<id>". The timestamp keeps the
+// charset accepted by CursorTokenService, and ids never contain ":".
+const KEYSET_CURSOR_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,6})?Z):([A-Za-z0-9._-]+)$/;
+
+export interface KeysetCursor {
+  timestamp: string;
+  id: string;
+}
+
+export interface KeysetPage<TItem> {
+  data: TItem[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+// A listed row carrying its sort timestamp as rendered by keysetTimestampSql.
+export interface KeysetRow {
+  keyset_at: string;
+}
+
+/**
+ * Renders a timestamptz column with all six fractional digits. A JS Date
+ * would cut it to milliseconds, and a cursor rounded down that way makes
+ * the next page repeat rows sharing the millisecond.
+ */
+export function keysetTimestampSql(column: string): string {
+  return `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS keyset_at`;
+}
+
+export function encodeKeysetCursor(timestamp: string, id: string): string {
+  return `${timestamp}:${id}`;
+}
+
+export function decodeKeysetCursor(cursor: string): KeysetCursor {
+  const match = KEYSET_CURSOR_PATTERN.exec(cursor);
+  const timestamp = match?.[1];
+  const id = match?.[2];
+  if (!timestamp || !id || Number.isNaN(Date.parse(timestamp))) {
+    throw new AppError(422, "invalid_cursor", "cursor not found for current collection.");
+  }
+  return { timestamp, id };
+}
+
+/**
+ * Builds a page from rows fetched with `LIMIT limit + 1`: the extra row only
+ * signals that another page exists and is never returned.
+ */
+export function toKeysetPage<TRow extends KeysetRow, TItem extends { id: string }>(
+  rows: TRow[],
+  limit: number,
+  mapRow: (row: TRow) => TItem,
+): KeysetPage<TItem> {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const data = pageRows.map(mapRow);
+  const lastRow = pageRows.at(-1);
+  const lastItem = data.at(-1);
+  const nextCursor = hasMore && lastRow && lastItem ? encodeKeysetCursor(lastRow.keyset_at, lastItem.id) : undefined;
+
+  return {
+    data,
+    hasMore,
+    ...(nextCursor ? { nextCursor } : {}),
+  };
+}
@@ -1,24 +1,36 @@
-import type { Pool } from "pg";
+import type { Pool, PoolClient } from "pg";
+import type { DeclineCode } from "../../domain/decline-codes.js";
 import type {
   ChargebackRecord,
+  CircuitOverrideRecord,
+  IntentRecoveryRecord,
   LedgerEntryRecord,
+  NextAction,
   PaymentIntentRecord,
+  PaymentReviewRecord,
+  PendingOperation,
+  ProviderNotificationRecord,
   RefundRecord,
 } from "../../domain/types.js";
 import { AppError } from "../../infra/app-error.js";
 import type {
   ChargebackListInput,
   ChargebackListResult,
+  CircuitOverrideListInput,
+  CircuitOverrideListResult,
+  IntentRecoveryListInput,
+  IntentRecoveryListResult,
   LedgerEntryListInput,
   LedgerEntryListResult,
   PaymentIntentListInput,
   PaymentIntentListResult,
   PaymentRepositoryPort,
+  PaymentReviewListInput,
+  PaymentReviewListResult,
   RefundListInput,
   RefundListResult,
 } from "../../ports/payment-repository.js";
-
-type CursorInput = { cursor?: string; limit: number };
+import { decodeKeysetCursor, keysetTimestampSql, toKeysetPage } from "./keyset-cursor.js";
 
 function mapTimestamp(value: unknown): string {
   if (value instanceof Date) {
@@ -35,35 +47,77 @@ function toNumber(value: unknown, field: string): number {
   return parsed;
 }
 
-function paginateByCursor<TItem extends { id: string }>(
-  items: TItem[],
-  input: CursorInput,
-): { data: TItem[]; hasMore: boolean; nextCursor?: string } {
-  const limit = Math.max(1, input.limit);
-  let startIndex = 0;
-  if (input.cursor) {
-    const cursorIndex = items.findIndex((item) => item.id === input.cursor);
-    if (cursorIndex < 0) {
-      throw new AppError(422, "invalid_cursor", "cursor not found for current collection.");
-    }
-    startIndex = cursorIndex + 1;
-  }
-
-  const page = items.slice(startIndex, startIndex + limit);
-  const hasMore = startIndex + page.length < items.length;
-  const nextCursor = hasMore ? page.at(-1)?.id : undefined;
-
-  return {
-    data: page,
-    hasMore,
-    ...(nextCursor ? { nextCursor } : {}),
-  };
-}
-
 export class PostgresPaymentRepository implements PaymentRepositoryPort {
-  constructor(private readonly pool: Pool) {}
+  // Accepts a transaction client so a unit of work can bind the repository to its transaction.
+  constructor(private readonly pool: Pool | PoolClient) {}
+
+  async savePaymentIntent(intent: PaymentIntentRecord, expectedVersion?: number): Promise<void> {
+    const values = [
+      intent.id,
+      intent.amount,
+      intent.currency,
+      intent.status,
+      intent.capture_method,
+      intent.customer_id,
+      intent.payment_method_type,
+      intent.payment_method_token,
+      intent.authorized_amount,
+      intent.captured_amount,
+      intent.refunded_amount,
+      intent.provider,
+      intent.provider_reference,
+      intent.version,
+      intent.created_at,
+      intent.updated_at,
+      intent.authorization_expires_at,
+      intent.next_action ? JSON.stringify(intent.next_action) : null,
+      intent.card_bin_country,
+      JSON.stringify(intent.metadata),
+      intent.routing_decision,
+      intent.decline_code,
+      intent.pending_operation,
+    ];
+    if (expectedVersion !== undefined) {
+      const result = await this.pool.query(
+        `
+          UPDATE pmc_payment_intents
+          SET amount = $2::bigint,
+              currency = $3,
+              status = $4,
+              capture_method = $5,
+              customer_id = $6,
+              payment_method_type = $7,
+              payment_method_token = $8,
+              authorized_amount = $9::bigint,
+              captured_amount = $10::bigint,
+              refunded_amount = $11::bigint,
+              provider = $12,
+              provider_reference = $13,
+              version = $14::integer,
+              created_at = $15::timestamptz,
+              updated_at = $16::timestamptz,
+              authorization_expires_at = $17::timestamptz,
+              next_action = $18::jsonb,
+              card_bin_country = $19,
+              metadata = $20::jsonb,
+              routing_decision = $21,
+              decline_code = $22,
+              pending_operation = $23
+          WHERE id = $1
+            AND version = $24::integer
+        `,
+        [...values, expectedVersion],
+      );
+      if ((result.rowCount ?? 0) === 0) {
+        throw new AppError(
+          409,
+          "concurrent_modification",
+          `Payment intent '${intent.id}' was modified concurrently.`,
+        );
+      }
+      return;
+    }
 
-  async savePaymentIntent(intent: PaymentIntentRecord): Promise<void> {
     await this.pool.query(
       `
         INSERT INTO pmc_payment_intents (
@@ -80,8 +134,16 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
           refunded_amount,
           provider,
           provider_reference,
+          version,
           created_at,
-          updated_at
+          updated_at,
+          authorization_expires_at,
+          next_action,
+          card_bin_country,
+          metadata,
+          routing_decision,
+          decline_code,
+          pending_operation
         )
         VALUES (
           $1,
@@ -97,8 +159,16 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
           $11::bigint,
           $12,
           $13,
-          $14::timestamptz,
-          $15::timestamptz
+          $14::integer,
+          $15::timestamptz,
+          $16::timestamptz,
+          $17::timestamptz,
+          $18::jsonb,
+          $19,
+          $20::jsonb,
+          $21,
+          $22,
+          $23
         )
         ON CONFLICT (id) DO UPDATE
         SET amount = EXCLUDED.amount,
@@ -113,25 +183,17 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
             refunded_amount = EXCLUDED.refunded_amount,
             provider = EXCLUDED.provider,
             provider_reference = EXCLUDED.provider_reference,
-            updated_at = EXCLUDED.updated_at
+            version = EXCLUDED.version,
+            updated_at = EXCLUDED.updated_at,
+            authorization_expires_at = EXCLUDED.authorization_expires_at,
+            next_action = EXCLUDED.next_action,
+            card_bin_country = EXCLUDED.card_bin_country,
+            metadata = EXCLUDED.metadata,
+            routing_decision = EXCLUDED.routing_decision,
+            decline_code = EXCLUDED.decline_code,
+            pending_operation = EXCLUDED.pending_operation
       `,
-      [
-        intent.id,
-        intent.amount,
-        intent.currency,
-        intent.status,
-        intent.capture_method,
-        intent.customer_id,
-        intent.payment_method_type,
-        intent.payment_method_token,
-        intent.authorized_amount,
-        intent.captured_amount,
-        intent.refunded_amount,
-        intent.provider,
-        intent.provider_reference,
-        intent.created_at,
-        intent.updated_at,
-      ],
+      values,
     );
   }
 
@@ -150,6 +212,14 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       refunded_amount: unknown;
       provider: string | null;
       provider_reference: string | null;
+      authorization_expires_at: unknown;
+      next_action: NextAction | null;
+      card_bin_country: string | null;
+      metadata: Record<string, string> | null;
+      routing_decision: string | null;
+      decline_code: DeclineCode | null;
+      pending_operation: PendingOperation | null;
+      version: unknown;
       created_at: unknown;
       updated_at: unknown;
     }>(
@@ -168,6 +238,14 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
           refunded_amount,
           provider,
           provider_reference,
+          authorization_expires_at,
+          next_action,
+          card_bin_country,
+          metadata,
+          routing_decision,
+          decline_code,
+          pending_operation,
+          version,
           created_at,
           updated_at
         FROM pmc_payment_intents
@@ -189,11 +267,19 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       customer_id: row.customer_id,
       payment_method_type: row.payment_method_type,
       payment_method_token: row.payment_method_token,
+      card_bin_country: row.card_bin_country,
+      metadata: row.metadata ?? {},
+      routing_decision: row.routing_decision,
+      decline_code: row.decline_code,
       authorized_amount: toNumber(row.authorized_amount, "authorized_amount"),
       captured_amount: toNumber(row.captured_amount, "captured_amount"),
       refunded_amount: toNumber(row.refunded_amount, "refunded_amount"),
       provider: row.provider,
       provider_reference: row.provider_reference,
+      authorization_expires_at: row.authorization_expires_at === null ? null : mapTimestamp(row.authorization_expires_at),
+      next_action: row.next_action,
+      pending_operation: row.pending_operation,
+      version: toNumber(row.version, "version"),
       created_at: mapTimestamp(row.created_at),
       updated_at: mapTimestamp(row.updated_at),
     };
@@ -254,7 +340,29 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       values.push(input.createdTo);
       index += 1;
     }
+    if (input.updatedBefore) {
+      conditions.push(`updated_at <= $${index}::timestamptz`);
+      values.push(input.updatedBefore);
+      index += 1;
+    }
+    if (input.awaitingProviderAnswer) {
+      conditions.push("(authorized_amount = 0 OR pending_operation IS NOT NULL)");
+    }
+    if (input.authorizationExpiresBefore) {
+      conditions.push(`authorization_expires_at <= $${index}::timestamptz`);
+      values.push(input.authorizationExpiresBefore);
+      index += 1;
+    }
 
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
     const result = await this.pool.query<{
       id: string;
@@ -270,8 +378,17 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       refunded_amount: unknown;
       provider: string | null;
       provider_reference: string | null;
+      authorization_expires_at: unknown;
+      next_action: NextAction | null;
+      card_bin_country: string | null;
+      metadata: Record<string, string> | null;
+      routing_decision: string | null;
+      decline_code: DeclineCode | null;
+      pending_operation: PendingOperation | null;
+      version: unknown;
       created_at: unknown;
       updated_at: unknown;
+      keyset_at: string;
     }>(
       `
         SELECT
@@ -288,16 +405,26 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
           refunded_amount,
           provider,
           provider_reference,
+          authorization_expires_at,
+          next_action,
+          card_bin_country,
+          metadata,
+          routing_decision,
+          decline_code,
+          pending_operation,
+          version,
           created_at,
-          updated_at
+          updated_at,
+          ${keysetTimestampSql("created_at")}
         FROM pmc_payment_intents
         ${whereClause}
         ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
       `,
       values,
     );
 
-    const items = result.rows.map((row) => ({
+    return toKeysetPage(result.rows, limit, (row) => ({
       id: row.id,
       amount: toNumber(row.amount, "amount"),
       currency: row.currency,
@@ -306,15 +433,22 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       customer_id: row.customer_id,
       payment_method_type: row.payment_method_type,
       payment_method_token: row.payment_method_token,
+      card_bin_country: row.card_bin_country,
+      metadata: row.metadata ?? {},
+      routing_decision: row.routing_decision,
+      decline_code: row.decline_code,
       authorized_amount: toNumber(row.authorized_amount, "authorized_amount"),
       captured_amount: toNumber(row.captured_amount, "captured_amount"),
       refunded_amount: toNumber(row.refunded_amount, "refunded_amount"),
       provider: row.provider,
       provider_reference: row.provider_reference,
+      authorization_expires_at: row.authorization_expires_at === null ? null : mapTimestamp(row.authorization_expires_at),
+      next_action: row.next_action,
+      pending_operation: row.pending_operation,
+      version: toNumber(row.version, "version"),
       created_at: mapTimestamp(row.created_at),
       updated_at: mapTimestamp(row.updated_at),
     }));
-    return paginateByCursor(items, input);
   }
 
   async saveRefund(refund: RefundRecord): Promise<void> {
@@ -382,6 +516,15 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       index += 1;
     }
 
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
     const result = await this.pool.query<{
       id: string;
@@ -390,6 +533,7 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       status: RefundRecord["status"];
       reason: RefundRecord["reason"];
       created_at: unknown;
+      keyset_at: string;
     }>(
       `
         SELECT
@@ -398,15 +542,17 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
           amount,
           status,
           reason,
-          created_at
+          created_at,
+          ${keysetTimestampSql("created_at")}
         FROM pmc_refunds
         ${whereClause}
         ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
       `,
       values,
     );
 
-    const items = result.rows.map((row) => ({
+    return toKeysetPage(result.rows, limit, (row) => ({
       id: row.id,
       payment_intent_id: row.payment_intent_id,
       amount: toNumber(row.amount, "amount"),
@@ -414,7 +560,6 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       ...(row.reason ? { reason: row.reason } : {}),
       created_at: mapTimestamp(row.created_at),
     }));
-    return paginateByCursor(items, input);
   }
 
   async saveChargeback(chargeback: ChargebackRecord): Promise<void> {
@@ -530,6 +675,15 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       index += 1;
     }
 
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
     const result = await this.pool.query<{
       id: string;
@@ -540,6 +694,7 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       evidence_url: string | null;
       created_at: unknown;
       updated_at: unknown;
+      keyset_at: string;
     }>(
       `
         SELECT
@@ -550,15 +705,17 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
           status,
           evidence_url,
           created_at,
-          updated_at
+          updated_at,
+          ${keysetTimestampSql("created_at")}
         FROM pmc_chargebacks
         ${whereClause}
         ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
       `,
       values,
     );
 
-    const items = result.rows.map((row) => ({
+    return toKeysetPage(result.rows, limit, (row) => ({
       id: row.id,
       payment_intent_id: row.payment_intent_id,
       amount: toNumber(row.amount, "amount"),
@@ -568,7 +725,431 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       created_at: mapTimestamp(row.created_at),
       updated_at: mapTimestamp(row.updated_at),
     }));
-    return paginateByCursor(items, input);
+  }
+
+  async savePaymentReview(review: PaymentReviewRecord): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO pmc_payment_reviews (
+          id,
+          payment_intent_id,
+          status,
+          risk_reason,
+          amount,
+          currency,
+          customer_id,
+          note,
+          decided_at,
+          created_at,
+          updated_at
+        )
+        VALUES (
+          $1,
+          $2,
+          $3,
+          $4,
+          $5::bigint,
+          $6,
+          $7,
+          $8,
+          $9::timestamptz,
+          $10::timestamptz,
+          $11::timestamptz
+        )
+        ON CONFLICT (id) DO UPDATE
+        SET status = EXCLUDED.status,
+            note = EXCLUDED.note,
+            decided_at = EXCLUDED.decided_at,
+            updated_at = EXCLUDED.updated_at
+      `,
+      [
+        review.id,
+        review.payment_intent_id,
+        review.status,
+        review.risk_reason,
+        review.amount,
+        review.currency,
+        review.customer_id,
+        review.note,
+        review.decided_at,
+        review.created_at,
+        review.updated_at,
+      ],
+    );
+  }
+
+  async getPaymentReviewByPaymentIntentId(paymentIntentId: string): Promise<PaymentReviewRecord | null> {
+    const result = await this.pool.query<{
+      id: string;
+      payment_intent_id: string;
+      status: PaymentReviewRecord["status"];
+      risk_reason: string;
+      amount: unknown;
+      currency: string;
+      customer_id: string;
+      note: string | null;
+      decided_at: unknown;
+      created_at: unknown;
+      updated_at: unknown;
+    }>(
+      `
+        SELECT
+          id,
+          payment_intent_id,
+          status,
+          risk_reason,
+          amount,
+          currency,
+          customer_id,
+          note,
+          decided_at,
+          created_at,
+          updated_at
+        FROM pmc_payment_reviews
+        WHERE payment_intent_id = $1
+      `,
+      [paymentIntentId],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      payment_intent_id: row.payment_intent_id,
+      status: row.status,
+      risk_reason: row.risk_reason,
+      amount: toNumber(row.amount, "amount"),
+      currency: row.currency,
+      customer_id: row.customer_id,
+      note: row.note,
+      decided_at: row.decided_at === null ? null : mapTimestamp(row.decided_at),
+      created_at: mapTimestamp(row.created_at),
+      updated_at: mapTimestamp(row.updated_at),
+    };
+  }
+
+  async recordProviderNotification(notification: ProviderNotificationRecord): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+        INSERT INTO pmc_provider_notifications (
+          provider,
+          notification_id,
+          payment_intent_id,
+          status,
+          received_at
+        )
+        VALUES ($1, $2, $3, $4, $5::timestamptz)
+        ON CONFLICT (provider, notification_id) DO NOTHING
+      `,
+      [
+        notification.provider,
+        notification.notification_id,
+        notification.payment_intent_id,
+        notification.status,
+        notification.received_at,
+      ],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getProviderNotification(provider: string, notificationId: string): Promise<ProviderNotificationRecord | null> {
+    const result = await this.pool.query<{
+      provider: string;
+      notification_id: string;
+      payment_intent_id: string;
+      status: ProviderNotificationRecord["status"];
+      received_at: unknown;
+    }>(
+      `
+        SELECT
+          provider,
+          notification_id,
+          payment_intent_id,
+          status,
+          received_at
+        FROM pmc_provider_notifications
+        WHERE provider = $1 AND notification_id = $2
+      `,
+      [provider, notificationId],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      provider: row.provider,
+      notification_id: row.notification_id,
+      payment_intent_id: row.payment_intent_id,
+      status: row.status,
+      received_at: mapTimestamp(row.received_at),
+    };
+  }
+
+  async listPaymentReviews(input: PaymentReviewListInput): Promise<PaymentReviewListResult> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let index = 1;
+
+    if (input.paymentIntentId) {
+      conditions.push(`payment_intent_id = $${index}`);
+      values.push(input.paymentIntentId);
+      index += 1;
+    }
+    if (input.status) {
+      conditions.push(`status = $${index}`);
+      values.push(input.status);
+      index += 1;
+    }
+
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const result = await this.pool.query<{
+      id: string;
+      payment_intent_id: string;
+      status: PaymentReviewRecord["status"];
+      risk_reason: string;
+      amount: unknown;
+      currency: string;
+      customer_id: string;
+      note: string | null;
+      decided_at: unknown;
+      created_at: unknown;
+      updated_at: unknown;
+      keyset_at: string;
+    }>(
+      `
+        SELECT
+          id,
+          payment_intent_id,
+          status,
+          risk_reason,
+          amount,
+          currency,
+          customer_id,
+          note,
+          decided_at,
+          created_at,
+          updated_at,
+          ${keysetTimestampSql("created_at")}
+        FROM pmc_payment_reviews
+        ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
+      `,
+      values,
+    );
+
+    return toKeysetPage(result.rows, limit, (row) => ({
+      id: row.id,
+      payment_intent_id: row.payment_intent_id,
+      status: row.status,
+      risk_reason: row.risk_reason,
+      amount: toNumber(row.amount, "amount"),
+      currency: row.currency,
+      customer_id: row.customer_id,
+      note: row.note,
+      decided_at: row.decided_at === null ? null : mapTimestamp(row.decided_at),
+      created_at: mapTimestamp(row.created_at),
+      updated_at: mapTimestamp(row.updated_at),
+    }));
+  }
+
+  async saveIntentRecovery(recovery: IntentRecoveryRecord): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO pmc_intent_recoveries (
+          id,
+          payment_intent_id,
+          provider,
+          provider_reference,
+          provider_status,
+          resolved_status,
+          failure_code,
+          stuck_since,
+          created_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8::timestamptz, $9::timestamptz)
+      `,
+      [
+        recovery.id,
+        recovery.payment_intent_id,
+        recovery.provider,
+        recovery.provider_reference,
+        recovery.provider_status,
+        recovery.resolved_status,
+        recovery.failure_code,
+        recovery.stuck_since,
+        recovery.created_at,
+      ],
+    );
+  }
+
+  async listIntentRecoveries(input: IntentRecoveryListInput): Promise<IntentRecoveryListResult> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let index = 1;
+
+    if (input.paymentIntentId) {
+      conditions.push(`payment_intent_id = $${index}`);
+      values.push(input.paymentIntentId);
+      index += 1;
+    }
+
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const result = await this.pool.query<{
+      id: string;
+      payment_intent_id: string;
+      provider: string | null;
+      provider_reference: string | null;
+      provider_status: IntentRecoveryRecord["provider_status"];
+      resolved_status: IntentRecoveryRecord["resolved_status"];
+      failure_code: string | null;
+      stuck_since: unknown;
+      created_at: unknown;
+      keyset_at: string;
+    }>(
+      `
+        SELECT
+          id,
+          payment_intent_id,
+          provider,
+          provider_reference,
+          provider_status,
+          resolved_status,
+          failure_code,
+          stuck_since,
+          created_at,
+          ${keysetTimestampSql("created_at")}
+        FROM pmc_intent_recoveries
+        ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
+      `,
+      values,
+    );
+
+    return toKeysetPage(result.rows, limit, (row) => ({
+      id: row.id,
+      payment_intent_id: row.payment_intent_id,
+      provider: row.provider,
+      provider_reference: row.provider_reference,
+      provider_status: row.provider_status,
+      resolved_status: row.resolved_status,
+      failure_code: row.failure_code,
+      stuck_since: mapTimestamp(row.stuck_since),
+      created_at: mapTimestamp(row.created_at),
+    }));
+  }
+
+  async saveCircuitOverride(override: CircuitOverrideRecord): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO pmc_circuit_overrides (
+          id,
+          provider,
+          state,
+          ttl_seconds,
+          forced_until,
+          reason,
+          actor,
+          created_at
+        )
+        VALUES ($1, $2, $3, $4, $5::timestamptz, $6, $7, $8::timestamptz)
+      `,
+      [
+        override.id,
+        override.provider,
+        override.state,
+        override.ttl_seconds,
+        override.forced_until,
+        override.reason,
+        override.actor,
+        override.created_at,
+      ],
+    );
+  }
+
+  async listCircuitOverrides(input: CircuitOverrideListInput): Promise<CircuitOverrideListResult> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let index = 1;
+
+    if (input.provider) {
+      conditions.push(`provider = $${index}`);
+      values.push(input.provider);
+      index += 1;
+    }
+
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const result = await this.pool.query<{
+      id: string;
+      provider: string;
+      state: CircuitOverrideRecord["state"];
+      ttl_seconds: unknown;
+      forced_until: unknown;
+      reason: string;
+      actor: string;
+      created_at: unknown;
+      keyset_at: string;
+    }>(
+      `
+        SELECT
+          id,
+          provider,
+          state,
+          ttl_seconds,
+          forced_until,
+          reason,
+          actor,
+          created_at,
+          ${keysetTimestampSql("created_at")}
+        FROM pmc_circuit_overrides
+        ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
+      `,
+      values,
+    );
+
+    return toKeysetPage(result.rows, limit, (row) => ({
+      id: row.id,
+      provider: row.provider,
+      state: row.state,
+      ttl_seconds: toNumber(row.ttl_seconds, "ttl_seconds"),
+      forced_until: mapTimestamp(row.forced_until),
+      reason: row.reason,
+      actor: row.actor,
+      created_at: mapTimestamp(row.created_at),
+    }));
   }
 
   async saveLedgerEntry(entry: LedgerEntryRecord): Promise<void> {
@@ -666,6 +1247,15 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       index += 1;
     }
 
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
     const result = await this.pool.query<{
       id: string;
@@ -678,6 +1268,7 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       provider: string | null;
       provider_reference: string | null;
       created_at: unknown;
+      keyset_at: string;
     }>(
       `
         SELECT
@@ -690,15 +1281,17 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
           currency,
           provider,
           provider_reference,
-          created_at
+          created_at,
+          ${keysetTimestampSql("created_at")}
         FROM pmc_ledger_entries
         ${whereClause}
         ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
       `,
       values,
     );
 
-    const items = result.rows.map((row) => ({
+    return toKeysetPage(result.rows, limit, (row) => ({
       id: row.id,
       payment_intent_id: row.payment_intent_id,
       refund_id: row.refund_id,
@@ -710,6 +1303,5 @@ export class PostgresPaymentRepository implements PaymentRepositoryPort {
       provider_reference: row.provider_reference,
       created_at: mapTimestamp(row.created_at),
     }));
-    return paginateByCursor(items, input);
   }
 }
@@ -0,0 +1,62 @@
+import type { Pool, PoolClient } from "pg";
+import type { PaymentEvent } from "../../domain/types.js";
+import type { EventBusPort } from "../../ports/event-bus.js";
+import type { UnitOfWorkContext, UnitOfWorkPort } from "../../ports/unit-of-work.js";
+import { PostgresPaymentRepository } from "./payment-repository.js";
+
+/**
+ * Outbox that can write its rows inside a caller's transaction, such as the
+ * durable event bus.
+ */
+export interface TransactionalOutbox {
+  stageEvent(client: PoolClient, event: PaymentEvent): Promise<void>;
+  publishStaged(event: PaymentEvent): Promise<void>;
+}
+
+/**
+ * Runs each unit in one PostgreSQL transaction. With a transactional outbox
+ * the outbox rows commit alongside the payment rows; otherwise events go to
+ * the event bus only after COMMIT.
+ */
+export class PostgresUnitOfWork implements UnitOfWorkPort {
+  constructor(
+    private readonly pool: Pool,
+    private readonly eventBus: EventBusPort,
+    private readonly outbox: TransactionalOutbox | null,
+  ) {}
+
+  async run<TResult>(work: (context: UnitOfWorkContext) => Promise<TResult>): Promise<TResult> {
+    const client = await this.pool.connect();
+    const events: PaymentEvent[] = [];
+    let result: TResult;
+    try {
+      await client.query("BEGIN");
+      result = await work({
+        repository: new PostgresPaymentRepository(client),
+        publish: (event) => {
+          events.push(event);
+        },
+      });
+      if (this.outbox) {
+        for (const event of events) {
+          await this.outbox.stageEvent(client, event);
+        }
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    for (const event of events) {
+      if (this.outbox) {
+        await this.outbox.publishStaged(event);
+      } else {
+        await this.eventBus.publish(event);
+      }
+    }
+    return result;
+  }
+}
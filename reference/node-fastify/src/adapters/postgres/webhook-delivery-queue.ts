@@ -0,0 +1,112 @@
+import type { Pool } from "pg";
+import type { PaymentEvent, WebhookQueuedDeliveryRecord } from "../../domain/types.js";
+import { AppError } from "../../infra/app-error.js";
+import type { WebhookDeliveryQueuePort } from "../../ports/webhook-delivery-queue.js";
+
+function mapTimestamp(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+export class PostgresWebhookDeliveryQueue implements WebhookDeliveryQueuePort {
+  constructor(private readonly pool: Pool) {}
+
+  async enqueue(delivery: WebhookQueuedDeliveryRecord): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO pmc_webhook_delivery_queue (
+          id,
+          endpoint_id,
+          event,
+          attempt,
+          next_attempt_at,
+          created_at
+        )
+        VALUES ($1, $2, $3::jsonb, $4, $5::timestamptz, $6::timestamptz)
+        ON CONFLICT (id) DO NOTHING
+      `,
+      [
+        delivery.id,
+        delivery.endpoint_id,
+        JSON.stringify(delivery.event),
+        delivery.attempt,
+        delivery.next_attempt_at,
+        delivery.created_at,
+      ],
+    );
+  }
+
+  async claimDue(input: { now: string; limit: number; leaseUntil: string }): Promise<WebhookQueuedDeliveryRecord[]> {
+    // SKIP LOCKED lets several workers drain the queue without claiming the same row;
+    // the lease keeps a crashed worker's rows claimable once it expires.
+    const result = await this.pool.query<{
+      id: string;
+      endpoint_id: string;
+      event: PaymentEvent;
+      attempt: number;
+      next_attempt_at: unknown;
+      created_at: unknown;
+    }>(
+      `
+        UPDATE pmc_webhook_delivery_queue
+        SET leased_until = $3::timestamptz
+        WHERE id IN (
+          SELECT id
+          FROM pmc_webhook_delivery_queue
+          WHERE next_attempt_at <= $1::timestamptz
+            AND (leased_until IS NULL OR leased_until <= $1::timestamptz)
+          ORDER BY next_attempt_at ASC, id ASC
+          LIMIT $2
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING
+          id,
+          endpoint_id,
+          event,
+          attempt,
+          next_attempt_at,
+          created_at
+      `,
+      [input.now, Math.max(1, input.limit), input.leaseUntil],
+    );
+
+    return result.rows
+      .map((row) => ({
+        id: row.id,
+        endpoint_id: row.endpoint_id,
+        event: row.event,
+        attempt: row.attempt,
+        next_attempt_at: mapTimestamp(row.next_attempt_at),
+        created_at: mapTimestamp(row.created_at),
+      }))
+      .sort((a, b) => a.next_attempt_at.localeCompare(b.next_attempt_at));
+  }
+
+  async reschedule(deliveryId: string, attempt: number, nextAttemptAt: string): Promise<void> {
+    const result = await this.pool.query(
+      `
+        UPDATE pmc_webhook_delivery_queue
+        SET attempt = $2,
+            next_attempt_at = $3::timestamptz,
+            leased_until = NULL
+        WHERE id = $1
+      `,
+      [deliveryId, attempt, nextAttemptAt],
+    );
+    if (result.rowCount === 0) {
+      throw new AppError(404, "resource_not_found", "Queued webhook delivery not found.");
+    }
+  }
+
+  async complete(deliveryId: string): Promise<void> {
+    await this.pool.query(
+      `
+        DELETE FROM pmc_webhook_delivery_queue
+        WHERE id = $1
+      `,
+      [deliveryId],
+    );
+  }
+}
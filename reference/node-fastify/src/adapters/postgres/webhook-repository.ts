@@ -0,0 +1,514 @@
+import { randomUUID } from "node:crypto";
+import type { Pool } from "pg";
+import type {
+  PaymentEvent,
+  StoredWebhookDeadLetterRecord,
+  WebhookDeadLetterRecord,
+  WebhookDeliveryRecord,
+  WebhookEndpointRecord,
+} from "../../domain/types.js";
+import { AppError } from "../../infra/app-error.js";
+import type {
+  CursorPaginationInput,
+  CursorPaginationResult,
+  CreateWebhookEndpointInput,
+  UpdateWebhookEndpointInput,
+  WebhookDeadLetterListInput,
+  WebhookRepositoryPort,
+} from "../../ports/webhook-repository.js";
+import { decodeKeysetCursor, keysetTimestampSql, toKeysetPage, type KeysetRow } from "./keyset-cursor.js";
+
+interface EndpointRow {
+  id: string;
+  url: string;
+  events: PaymentEvent["type"][];
+  secret: string;
+  enabled: boolean;
+  created_at: unknown;
+}
+
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: PaymentEvent["type"];
+  attempt: number;
+  status: WebhookDeliveryRecord["status"];
+  response_status: number | null;
+  response_body: string | null;
+  error_code: string | null;
+  created_at: unknown;
+  delivered_at: unknown;
+  next_attempt_at: unknown;
+}
+
+interface DeadLetterRow {
+  id: string;
+  endpoint_id: string;
+  endpoint_url: string;
+  event_id: string;
+  event_type: PaymentEvent["type"];
+  attempts: number;
+  status: WebhookDeadLetterRecord["status"];
+  replay_count: number;
+  failure_reason: WebhookDeadLetterRecord["failure_reason"];
+  response_status: number | null;
+  error_code: string | null;
+  failed_at: unknown;
+  last_replayed_at: unknown;
+  event: PaymentEvent;
+}
+
+const ENDPOINT_COLUMNS = `
+  id,
+  url,
+  events,
+  secret,
+  enabled,
+  created_at
+`;
+
+const DEAD_LETTER_PUBLIC_COLUMNS = `
+  id,
+  endpoint_id,
+  endpoint_url,
+  event_id,
+  event_type,
+  attempts,
+  status,
+  replay_count,
+  failure_reason,
+  response_status,
+  error_code,
+  failed_at,
+  last_replayed_at
+`;
+
+function mapTimestamp(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+function mapEndpoint(row: EndpointRow): WebhookEndpointRecord {
+  return {
+    id: row.id,
+    url: row.url,
+    events: row.events,
+    secret: row.secret,
+    enabled: row.enabled,
+    created_at: mapTimestamp(row.created_at),
+  };
+}
+
+function mapDelivery(row: DeliveryRow): WebhookDeliveryRecord {
+  return {
+    id: row.id,
+    endpoint_id: row.endpoint_id,
+    event_id: row.event_id,
+    event_type: row.event_type,
+    attempt: row.attempt,
+    status: row.status,
+    ...(row.response_status !== null ? { response_status: row.response_status } : {}),
+    ...(row.response_body !== null ? { response_body: row.response_body } : {}),
+    ...(row.error_code ? { error_code: row.error_code } : {}),
+    created_at: mapTimestamp(row.created_at),
+    ...(row.delivered_at ? { delivered_at: mapTimestamp(row.delivered_at) } : {}),
+    ...(row.next_attempt_at ? { next_attempt_at: mapTimestamp(row.next_attempt_at) } : {}),
+  };
+}
+
+function mapDeadLetter(row: Omit<DeadLetterRow, "event">): WebhookDeadLetterRecord {
+  return {
+    id: row.id,
+    endpoint_id: row.endpoint_id,
+    endpoint_url: row.endpoint_url,
+    event_id: row.event_id,
+    event_type: row.event_type,
+    attempts: row.attempts,
+    status: row.status,
+    replay_count: row.replay_count,
+    failure_reason: row.failure_reason,
+    failed_at: mapTimestamp(row.failed_at),
+    ...(row.response_status !== null ? { response_status: row.response_status } : {}),
+    ...(row.error_code ? { error_code: row.error_code } : {}),
+    ...(row.last_replayed_at ? { last_replayed_at: mapTimestamp(row.last_replayed_at) } : {}),
+  };
+}
+
+function endpointNotFound(): AppError {
+  return new AppError(404, "resource_not_found", "Webhook endpoint not found.");
+}
+
+function deadLetterNotFound(): AppError {
+  return new AppError(404, "resource_not_found", "Webhook dead letter not found.");
+}
+
+export class PostgresWebhookRepository implements WebhookRepositoryPort {
+  constructor(private readonly pool: Pool) {}
+
+  async createEndpoint(input: CreateWebhookEndpointInput): Promise<WebhookEndpointRecord> {
+    const result = await this.pool.query<EndpointRow>(
+      `
+        INSERT INTO pmc_webhook_endpoints (
+          id,
+          url,
+          events,
+          secret,
+          enabled,
+          created_at
+        )
+        VALUES ($1, $2, $3::text[], $4, $5, $6::timestamptz)
+        RETURNING ${ENDPOINT_COLUMNS}
+      `,
+      [`we_${randomUUID()}`, input.url, input.events, input.secret, input.enabled, input.createdAt],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      throw new AppError(500, "persistence_mapping_error", "Unable to persist webhook endpoint.");
+    }
+    return mapEndpoint(row);
+  }
+
+  async getEndpointById(endpointId: string): Promise<WebhookEndpointRecord> {
+    const result = await this.pool.query<EndpointRow>(
+      `
+        SELECT ${ENDPOINT_COLUMNS}
+        FROM pmc_webhook_endpoints
+        WHERE id = $1
+      `,
+      [endpointId],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      throw endpointNotFound();
+    }
+    return mapEndpoint(row);
+  }
+
+  async updateEndpoint(endpointId: string, input: UpdateWebhookEndpointInput): Promise<WebhookEndpointRecord> {
+    const result = await this.pool.query<EndpointRow>(
+      `
+        UPDATE pmc_webhook_endpoints
+        SET url = COALESCE($2, url),
+            events = COALESCE($3::text[], events),
+            enabled = COALESCE($4, enabled)
+        WHERE id = $1
+        RETURNING ${ENDPOINT_COLUMNS}
+      `,
+      [endpointId, input.url ?? null, input.events ?? null, input.enabled ?? null],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      throw endpointNotFound();
+    }
+    return mapEndpoint(row);
+  }
+
+  async rotateEndpointSecret(endpointId: string, secret: string): Promise<WebhookEndpointRecord> {
+    const result = await this.pool.query<EndpointRow>(
+      `
+        UPDATE pmc_webhook_endpoints
+        SET secret = $2
+        WHERE id = $1
+        RETURNING ${ENDPOINT_COLUMNS}
+      `,
+      [endpointId, secret],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      throw endpointNotFound();
+    }
+    return mapEndpoint(row);
+  }
+
+  async listEndpoints(input: CursorPaginationInput): Promise<CursorPaginationResult<WebhookEndpointRecord>> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let index = 1;
+
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const result = await this.pool.query<EndpointRow & KeysetRow>(
+      `
+        SELECT ${ENDPOINT_COLUMNS}, ${keysetTimestampSql("created_at")}
+        FROM pmc_webhook_endpoints
+        ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
+      `,
+      values,
+    );
+
+    return toKeysetPage(result.rows, limit, mapEndpoint);
+  }
+
+  async listEnabledEndpointsByEvent(eventType: PaymentEvent["type"]): Promise<WebhookEndpointRecord[]> {
+    const result = await this.pool.query<EndpointRow>(
+      `
+        SELECT ${ENDPOINT_COLUMNS}
+        FROM pmc_webhook_endpoints
+        WHERE enabled = TRUE
+          AND (cardinality(events) = 0 OR $1 = ANY(events))
+        ORDER BY created_at ASC, id ASC
+      `,
+      [eventType],
+    );
+    return result.rows.map(mapEndpoint);
+  }
+
+  async saveDelivery(delivery: WebhookDeliveryRecord): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO pmc_webhook_deliveries (
+          id,
+          endpoint_id,
+          event_id,
+          event_type,
+          attempt,
+          status,
+          response_status,
+          error_code,
+          created_at,
+          delivered_at,
+          next_attempt_at,
+          response_body
+        )
+        VALUES (
+          $1,
+          $2,
+          $3,
+          $4,
+          $5,
+          $6,
+          $7,
+          $8,
+          $9::timestamptz,
+          $10::timestamptz,
+          $11::timestamptz,
+          $12
+        )
+        ON CONFLICT (id) DO NOTHING
+      `,
+      [
+        delivery.id,
+        delivery.endpoint_id,
+        delivery.event_id,
+        delivery.event_type,
+        delivery.attempt,
+        delivery.status,
+        delivery.response_status ?? null,
+        delivery.error_code ?? null,
+        delivery.created_at,
+        delivery.delivered_at ?? null,
+        delivery.next_attempt_at ?? null,
+        delivery.response_body ?? null,
+      ],
+    );
+  }
+
+  async listDeliveries(input: CursorPaginationInput): Promise<CursorPaginationResult<WebhookDeliveryRecord>> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let index = 1;
+
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(created_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const result = await this.pool.query<DeliveryRow & KeysetRow>(
+      `
+        SELECT
+          id,
+          endpoint_id,
+          event_id,
+          event_type,
+          attempt,
+          status,
+          response_status,
+          response_body,
+          error_code,
+          created_at,
+          delivered_at,
+          next_attempt_at,
+          ${keysetTimestampSql("created_at")}
+        FROM pmc_webhook_deliveries
+        ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${index}
+      `,
+      values,
+    );
+
+    return toKeysetPage(result.rows, limit, mapDelivery);
+  }
+
+  async saveDeadLetter(deadLetter: StoredWebhookDeadLetterRecord): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO pmc_webhook_dead_letters (
+          id,
+          endpoint_id,
+          endpoint_url,
+          event_id,
+          event_type,
+          attempts,
+          status,
+          replay_count,
+          failure_reason,
+          response_status,
+          error_code,
+          failed_at,
+          last_replayed_at,
+          event
+        )
+        VALUES (
+          $1,
+          $2,
+          $3,
+          $4,
+          $5,
+          $6,
+          $7,
+          $8,
+          $9,
+          $10,
+          $11,
+          $12::timestamptz,
+          $13::timestamptz,
+          $14::jsonb
+        )
+        ON CONFLICT (id) DO NOTHING
+      `,
+      [
+        deadLetter.id,
+        deadLetter.endpoint_id,
+        deadLetter.endpoint_url,
+        deadLetter.event_id,
+        deadLetter.event_type,
+        deadLetter.attempts,
+        deadLetter.status,
+        deadLetter.replay_count,
+        deadLetter.failure_reason,
+        deadLetter.response_status ?? null,
+        deadLetter.error_code ?? null,
+        deadLetter.failed_at,
+        deadLetter.last_replayed_at ?? null,
+        JSON.stringify(deadLetter.event),
+      ],
+    );
+  }
+
+  async listDeadLetters(input: WebhookDeadLetterListInput): Promise<CursorPaginationResult<WebhookDeadLetterRecord>> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let index = 1;
+
+    if (input.status) {
+      conditions.push(`status = $${index}`);
+      values.push(input.status);
+      index += 1;
+    }
+    if (input.eventType) {
+      conditions.push(`event_type = $${index}`);
+      values.push(input.eventType);
+      index += 1;
+    }
+    if (input.endpointId) {
+      conditions.push(`endpoint_id = $${index}`);
+      values.push(input.endpointId);
+      index += 1;
+    }
+    if (input.cursor) {
+      const cursor = decodeKeysetCursor(input.cursor);
+      conditions.push(`(failed_at, id) < ($${index}::timestamptz, $${index + 1})`);
+      values.push(cursor.timestamp, cursor.id);
+      index += 2;
+    }
+
+    const limit = Math.max(1, input.limit);
+    values.push(limit + 1);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const result = await this.pool.query<Omit<DeadLetterRow, "event"> & KeysetRow>(
+      `
+        SELECT ${DEAD_LETTER_PUBLIC_COLUMNS}, ${keysetTimestampSql("failed_at")}
+        FROM pmc_webhook_dead_letters
+        ${whereClause}
+        ORDER BY failed_at DESC, id DESC
+        LIMIT $${index}
+      `,
+      values,
+    );
+
+    return toKeysetPage(result.rows, limit, mapDeadLetter);
+  }
+
+  async getDeadLetterById(deadLetterId: string): Promise<StoredWebhookDeadLetterRecord> {
+    const result = await this.pool.query<DeadLetterRow>(
+      `
+        SELECT
+          ${DEAD_LETTER_PUBLIC_COLUMNS},
+          event
+        FROM pmc_webhook_dead_letters
+        WHERE id = $1
+      `,
+      [deadLetterId],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      throw deadLetterNotFound();
+    }
+    return {
+      ...mapDeadLetter(row),
+      event: row.event,
+    };
+  }
+
+  async updateDeadLetter(deadLetter: StoredWebhookDeadLetterRecord): Promise<void> {
+    const result = await this.pool.query(
+      `
+        UPDATE pmc_webhook_dead_letters
+        SET endpoint_url = $2,
+            attempts = $3,
+            status = $4,
+            replay_count = $5,
+            failure_reason = $6,
+            response_status = $7,
+            error_code = $8,
+            last_replayed_at = $9::timestamptz,
+            event = $10::jsonb
+        WHERE id = $1
+      `,
+      [
+        deadLetter.id,
+        deadLetter.endpoint_url,
+        deadLetter.attempts,
+        deadLetter.status,
+        deadLetter.replay_count,
+        deadLetter.failure_reason,
+        deadLetter.response_status ?? null,
+        deadLetter.error_code ?? null,
+        deadLetter.last_replayed_at ?? null,
+        JSON.stringify(deadLetter.event),
+      ],
+    );
+    if (result.rowCount === 0) {
+      throw deadLetterNotFound();
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { randomUUID } from "node:crypto";
+import { AppError } from "../../infra/app-error.js";
+import type { ClockPort } from "../../infra/clock.js";
+import { signNotification, verifyNotificationSignature } from "../../infra/notification-signature.js";
+import type {
+  ProviderNotification,
+  ProviderNotificationRequest,
+  ProviderNotificationStatus,
+  ProviderNotificationVerifierPort,
+} from "../../ports/provider-notification.js";
+
+export const MOCK_NOTIFICATION_SIGNATURE_HEADER = "x-mock-signature";
+export const MOCK_NOTIFICATION_TIMESTAMP_HEADER = "x-mock-timestamp";
+
+interface MockNotificationBody {
+  id?: unknown;
+  type?: unknown;
+  reference?: unknown;
+  failure_code?: unknown;
+}
+
+interface MockNotificationVerifierOptions {
+  provider: string;
+  secret: string;
+  toleranceSeconds: number;
+  clock: ClockPort;
+}
+
+const notificationStatusByType: Record<string, ProviderNotificationStatus> = {
+  "authorization.succeeded": "succeeded",
+  "authorization.failed": "failed",
+};
+
+function invalidPayload(message: string): AppError {
+  return new AppError(422, "invalid_notification_payload", message);
+}
+
+/**
+ * Verifies notifications signed the way the mock providers sign them: an
+ * HMAC-SHA256 over `${timestamp}.${body}` with a unix-seconds timestamp.
+ */
+export class MockNotificationVerifier implements ProviderNotificationVerifierPort {
+  public readonly provider: string;
+
+  constructor(private readonly options: MockNotificationVerifierOptions) {
+    this.provider = options.provider;
+  }
+
+  verify(request: ProviderNotificationRequest): ProviderNotification {
+    verifyNotificationSignature(request.headers, request.rawBody, {
+      secret: this.options.secret,
+      signatureHeader: MOCK_NOTIFICATION_SIGNATURE_HEADER,
+      timestampHeader: MOCK_NOTIFICATION_TIMESTAMP_HEADER,
+      toleranceSeconds: this.options.toleranceSeconds,
+      clock: this.options.clock,
+    });
+    return this.parse(request.rawBody);
+  }
+
+  private parse(rawBody: string): ProviderNotification {
+    let body: MockNotificationBody;
+    try {
+      body = JSON.parse(rawBody) as MockNotificationBody;
+    } catch {
+      throw invalidPayload("Notification body must be valid JSON.");
+    }
+    if (typeof body !== "object" || body === null) {
+      throw invalidPayload("Notification body must be an object.");
+    }
+    if (typeof body.id !== "string" || body.id.length === 0 || body.id.length > 128) {
+      throw invalidPayload("Notification id must be a string with 1..128 chars.");
+    }
+    if (typeof body.reference !== "string" || body.reference.length === 0) {
+      throw invalidPayload("Notification reference must be a non-empty string.");
+    }
+    const status = typeof body.type === "string" ? notificationStatusByType[body.type] : undefined;
+    if (!status) {
+      throw invalidPayload("Notification type is not supported.");
+    }
+    if (body.failure_code !== undefined && typeof body.failure_code !== "string") {
+      throw invalidPayload("Notification failure_code must be a string.");
+    }
+
+    return {
+      id: body.id,
+      providerReference: body.reference,
+      status,
+      ...(typeof body.failure_code === "string" ? { failureCode: body.failure_code } : {}),
+    };
+  }
+}
+
+export interface MockNotificationInput {
+  reference: string;
+  status: ProviderNotificationStatus;
+  failureCode?: string;
+  id?: string;
+  // Unix seconds; defaults to the notifier's clock.
+  timestamp?: number;
+}
+
+export interface SignedMockNotification {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Builds the signed requests a mock provider would send, so tests can drive
+ * the inbound notification endpoint.
+ */
+export class MockProviderNotifier {
+  constructor(
+    private readonly secret: string,
+    private readonly clock: ClockPort,
+  ) {}
+
+  build(input: MockNotificationInput): SignedMockNotification {
+    const timestamp = String(input.timestamp ?? Math.floor(Date.parse(this.clock.nowIso()) / 1000));
+    const body = JSON.stringify({
+      id: input.id ?? `ntf_${randomUUID()}`,
+      type: `authorization.${input.status}`,
+      reference: input.reference,
+      ...(input.failureCode ? { failure_code: input.failureCode } : {}),
+    });
+    return {
+      headers: {
+        "content-type": "application/json",
+        [MOCK_NOTIFICATION_SIGNATURE_HEADER]: signNotification(this.secret, timestamp, body),
+        [MOCK_NOTIFICATION_TIMESTAMP_HEADER]: timestamp,
+      },
+      body,
+    };
+  }
+}
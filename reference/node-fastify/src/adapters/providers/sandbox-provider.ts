@@ -0,0 +1,409 @@
+import { randomUUID } from "node:crypto";
+import type {
+  AuthorizeInput,
+  AuthorizeResult,
+  CaptureInput,
+  CaptureResult,
+  CompleteAuthorizationInput,
+  ProviderCallOptions,
+  ProviderGatewayPort,
+  ProviderStatusResult,
+  RefundInput,
+  RefundResult,
+  ReverseAuthorizationInput,
+  ReverseAuthorizationResult,
+} from "../../ports/provider-gateway.js";
+import { normalizeDeclineCode } from "../../domain/decline-codes.js";
+import type { DeclineCode } from "../../domain/decline-codes.js";
+import type { PaymentMethodType } from "../../domain/types.js";
+import { SystemClock } from "../../infra/clock.js";
+import type { ClockPort } from "../../infra/clock.js";
+import { SandboxScenarioRegistry, sandboxFailureCodes } from "../../infra/sandbox-scenarios.js";
+import type { SandboxOperation } from "../../infra/sandbox-scenarios.js";
+
+interface SandboxProviderOptions {
+  name: string;
+  supportedMethods: PaymentMethodType[];
+  // Shared by the sandbox providers of an instance; defaults to one holding only the built-in scenarios.
+  scenarios?: SandboxScenarioRegistry;
+  clock?: ClockPort;
+  random?: () => number;
+}
+
+export type SandboxTokenBehavior =
+  | { authorize: "decline"; rawCode: string }
+  // Declines the first attempt per merchant reference, then approves.
+  | { authorize: "decline_once"; rawCode: string }
+  // Never answers; returns only once the caller aborts.
+  | { authorize: "hang" }
+  | { authorize: "requires_action" }
+  | { authorize: "pending" }
+  // Approves, then fails the given operation on the authorization.
+  | { authorize: "approve"; failsOn?: Exclude<SandboxOperation, "authorize"> };
+
+export interface SandboxTestToken {
+  token: string;
+  description: string;
+  behavior: SandboxTokenBehavior;
+  // Only these providers react to the token; the others approve it.
+  providers?: string[];
+}
+
+// Raw codes the sandbox answers with, in the style of acquirer response codes.
+const sandboxDeclineCodes: Readonly<Record<string, DeclineCode>> = {
+  provider_declined: "generic_decline",
+  transient_network_error: "network_error",
+  capture_rejected: "generic_decline",
+  refund_rejected: "generic_decline",
+  reversal_rejected: "generic_decline",
+  capture_amount_exceeded: "transaction_not_allowed",
+  refund_amount_exceeded: "transaction_not_allowed",
+  "51": "insufficient_funds",
+  "54": "expired_card",
+  "59": "fraud_suspected",
+  "91": "issuer_unavailable",
+};
+
+/**
+ * Payment method tokens with a fixed outcome. Tokens are matched exactly;
+ * any other token is approved.
+ */
+export const sandboxTestTokens: readonly SandboxTestToken[] = [
+  { token: "tok_test_visa", description: "Approved.", behavior: { authorize: "approve" } },
+  {
+    token: "tok_test_fail",
+    description: "Declined with provider_declined (generic_decline).",
+    behavior: { authorize: "decline", rawCode: "provider_declined" },
+  },
+  {
+    token: "tok_test_insufficient_funds",
+    description: "Declined with raw code 51 (insufficient_funds).",
+    behavior: { authorize: "decline", rawCode: "51" },
+  },
+  {
+    token: "tok_test_expired_card",
+    description: "Declined with raw code 54 (expired_card).",
+    behavior: { authorize: "decline", rawCode: "54" },
+  },
+  {
+    token: "tok_test_fraud",
+    description: "Declined with raw code 59 (fraud_suspected).",
+    behavior: { authorize: "decline", rawCode: "59" },
+  },
+  {
+    token: "tok_test_issuer_unavailable",
+    description: "Declined with raw code 91 (issuer_unavailable).",
+    behavior: { authorize: "decline", rawCode: "91" },
+  },
+  {
+    token: "tok_test_unavailable",
+    description: "Rejected as provider_unavailable by every provider, so failover runs out of candidates.",
+    behavior: { authorize: "decline", rawCode: "provider_unavailable" },
+  },
+  {
+    token: "tok_test_transient",
+    description: "Fails on provider_b with transient_network_error (network_error) and fails over.",
+    behavior: { authorize: "decline", rawCode: "transient_network_error" },
+    providers: ["provider_b"],
+  },
+  {
+    token: "tok_test_flaky",
+    description: "Fails the first attempt per payment on provider_b with transient_network_error, then approves.",
+    behavior: { authorize: "decline_once", rawCode: "transient_network_error" },
+    providers: ["provider_b"],
+  },
+  {
+    token: "tok_test_timeout",
+    description: "provider_b never answers, so the call runs into its timeout.",
+    behavior: { authorize: "hang" },
+    providers: ["provider_b"],
+  },
+  {
+    token: "tok_test_3ds",
+    description: "Approved with a three_ds_challenge next action.",
+    behavior: { authorize: "requires_action" },
+  },
+  {
+    token: "tok_test_async",
+    description: "Accepted as pending; settled by a provider notification or the scenario's settlement delay.",
+    behavior: { authorize: "pending" },
+  },
+  {
+    token: "tok_test_capture_fail",
+    description: "Approved; captures fail with capture_rejected.",
+    behavior: { authorize: "approve", failsOn: "capture" },
+  },
+  {
+    token: "tok_test_refund_fail",
+    description: "Approved; refunds fail with refund_rejected.",
+    behavior: { authorize: "approve", failsOn: "refund" },
+  },
+  {
+    token: "tok_test_void_fail",
+    description: "Approved; voids fail with reversal_rejected.",
+    behavior: { authorize: "approve", failsOn: "void" },
+  },
+];
+
+const testTokens = new Map(sandboxTestTokens.map((entry) => [entry.token, entry]));
+
+/**
+ * In-process stand-in for an acquirer. Outcomes come from the test token
+ * catalog above; the active sandbox scenario adds latency, random failures
+ * per operation and the settlement delay of pending authorizations.
+ */
+export class SandboxProviderGateway implements ProviderGatewayPort {
+  public readonly name: string;
+  private readonly supportedMethods: Set<PaymentMethodType>;
+  private readonly scenarios: SandboxScenarioRegistry;
+  private readonly clock: ClockPort;
+  private readonly random: () => number;
+  private readonly authorizations = new Map<string, ProviderStatusResult>();
+  private readonly merchantReferences = new Map<string, string>();
+  // When each pending authorization was accepted, for the scenario's settlement delay.
+  private readonly pendingSince = new Map<string, number>();
+  // Merchant references whose first decline_once attempt already failed.
+  private readonly declinedOnce = new Set<string>();
+  // Provider references whose authorization fails a later operation.
+  private readonly failingOperations = new Map<string, Exclude<SandboxOperation, "authorize">>();
+  // Authorized, captured and refunded amounts per approved provider reference.
+  private readonly amounts = new Map<string, { authorized: number; captured: number; refunded: number }>();
+  // Answers of keyed captures, refunds and voids; a repeated key gets the first answer back.
+  private readonly settledByKey = new Map<string, { ok: boolean; failureCode?: string; declineCode?: DeclineCode }>();
+
+  constructor(options: SandboxProviderOptions) {
+    this.name = options.name;
+    this.supportedMethods = new Set(options.supportedMethods);
+    this.scenarios = options.scenarios ?? new SandboxScenarioRegistry([]);
+    this.clock = options.clock ?? new SystemClock();
+    this.random = options.random ?? Math.random;
+  }
+
+  supports(paymentMethod: PaymentMethodType): boolean {
+    return this.supportedMethods.has(paymentMethod);
+  }
+
+  async authorize(input: AuthorizeInput, options?: ProviderCallOptions): Promise<AuthorizeResult> {
+    const injected = await this.simulate("authorize", options?.signal);
+    if (injected) {
+      return { ok: false, reference: `${this.name}_${randomUUID()}`, ...injected };
+    }
+    const behavior = this.behaviorFor(input.paymentMethodToken);
+    if (behavior.authorize === "hang") {
+      await hang(options?.signal);
+      return { ok: false, reference: `${this.name}_${randomUUID()}`, ...declined("provider_unavailable") };
+    }
+    const result = this.decideAuthorization(input, behavior);
+    this.remember(result, input.merchantReference);
+    if (result.ok) {
+      this.amounts.set(result.reference, { authorized: input.amount, captured: 0, refunded: 0 });
+    }
+    return result;
+  }
+
+  async completeAuthorization(input: CompleteAuthorizationInput): Promise<AuthorizeResult> {
+    const result: AuthorizeResult = input.actionResult.authentication_result === "failed"
+      ? { ok: false, reference: input.reference, ...declined("authentication_failed") }
+      : { ok: true, reference: input.reference };
+    this.remember(result);
+    return result;
+  }
+
+  async getStatus(reference: string): Promise<ProviderStatusResult> {
+    const providerReference = this.merchantReferences.get(reference) ?? reference;
+    const known = this.authorizations.get(providerReference);
+    if (!known) {
+      return { status: "not_found" };
+    }
+    const settlementDelayMs = this.scenarios.profileFor(this.name)?.settlementDelayMs;
+    const pendingSince = this.pendingSince.get(providerReference);
+    if (
+      known.status === "pending"
+      && pendingSince !== undefined
+      && settlementDelayMs !== undefined
+      && Date.parse(this.clock.nowIso()) - pendingSince >= settlementDelayMs
+    ) {
+      this.remember({ ok: true, reference: providerReference });
+      return { status: "authorized", reference: providerReference };
+    }
+    return { ...known };
+  }
+
+  async capture(input: CaptureInput, options?: ProviderCallOptions): Promise<CaptureResult> {
+    return this.settle("capture", input, options);
+  }
+
+  async refund(input: RefundInput, options?: ProviderCallOptions): Promise<RefundResult> {
+    return this.settle("refund", input, options);
+  }
+
+  async reverseAuthorization(
+    input: ReverseAuthorizationInput,
+    options?: ProviderCallOptions,
+  ): Promise<ReverseAuthorizationResult> {
+    return this.settle("void", input, options);
+  }
+
+  private async settle(
+    operation: Exclude<SandboxOperation, "authorize">,
+    input: { amount: number; reference: string; idempotencyKey?: string },
+    options: ProviderCallOptions | undefined,
+  ): Promise<{ ok: boolean; failureCode?: string; declineCode?: DeclineCode }> {
+    const keyed = input.idempotencyKey ? this.settledByKey.get(`${operation}:${input.idempotencyKey}`) : undefined;
+    if (keyed) {
+      return { ...keyed };
+    }
+    // Injected failures stand for a provider that never processed the call, so they are not remembered.
+    const injected = await this.simulate(operation, options?.signal);
+    if (injected) {
+      return { ok: false, ...injected };
+    }
+    const result = this.failingOperations.get(input.reference) === operation
+      ? { ok: false, ...declined(sandboxFailureCodes[operation]) }
+      : this.book(operation, input);
+    if (input.idempotencyKey) {
+      this.settledByKey.set(`${operation}:${input.idempotencyKey}`, result);
+    }
+    return { ...result };
+  }
+
+  // Declines captures beyond the authorization and refunds beyond the capture; unknown references are not tracked.
+  // Without an explicit capture the whole authorization counts as captured, as with automatic capture.
+  private book(
+    operation: Exclude<SandboxOperation, "authorize">,
+    input: { amount: number; reference: string },
+  ): { ok: boolean; failureCode?: string; declineCode?: DeclineCode } {
+    const amounts = this.amounts.get(input.reference);
+    if (!amounts || operation === "void") {
+      return { ok: true };
+    }
+    if (operation === "capture") {
+      if (amounts.captured + input.amount > amounts.authorized) {
+        return { ok: false, ...declined("capture_amount_exceeded") };
+      }
+      amounts.captured += input.amount;
+    } else {
+      const captured = amounts.captured > 0 ? amounts.captured : amounts.authorized;
+      if (amounts.refunded + input.amount > captured) {
+        return { ok: false, ...declined("refund_amount_exceeded") };
+      }
+      amounts.refunded += input.amount;
+    }
+    return { ok: true };
+  }
+
+  // Applies the active scenario: waits out the drawn latency, then maybe fails the call.
+  private async simulate(
+    operation: SandboxOperation,
+    signal: AbortSignal | undefined,
+  ): Promise<{ failureCode: string; declineCode: DeclineCode } | undefined> {
+    const profile = this.scenarios.profileFor(this.name);
+    if (!profile) {
+      return undefined;
+    }
+    const operationProfile = profile.operations[operation];
+    const latency = operationProfile?.latencyMs ?? profile.latencyMs;
+    if (latency && latency.maxMs > 0) {
+      await wait(latency.minMs + this.random() * (latency.maxMs - latency.minMs), signal);
+    }
+    if (operationProfile && operationProfile.failureRate > 0 && this.random() < operationProfile.failureRate) {
+      return declined(operationProfile.failureCode);
+    }
+    return undefined;
+  }
+
+  private behaviorFor(token: string): SandboxTokenBehavior {
+    const entry = testTokens.get(token);
+    if (!entry || (entry.providers && !entry.providers.includes(this.name))) {
+      return { authorize: "approve" };
+    }
+    return entry.behavior;
+  }
+
+  private decideAuthorization(
+    input: AuthorizeInput,
+    behavior: Exclude<SandboxTokenBehavior, { authorize: "hang" }>,
+  ): AuthorizeResult {
+    const reference = `${this.name}_${randomUUID()}`;
+    switch (behavior.authorize) {
+      case "decline":
+        return { ok: false, reference, ...declined(behavior.rawCode) };
+      case "decline_once":
+        if (this.declinedOnce.has(input.merchantReference)) {
+          return { ok: true, reference };
+        }
+        this.declinedOnce.add(input.merchantReference);
+        return { ok: false, reference, ...declined(behavior.rawCode) };
+      case "requires_action":
+        return {
+          ok: true,
+          reference,
+          nextAction: {
+            type: "three_ds_challenge",
+            challenge: {
+              acs_url: `https://acs.mock.invalid/${this.name}/challenge`,
+              creq: Buffer.from(reference).toString("base64url"),
+            },
+          },
+        };
+      case "pending":
+        return { ok: true, reference, pending: true };
+      case "approve":
+        if (behavior.failsOn) {
+          this.failingOperations.set(reference, behavior.failsOn);
+        }
+        return { ok: true, reference };
+    }
+  }
+
+  // Keeps the latest answer per reference, like the payment lookup a real provider offers.
+  private remember(result: AuthorizeResult, merchantReference?: string): void {
+    let status: ProviderStatusResult["status"] = "authorized";
+    if (!result.ok) {
+      status = "failed";
+    } else if (result.nextAction) {
+      status = "requires_action";
+    } else if (result.pending) {
+      status = "pending";
+    }
+    this.authorizations.set(result.reference, {
+      status,
+      reference: result.reference,
+      ...(result.failureCode ? { failureCode: result.failureCode } : {}),
+      ...(result.declineCode ? { declineCode: result.declineCode } : {}),
+      ...(result.nextAction ? { nextAction: result.nextAction } : {}),
+    });
+    if (status === "pending") {
+      this.pendingSince.set(result.reference, Date.parse(this.clock.nowIso()));
+    } else {
+      this.pendingSince.delete(result.reference);
+    }
+    if (merchantReference) {
+      this.merchantReferences.set(merchantReference, result.reference);
+    }
+  }
+}
+
+// Stands in for an acquirer that stopped answering: returns once the caller aborts, or after a minute.
+function hang(signal: AbortSignal | undefined): Promise<void> {
+  return wait(60_000, signal);
+}
+
+function wait(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    timer.unref();
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function declined(rawCode: string): { failureCode: string; declineCode: DeclineCode } {
+  return { failureCode: rawCode, declineCode: normalizeDeclineCode(rawCode, sandboxDeclineCodes) };
+}
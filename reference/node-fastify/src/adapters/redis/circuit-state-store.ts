@@ -0,0 +1,295 @@
+import { randomUUID } from "node:crypto";
+import type { Redis } from "ioredis";
+import type {
+  CircuitCommand,
+  CircuitState,
+  CircuitStatePolicy,
+  CircuitStateStorePort,
+  CircuitStep,
+  CircuitTransition,
+  CircuitTransitionReason,
+  ForcedCircuitState,
+} from "../../ports/circuit-state-store.js";
+
+interface RedisCircuitStateStoreOptions {
+  keyPrefix: string;
+  // Used while Redis cannot be reached, so routing keeps working on this instance's own view.
+  fallback: CircuitStateStorePort;
+  // A slow Redis must not add its latency to every provider call.
+  timeoutMs?: number;
+  onUnavailable?: (error: unknown) => void;
+}
+
+// Same state machine as InMemoryCircuitStateStore; the window is two sorted sets of call ids scored by time.
+const CIRCUIT_STEP_LUA = `
+local key = KEYS[1]
+local calls_key = KEYS[2]
+local failures_key = KEYS[3]
+local command = ARGV[1]
+local now_ms = tonumber(ARGV[2])
+local failed = ARGV[3] == '1'
+local failure_threshold = tonumber(ARGV[4])
+local cooldown_ms = tonumber(ARGV[5])
+local failure_rate_threshold = tonumber(ARGV[6])
+local window_ms = tonumber(ARGV[7])
+local minimum_calls = tonumber(ARGV[8])
+local half_open_max_calls = tonumber(ARGV[9])
+local ttl_ms = tonumber(ARGV[10])
+local call_id = ARGV[11]
+local max_window_calls = tonumber(ARGV[12])
+
+local state = redis.call('HGET', key, 'state') or 'closed'
+local consecutive_failures = tonumber(redis.call('HGET', key, 'consecutive_failures') or '0')
+local opened_until_ms = tonumber(redis.call('HGET', key, 'opened_until_ms') or '0')
+local half_opened_at_ms = tonumber(redis.call('HGET', key, 'half_opened_at_ms') or '0')
+local probes_started = tonumber(redis.call('HGET', key, 'probes_started') or '0')
+local probes_succeeded = tonumber(redis.call('HGET', key, 'probes_succeeded') or '0')
+local forced_state = redis.call('HGET', key, 'forced_state') or ''
+local forced_until_ms = tonumber(redis.call('HGET', key, 'forced_until_ms') or '0')
+local forced_reason = redis.call('HGET', key, 'forced_reason') or ''
+local transitions = {}
+local acquired = 0
+
+local function transition(to, reason)
+  table.insert(transitions, state .. ':' .. to .. ':' .. reason)
+  state = to
+end
+
+local function reset()
+  consecutive_failures = 0
+  opened_until_ms = 0
+  half_opened_at_ms = 0
+  probes_started = 0
+  probes_succeeded = 0
+  redis.call('DEL', calls_key, failures_key)
+end
+
+local function open(reason)
+  transition('open', reason)
+  reset()
+  opened_until_ms = now_ms + cooldown_ms
+end
+
+if forced_state ~= '' and now_ms >= forced_until_ms then
+  if forced_state ~= state then
+    table.insert(transitions, forced_state .. ':' .. state .. ':force_expired')
+  end
+  forced_state = ''
+  forced_until_ms = 0
+  forced_reason = ''
+end
+if command == 'force' then
+  local from = state
+  if forced_state ~= '' then
+    from = forced_state
+  end
+  table.insert(transitions, from .. ':' .. ARGV[13] .. ':forced')
+  forced_state = ARGV[13]
+  forced_until_ms = tonumber(ARGV[14])
+  forced_reason = ARGV[15]
+end
+
+if forced_state ~= '' then
+  if forced_state == 'closed' then
+    acquired = 1
+  end
+  if forced_until_ms - now_ms > ttl_ms then
+    ttl_ms = forced_until_ms - now_ms
+  end
+else
+  if state == 'open' and now_ms >= opened_until_ms then
+    transition('half_open', 'cooldown_elapsed')
+    reset()
+    half_opened_at_ms = now_ms
+  elseif state == 'half_open' and now_ms - half_opened_at_ms >= cooldown_ms then
+    probes_started = probes_succeeded
+    half_opened_at_ms = now_ms
+  end
+
+  if command == 'acquire' then
+    if state == 'closed' then
+      acquired = 1
+    elseif state == 'half_open' and probes_started < half_open_max_calls then
+      probes_started = probes_started + 1
+      acquired = 1
+    end
+  elseif command == 'record' then
+    if state == 'half_open' then
+      if failed then
+        open('probe_failed')
+      else
+        probes_succeeded = probes_succeeded + 1
+        if probes_succeeded >= half_open_max_calls then
+          transition('closed', 'probes_succeeded')
+          reset()
+        end
+      end
+    elseif state == 'closed' then
+      redis.call('ZREMRANGEBYSCORE', calls_key, '-inf', now_ms - window_ms)
+      redis.call('ZREMRANGEBYSCORE', failures_key, '-inf', now_ms - window_ms)
+      redis.call('ZADD', calls_key, now_ms, call_id)
+      if failed then
+        redis.call('ZADD', failures_key, now_ms, call_id)
+        consecutive_failures = consecutive_failures + 1
+      else
+        consecutive_failures = 0
+      end
+      local overflow = redis.call('ZCARD', calls_key) - max_window_calls
+      if overflow > 0 then
+        local dropped = redis.call('ZRANGE', calls_key, 0, overflow - 1)
+        redis.call('ZREMRANGEBYRANK', calls_key, 0, overflow - 1)
+        redis.call('ZREM', failures_key, unpack(dropped))
+      end
+      if failed then
+        local calls = redis.call('ZCARD', calls_key)
+        local failures = redis.call('ZCARD', failures_key)
+        if consecutive_failures >= failure_threshold then
+          open('consecutive_failures')
+        elseif calls >= minimum_calls and failures / calls >= failure_rate_threshold then
+          open('failure_rate')
+        end
+      end
+    end
+  end
+end
+
+redis.call('HSET', key,
+  'state', state,
+  'consecutive_failures', consecutive_failures,
+  'opened_until_ms', opened_until_ms,
+  'half_opened_at_ms', half_opened_at_ms,
+  'probes_started', probes_started,
+  'probes_succeeded', probes_succeeded,
+  'forced_state', forced_state,
+  'forced_until_ms', forced_until_ms,
+  'forced_reason', forced_reason
+)
+redis.call('PEXPIRE', key, ttl_ms)
+redis.call('PEXPIRE', calls_key, ttl_ms)
+redis.call('PEXPIRE', failures_key, ttl_ms)
+
+local result = {
+  state,
+  consecutive_failures,
+  opened_until_ms,
+  half_opened_at_ms,
+  probes_started,
+  probes_succeeded,
+  redis.call('ZCARD', calls_key),
+  redis.call('ZCARD', failures_key),
+  acquired,
+  forced_state,
+  forced_until_ms,
+  forced_reason,
+}
+for _, item in ipairs(transitions) do
+  table.insert(result, item)
+end
+return result
+`;
+
+const maxWindowCalls = 1000;
+
+/**
+ * Shares circuit state between instances: each command is one Lua script, so
+ * every replica opens and closes a provider together and a transition is
+ * reported only by the instance whose command caused it.
+ */
+export class RedisCircuitStateStore implements CircuitStateStorePort {
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly options: RedisCircuitStateStoreOptions,
+  ) {
+    this.timeoutMs = options.timeoutMs ?? 250;
+  }
+
+  async apply(
+    provider: string,
+    command: CircuitCommand,
+    nowMs: number,
+    policy: CircuitStatePolicy,
+  ): Promise<CircuitStep> {
+    try {
+      return await this.evaluate(provider, command, nowMs, policy);
+    } catch (error) {
+      this.options.onUnavailable?.(error);
+      return this.options.fallback.apply(provider, command, nowMs, policy);
+    }
+  }
+
+  private async evaluate(
+    provider: string,
+    command: CircuitCommand,
+    nowMs: number,
+    policy: CircuitStatePolicy,
+  ): Promise<CircuitStep> {
+    const key = `${this.options.keyPrefix}:${provider}`;
+    // Idle circuits expire back to closed once neither the window nor a cooldown needs them.
+    const ttlMs = 2 * Math.max(policy.windowSeconds, policy.cooldownSeconds) * 1000;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error("Redis circuit state store timed out.")), this.timeoutMs);
+    });
+
+    try {
+      const raw = (await Promise.race([
+        this.redis.eval(
+          CIRCUIT_STEP_LUA,
+          3,
+          key,
+          `${key}:calls`,
+          `${key}:failures`,
+          command.type,
+          nowMs,
+          command.type === "record" && command.failed ? "1" : "0",
+          policy.failureThreshold,
+          policy.cooldownSeconds * 1000,
+          policy.failureRateThreshold,
+          policy.windowSeconds * 1000,
+          policy.minimumCalls,
+          policy.halfOpenMaxCalls,
+          ttlMs,
+          `${nowMs}:${randomUUID()}`,
+          maxWindowCalls,
+          ...(command.type === "force"
+            ? [command.override.state, command.override.untilMs, command.override.reason]
+            : []),
+        ),
+        timeout,
+      ])) as Array<number | string>;
+
+      const openedUntilMs = Number(raw[2]);
+      const halfOpenedAtMs = Number(raw[3]);
+      return {
+        snapshot: {
+          state: String(raw[0]) as CircuitState,
+          consecutiveFailures: Number(raw[1]),
+          openedUntilMs: openedUntilMs > 0 ? openedUntilMs : null,
+          halfOpenedAtMs: halfOpenedAtMs > 0 ? halfOpenedAtMs : null,
+          probesStarted: Number(raw[4]),
+          probesSucceeded: Number(raw[5]),
+          windowCalls: Number(raw[6]),
+          windowFailures: Number(raw[7]),
+          forced: raw[9]
+            ? { state: String(raw[9]) as ForcedCircuitState, untilMs: Number(raw[10]), reason: String(raw[11]) }
+            : null,
+        },
+        acquired: Number(raw[8]) === 1,
+        transitions: raw.slice(12).map((item) => parseTransition(String(item))),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function parseTransition(value: string): CircuitTransition {
+  const [from, to, reason] = value.split(":");
+  return {
+    from: from as CircuitState,
+    to: to as CircuitState,
+    reason: reason as CircuitTransitionReason,
+  };
+}
@@ -3,12 +3,17 @@ import type {
   CreateChargebackInput,
   CreatePaymentIntentInput,
   CreateRefundInput,
+  ForceProviderCircuitInput,
   LedgerEntryDirection,
   LedgerEntryType,
   PaymentEvent,
   PaymentMethodType,
+  PaymentReviewStatus,
   PaymentStatus,
   RefundStatus,
+  ResumePaymentIntentInput,
+  ReviewPaymentIntentInput,
+  SimulateRoutingInput,
   WebhookDeadLetterStatus,
 } from "../domain/types.js";
 import { AppError } from "../infra/app-error.js";
@@ -23,14 +28,9 @@ function isString(value: unknown): value is string {
 
 const paymentMethodTypes: Set<PaymentMethodType> = new Set(["card", "pix", "boleto", "wallet", "bank_transfer"]);
 
-export function assertCreatePaymentIntentInput(payload: unknown): asserts payload is CreatePaymentIntentInput {
-  if (!isObject(payload)) {
-    throw new AppError(400, "invalid_request_body", "Request body must be an object.");
-  }
-
-  const { amount, currency, customer, payment_method, capture_method } = payload;
-
-  const captureMethods = new Set(["automatic", "manual"]);
+// Fields shared by payment intent creation and routing simulation, which routes on the same attributes.
+function assertRoutingAttributes(payload: Record<string, unknown>): void {
+  const { amount, currency, customer, payment_method, metadata } = payload;
 
   if (typeof amount !== "number" || !Number.isInteger(amount) || amount <= 0) {
     throw new AppError(422, "invalid_amount", "Amount must be an integer greater than zero.");
@@ -43,21 +43,70 @@ export function assertCreatePaymentIntentInput(payload: unknown): asserts payloa
   }
   if (
     !isObject(payment_method) ||
-    !isString(payment_method.token) ||
     !isString(payment_method.type) ||
     !paymentMethodTypes.has(payment_method.type as PaymentMethodType)
   ) {
     throw new AppError(422, "invalid_payment_method", "Invalid payment method payload.");
   }
-  if (!isString(capture_method) || !captureMethods.has(capture_method)) {
+  if (
+    payment_method.bin_country !== undefined &&
+    (payment_method.type !== "card" || !isString(payment_method.bin_country) ||
+      !/^[A-Za-z]{2}$/.test(payment_method.bin_country))
+  ) {
+    throw new AppError(
+      422,
+      "invalid_payment_method",
+      "payment_method.bin_country must be a 2-letter ISO country code and is only accepted for cards.",
+    );
+  }
+  if (
+    metadata !== undefined &&
+    (!isObject(metadata) ||
+      Object.keys(metadata).length > 20 ||
+      !Object.entries(metadata).every(
+        ([key, value]) => key.length > 0 && key.length <= 40 && typeof value === "string" && value.length <= 500,
+      ))
+  ) {
+    throw new AppError(
+      422,
+      "invalid_metadata",
+      "metadata must be an object with up to 20 keys (1..40 chars) and string values up to 500 chars.",
+    );
+  }
+}
+
+export function assertCreatePaymentIntentInput(payload: unknown): asserts payload is CreatePaymentIntentInput {
+  if (!isObject(payload)) {
+    throw new AppError(400, "invalid_request_body", "Request body must be an object.");
+  }
+
+  const captureMethods = new Set(["automatic", "manual"]);
+
+  assertRoutingAttributes(payload);
+  if (!isObject(payload.payment_method) || !isString(payload.payment_method.token)) {
+    throw new AppError(422, "invalid_payment_method", "Invalid payment method payload.");
+  }
+  if (!isString(payload.capture_method) || !captureMethods.has(payload.capture_method)) {
     throw new AppError(422, "invalid_capture_method", "capture_method must be automatic or manual.");
   }
 }
 
-export function assertCaptureInput(payload: unknown): asserts payload is { amount: number } {
+export function assertSimulateRoutingInput(payload: unknown): asserts payload is SimulateRoutingInput {
+  if (!isObject(payload)) {
+    throw new AppError(400, "invalid_request_body", "Request body must be an object.");
+  }
+  assertRoutingAttributes(payload);
+}
+
+export function assertCaptureInput(
+  payload: unknown,
+): asserts payload is { amount: number; final_capture?: boolean } {
   if (!isObject(payload) || typeof payload.amount !== "number" || payload.amount <= 0) {
     throw new AppError(422, "invalid_amount", "Capture amount must be greater than zero.");
   }
+  if (payload.final_capture !== undefined && typeof payload.final_capture !== "boolean") {
+    throw new AppError(422, "invalid_final_capture", "final_capture must be a boolean.");
+  }
 }
 
 export function assertCreateRefundInput(payload: unknown): asserts payload is CreateRefundInput {
@@ -116,6 +165,67 @@ export function assertResolveChargebackInput(
   }
 }
 
+export function assertResumePaymentIntentInput(
+  payload: unknown,
+): asserts payload is ResumePaymentIntentInput | undefined {
+  if (payload === undefined) {
+    return;
+  }
+  if (!isObject(payload)) {
+    throw new AppError(400, "invalid_request_body", "Request body must be an object.");
+  }
+  if (
+    payload.action_result !== undefined &&
+    (!isObject(payload.action_result) ||
+      !Object.values(payload.action_result).every((value) => typeof value === "string"))
+  ) {
+    throw new AppError(422, "invalid_action_result", "action_result must be an object of string values.");
+  }
+}
+
+export function assertReviewPaymentIntentInput(payload: unknown): asserts payload is ReviewPaymentIntentInput {
+  if (!isObject(payload)) {
+    throw new AppError(400, "invalid_request_body", "Request body must be an object.");
+  }
+  if (payload.decision !== "approve" && payload.decision !== "reject") {
+    throw new AppError(422, "invalid_review_decision", "decision must be one of: approve, reject.");
+  }
+  if (!isString(payload.note) || payload.note.trim().length === 0 || payload.note.length > 500) {
+    throw new AppError(422, "invalid_review_note", "note must be a non-empty string up to 500 characters.");
+  }
+}
+
+export function assertForceProviderCircuitInput(payload: unknown): asserts payload is ForceProviderCircuitInput {
+  if (!isObject(payload)) {
+    throw new AppError(400, "invalid_request_body", "Request body must be an object.");
+  }
+  if (payload.state !== "open" && payload.state !== "closed") {
+    throw new AppError(422, "invalid_circuit_state", "state must be one of: open, closed.");
+  }
+  if (
+    typeof payload.ttl_seconds !== "number"
+    || !Number.isInteger(payload.ttl_seconds)
+    || payload.ttl_seconds < 1
+    || payload.ttl_seconds > 86_400
+  ) {
+    throw new AppError(422, "invalid_ttl_seconds", "ttl_seconds must be an integer between 1 and 86400.");
+  }
+  if (!isString(payload.reason) || payload.reason.trim().length === 0 || payload.reason.length > 500) {
+    throw new AppError(422, "invalid_circuit_reason", "reason must be a non-empty string up to 500 characters.");
+  }
+}
+
+export function assertActivateSandboxScenarioInput(
+  payload: unknown,
+): asserts payload is ActivateSandboxScenarioInput {
+  if (!isObject(payload)) {
+    throw new AppError(400, "invalid_request_body", "Request body must be an object.");
+  }
+  if (!isString(payload.name) || payload.name.trim().length === 0 || payload.name.length > 64) {
+    throw new AppError(422, "invalid_sandbox_scenario", "name must be a non-empty string up to 64 characters.");
+  }
+}
+
 interface CreateWebhookEndpointInput {
   url: string;
   events?: PaymentEvent["type"][];
@@ -123,6 +233,10 @@ interface CreateWebhookEndpointInput {
   enabled?: boolean;
 }
 
+interface ActivateSandboxScenarioInput {
+  name: string;
+}
+
 interface RotateWebhookSecretInput {
   secret?: string;
 }
@@ -147,11 +261,16 @@ const webhookEventTypes: Set<PaymentEvent["type"]> = new Set([
   "payment_intent.succeeded",
   "payment_intent.failed",
   "payment_intent.canceled",
+  "payment_intent.authorization_released",
   "refund.succeeded",
   "refund.failed",
   "chargeback.opened",
   "chargeback.won",
   "chargeback.lost",
+  "review.approved",
+  "review.rejected",
+  "review.canceled",
+  "provider.circuit_state_changed",
 ]);
 const webhookDeadLetterStatuses: Set<WebhookDeadLetterStatus> = new Set(["pending", "replayed"]);
 const paymentStatuses: Set<PaymentStatus> = new Set([
@@ -164,7 +283,14 @@ const paymentStatuses: Set<PaymentStatus> = new Set([
 ]);
 const refundStatuses: Set<RefundStatus> = new Set(["pending", "succeeded", "failed"]);
 const chargebackStatuses: Set<ChargebackStatus> = new Set(["open", "under_review", "won", "lost"]);
-const ledgerEntryTypes: Set<LedgerEntryType> = new Set(["authorization", "capture", "refund", "chargeback"]);
+const paymentReviewStatuses: Set<PaymentReviewStatus> = new Set(["pending", "approved", "rejected", "canceled"]);
+const ledgerEntryTypes: Set<LedgerEntryType> = new Set([
+  "authorization",
+  "authorization_reversal",
+  "capture",
+  "refund",
+  "chargeback",
+]);
 const ledgerEntryDirections: Set<LedgerEntryDirection> = new Set(["debit", "credit"]);
 
 export function assertCreateWebhookEndpointInput(
@@ -500,6 +626,21 @@ export function normalizeChargebackStatus(value: unknown): ChargebackStatus | un
   return status as ChargebackStatus;
 }
 
+export function normalizeReviewStatus(value: unknown): PaymentReviewStatus | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new AppError(422, "invalid_review_status", "status must be a string.");
+  }
+
+  const status = value.trim();
+  if (!paymentReviewStatuses.has(status as PaymentReviewStatus)) {
+    throw new AppError(422, "invalid_review_status", "Unsupported review status.");
+  }
+  return status as PaymentReviewStatus;
+}
+
 export function normalizeIsoDateTime(value: unknown, fieldName: string): string | undefined {
   if (value === undefined) {
     return undefined;
@@ -0,0 +1,51 @@
+import { PeriodicTask } from "../infra/periodic-task.js";
+import type { PaymentOrchestrator } from "./payment-orchestrator.js";
+
+interface AuthorizationExpirySweeperOptions {
+  sweepIntervalMs: number;
+  batchSize: number;
+}
+
+/**
+ * Periodically cancels manual-capture intents whose authorization expired.
+ * Expiry is judged against the orchestrator's clock, not the timer.
+ */
+export class AuthorizationExpirySweeper {
+  // A failed pass leaves expired intents in requires_action for the next one.
+  private readonly task: PeriodicTask;
+
+  constructor(
+    private readonly orchestrator: PaymentOrchestrator,
+    private readonly options: AuthorizationExpirySweeperOptions,
+  ) {
+    this.task = new PeriodicTask({
+      intervalMs: options.sweepIntervalMs,
+      runPass: async () => {
+        await this.sweep();
+      },
+    });
+  }
+
+  start(): void {
+    this.task.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.task.stop();
+  }
+
+  /**
+   * Expires batch by batch until a batch comes back short or makes no
+   * progress, so intents that keep failing cannot pin the sweep.
+   */
+  async sweep(): Promise<number> {
+    let expired = 0;
+    for (;;) {
+      const result = await this.orchestrator.expireAuthorizations(this.options.batchSize);
+      expired += result.expired;
+      if (result.scanned < this.options.batchSize || result.expired === 0) {
+        return expired;
+      }
+    }
+  }
+}
@@ -3,31 +3,112 @@ import { assertTransition, isTerminalStatus } from "../domain/state-machine.js";
 import type {
   ChargebackRecord,
   ChargebackResponse,
+  CircuitOverrideRecord,
+  CircuitOverrideResponse,
   CreateChargebackInput,
   CreatePaymentIntentInput,
   CreateRefundInput,
+  ForceProviderCircuitInput,
+  IntentRecoveryRecord,
+  IntentRecoveryResponse,
   LedgerEntryRecord,
   LedgerEntryResponse,
   PaymentEvent,
   PaymentIntentRecord,
   PaymentIntentResponse,
+  NextAction,
+  PaymentMethodType,
+  PaymentReviewRecord,
+  PaymentReviewResponse,
+  PendingOperation,
+  ProviderResponse,
   RefundRecord,
   RefundResponse,
+  ResumePaymentIntentInput,
+  ReviewPaymentIntentInput,
+  RoutingScoresResponse,
+  RoutingSimulationResponse,
+  SimulateRoutingInput,
 } from "../domain/types.js";
+import { declineCodes, normalizeDeclineCode } from "../domain/decline-codes.js";
+import type { DeclineCode } from "../domain/decline-codes.js";
+import type { RoutingContext } from "../domain/routing-rules.js";
 import { AppError } from "../infra/app-error.js";
 import { fingerprintPayload } from "../infra/fingerprint.js";
 import type { ClockPort } from "../infra/clock.js";
-import type { EventBusPort } from "../ports/event-bus.js";
 import type { IdempotencyStorePort } from "../ports/idempotency-store.js";
 import type {
   ChargebackListInput,
+  CircuitOverrideListInput,
+  IntentRecoveryListInput,
   LedgerEntryListInput,
   PaymentIntentListInput,
   PaymentRepositoryPort,
+  PaymentReviewListInput,
   RefundListInput,
 } from "../ports/payment-repository.js";
+import type {
+  AuthorizeResult,
+  CaptureResult,
+  ProviderStatusResult,
+  RefundResult,
+  ReverseAuthorizationResult,
+} from "../ports/provider-gateway.js";
+import type { ProviderNotification } from "../ports/provider-notification.js";
 import type { RiskEnginePort } from "../ports/risk-engine.js";
-import type { ProviderRouter } from "./provider-router.js";
+import type { UnitOfWorkContext, UnitOfWorkPort } from "../ports/unit-of-work.js";
+import type { CircuitStateChange } from "./provider-circuit-breaker.js";
+import type { ProviderHealth, ProviderRouter } from "./provider-router.js";
+
+export interface PaymentIntentMutationOptions {
+  // Version from the caller's If-Match header; a mismatch fails with 412.
+  expectedVersion?: number;
+}
+
+export interface CapturePaymentIntentOptions extends PaymentIntentMutationOptions {
+  // Releases whatever stays uncaptured after this capture.
+  finalCapture?: boolean;
+}
+
+export type ProviderNotificationOutcome = "applied" | "duplicate" | "ignored";
+
+export interface ProviderNotificationResult {
+  outcome: ProviderNotificationOutcome;
+  paymentIntentId: string;
+}
+
+export interface AuthorizationExpiryResult {
+  scanned: number;
+  expired: number;
+}
+
+export interface StuckIntentRecoveryInput {
+  limit: number;
+  // How long an intent may sit in processing before the provider is asked about it.
+  stuckAfterSeconds: number;
+}
+
+export interface StuckIntentRecoveryResult {
+  scanned: number;
+  recovered: IntentRecoveryResponse[];
+}
+
+export interface PendingRefundRecoveryInput extends StuckIntentRecoveryInput {
+  cursor?: string;
+}
+
+export interface PendingRefundRecoveryResult {
+  scanned: number;
+  settled: RefundResponse[];
+  nextCursor?: string;
+}
+
+// Authorization lifetime per payment method; methods without an entry never expire.
+export type AuthorizationTtlSeconds = Partial<Record<PaymentMethodType, number>>;
+
+interface CancelIntentOptions extends PaymentIntentMutationOptions {
+  cancellationReason?: "authorization_expired";
+}
 
 interface IdempotentResult<TBody> {
   statusCode: number;
@@ -35,26 +116,33 @@ interface IdempotentResult<TBody> {
   idempotencyReplayed: boolean;
 }
 
-const TRANSIENT_PROVIDER_FAILURES = new Set(["provider_unavailable", "transient_network_error", "timeout"]);
+const MAX_CONFLICT_ATTEMPTS = 3;
 
-function isTransientProviderFailure(code: string | undefined): boolean {
-  if (!code) {
-    return false;
-  }
-  return TRANSIENT_PROVIDER_FAILURES.has(code);
+// Stands in for a provider whose authorize call threw instead of answering.
+const unavailableAuthorization: AuthorizeResult = {
+  ok: false,
+  reference: "",
+  failureCode: "provider_unavailable",
+  declineCode: "provider_unavailable",
+};
+
+// Adapters should set declineCode; without it the raw code is normalized with the module's defaults.
+function declineCodeOf(result: { failureCode?: string; declineCode?: DeclineCode }): DeclineCode {
+  return result.declineCode ?? normalizeDeclineCode(result.failureCode);
 }
 
 export class PaymentOrchestrator {
   constructor(
     private readonly repository: PaymentRepositoryPort,
     private readonly idempotencyStore: IdempotencyStorePort,
-    private readonly eventBus: EventBusPort,
+    private readonly unitOfWork: UnitOfWorkPort,
     private readonly providerRouter: ProviderRouter,
     private readonly riskEngine: RiskEnginePort,
     private readonly clock: ClockPort,
     private readonly eventApiVersion: string,
     private readonly eventSource: string,
     private readonly eventSchemaVersion: string,
+    private readonly authorizationTtlSeconds: AuthorizationTtlSeconds = {},
   ) {}
 
   async createPaymentIntent(
@@ -74,20 +162,30 @@ export class PaymentOrchestrator {
         customer_id: input.customer.id,
         payment_method_type: input.payment_method.type,
         payment_method_token: input.payment_method.token,
+        card_bin_country: input.payment_method.bin_country?.toUpperCase() ?? null,
+        metadata: input.metadata ?? {},
+        routing_decision: null,
+        decline_code: null,
         authorized_amount: 0,
         captured_amount: 0,
         refunded_amount: 0,
         provider: null,
         provider_reference: null,
+        authorization_expires_at: null,
+        next_action: null,
+        pending_operation: null,
+        version: 1,
         created_at: timestamp,
         updated_at: timestamp,
       };
 
-      await this.repository.savePaymentIntent(intent);
-      await this.publishEvent("payment_intent.created", {
-        payment_intent_id: intent.id,
-        amount: intent.amount,
-        currency: intent.currency,
+      await this.unitOfWork.run(async (tx) => {
+        await tx.repository.savePaymentIntent(intent);
+        this.publishEvent(tx, "payment_intent.created", {
+          payment_intent_id: intent.id,
+          amount: intent.amount,
+          currency: intent.currency,
+        });
       });
 
       return {
@@ -121,22 +219,33 @@ export class PaymentOrchestrator {
   async confirmPaymentIntent(
     id: string,
     idempotencyKey: string,
+    options: PaymentIntentMutationOptions = {},
   ): Promise<IdempotentResult<PaymentIntentResponse>> {
     const idempotencyScope = `confirm_payment_intent:${id}`;
     const payloadFingerprint = fingerprintPayload({ payment_intent_id: id });
     return this.executeIdempotent(idempotencyScope, idempotencyKey, payloadFingerprint, async () => {
-      const intent = await this.getPaymentIntentRecordOrThrow(id);
+      const claim = await this.retryOnConflict(async () => {
+        const intent = await this.getPaymentIntentRecordOrThrow(id);
+        this.assertExpectedVersion(intent, options.expectedVersion);
+
+        if (intent.status !== "requires_confirmation") {
+          return { intent, claimed: false };
+        }
 
-      if (intent.status !== "requires_confirmation") {
+        assertTransition(intent.status, "processing");
+        intent.status = "processing";
+        intent.updated_at = this.clock.nowIso();
+        await this.unitOfWork.run(async (tx) => {
+          await this.saveIntent(tx, intent);
+          this.publishEvent(tx, "payment_intent.processing", { payment_intent_id: intent.id });
+        });
+        return { intent, claimed: true };
+      });
+      const intent = claim.intent;
+      if (!claim.claimed) {
         return { statusCode: 200, body: this.mapPaymentIntent(intent) };
       }
 
-      assertTransition(intent.status, "processing");
-      intent.status = "processing";
-      intent.updated_at = this.clock.nowIso();
-      await this.repository.savePaymentIntent(intent);
-      await this.publishEvent("payment_intent.processing", { payment_intent_id: intent.id });
-
       const riskAssessment = await this.riskEngine.assessPayment({
         amount: intent.amount,
         currency: intent.currency,
@@ -152,11 +261,13 @@ export class PaymentOrchestrator {
         assertTransition(intent.status, "failed");
         intent.status = "failed";
         intent.updated_at = this.clock.nowIso();
-        await this.repository.savePaymentIntent(intent);
-        await this.publishEvent("payment_intent.failed", {
-          payment_intent_id: intent.id,
-          failure_code: "risk_denied",
-          risk_reason: riskAssessment.reason,
+        await this.unitOfWork.run(async (tx) => {
+          await this.saveIntent(tx, intent);
+          this.publishEvent(tx, "payment_intent.failed", {
+            payment_intent_id: intent.id,
+            failure_code: "risk_denied",
+            risk_reason: riskAssessment.reason,
+          });
         });
         return { statusCode: 200, body: this.mapPaymentIntent(intent) };
       }
@@ -165,91 +276,155 @@ export class PaymentOrchestrator {
         assertTransition(intent.status, "requires_action");
         intent.status = "requires_action";
         intent.updated_at = this.clock.nowIso();
-        await this.repository.savePaymentIntent(intent);
-        await this.publishEvent("payment_intent.requires_action", {
+        const review: PaymentReviewRecord = {
+          id: `rev_${randomUUID()}`,
           payment_intent_id: intent.id,
-          reason: riskAssessment.reason,
+          status: "pending",
+          risk_reason: riskAssessment.reason,
+          amount: intent.amount,
+          currency: intent.currency,
+          customer_id: intent.customer_id,
+          note: null,
+          decided_at: null,
+          created_at: intent.updated_at,
+          updated_at: intent.updated_at,
+        };
+        await this.unitOfWork.run(async (tx) => {
+          await tx.repository.savePaymentReview(review);
+          await this.saveIntent(tx, intent);
+          this.publishEvent(tx, "payment_intent.requires_action", {
+            payment_intent_id: intent.id,
+            reason: riskAssessment.reason,
+          });
         });
         return { statusCode: 200, body: this.mapPaymentIntent(intent) };
       }
 
-      const providers = this.providerRouter.selectCandidates(intent.payment_method_type);
-      let finalFailureCode = "provider_unavailable";
-      let authorized = false;
-
-      for (const provider of providers) {
-        const authorization = await provider.authorize({
-          amount: intent.amount,
-          currency: intent.currency,
-          paymentMethodType: intent.payment_method_type,
-          paymentMethodToken: intent.payment_method_token,
-        });
-        this.providerRouter.recordAuthorizeOutcome(provider.name, authorization);
+      await this.authorizeWithProviders(intent);
+      return { statusCode: 200, body: this.mapPaymentIntent(intent) };
+    });
+  }
 
-        intent.provider = provider.name;
-        intent.provider_reference = authorization.reference;
-        intent.updated_at = this.clock.nowIso();
+  /**
+   * Finishes an authorization parked on a customer next action (3DS
+   * challenge, redirect, QR code) with the result the customer brought back.
+   */
+  async resumePaymentIntent(
+    id: string,
+    input: ResumePaymentIntentInput,
+    idempotencyKey: string,
+    options: PaymentIntentMutationOptions = {},
+  ): Promise<IdempotentResult<PaymentIntentResponse>> {
+    const idempotencyScope = `resume_payment_intent:${id}`;
+    const payloadFingerprint = fingerprintPayload({ payment_intent_id: id, ...input });
+    return this.executeIdempotent(idempotencyScope, idempotencyKey, payloadFingerprint, async () => {
+      const { intent, providerName, providerReference } = await this.retryOnConflict(async () => {
+        const intent = await this.getPaymentIntentRecordOrThrow(id);
+        this.assertExpectedVersion(intent, options.expectedVersion);
 
-        if (authorization.ok) {
-          authorized = true;
-          break;
+        if (intent.status !== "requires_action" || !intent.next_action) {
+          throw new AppError(409, "no_pending_action", "Payment intent is not waiting for a customer action.");
         }
-
-        finalFailureCode = authorization.failureCode ?? "provider_declined";
-        if (!isTransientProviderFailure(authorization.failureCode)) {
-          break;
+        if (!intent.provider || !intent.provider_reference) {
+          throw new AppError(409, "missing_provider_reference", "Payment has no provider reference.");
         }
-      }
 
-      if (!authorized) {
-        assertTransition(intent.status, "failed");
-        intent.status = "failed";
-        await this.repository.savePaymentIntent(intent);
-        await this.publishEvent("payment_intent.failed", {
-          payment_intent_id: intent.id,
-          failure_code: finalFailureCode,
+        assertTransition(intent.status, "processing");
+        intent.status = "processing";
+        intent.updated_at = this.clock.nowIso();
+        await this.unitOfWork.run(async (tx) => {
+          await this.saveIntent(tx, intent);
+          this.publishEvent(tx, "payment_intent.processing", { payment_intent_id: intent.id });
         });
-        return { statusCode: 200, body: this.mapPaymentIntent(intent) };
-      }
+        return { intent, providerName: intent.provider, providerReference: intent.provider_reference };
+      });
 
-      intent.authorized_amount = intent.amount;
-      await this.appendLedgerEntry({
-        paymentIntentId: intent.id,
-        entryType: "authorization",
-        direction: "credit",
-        amount: intent.authorized_amount,
+      const provider = this.providerRouter.findByName(providerName);
+      const startedAt = performance.now();
+      const authorization = await provider.completeAuthorization({
+        amount: intent.amount,
         currency: intent.currency,
-        provider: intent.provider,
-        providerReference: intent.provider_reference,
+        reference: providerReference,
+        actionResult: input.action_result ?? {},
       });
-      if (intent.capture_method === "automatic") {
-        assertTransition(intent.status, "succeeded");
-        intent.status = "succeeded";
-        intent.captured_amount = intent.amount;
-        await this.appendLedgerEntry({
-          paymentIntentId: intent.id,
-          entryType: "capture",
-          direction: "credit",
-          amount: intent.amount,
-          currency: intent.currency,
-          provider: intent.provider,
-          providerReference: intent.provider_reference,
-        });
-        await this.publishEvent("payment_intent.succeeded", {
-          payment_intent_id: intent.id,
-          amount: intent.amount,
-        });
+      await this.providerRouter.recordAuthorizeOutcome(provider.name, authorization, {
+        paymentMethodType: intent.payment_method_type,
+        latencyMs: performance.now() - startedAt,
+      });
+      intent.provider_reference = authorization.reference;
+
+      if (authorization.ok) {
+        await this.settleAuthorization(intent, authorization);
       } else {
-        assertTransition(intent.status, "requires_action");
-        intent.status = "requires_action";
-        await this.publishEvent("payment_intent.requires_action", {
-          payment_intent_id: intent.id,
-          reason: "manual_capture_required",
-        });
+        await this.failAuthorization(
+          intent,
+          authorization.failureCode ?? "provider_declined",
+          declineCodeOf(authorization),
+        );
       }
+      return { statusCode: 200, body: this.mapPaymentIntent(intent) };
+    });
+  }
 
-      intent.updated_at = this.clock.nowIso();
-      await this.repository.savePaymentIntent(intent);
+  /**
+   * Settles a pending risk review. Approval resumes provider authorization;
+   * rejection fails the intent with risk_rejected_manual.
+   */
+  async reviewPaymentIntent(
+    id: string,
+    input: ReviewPaymentIntentInput,
+    idempotencyKey: string,
+    options: PaymentIntentMutationOptions = {},
+  ): Promise<IdempotentResult<PaymentIntentResponse>> {
+    const idempotencyScope = `review_payment_intent:${id}`;
+    const payloadFingerprint = fingerprintPayload({ payment_intent_id: id, ...input });
+    return this.executeIdempotent(idempotencyScope, idempotencyKey, payloadFingerprint, async () => {
+      const intent = await this.retryOnConflict(async () => {
+        const intent = await this.getPaymentIntentRecordOrThrow(id);
+        this.assertExpectedVersion(intent, options.expectedVersion);
+
+        const review = await this.repository.getPaymentReviewByPaymentIntentId(id);
+        if (!review) {
+          throw new AppError(404, "resource_not_found", `Review for payment intent '${id}' not found.`);
+        }
+        if (review.status !== "pending") {
+          throw new AppError(409, "review_already_decided", `Review was already ${review.status}.`);
+        }
+
+        const timestamp = this.clock.nowIso();
+        review.status = input.decision === "approve" ? "approved" : "rejected";
+        review.note = input.note;
+        review.decided_at = timestamp;
+        review.updated_at = timestamp;
+        const nextStatus = input.decision === "approve" ? "processing" : "failed";
+        assertTransition(intent.status, nextStatus);
+        intent.status = nextStatus;
+        intent.updated_at = timestamp;
+        await this.unitOfWork.run(async (tx) => {
+          await tx.repository.savePaymentReview(review);
+          await this.saveIntent(tx, intent);
+          this.publishEvent(tx, input.decision === "approve" ? "review.approved" : "review.rejected", {
+            review_id: review.id,
+            payment_intent_id: intent.id,
+            risk_reason: review.risk_reason,
+            note: review.note,
+          });
+          if (input.decision === "approve") {
+            this.publishEvent(tx, "payment_intent.processing", { payment_intent_id: intent.id });
+          } else {
+            this.publishEvent(tx, "payment_intent.failed", {
+              payment_intent_id: intent.id,
+              failure_code: "risk_rejected_manual",
+              risk_reason: review.risk_reason,
+            });
+          }
+        });
+        return intent;
+      });
+
+      if (input.decision === "approve") {
+        await this.authorizeWithProviders(intent);
+      }
       return { statusCode: 200, body: this.mapPaymentIntent(intent) };
     });
   }
@@ -258,90 +433,133 @@ export class PaymentOrchestrator {
     id: string,
     amount: number,
     idempotencyKey: string,
+    options: CapturePaymentIntentOptions = {},
   ): Promise<IdempotentResult<PaymentIntentResponse>> {
     const idempotencyScope = `capture_payment_intent:${id}`;
-    const payloadFingerprint = fingerprintPayload({ payment_intent_id: id, amount });
+    const payloadFingerprint = fingerprintPayload({
+      payment_intent_id: id,
+      amount,
+      ...(options.finalCapture ? { final_capture: true } : {}),
+    });
     return this.executeIdempotent(idempotencyScope, idempotencyKey, payloadFingerprint, async () => {
-      const intent = await this.getPaymentIntentRecordOrThrow(id);
+      const { intent, providerName, providerReference } = await this.retryOnConflict(async () => {
+        const intent = await this.getPaymentIntentRecordOrThrow(id);
+        this.assertExpectedVersion(intent, options.expectedVersion);
 
-      if (intent.capture_method !== "manual") {
-        throw new AppError(409, "invalid_capture_method", "Capture only allowed for manual intents.");
-      }
+        if (intent.capture_method !== "manual") {
+          throw new AppError(409, "invalid_capture_method", "Capture only allowed for manual intents.");
+        }
 
-      if (intent.status !== "requires_action") {
-        throw new AppError(
-          409,
-          "invalid_payment_state",
-          `Capture is not allowed when payment is '${intent.status}'.`,
-        );
-      }
+        if (intent.status !== "requires_action") {
+          throw new AppError(
+            409,
+            "invalid_payment_state",
+            `Capture is not allowed when payment is '${intent.status}'.`,
+          );
+        }
 
-      if (!intent.provider_reference || !intent.provider) {
-        throw new AppError(409, "missing_provider_reference", "Payment has no provider reference.");
-      }
+        if (intent.next_action) {
+          throw new AppError(409, "customer_action_required", "Payment is waiting for a customer action.");
+        }
 
-      if (amount <= 0) {
-        throw new AppError(422, "invalid_amount", "Capture amount must be greater than zero.");
-      }
+        if (!intent.provider_reference || !intent.provider) {
+          throw new AppError(409, "missing_provider_reference", "Payment has no provider reference.");
+        }
 
-      const capturable = intent.authorized_amount - intent.captured_amount;
-      if (amount > capturable) {
-        throw new AppError(
-          422,
-          "amount_exceeds_capturable",
-          `Capture amount exceeds capturable value (${capturable}).`,
-        );
-      }
+        if (amount <= 0) {
+          throw new AppError(422, "invalid_amount", "Capture amount must be greater than zero.");
+        }
 
-      assertTransition(intent.status, "processing");
-      intent.status = "processing";
-      intent.updated_at = this.clock.nowIso();
-      await this.repository.savePaymentIntent(intent);
-      await this.publishEvent("payment_intent.processing", { payment_intent_id: intent.id });
+        const capturable = intent.authorized_amount - intent.captured_amount;
+        if (amount > capturable) {
+          throw new AppError(
+            422,
+            "amount_exceeds_capturable",
+            `Capture amount exceeds capturable value (${capturable}).`,
+          );
+        }
 
-      const provider = this.providerRouter.findByName(intent.provider);
-      const captureResult = await provider.capture({
-        amount,
-        reference: intent.provider_reference,
+        assertTransition(intent.status, "processing");
+        intent.status = "processing";
+        intent.pending_operation = "capture";
+        intent.updated_at = this.clock.nowIso();
+        await this.unitOfWork.run(async (tx) => {
+          await this.saveIntent(tx, intent);
+          this.publishEvent(tx, "payment_intent.processing", { payment_intent_id: intent.id });
+        });
+        return { intent, providerName: intent.provider, providerReference: intent.provider_reference };
       });
 
+      const provider = this.providerRouter.findByName(providerName);
+      let captureResult: CaptureResult;
+      try {
+        captureResult = await provider.capture({
+          amount,
+          reference: providerReference,
+          // Stable until a capture is applied, so the same capture repeated after a recovered claim is applied once.
+          idempotencyKey: `${intent.id}:capture:${intent.captured_amount}:${amount}`,
+        });
+      } catch (error) {
+        await this.releaseClaim(intent).catch(() => undefined);
+        throw error;
+      }
+      await this.providerRouter.recordProviderOutcome(provider.name, "capture", captureResult);
+      intent.pending_operation = null;
+
       if (!captureResult.ok) {
         assertTransition(intent.status, "failed");
         intent.status = "failed";
+        intent.decline_code = declineCodeOf(captureResult);
         intent.updated_at = this.clock.nowIso();
-        await this.repository.savePaymentIntent(intent);
-        await this.publishEvent("payment_intent.failed", {
-          payment_intent_id: intent.id,
-          failure_code: captureResult.failureCode ?? "capture_rejected",
+        await this.unitOfWork.run(async (tx) => {
+          await this.saveIntent(tx, intent);
+          this.publishEvent(tx, "payment_intent.failed", {
+            payment_intent_id: intent.id,
+            failure_code: captureResult.failureCode ?? "capture_rejected",
+            decline_code: intent.decline_code,
+          });
         });
         return { statusCode: 200, body: this.mapPaymentIntent(intent) };
       }
 
       intent.captured_amount += amount;
       intent.updated_at = this.clock.nowIso();
-      await this.appendLedgerEntry({
-        paymentIntentId: intent.id,
-        entryType: "capture",
-        direction: "credit",
-        amount,
-        currency: intent.currency,
-        provider: intent.provider,
-        providerReference: intent.provider_reference,
-      });
-
-      if (intent.captured_amount >= intent.authorized_amount) {
-        assertTransition(intent.status, "succeeded");
-        intent.status = "succeeded";
-        await this.publishEvent("payment_intent.succeeded", {
-          payment_intent_id: intent.id,
-          amount: intent.captured_amount,
-        });
-      } else {
-        assertTransition(intent.status, "requires_action");
-        intent.status = "requires_action";
+      const remainder = intent.authorized_amount - intent.captured_amount;
+      // If the release fails or throws the capture is still committed and the intent stays capturable,
+      // so a later cancel can retry it.
+      let releasedAmount = 0;
+      if (options.finalCapture && remainder > 0) {
+        const release = await this.reverseAuthorization(intent, remainder).catch(() => ({ ok: false }));
+        releasedAmount = release.ok ? remainder : 0;
       }
+      await this.unitOfWork.run(async (tx) => {
+        await this.appendLedgerEntry(tx, {
+          paymentIntentId: intent.id,
+          entryType: "capture",
+          direction: "credit",
+          amount,
+          currency: intent.currency,
+          provider: intent.provider,
+          providerReference: intent.provider_reference,
+        });
+        if (releasedAmount > 0) {
+          await this.recordAuthorizationRelease(tx, intent, releasedAmount, "final_capture");
+        }
+
+        if (intent.captured_amount >= intent.authorized_amount || releasedAmount > 0) {
+          assertTransition(intent.status, "succeeded");
+          intent.status = "succeeded";
+          this.publishEvent(tx, "payment_intent.succeeded", {
+            payment_intent_id: intent.id,
+            amount: intent.captured_amount,
+          });
+        } else {
+          assertTransition(intent.status, "requires_action");
+          intent.status = "requires_action";
+        }
 
-      await this.repository.savePaymentIntent(intent);
+        await this.saveIntent(tx, intent);
+      });
       return { statusCode: 200, body: this.mapPaymentIntent(intent) };
     });
   }
@@ -349,36 +567,202 @@ export class PaymentOrchestrator {
   async cancelPaymentIntent(
     id: string,
     idempotencyKey: string,
+    options: PaymentIntentMutationOptions = {},
   ): Promise<IdempotentResult<PaymentIntentResponse>> {
     const idempotencyScope = `cancel_payment_intent:${id}`;
     const payloadFingerprint = fingerprintPayload({ payment_intent_id: id });
     return this.executeIdempotent(idempotencyScope, idempotencyKey, payloadFingerprint, async () => {
-      const intent = await this.getPaymentIntentRecordOrThrow(id);
+      const intent = await this.cancelIntent(id, options);
+      return { statusCode: 200, body: this.mapPaymentIntent(intent) };
+    });
+  }
 
-      if (intent.status === "canceled") {
-        return { statusCode: 200, body: this.mapPaymentIntent(intent) };
+  /**
+   * Cancels manual-capture intents whose authorization has expired, voiding
+   * the uncaptured remainder at the provider when possible.
+   */
+  async expireAuthorizations(limit: number): Promise<AuthorizationExpiryResult> {
+    const page = await this.repository.listPaymentIntents({
+      limit,
+      status: "requires_action",
+      authorizationExpiresBefore: this.clock.nowIso(),
+    });
+    let expired = 0;
+    for (const candidate of page.data) {
+      try {
+        await this.cancelIntent(candidate.id, { cancellationReason: "authorization_expired" });
+        expired += 1;
+      } catch (error) {
+        // Another request captured or canceled the intent first.
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
       }
+    }
+    return { scanned: page.data.length, expired };
+  }
 
-      if (isTerminalStatus(intent.status) || intent.status === "processing") {
-        throw new AppError(
-          409,
-          "invalid_payment_state",
-          `Cancel is not allowed when payment is '${intent.status}'.`,
-        );
+  /**
+   * Reconciles intents left in processing when the process died between
+   * claiming them and persisting the provider's answer, by asking the
+   * provider what became of the authorization.
+   */
+  async recoverStuckIntents(input: StuckIntentRecoveryInput): Promise<StuckIntentRecoveryResult> {
+    const stuckBefore = new Date(Date.parse(this.clock.nowIso()) - input.stuckAfterSeconds * 1000).toISOString();
+    const page = await this.repository.listPaymentIntents({
+      limit: input.limit,
+      status: "processing",
+      updatedBefore: stuckBefore,
+      awaitingProviderAnswer: true,
+    });
+    const recovered: IntentRecoveryResponse[] = [];
+    for (const candidate of page.data) {
+      try {
+        const recovery = await this.recoverStuckIntent(candidate.id, stuckBefore);
+        if (recovery) {
+          recovered.push(this.mapIntentRecovery(recovery));
+        }
+      } catch (error) {
+        // A request finished the intent first; it is no longer stuck.
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
       }
+    }
+    return { scanned: page.data.length, recovered };
+  }
 
-      assertTransition(intent.status, "canceled");
-      intent.status = "canceled";
-      intent.updated_at = this.clock.nowIso();
-      await this.repository.savePaymentIntent(intent);
-      await this.publishEvent("payment_intent.canceled", {
-        payment_intent_id: intent.id,
+  async listIntentRecoveries(input: IntentRecoveryListInput): Promise<{
+    data: IntentRecoveryResponse[];
+    hasMore: boolean;
+    nextCursor?: string;
+  }> {
+    const page = await this.repository.listIntentRecoveries(input);
+    return {
+      data: page.data.map((recovery) => this.mapIntentRecovery(recovery)),
+      hasMore: page.hasMore,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+    };
+  }
+
+  // Dry run of provider routing for a payment that is not created; no provider is called.
+  simulateRouting(input: SimulateRoutingInput): RoutingSimulationResponse {
+    const decision = this.providerRouter.route(
+      {
+        paymentMethodType: input.payment_method.type,
+        currency: input.currency.toUpperCase(),
+        amount: input.amount,
+        customerId: input.customer.id,
+        paymentIntentId: null,
+        cardBinCountry: input.payment_method.bin_country?.toUpperCase() ?? null,
+        metadata: input.metadata ?? {},
+      },
+      { dryRun: true },
+    );
+    return {
+      matched_rule: decision.matchedRule,
+      strategy: decision.strategy,
+      routing_decision: decision.label,
+      candidates: decision.candidates.map((candidate) => ({
+        provider: candidate.provider.name,
+        circuit_open: candidate.circuitOpen,
+      })),
+      evaluations: decision.evaluations.map((evaluation) => ({
+        rule: evaluation.rule,
+        matched: evaluation.matched,
+        unmatched_conditions: evaluation.unmatchedConditions,
+      })),
+    };
+  }
+
+  // Windowed per-provider statistics of the routing strategy; empty for the priority strategy.
+  routingScores(): RoutingScoresResponse {
+    const { strategy, scores } = this.providerRouter.scores();
+    return {
+      strategy,
+      data: scores.map((score) => ({
+        provider: score.provider,
+        payment_method_type: score.paymentMethodType,
+        samples: score.samples,
+        approval_rate: score.approvalRate,
+        average_latency_ms: score.averageLatencyMs,
+        fee: { fixed_amount: score.fee.fixedAmount, percent_bps: score.fee.percentBps },
+      })),
+    };
+  }
+
+  // Breaker transitions are not tied to a payment, so each one commits as its own event.
+  async publishCircuitStateChange(change: CircuitStateChange): Promise<void> {
+    await this.unitOfWork.run(async (tx) => {
+      this.publishEvent(tx, "provider.circuit_state_changed", {
+        provider: change.provider,
+        previous_state: change.from,
+        state: change.to,
+        reason: change.reason,
+        operation: change.operation,
+        opened_until: change.openedUntil,
+        forced_until: change.forcedUntil,
+        forced_reason: change.forcedReason,
       });
+    });
+  }
 
-      return { statusCode: 200, body: this.mapPaymentIntent(intent) };
+  // Refreshes first so the listing includes circuits other instances opened or forced.
+  async listProviders(): Promise<{ data: ProviderResponse[] }> {
+    await this.providerRouter.refreshCircuits();
+    return { data: this.providerRouter.providerHealth().map((health) => this.mapProvider(health)) };
+  }
+
+  // The audit row commits before the circuit is forced, so a failed commit never leaves an unaudited override
+  // behind; provider.circuit_state_changed only notifies about the transition.
+  async forceProviderCircuit(
+    providerName: string,
+    input: ForceProviderCircuitInput,
+    idempotencyKey: string,
+    actor: string,
+  ): Promise<IdempotentResult<ProviderResponse>> {
+    const idempotencyScope = `force_provider_circuit:${providerName}`;
+    const payloadFingerprint = fingerprintPayload({ provider: providerName, ...input });
+    return this.executeIdempotent(idempotencyScope, idempotencyKey, payloadFingerprint, async () => {
+      this.providerRouter.assertProviderExists(providerName);
+      const reason = input.reason.trim();
+      const createdAt = this.clock.nowIso();
+      await this.unitOfWork.run(async (tx) => {
+        await tx.repository.saveCircuitOverride({
+          id: `cov_${randomUUID()}`,
+          provider: providerName,
+          state: input.state,
+          ttl_seconds: input.ttl_seconds,
+          forced_until: new Date(Date.parse(createdAt) + input.ttl_seconds * 1000).toISOString(),
+          reason,
+          actor,
+          created_at: createdAt,
+        });
+      });
+      const health = await this.providerRouter.forceCircuit(
+        providerName,
+        input.state,
+        input.ttl_seconds,
+        reason,
+        createdAt,
+      );
+      return { statusCode: 200, body: this.mapProvider(health) };
     });
   }
 
+  async listCircuitOverrides(input: CircuitOverrideListInput): Promise<{
+    data: CircuitOverrideResponse[];
+    hasMore: boolean;
+    nextCursor?: string;
+  }> {
+    const page = await this.repository.listCircuitOverrides(input);
+    return {
+      data: page.data.map((override) => this.mapCircuitOverride(override)),
+      hasMore: page.hasMore,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+    };
+  }
+
   async createRefund(
     input: CreateRefundInput,
     idempotencyKey: string,
@@ -386,71 +770,166 @@ export class PaymentOrchestrator {
     const idempotencyScope = "create_refund";
     const payloadFingerprint = fingerprintPayload(input);
     return this.executeIdempotent(idempotencyScope, idempotencyKey, payloadFingerprint, async () => {
-      const paymentIntent = await this.getPaymentIntentRecordOrThrow(input.payment_intent_id);
+      // The amount is reserved in refunded_amount by a version-checked save before the provider is called, so
+      // concurrent refunds cannot together exceed the captured amount. The refund stays pending until answered.
+      const { paymentIntent, refund, providerName, providerReference } = await this.retryOnConflict(async () => {
+        const paymentIntent = await this.getPaymentIntentRecordOrThrow(input.payment_intent_id);
 
-      if (!paymentIntent.provider_reference || !paymentIntent.provider) {
-        throw new AppError(422, "refund_not_allowed", "Payment has no provider reference.");
-      }
+        if (!paymentIntent.provider_reference || !paymentIntent.provider) {
+          throw new AppError(422, "refund_not_allowed", "Payment has no provider reference.");
+        }
 
-      if (input.amount <= 0) {
-        throw new AppError(422, "invalid_amount", "Refund amount must be greater than zero.");
+        if (input.amount <= 0) {
+          throw new AppError(422, "invalid_amount", "Refund amount must be greater than zero.");
+        }
+
+        const refundable = paymentIntent.captured_amount - paymentIntent.refunded_amount;
+        if (refundable <= 0 || input.amount > refundable) {
+          throw new AppError(
+            422,
+            "amount_exceeds_refundable",
+            `Refund amount exceeds refundable value (${Math.max(0, refundable)}).`,
+          );
+        }
+
+        const refund: RefundRecord = {
+          id: `re_${randomUUID()}`,
+          payment_intent_id: paymentIntent.id,
+          amount: input.amount,
+          status: "pending",
+          created_at: this.clock.nowIso(),
+          ...(input.reason ? { reason: input.reason } : {}),
+        };
+        paymentIntent.refunded_amount += input.amount;
+        paymentIntent.updated_at = this.clock.nowIso();
+        await this.unitOfWork.run(async (tx) => {
+          await tx.repository.saveRefund(refund);
+          await this.saveIntent(tx, paymentIntent);
+        });
+        return {
+          paymentIntent,
+          refund,
+          providerName: paymentIntent.provider,
+          providerReference: paymentIntent.provider_reference,
+        };
+      });
+
+      const provider = this.providerRouter.findByName(providerName);
+      let providerRefund: RefundResult;
+      try {
+        providerRefund = await provider.refund({
+          amount: input.amount,
+          reference: providerReference,
+          idempotencyKey: refund.id,
+        });
+      } catch (error) {
+        await this.releaseRefundReservation(paymentIntent.id, { ...refund, status: "failed" });
+        throw error;
       }
+      await this.providerRouter.recordProviderOutcome(provider.name, "refund", providerRefund);
 
-      const refundable = paymentIntent.captured_amount - paymentIntent.refunded_amount;
-      if (refundable <= 0 || input.amount > refundable) {
-        throw new AppError(
-          422,
-          "amount_exceeds_refundable",
-          `Refund amount exceeds refundable value (${Math.max(0, refundable)}).`,
-        );
+      if (!providerRefund.ok) {
+        refund.status = "failed";
+        await this.releaseRefundReservation(paymentIntent.id, refund, providerRefund.failureCode ?? "refund_rejected");
+        return { statusCode: 201, body: this.mapRefund(refund) };
       }
 
-      const provider = this.providerRouter.findByName(paymentIntent.provider);
-      const providerRefund = await provider.refund({
-        amount: input.amount,
-        reference: paymentIntent.provider_reference,
+      refund.status = "succeeded";
+      await this.unitOfWork.run(async (tx) => {
+        await this.applyRefundSuccess(tx, paymentIntent, refund);
       });
 
-      const refund: RefundRecord = {
-        id: `re_${randomUUID()}`,
-        payment_intent_id: paymentIntent.id,
-        amount: input.amount,
-        status: providerRefund.ok ? "succeeded" : "failed",
-        created_at: this.clock.nowIso(),
-        ...(input.reason ? { reason: input.reason } : {}),
-      };
+      return { statusCode: 201, body: this.mapRefund(refund) };
+    });
+  }
 
-      await this.repository.saveRefund(refund);
+  /**
+   * Settles refunds left pending past the stuck threshold, e.g. when the
+   * process died mid-call or the reservation of a failed refund could not be
+   * released. The provider call is replayed with the refund id as idempotency
+   * key, so the provider reports the first outcome instead of refunding twice.
+   */
+  async recoverPendingRefunds(input: PendingRefundRecoveryInput): Promise<PendingRefundRecoveryResult> {
+    const stuckBefore = new Date(Date.parse(this.clock.nowIso()) - input.stuckAfterSeconds * 1000).toISOString();
+    const page = await this.repository.listRefunds({
+      limit: input.limit,
+      status: "pending",
+      createdTo: stuckBefore,
+      ...(input.cursor ? { cursor: input.cursor } : {}),
+    });
+    const settled: RefundResponse[] = [];
+    for (const refund of page.data) {
+      try {
+        settled.push(this.mapRefund(await this.settlePendingRefund(refund)));
+      } catch (error) {
+        // No usable answer, or another pass settled the refund first; a pending refund is tried again next pass.
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
+      }
+    }
+    return {
+      scanned: page.data.length,
+      settled,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+    };
+  }
 
-      if (providerRefund.ok) {
-        paymentIntent.refunded_amount += input.amount;
-        paymentIntent.updated_at = this.clock.nowIso();
-        await this.repository.savePaymentIntent(paymentIntent);
-        await this.appendLedgerEntry({
-          paymentIntentId: paymentIntent.id,
-          refundId: refund.id,
-          entryType: "refund",
-          direction: "debit",
-          amount: refund.amount,
-          currency: paymentIntent.currency,
-          provider: paymentIntent.provider,
-          providerReference: paymentIntent.provider_reference,
-        });
-        await this.publishEvent("refund.succeeded", {
-          refund_id: refund.id,
-          payment_intent_id: refund.payment_intent_id,
-          amount: refund.amount,
-        });
-      } else {
-        await this.publishEvent("refund.failed", {
-          refund_id: refund.id,
-          payment_intent_id: refund.payment_intent_id,
-          amount: refund.amount,
-          failure_code: providerRefund.failureCode ?? "refund_rejected",
-        });
+  /**
+   * Applies a verified provider notification to the intent it references.
+   * The inbox insert commits with the state change, so redeliveries and
+   * notifications racing each other are applied at most once.
+   */
+  async handleProviderNotification(
+    provider: string,
+    notification: ProviderNotification,
+  ): Promise<ProviderNotificationResult> {
+    return this.retryOnConflict(async () => {
+      const matches = await this.repository.listPaymentIntents({
+        limit: 1,
+        provider,
+        providerReference: notification.providerReference,
+      });
+      const match = matches.data[0];
+      if (!match) {
+        throw new AppError(
+          404,
+          "resource_not_found",
+          `No payment intent matches provider reference '${notification.providerReference}'.`,
+        );
       }
+      const intent = await this.getPaymentIntentRecordOrThrow(match.id);
 
-      return { statusCode: 201, body: this.mapRefund(refund) };
+      const outcome = await this.unitOfWork.run(async (tx): Promise<ProviderNotificationOutcome> => {
+        const recorded = await tx.repository.recordProviderNotification({
+          provider,
+          notification_id: notification.id,
+          payment_intent_id: intent.id,
+          status: notification.status,
+          received_at: this.clock.nowIso(),
+        });
+        if (!recorded) {
+          return "duplicate";
+        }
+        // Only intents still waiting on their authorization move; late notifications are acknowledged and dropped.
+        // A capture or cancel claim holds an authorized intent in processing too, so those are dropped as well.
+        if (intent.status !== "processing" || intent.pending_operation || intent.authorized_amount > 0) {
+          return "ignored";
+        }
+
+        if (notification.status === "succeeded") {
+          await this.applyAuthorization(tx, intent);
+        } else {
+          await this.applyAuthorizationFailure(
+            tx,
+            intent,
+            notification.failureCode ?? "provider_declined",
+            normalizeDeclineCode(notification.failureCode),
+          );
+        }
+        return "applied";
+      });
+      return { outcome, paymentIntentId: intent.id };
     });
   }
 
@@ -499,12 +978,14 @@ export class PaymentOrchestrator {
         created_at: timestamp,
         updated_at: timestamp,
       };
-      await this.repository.saveChargeback(chargeback);
-      await this.publishEvent("chargeback.opened", {
-        chargeback_id: chargeback.id,
-        payment_intent_id: chargeback.payment_intent_id,
-        amount: chargeback.amount,
-        reason: chargeback.reason,
+      await this.unitOfWork.run(async (tx) => {
+        await tx.repository.saveChargeback(chargeback);
+        this.publishEvent(tx, "chargeback.opened", {
+          chargeback_id: chargeback.id,
+          payment_intent_id: chargeback.payment_intent_id,
+          amount: chargeback.amount,
+          reason: chargeback.reason,
+        });
       });
       return {
         statusCode: 201,
@@ -535,31 +1016,34 @@ export class PaymentOrchestrator {
 
       chargeback.status = status;
       chargeback.updated_at = this.clock.nowIso();
-      await this.repository.saveChargeback(chargeback);
-
-      if (status === "lost") {
-        const paymentIntent = await this.getPaymentIntentRecordOrThrow(chargeback.payment_intent_id);
-        await this.appendLedgerEntry({
-          paymentIntentId: chargeback.payment_intent_id,
-          entryType: "chargeback",
-          direction: "debit",
-          amount: chargeback.amount,
-          currency: paymentIntent.currency,
-          provider: paymentIntent.provider,
-          providerReference: paymentIntent.provider_reference,
-        });
-        await this.publishEvent("chargeback.lost", {
-          chargeback_id: chargeback.id,
-          payment_intent_id: chargeback.payment_intent_id,
-          amount: chargeback.amount,
-        });
-      } else if (status === "won") {
-        await this.publishEvent("chargeback.won", {
-          chargeback_id: chargeback.id,
-          payment_intent_id: chargeback.payment_intent_id,
-          amount: chargeback.amount,
-        });
-      }
+      const paymentIntent =
+        status === "lost" ? await this.getPaymentIntentRecordOrThrow(chargeback.payment_intent_id) : null;
+      await this.unitOfWork.run(async (tx) => {
+        await tx.repository.saveChargeback(chargeback);
+
+        if (paymentIntent) {
+          await this.appendLedgerEntry(tx, {
+            paymentIntentId: chargeback.payment_intent_id,
+            entryType: "chargeback",
+            direction: "debit",
+            amount: chargeback.amount,
+            currency: paymentIntent.currency,
+            provider: paymentIntent.provider,
+            providerReference: paymentIntent.provider_reference,
+          });
+          this.publishEvent(tx, "chargeback.lost", {
+            chargeback_id: chargeback.id,
+            payment_intent_id: chargeback.payment_intent_id,
+            amount: chargeback.amount,
+          });
+        } else if (status === "won") {
+          this.publishEvent(tx, "chargeback.won", {
+            chargeback_id: chargeback.id,
+            payment_intent_id: chargeback.payment_intent_id,
+            amount: chargeback.amount,
+          });
+        }
+      });
 
       return { statusCode: 200, body: this.mapChargeback(chargeback) };
     });
@@ -578,6 +1062,19 @@ export class PaymentOrchestrator {
     };
   }
 
+  async listPaymentReviews(input: PaymentReviewListInput): Promise<{
+    data: PaymentReviewResponse[];
+    hasMore: boolean;
+    nextCursor?: string;
+  }> {
+    const page = await this.repository.listPaymentReviews(input);
+    return {
+      data: page.data.map((review) => this.mapPaymentReview(review)),
+      hasMore: page.hasMore,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+    };
+  }
+
   async listLedgerEntries(input: LedgerEntryListInput): Promise<{
     data: LedgerEntryResponse[];
     hasMore: boolean;
@@ -653,6 +1150,447 @@ export class PaymentOrchestrator {
     };
   }
 
+  /**
+   * Authorizes a processing intent, falling back across providers on transient
+   * failures, and settles it as succeeded, requires_action or failed.
+   */
+  private async authorizeWithProviders(intent: PaymentIntentRecord): Promise<void> {
+    const { label, providers } = this.providerRouter.selectRoute(this.routingContext(intent));
+    intent.routing_decision = label;
+    let finalFailureCode = "provider_unavailable";
+    let finalDeclineCode: DeclineCode = "provider_unavailable";
+    let authorization: AuthorizeResult | null = null;
+
+    for (const provider of providers) {
+      // Another payment may have taken the last half-open probe since the candidates were selected.
+      if (!(await this.providerRouter.acquireCall(provider.name))) {
+        continue;
+      }
+      const startedAt = performance.now();
+      let attempt: AuthorizeResult | null;
+      try {
+        attempt = await provider.authorize({
+          amount: intent.amount,
+          currency: intent.currency,
+          paymentMethodType: intent.payment_method_type,
+          paymentMethodToken: intent.payment_method_token,
+          merchantReference: intent.id,
+        });
+      } catch {
+        attempt = null;
+      }
+      // A throw (a dropped connection, say) still used the call, and possibly a half-open probe, so it counts as a
+      // transient failure and the next candidate is tried.
+      await this.providerRouter.recordAuthorizeOutcome(provider.name, attempt ?? unavailableAuthorization, {
+        paymentMethodType: intent.payment_method_type,
+        latencyMs: performance.now() - startedAt,
+      });
+      if (!attempt) {
+        finalFailureCode = "provider_unavailable";
+        finalDeclineCode = "provider_unavailable";
+        continue;
+      }
+
+      intent.provider = provider.name;
+      intent.provider_reference = attempt.reference;
+      intent.updated_at = this.clock.nowIso();
+
+      if (attempt.ok) {
+        authorization = attempt;
+        break;
+      }
+
+      finalFailureCode = attempt.failureCode ?? "provider_declined";
+      finalDeclineCode = declineCodeOf(attempt);
+      // Issuer and card declines would be declined again by any other provider.
+      if (!declineCodes[finalDeclineCode].failover) {
+        break;
+      }
+    }
+
+    if (!authorization) {
+      await this.failAuthorization(intent, finalFailureCode, finalDeclineCode);
+      return;
+    }
+    await this.settleAuthorization(intent, authorization);
+  }
+
+  private async failAuthorization(
+    intent: PaymentIntentRecord,
+    failureCode: string,
+    declineCode: DeclineCode,
+  ): Promise<void> {
+    await this.unitOfWork.run(async (tx) => {
+      await this.applyAuthorizationFailure(tx, intent, failureCode, declineCode);
+    });
+  }
+
+  private async applyAuthorizationFailure(
+    context: UnitOfWorkContext,
+    intent: PaymentIntentRecord,
+    failureCode: string,
+    declineCode: DeclineCode,
+  ): Promise<void> {
+    assertTransition(intent.status, "failed");
+    intent.status = "failed";
+    intent.next_action = null;
+    intent.decline_code = declineCode;
+    intent.updated_at = this.clock.nowIso();
+    await this.saveIntent(context, intent);
+    this.publishEvent(context, "payment_intent.failed", {
+      payment_intent_id: intent.id,
+      failure_code: failureCode,
+      decline_code: declineCode,
+      ...(intent.routing_decision ? { routing_decision: intent.routing_decision } : {}),
+    });
+  }
+
+  /**
+   * Applies a successful provider answer: parks the intent on the customer's
+   * next action, leaves it processing until the provider notifies the outcome,
+   * or records the authorization (and capture).
+   */
+  private async settleAuthorization(intent: PaymentIntentRecord, authorization: AuthorizeResult): Promise<void> {
+    await this.unitOfWork.run(async (tx) => {
+      if (authorization.nextAction) {
+        await this.applyNextAction(tx, intent, authorization.nextAction);
+        return;
+      }
+
+      if (authorization.pending) {
+        intent.next_action = null;
+        await this.saveIntent(tx, intent);
+        return;
+      }
+
+      await this.applyAuthorization(tx, intent);
+    });
+  }
+
+  private async applyNextAction(
+    context: UnitOfWorkContext,
+    intent: PaymentIntentRecord,
+    nextAction: NextAction,
+  ): Promise<void> {
+    assertTransition(intent.status, "requires_action");
+    intent.status = "requires_action";
+    intent.next_action = nextAction;
+    intent.updated_at = this.clock.nowIso();
+    await this.saveIntent(context, intent);
+    this.publishEvent(context, "payment_intent.requires_action", {
+      payment_intent_id: intent.id,
+      reason: "customer_action_required",
+      next_action: nextAction,
+    });
+  }
+
+  private async applyAuthorization(context: UnitOfWorkContext, intent: PaymentIntentRecord): Promise<void> {
+    intent.next_action = null;
+    intent.authorized_amount = intent.amount;
+    await this.appendLedgerEntry(context, {
+      paymentIntentId: intent.id,
+      entryType: "authorization",
+      direction: "credit",
+      amount: intent.authorized_amount,
+      currency: intent.currency,
+      provider: intent.provider,
+      providerReference: intent.provider_reference,
+    });
+    if (intent.capture_method === "automatic") {
+      assertTransition(intent.status, "succeeded");
+      intent.status = "succeeded";
+      intent.captured_amount = intent.amount;
+      await this.appendLedgerEntry(context, {
+        paymentIntentId: intent.id,
+        entryType: "capture",
+        direction: "credit",
+        amount: intent.amount,
+        currency: intent.currency,
+        provider: intent.provider,
+        providerReference: intent.provider_reference,
+      });
+      this.publishEvent(context, "payment_intent.succeeded", {
+        payment_intent_id: intent.id,
+        amount: intent.amount,
+        ...(intent.routing_decision ? { routing_decision: intent.routing_decision } : {}),
+      });
+    } else {
+      assertTransition(intent.status, "requires_action");
+      intent.status = "requires_action";
+      intent.authorization_expires_at = this.authorizationExpiresAt(intent.payment_method_type);
+      this.publishEvent(context, "payment_intent.requires_action", {
+        payment_intent_id: intent.id,
+        reason: "manual_capture_required",
+        ...(intent.routing_decision ? { routing_decision: intent.routing_decision } : {}),
+      });
+    }
+
+    intent.updated_at = this.clock.nowIso();
+    await this.saveIntent(context, intent);
+  }
+
+  private async recoverStuckIntent(id: string, stuckBefore: string): Promise<IntentRecoveryRecord | null> {
+    const intent = await this.getPaymentIntentRecordOrThrow(id);
+    if (intent.status !== "processing" || Date.parse(intent.updated_at) > Date.parse(stuckBefore)) {
+      return null;
+    }
+
+    if (intent.pending_operation) {
+      return this.recoverPendingOperation(intent, intent.pending_operation);
+    }
+    // Only lost authorizations are replayed; anything else already authorized has no claim to undo.
+    if (intent.authorized_amount > 0) {
+      return null;
+    }
+
+    const stuckSince = intent.updated_at;
+    let lookup: { provider: string | null; result: ProviderStatusResult };
+    try {
+      lookup = await this.lookUpAuthorization(intent);
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      // No answer (a timeout, or a provider without status lookups) says nothing about the payment; try again later.
+      await this.restartStuckClock(intent);
+      return null;
+    }
+    if (lookup.result.status === "pending") {
+      // Still open at the provider (an unpaid boleto, say); restart the clock so later passes reach other intents.
+      await this.restartStuckClock(intent);
+      return null;
+    }
+
+    intent.provider = lookup.provider ?? intent.provider;
+    intent.provider_reference = lookup.result.reference ?? intent.provider_reference;
+    let failureCode: string | null = null;
+    return this.unitOfWork.run(async (tx) => {
+      if (lookup.result.status === "authorized") {
+        await this.applyAuthorization(tx, intent);
+      } else if (lookup.result.status === "requires_action" && lookup.result.nextAction) {
+        await this.applyNextAction(tx, intent, lookup.result.nextAction);
+      } else {
+        // Unknown to every provider means the request never landed, so nothing was authorized.
+        failureCode = lookup.result.failureCode ?? (
+          lookup.result.status === "not_found" ? "authorization_not_found" : "provider_declined"
+        );
+        await this.applyAuthorizationFailure(
+          tx,
+          intent,
+          failureCode,
+          lookup.result.status === "not_found" ? "unknown" : declineCodeOf(lookup.result),
+        );
+      }
+
+      const recovery: IntentRecoveryRecord = {
+        id: `rcv_${randomUUID()}`,
+        payment_intent_id: intent.id,
+        provider: intent.provider,
+        provider_reference: intent.provider_reference,
+        provider_status: lookup.result.status,
+        resolved_status: intent.status,
+        failure_code: failureCode,
+        stuck_since: stuckSince,
+        created_at: this.clock.nowIso(),
+      };
+      await tx.repository.saveIntentRecovery(recovery);
+      return recovery;
+    });
+  }
+
+  private async restartStuckClock(intent: PaymentIntentRecord): Promise<void> {
+    intent.updated_at = this.clock.nowIso();
+    await this.unitOfWork.run(async (tx) => {
+      await this.saveIntent(tx, intent);
+    });
+  }
+
+  /**
+   * Flags a capture or cancel claim whose provider call never reported. The
+   * provider may have applied the call and its status lookup only covers the
+   * authorization, so the claim is not handed back: the intent stays in
+   * processing with `{operation}_unconfirmed` until someone checks it with the
+   * provider. Later passes only restart its clock.
+   */
+  private async recoverPendingOperation(
+    intent: PaymentIntentRecord,
+    operation: PendingOperation,
+  ): Promise<IntentRecoveryRecord | null> {
+    const failureCode = `${operation}_unconfirmed`;
+    const [latest] = (await this.repository.listIntentRecoveries({ limit: 1, paymentIntentId: intent.id })).data;
+    if (latest?.failure_code === failureCode) {
+      await this.restartStuckClock(intent);
+      return null;
+    }
+
+    let lookup: { provider: string | null; result: ProviderStatusResult };
+    try {
+      lookup = await this.lookUpAuthorization(intent);
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      await this.restartStuckClock(intent);
+      return null;
+    }
+
+    const stuckSince = intent.updated_at;
+    return this.unitOfWork.run(async (tx) => {
+      intent.updated_at = this.clock.nowIso();
+      await this.saveIntent(tx, intent);
+      const recovery: IntentRecoveryRecord = {
+        id: `rcv_${randomUUID()}`,
+        payment_intent_id: intent.id,
+        provider: intent.provider,
+        provider_reference: intent.provider_reference,
+        provider_status: lookup.result.status,
+        resolved_status: intent.status,
+        failure_code: failureCode,
+        stuck_since: stuckSince,
+        created_at: this.clock.nowIso(),
+      };
+      await tx.repository.saveIntentRecovery(recovery);
+      return recovery;
+    });
+  }
+
+  private async lookUpAuthorization(
+    intent: PaymentIntentRecord,
+  ): Promise<{ provider: string | null; result: ProviderStatusResult }> {
+    if (intent.provider && intent.provider_reference) {
+      const provider = this.providerRouter.findByName(intent.provider);
+      return { provider: provider.name, result: await provider.getStatus(intent.provider_reference) };
+    }
+
+    // The answer was never stored, so ask every provider the intent could have been routed to, by intent id.
+    let outcome: { provider: string | null; result: ProviderStatusResult } = {
+      provider: null,
+      result: { status: "not_found" },
+    };
+    for (const provider of this.providerRouter.supportingProviders(this.routingContext(intent))) {
+      const result = await provider.getStatus(intent.id);
+      if (result.status === "not_found") {
+        continue;
+      }
+      if (result.status !== "failed") {
+        return { provider: provider.name, result };
+      }
+      // Keep the last failure, as the failover loop would have reported it.
+      outcome = { provider: provider.name, result };
+    }
+    return outcome;
+  }
+
+  private async cancelIntent(id: string, options: CancelIntentOptions): Promise<PaymentIntentRecord> {
+    const canceledEventData = (intent: PaymentIntentRecord): Record<string, unknown> => ({
+      payment_intent_id: intent.id,
+      ...(options.cancellationReason ? { cancellation_reason: options.cancellationReason } : {}),
+    });
+    const claim = await this.retryOnConflict(async () => {
+      const intent = await this.getPaymentIntentRecordOrThrow(id);
+      this.assertExpectedVersion(intent, options.expectedVersion);
+
+      if (intent.status === "canceled") {
+        return { intent, releasable: 0 };
+      }
+
+      if (isTerminalStatus(intent.status) || intent.status === "processing") {
+        throw new AppError(
+          409,
+          "invalid_payment_state",
+          `Cancel is not allowed when payment is '${intent.status}'.`,
+        );
+      }
+
+      const releasable = intent.authorized_amount - intent.captured_amount;
+      if (releasable > 0 && intent.provider_reference) {
+        // Hold the intent in processing so no capture can use the authorization while it is voided.
+        assertTransition(intent.status, "processing");
+        intent.status = "processing";
+        intent.pending_operation = "cancel";
+        intent.updated_at = this.clock.nowIso();
+        await this.unitOfWork.run(async (tx) => {
+          await this.saveIntent(tx, intent);
+        });
+        return { intent, releasable };
+      }
+
+      assertTransition(intent.status, "canceled");
+      intent.status = "canceled";
+      intent.next_action = null;
+      intent.updated_at = this.clock.nowIso();
+      await this.unitOfWork.run(async (tx) => {
+        await this.saveIntent(tx, intent);
+        await this.cancelPendingReview(tx, intent);
+        this.publishEvent(tx, "payment_intent.canceled", canceledEventData(intent));
+      });
+      return { intent, releasable: 0 };
+    });
+    const { intent, releasable } = claim;
+    if (releasable === 0) {
+      return intent;
+    }
+
+    let reversal: ReverseAuthorizationResult;
+    try {
+      reversal = await this.reverseAuthorization(intent, releasable);
+    } catch (error) {
+      await this.releaseClaim(intent).catch(() => undefined);
+      throw error;
+    }
+    intent.pending_operation = null;
+    // An expired authorization lapses at the issuer anyway, so a rejected void does not block the cancel.
+    if (!reversal.ok && !options.cancellationReason) {
+      assertTransition(intent.status, "requires_action");
+      intent.status = "requires_action";
+      intent.updated_at = this.clock.nowIso();
+      await this.unitOfWork.run(async (tx) => {
+        await this.saveIntent(tx, intent);
+      });
+      throw new AppError(
+        502,
+        "authorization_release_failed",
+        `Provider could not void the authorization (${reversal.failureCode ?? "reversal_rejected"}).`,
+      );
+    }
+
+    assertTransition(intent.status, "canceled");
+    intent.status = "canceled";
+    intent.updated_at = this.clock.nowIso();
+    await this.unitOfWork.run(async (tx) => {
+      if (reversal.ok) {
+        await this.recordAuthorizationRelease(tx, intent, releasable, "canceled");
+      }
+      await this.saveIntent(tx, intent);
+      this.publishEvent(tx, "payment_intent.canceled", canceledEventData(intent));
+    });
+    return intent;
+  }
+
+  // Takes an intent canceled while held for manual review out of the reviewer queue.
+  private async cancelPendingReview(context: UnitOfWorkContext, intent: PaymentIntentRecord): Promise<void> {
+    const review = await context.repository.getPaymentReviewByPaymentIntentId(intent.id);
+    if (!review || review.status !== "pending") {
+      return;
+    }
+    review.status = "canceled";
+    review.updated_at = intent.updated_at;
+    await context.repository.savePaymentReview(review);
+    this.publishEvent(context, "review.canceled", {
+      review_id: review.id,
+      payment_intent_id: intent.id,
+      risk_reason: review.risk_reason,
+    });
+  }
+
+  private authorizationExpiresAt(paymentMethodType: PaymentMethodType): string | null {
+    const ttlSeconds = this.authorizationTtlSeconds[paymentMethodType];
+    if (ttlSeconds === undefined) {
+      return null;
+    }
+    return new Date(Date.parse(this.clock.nowIso()) + ttlSeconds * 1000).toISOString();
+  }
+
   private async executeIdempotent<TBody>(
     scope: string,
     key: string,
@@ -691,6 +1629,18 @@ export class PaymentOrchestrator {
     });
   }
 
+  private routingContext(intent: PaymentIntentRecord): RoutingContext {
+    return {
+      paymentMethodType: intent.payment_method_type,
+      currency: intent.currency,
+      amount: intent.amount,
+      customerId: intent.customer_id,
+      paymentIntentId: intent.id,
+      cardBinCountry: intent.card_bin_country,
+      metadata: intent.metadata,
+    };
+  }
+
   private mapPaymentIntent(intent: PaymentIntentRecord): PaymentIntentResponse {
     return {
       id: intent.id,
@@ -700,12 +1650,19 @@ export class PaymentOrchestrator {
       capture_method: intent.capture_method,
       customer_id: intent.customer_id,
       payment_method_type: intent.payment_method_type,
+      card_bin_country: intent.card_bin_country,
+      metadata: intent.metadata,
+      routing_decision: intent.routing_decision,
+      decline_code: intent.decline_code,
       authorized_amount: intent.authorized_amount,
       captured_amount: intent.captured_amount,
       refunded_amount: intent.refunded_amount,
       amount_refundable: Math.max(0, intent.captured_amount - intent.refunded_amount),
       provider: intent.provider,
       provider_reference: intent.provider_reference,
+      authorization_expires_at: intent.authorization_expires_at,
+      next_action: intent.next_action,
+      version: intent.version,
       created_at: intent.created_at,
       updated_at: intent.updated_at,
     };
@@ -734,6 +1691,62 @@ export class PaymentOrchestrator {
     };
   }
 
+  private mapPaymentReview(review: PaymentReviewRecord): PaymentReviewResponse {
+    return {
+      id: review.id,
+      payment_intent_id: review.payment_intent_id,
+      status: review.status,
+      risk_reason: review.risk_reason,
+      amount: review.amount,
+      currency: review.currency,
+      customer_id: review.customer_id,
+      note: review.note,
+      decided_at: review.decided_at,
+      created_at: review.created_at,
+      updated_at: review.updated_at,
+    };
+  }
+
+  private mapIntentRecovery(recovery: IntentRecoveryRecord): IntentRecoveryResponse {
+    return {
+      id: recovery.id,
+      payment_intent_id: recovery.payment_intent_id,
+      provider: recovery.provider,
+      provider_reference: recovery.provider_reference,
+      provider_status: recovery.provider_status,
+      resolved_status: recovery.resolved_status,
+      failure_code: recovery.failure_code,
+      stuck_since: recovery.stuck_since,
+      created_at: recovery.created_at,
+    };
+  }
+
+  private mapCircuitOverride(override: CircuitOverrideRecord): CircuitOverrideResponse {
+    return {
+      id: override.id,
+      provider: override.provider,
+      state: override.state,
+      ttl_seconds: override.ttl_seconds,
+      forced_until: override.forced_until,
+      reason: override.reason,
+      actor: override.actor,
+      created_at: override.created_at,
+    };
+  }
+
+  private mapProvider(health: ProviderHealth): ProviderResponse {
+    return {
+      name: health.name,
+      supported_methods: health.supportedMethods,
+      circuit_state: health.circuit.state,
+      consecutive_failures: health.circuit.consecutiveFailures,
+      opened_until: health.circuit.openedUntil,
+      forced: health.circuit.forced,
+      recent_authorizations: health.recentAuthorizations,
+      recent_approval_rate: health.recentApprovalRate,
+    };
+  }
+
   private mapLedgerEntry(entry: LedgerEntryRecord): LedgerEntryResponse {
     return {
       id: entry.id,
@@ -749,7 +1762,7 @@ export class PaymentOrchestrator {
     };
   }
 
-  private async publishEvent(type: PaymentEvent["type"], data: Record<string, unknown>): Promise<void> {
+  private publishEvent(context: UnitOfWorkContext, type: PaymentEvent["type"], data: Record<string, unknown>): void {
     const event: PaymentEvent = {
       id: `evt_${randomUUID()}`,
       api_version: this.eventApiVersion,
@@ -759,18 +1772,180 @@ export class PaymentOrchestrator {
       occurred_at: this.clock.nowIso(),
       data,
     };
-    await this.eventBus.publish(event);
+    context.publish(event);
   }
 
-  private async getPaymentIntentRecordOrThrow(id: string): Promise<PaymentIntentRecord> {
-    const intent = await this.repository.getPaymentIntentById(id);
+  private async getPaymentIntentRecordOrThrow(
+    id: string,
+    repository: PaymentRepositoryPort = this.repository,
+  ): Promise<PaymentIntentRecord> {
+    const intent = await repository.getPaymentIntentById(id);
     if (!intent) {
       throw new AppError(404, "resource_not_found", `Payment intent '${id}' not found.`);
     }
     return intent;
   }
 
-  private async appendLedgerEntry(input: {
+  private assertExpectedVersion(intent: PaymentIntentRecord, expectedVersion: number | undefined): void {
+    if (expectedVersion !== undefined && intent.version !== expectedVersion) {
+      throw new AppError(412, "precondition_failed", "If-Match precondition failed.");
+    }
+  }
+
+  // Saves with compare-and-swap against the version the intent was loaded at.
+  private async saveIntent(context: UnitOfWorkContext, intent: PaymentIntentRecord): Promise<void> {
+    const expectedVersion = intent.version;
+    intent.version = expectedVersion + 1;
+    await context.repository.savePaymentIntent(intent, expectedVersion);
+  }
+
+  private async retryOnConflict<TResult>(operation: () => Promise<TResult>): Promise<TResult> {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await operation();
+      } catch (error) {
+        const conflict = error instanceof AppError && error.code === "concurrent_modification";
+        if (!conflict || attempt >= MAX_CONFLICT_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Undoes a capture or cancel claim whose provider call threw; if this save fails too, the recovery sweeper does it.
+  private async releaseClaim(intent: PaymentIntentRecord): Promise<void> {
+    this.revertClaim(intent);
+    await this.unitOfWork.run(async (tx) => {
+      await this.saveIntent(tx, intent);
+    });
+  }
+
+  private revertClaim(intent: PaymentIntentRecord): void {
+    assertTransition(intent.status, "requires_action");
+    intent.status = "requires_action";
+    intent.pending_operation = null;
+    intent.updated_at = this.clock.nowIso();
+  }
+
+  private async reverseAuthorization(intent: PaymentIntentRecord, amount: number): Promise<ReverseAuthorizationResult> {
+    if (!intent.provider || !intent.provider_reference) {
+      return { ok: false, failureCode: "missing_provider_reference" };
+    }
+    const provider = this.providerRouter.findByName(intent.provider);
+    // The version of the claim that started this release; a later cancel retrying a failed release gets a new key.
+    return provider.reverseAuthorization({
+      amount,
+      reference: intent.provider_reference,
+      idempotencyKey: `${intent.id}:void:${intent.version}`,
+    });
+  }
+
+  private async recordAuthorizationRelease(
+    context: UnitOfWorkContext,
+    intent: PaymentIntentRecord,
+    amount: number,
+    reason: "canceled" | "final_capture",
+  ): Promise<void> {
+    await this.appendLedgerEntry(context, {
+      paymentIntentId: intent.id,
+      entryType: "authorization_reversal",
+      direction: "debit",
+      amount,
+      currency: intent.currency,
+      provider: intent.provider,
+      providerReference: intent.provider_reference,
+    });
+    this.publishEvent(context, "payment_intent.authorization_released", {
+      payment_intent_id: intent.id,
+      amount,
+      reason,
+    });
+  }
+
+  // Gives a failed refund's reserved amount back to the intent; the reload keeps concurrent refunds intact.
+  private async releaseRefundReservation(
+    paymentIntentId: string,
+    refund: RefundRecord,
+    failureCode?: string,
+  ): Promise<void> {
+    await this.retryOnConflict(() => this.unitOfWork.run(async (tx) => {
+      const current = await this.getPaymentIntentRecordOrThrow(paymentIntentId, tx.repository);
+      await this.applyRefundRelease(tx, current, refund, failureCode);
+    }));
+  }
+
+  private async applyRefundRelease(
+    context: UnitOfWorkContext,
+    intent: PaymentIntentRecord,
+    refund: RefundRecord,
+    failureCode?: string,
+  ): Promise<void> {
+    intent.refunded_amount -= refund.amount;
+    intent.updated_at = this.clock.nowIso();
+    await this.saveIntent(context, intent);
+    await context.repository.saveRefund(refund);
+    if (failureCode) {
+      this.publishEvent(context, "refund.failed", {
+        refund_id: refund.id,
+        payment_intent_id: refund.payment_intent_id,
+        amount: refund.amount,
+        failure_code: failureCode,
+      });
+    }
+  }
+
+  private async applyRefundSuccess(
+    context: UnitOfWorkContext,
+    intent: PaymentIntentRecord,
+    refund: RefundRecord,
+  ): Promise<void> {
+    await context.repository.saveRefund(refund);
+    await this.appendLedgerEntry(context, {
+      paymentIntentId: intent.id,
+      refundId: refund.id,
+      entryType: "refund",
+      direction: "debit",
+      amount: refund.amount,
+      currency: intent.currency,
+      provider: intent.provider,
+      providerReference: intent.provider_reference,
+    });
+    this.publishEvent(context, "refund.succeeded", {
+      refund_id: refund.id,
+      payment_intent_id: refund.payment_intent_id,
+      amount: refund.amount,
+    });
+  }
+
+  // Both outcomes save the intent read before the provider call, so a concurrent pass settling the same refund
+  // fails the version check instead of booking it twice.
+  private async settlePendingRefund(refund: RefundRecord): Promise<RefundRecord> {
+    const intent = await this.getPaymentIntentRecordOrThrow(refund.payment_intent_id);
+    if (!intent.provider || !intent.provider_reference) {
+      throw new AppError(422, "refund_not_allowed", "Payment has no provider reference.");
+    }
+    const provider = this.providerRouter.findByName(intent.provider);
+    const providerRefund = await provider.refund({
+      amount: refund.amount,
+      reference: intent.provider_reference,
+      idempotencyKey: refund.id,
+    });
+    await this.providerRouter.recordProviderOutcome(provider.name, "refund", providerRefund);
+
+    const settled: RefundRecord = { ...refund, status: providerRefund.ok ? "succeeded" : "failed" };
+    await this.unitOfWork.run(async (tx) => {
+      if (!providerRefund.ok) {
+        await this.applyRefundRelease(tx, intent, settled, providerRefund.failureCode ?? "refund_rejected");
+        return;
+      }
+      intent.updated_at = this.clock.nowIso();
+      await this.saveIntent(tx, intent);
+      await this.applyRefundSuccess(tx, intent, settled);
+    });
+    return settled;
+  }
+
+  private async appendLedgerEntry(context: UnitOfWorkContext, input: {
     paymentIntentId: string;
     refundId?: string;
     entryType: LedgerEntryRecord["entry_type"];
@@ -780,7 +1955,7 @@ export class PaymentOrchestrator {
     provider: string | null;
     providerReference: string | null;
   }): Promise<void> {
-    await this.repository.saveLedgerEntry({
+    await context.repository.saveLedgerEntry({
       id: `led_${randomUUID()}`,
       payment_intent_id: input.paymentIntentId,
       refund_id: input.refundId ?? null,
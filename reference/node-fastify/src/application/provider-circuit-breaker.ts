@@ -0,0 +1,193 @@
+import { declineCodes, normalizeDeclineCode } from "../domain/decline-codes.js";
+import type { DeclineCode } from "../domain/decline-codes.js";
+import type { ClockPort } from "../infra/clock.js";
+import type {
+  CircuitCommand,
+  CircuitSnapshot,
+  CircuitState,
+  CircuitStatePolicy,
+  CircuitStateStorePort,
+  CircuitTransitionReason,
+  ForcedCircuitState,
+} from "../ports/circuit-state-store.js";
+
+export type ProviderOperation = "authorize" | "capture" | "refund";
+
+export interface CircuitBreakerPolicy extends CircuitStatePolicy {
+  enabled: boolean;
+  transientFailuresOnly: boolean;
+}
+
+export interface ProviderCallOutcome {
+  ok: boolean;
+  failureCode?: string;
+  declineCode?: DeclineCode;
+}
+
+export interface CircuitStateChange {
+  provider: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: CircuitTransitionReason;
+  // The provider call whose outcome caused the change; null when the cooldown elapsed.
+  operation: ProviderOperation | null;
+  openedUntil: string | null;
+  // Set only when an operator forced the state.
+  forcedUntil: string | null;
+  forcedReason: string | null;
+  at: string;
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedUntil: string | null;
+  forced: { state: ForcedCircuitState; until: string; reason: string } | null;
+}
+
+/**
+ * Per-provider closed/open/half-open state machine. A closed circuit opens on
+ * consecutive failures or on the failure rate of a rolling window; an open one
+ * turns half-open after the cooldown and admits `halfOpenMaxCalls` probes,
+ * closing when they all succeed and reopening on the first failure.
+ *
+ * The state lives in a store that several instances may share. Routing reads
+ * the last state this instance saw, so candidate selection stays synchronous;
+ * `refresh` picks up transitions caused by other instances.
+ */
+export class ProviderCircuitBreaker {
+  private readonly seen = new Map<string, CircuitSnapshot>();
+
+  constructor(
+    private readonly policy: CircuitBreakerPolicy,
+    private readonly clock: ClockPort,
+    private readonly store: CircuitStateStorePort,
+    private readonly onStateChange?: (change: CircuitStateChange) => void,
+  ) {}
+
+  // Whether a call may be routed to the provider now; does not use up a half-open probe.
+  isAvailable(providerName: string): boolean {
+    const forced = this.activeOverride(providerName);
+    if (forced) {
+      return forced.state === "closed";
+    }
+    if (!this.policy.enabled) {
+      return true;
+    }
+    const circuit = this.seen.get(providerName);
+    if (!circuit) {
+      return true;
+    }
+    const nowMs = this.nowMs();
+    switch (circuit.state) {
+      case "closed":
+        return true;
+      case "open":
+        // The next acquire moves an expired circuit to half-open.
+        return circuit.openedUntilMs !== null && nowMs >= circuit.openedUntilMs;
+      case "half_open":
+        return circuit.probesStarted < this.policy.halfOpenMaxCalls
+          || (circuit.halfOpenedAtMs !== null && nowMs - circuit.halfOpenedAtMs >= this.policy.cooldownSeconds * 1000);
+    }
+  }
+
+  // Like isAvailable, but claims a probe slot when the circuit is half-open.
+  async tryAcquire(providerName: string): Promise<boolean> {
+    const forced = this.activeOverride(providerName);
+    if (forced) {
+      return forced.state === "closed";
+    }
+    const circuit = this.seen.get(providerName);
+    if (!this.policy.enabled || ((circuit?.state ?? "closed") === "closed" && !circuit?.forced)) {
+      return true;
+    }
+    return (await this.apply(providerName, { type: "acquire" }, null)).acquired;
+  }
+
+  async record(providerName: string, operation: ProviderOperation, outcome: ProviderCallOutcome): Promise<void> {
+    if (!this.policy.enabled) {
+      return;
+    }
+    // A decline still proves the provider answers, so with transient-only it counts as a success.
+    const declineCode = outcome.declineCode ?? normalizeDeclineCode(outcome.failureCode);
+    const failed = !outcome.ok && (!this.policy.transientFailuresOnly || declineCodes[declineCode].failover);
+    await this.apply(providerName, { type: "record", failed }, operation);
+  }
+
+  /**
+   * Pins the circuit open or closed until the TTL expires, e.g. around planned
+   * acquirer maintenance. Overrides apply even with the breaker disabled.
+   * The TTL counts from `fromMs`, so a caller can match a timestamp it already recorded.
+   */
+  async force(
+    providerName: string,
+    state: ForcedCircuitState,
+    ttlSeconds: number,
+    reason: string,
+    fromMs = this.nowMs(),
+  ): Promise<void> {
+    const untilMs = fromMs + ttlSeconds * 1000;
+    await this.apply(providerName, { type: "force", override: { state, untilMs, reason } }, null);
+  }
+
+  status(providerName: string): CircuitStatus {
+    const circuit = this.seen.get(providerName);
+    const forced = this.activeOverride(providerName);
+    return {
+      state: forced?.state ?? circuit?.state ?? "closed",
+      consecutiveFailures: circuit?.consecutiveFailures ?? 0,
+      openedUntil: circuit?.openedUntilMs ? new Date(circuit.openedUntilMs).toISOString() : null,
+      forced: forced
+        ? { state: forced.state, until: new Date(forced.untilMs).toISOString(), reason: forced.reason }
+        : null,
+    };
+  }
+
+  // Reloads the shared state of the given providers, including transitions made by other instances.
+  async refresh(providerNames: string[]): Promise<void> {
+    await Promise.all(providerNames.map((providerName) => this.apply(providerName, { type: "read" }, null)));
+  }
+
+  private async apply(
+    providerName: string,
+    command: CircuitCommand,
+    operation: ProviderOperation | null,
+  ): Promise<{ acquired: boolean }> {
+    const nowMs = this.nowMs();
+    const step = await this.store.apply(providerName, command, nowMs, this.policy);
+    this.seen.set(providerName, step.snapshot);
+    const forced = step.snapshot.forced;
+    for (const transition of step.transitions) {
+      const byOperator = transition.reason === "forced" && forced !== null;
+      this.onStateChange?.({
+        provider: providerName,
+        from: transition.from,
+        to: transition.to,
+        reason: transition.reason,
+        operation: transition.reason === "cooldown_elapsed" ? null : operation,
+        openedUntil: openedUntil(transition.to, step.snapshot, byOperator),
+        forcedUntil: byOperator ? new Date(forced.untilMs).toISOString() : null,
+        forcedReason: byOperator ? forced.reason : null,
+        at: new Date(nowMs).toISOString(),
+      });
+    }
+    return { acquired: step.acquired };
+  }
+
+  private activeOverride(providerName: string): CircuitSnapshot["forced"] {
+    const forced = this.seen.get(providerName)?.forced ?? null;
+    return forced && this.nowMs() < forced.untilMs ? forced : null;
+  }
+
+  private nowMs(): number {
+    return Date.parse(this.clock.nowIso());
+  }
+}
+
+function openedUntil(to: CircuitState, snapshot: CircuitSnapshot, byOperator: boolean): string | null {
+  if (to !== "open") {
+    return null;
+  }
+  const untilMs = byOperator ? snapshot.forced?.untilMs : snapshot.openedUntilMs;
+  return untilMs ? new Date(untilMs).toISOString() : null;
+}
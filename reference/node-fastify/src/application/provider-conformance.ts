@@ -0,0 +1,351 @@
+import { randomUUID } from "node:crypto";
+import { isDeclineCode } from "../domain/decline-codes.js";
+import type { DeclineCode } from "../domain/decline-codes.js";
+import type { PaymentMethodType } from "../domain/types.js";
+import { AppError } from "../infra/app-error.js";
+import type { AuthorizeResult, ProviderCallOptions, ProviderGatewayPort } from "../ports/provider-gateway.js";
+
+// Builds a fresh adapter for every check, so no check sees state another one left behind.
+export type ProviderAdapterFactory = () => ProviderGatewayPort | Promise<ProviderGatewayPort>;
+
+export interface ProviderConformanceFixtures {
+  paymentMethodType: PaymentMethodType;
+  currency: string;
+  // Captured and refunded in two halves, so it must be even.
+  amount: number;
+  // A token the adapter approves at once, without a next action or a pending outcome.
+  approveToken: string;
+  // Tokens the adapter declines, with the canonical code each decline must normalize to.
+  declines: Array<{ token: string; declineCode: DeclineCode }>;
+  // A token the adapter answers with a next action; without it the completion check is skipped.
+  actionToken?: string;
+}
+
+export interface ProviderConformanceOptions {
+  // Deadline of a single call; the adapter gets an AbortSignal that fires with it.
+  callTimeoutMs?: number;
+  // Releases what the factory opened, e.g. an HTTP agent.
+  dispose?: (provider: ProviderGatewayPort) => Promise<void> | void;
+}
+
+export type ConformanceCheckStatus = "passed" | "failed" | "skipped";
+
+export interface ConformanceCheckResult {
+  name: string;
+  status: ConformanceCheckStatus;
+  detail?: string;
+}
+
+export interface ConformanceReport {
+  provider: string;
+  passed: boolean;
+  checks: ConformanceCheckResult[];
+}
+
+class ConformanceViolation extends Error {}
+
+class CheckSkipped extends Error {}
+
+interface CheckContext {
+  provider: ProviderGatewayPort;
+  fixtures: ProviderConformanceFixtures;
+  call: <T>(operation: string, run: (options: ProviderCallOptions) => Promise<T>) => Promise<T>;
+}
+
+interface ConformanceCheck {
+  name: string;
+  run: (context: CheckContext) => Promise<void>;
+}
+
+interface FailureShape {
+  ok: boolean;
+  failureCode?: string;
+  declineCode?: DeclineCode;
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new ConformanceViolation(message);
+  }
+}
+
+function expectSuccess(operation: string, result: FailureShape): void {
+  assert(
+    result.ok,
+    `${operation} failed with '${result.failureCode ?? "no failure code"}' (${result.declineCode ?? "no decline code"}).`,
+  );
+  assert(result.failureCode === undefined && result.declineCode === undefined, `${operation} succeeded with a failure code.`);
+}
+
+// Every failure carries the provider's raw code for support and a canonical code the module acts on.
+function expectCanonicalFailure(operation: string, result: FailureShape): DeclineCode {
+  assert(!result.ok, `${operation} succeeded but was expected to fail.`);
+  assert(
+    typeof result.failureCode === "string" && result.failureCode.length > 0,
+    `${operation} failed without a failure code.`,
+  );
+  assert(
+    typeof result.declineCode === "string" && isDeclineCode(result.declineCode),
+    `${operation} failed with non-canonical decline code '${String(result.declineCode)}'.`,
+  );
+  return result.declineCode;
+}
+
+function expectReference(operation: string, result: AuthorizeResult): string {
+  assert(
+    typeof result.reference === "string" && result.reference.length > 0,
+    `${operation} returned no provider reference.`,
+  );
+  return result.reference;
+}
+
+function merchantReference(): string {
+  return `pi_conformance_${randomUUID()}`;
+}
+
+async function authorizeApproved(context: CheckContext, reference = merchantReference()): Promise<string> {
+  const { fixtures } = context;
+  const result = await context.call("authorize", (options) =>
+    context.provider.authorize({
+      amount: fixtures.amount,
+      currency: fixtures.currency,
+      paymentMethodType: fixtures.paymentMethodType,
+      paymentMethodToken: fixtures.approveToken,
+      merchantReference: reference,
+    }, options));
+  expectSuccess("authorize", result);
+  assert(!result.nextAction && !result.pending, "authorize of the approve token did not complete at once.");
+  return expectReference("authorize", result);
+}
+
+const checks: readonly ConformanceCheck[] = [
+  {
+    name: "declares_payment_method",
+    run: async ({ provider, fixtures }) => {
+      assert(typeof provider.name === "string" && provider.name.length > 0, "Adapter has no name.");
+      assert(provider.supports(fixtures.paymentMethodType), `Adapter does not support '${fixtures.paymentMethodType}'.`);
+    },
+  },
+  {
+    name: "authorize_approves",
+    run: async (context) => {
+      await authorizeApproved(context);
+    },
+  },
+  {
+    name: "authorize_declines_with_canonical_codes",
+    run: async (context) => {
+      const { fixtures } = context;
+      if (fixtures.declines.length === 0) {
+        throw new CheckSkipped("No decline fixtures given.");
+      }
+      for (const decline of fixtures.declines) {
+        const reference = merchantReference();
+        const result = await context.call("authorize", (options) =>
+          context.provider.authorize({
+            amount: fixtures.amount,
+            currency: fixtures.currency,
+            paymentMethodType: fixtures.paymentMethodType,
+            paymentMethodToken: decline.token,
+            merchantReference: reference,
+          }, options));
+        expectReference(`authorize of '${decline.token}'`, result);
+        const declineCode = expectCanonicalFailure(`authorize of '${decline.token}'`, result);
+        assert(
+          declineCode === decline.declineCode,
+          `authorize of '${decline.token}' declined with '${declineCode}', expected '${decline.declineCode}'.`,
+        );
+      }
+    },
+  },
+  {
+    name: "status_lookup",
+    run: async (context) => {
+      const reference = merchantReference();
+      const providerReference = await authorizeApproved(context, reference);
+      for (const lookup of [providerReference, reference]) {
+        const status = await context.call("getStatus", (options) => context.provider.getStatus(lookup, options));
+        assert(status.status === "authorized", `getStatus('${lookup}') returned '${status.status}', expected 'authorized'.`);
+        assert(
+          status.reference === providerReference,
+          `getStatus('${lookup}') returned reference '${String(status.reference)}', expected '${providerReference}'.`,
+        );
+      }
+      const unknown = await context.call("getStatus", (options) =>
+        context.provider.getStatus(`conformance_unknown_${randomUUID()}`, options));
+      assert(unknown.status === "not_found", `getStatus of an unknown reference returned '${unknown.status}'.`);
+    },
+  },
+  {
+    name: "complete_authorization",
+    run: async (context) => {
+      const { fixtures, provider } = context;
+      if (!fixtures.actionToken) {
+        throw new CheckSkipped("No action token given.");
+      }
+      const actionToken = fixtures.actionToken;
+      const started = await context.call("authorize", (options) =>
+        provider.authorize({
+          amount: fixtures.amount,
+          currency: fixtures.currency,
+          paymentMethodType: fixtures.paymentMethodType,
+          paymentMethodToken: actionToken,
+          merchantReference: merchantReference(),
+        }, options));
+      expectSuccess("authorize of the action token", started);
+      const reference = expectReference("authorize of the action token", started);
+      assert(started.nextAction, "authorize of the action token returned no next action.");
+
+      const completed = await context.call("completeAuthorization", (options) =>
+        provider.completeAuthorization({
+          amount: fixtures.amount,
+          currency: fixtures.currency,
+          reference,
+          actionResult: { authentication_result: "succeeded" },
+        }, options));
+      expectSuccess("completeAuthorization", completed);
+      assert(completed.reference === reference, "completeAuthorization changed the provider reference.");
+    },
+  },
+  {
+    name: "partial_captures",
+    run: async (context) => {
+      const reference = await authorizeApproved(context);
+      const half = context.fixtures.amount / 2;
+      for (const attempt of ["first", "second"]) {
+        const result = await context.call("capture", (options) =>
+          context.provider.capture({ amount: half, reference, idempotencyKey: randomUUID() }, options));
+        expectSuccess(`${attempt} partial capture`, result);
+      }
+    },
+  },
+  {
+    name: "refunds_are_idempotent",
+    run: async (context) => {
+      const reference = await authorizeApproved(context);
+      const { amount } = context.fixtures;
+      expectSuccess("capture", await context.call("capture", (options) =>
+        context.provider.capture({ amount, reference, idempotencyKey: randomUUID() }, options)));
+      // A refund repeated after a lost answer or a timeout carries the same key and must be applied once,
+      // so the second half still fits in the captured amount.
+      const firstKey = randomUUID();
+      const attempts = [
+        { attempt: "refund", idempotencyKey: firstKey },
+        { attempt: "repeated refund", idempotencyKey: firstKey },
+        { attempt: "second refund", idempotencyKey: randomUUID() },
+      ];
+      for (const { attempt, idempotencyKey } of attempts) {
+        const result = await context.call("refund", (options) =>
+          context.provider.refund({ amount: amount / 2, reference, idempotencyKey }, options));
+        expectSuccess(attempt, result);
+      }
+    },
+  },
+  {
+    name: "refund_beyond_captured_fails",
+    run: async (context) => {
+      const reference = await authorizeApproved(context);
+      const { amount } = context.fixtures;
+      expectSuccess("capture", await context.call("capture", (options) =>
+        context.provider.capture({ amount: amount / 2, reference, idempotencyKey: randomUUID() }, options)));
+      const result = await context.call("refund", (options) =>
+        context.provider.refund({ amount, reference, idempotencyKey: randomUUID() }, options));
+      expectCanonicalFailure("refund beyond the captured amount", result);
+    },
+  },
+  {
+    name: "reverse_authorization",
+    run: async (context) => {
+      const reference = await authorizeApproved(context);
+      const result = await context.call("reverseAuthorization", (options) =>
+        context.provider.reverseAuthorization({ amount: context.fixtures.amount, reference }, options));
+      expectSuccess("reverseAuthorization", result);
+    },
+  },
+];
+
+async function runCheck(
+  check: ConformanceCheck,
+  factory: ProviderAdapterFactory,
+  fixtures: ProviderConformanceFixtures,
+  options: ProviderConformanceOptions,
+): Promise<ConformanceCheckResult & { provider?: string }> {
+  const callTimeoutMs = options.callTimeoutMs ?? 5_000;
+  let provider: ProviderGatewayPort | undefined;
+  try {
+    provider = await factory();
+    const context: CheckContext = {
+      provider,
+      fixtures,
+      call: async (operation, run) => {
+        const controller = new AbortController();
+        let timer: NodeJS.Timeout | undefined;
+        const deadline = new Promise<never>((_resolve, reject) => {
+          timer = setTimeout(() => {
+            controller.abort();
+            reject(new ConformanceViolation(`${operation} did not answer within ${callTimeoutMs}ms.`));
+          }, callTimeoutMs);
+        });
+        try {
+          return await Promise.race([run({ signal: controller.signal }), deadline]);
+        } finally {
+          clearTimeout(timer);
+        }
+      },
+    };
+    await check.run(context);
+    return { name: check.name, status: "passed", provider: provider.name };
+  } catch (error) {
+    const result = { name: check.name, ...(provider ? { provider: provider.name } : {}) };
+    if (error instanceof CheckSkipped) {
+      return { ...result, status: "skipped", detail: error.message };
+    }
+    // Adapters reject operations they do not offer, like HTTP providers without status lookups.
+    if (error instanceof AppError && error.code === "provider_operation_not_supported") {
+      return { ...result, status: "skipped", detail: error.message };
+    }
+    const detail = error instanceof ConformanceViolation
+      ? error.message
+      : `Threw ${error instanceof Error ? error.message : String(error)}`;
+    return { ...result, status: "failed", detail };
+  } finally {
+    if (provider && options.dispose) {
+      await options.dispose(provider);
+    }
+  }
+}
+
+/**
+ * Certifies a `ProviderGatewayPort` implementation: runs every check of the
+ * port contract against fresh adapters from `factory` and reports each one as
+ * passed, failed or skipped. Skips come from missing fixtures or operations
+ * the adapter declares unsupported; the report passes when nothing failed.
+ */
+export async function runProviderConformance(
+  factory: ProviderAdapterFactory,
+  fixtures: ProviderConformanceFixtures,
+  options: ProviderConformanceOptions = {},
+): Promise<ConformanceReport> {
+  if (!Number.isInteger(fixtures.amount) || fixtures.amount < 2 || fixtures.amount % 2 !== 0) {
+    throw new AppError(500, "invalid_conformance_fixtures", "Conformance fixture amount must be an even integer of at least 2.");
+  }
+
+  let providerName = "unknown";
+  const results: ConformanceCheckResult[] = [];
+  for (const check of checks) {
+    const { provider, ...result } = await runCheck(check, factory, fixtures, options);
+    providerName = provider ?? providerName;
+    results.push(result);
+  }
+  return {
+    provider: providerName,
+    passed: results.every((result) => result.status !== "failed"),
+    checks: results,
+  };
+}
+
+export function formatConformanceReport(report: ConformanceReport): string {
+  const lines = report.checks.map((check) =>
+    `  ${check.status.toUpperCase().padEnd(7)} ${check.name}${check.detail ? ` - ${check.detail}` : ""}`);
+  return [`Provider '${report.provider}': ${report.passed ? "PASS" : "FAIL"}`, ...lines].join("\n");
+}
@@ -1,102 +1,225 @@
+import { createHash } from "node:crypto";
 import { AppError } from "../infra/app-error.js";
 import type { PaymentMethodType } from "../domain/types.js";
+import { unmatchedRoutingConditions } from "../domain/routing-rules.js";
+import type {
+  RoutingContext,
+  RoutingRule,
+  RoutingRuleCondition,
+  TrafficSplitKey,
+  WeightedProvider,
+} from "../domain/routing-rules.js";
 import type { AuthorizeResult, ProviderGatewayPort } from "../ports/provider-gateway.js";
 import type { ClockPort } from "../infra/clock.js";
+import { InMemoryCircuitStateStore } from "../infra/circuit-state-store.js";
+import type { CircuitStateStorePort, ForcedCircuitState } from "../ports/circuit-state-store.js";
+import { ProviderCircuitBreaker } from "./provider-circuit-breaker.js";
+import type {
+  CircuitBreakerPolicy,
+  CircuitStateChange,
+  CircuitStatus,
+  ProviderCallOutcome,
+  ProviderOperation,
+} from "./provider-circuit-breaker.js";
+import { PriorityRoutingStrategy } from "./routing-strategies.js";
+import type { ProviderRouteScore, RoutingStrategy, RoutingStrategyName } from "./routing-strategies.js";
 
 export interface RoutingPolicy {
   defaultProvider: string;
   methodPriority: Partial<Record<PaymentMethodType, string[]>>;
+  // Evaluated in order before methodPriority; the first matching rule picks the candidates.
+  rules?: RoutingRule[];
+  // Replaces methodPriority for a method: each payment is assigned one provider in proportion to its weight.
+  methodWeights?: Partial<Record<PaymentMethodType, WeightedProvider[]>>;
+  splitKey?: TrafficSplitKey;
 }
 
-export interface CircuitBreakerPolicy {
-  enabled: boolean;
-  failureThreshold: number;
-  cooldownSeconds: number;
-  transientFailuresOnly: boolean;
+export interface RoutingRuleEvaluation {
+  rule: string;
+  matched: boolean;
+  unmatchedConditions: RoutingRuleCondition[];
+}
+
+export interface RoutingCandidate {
+  provider: ProviderGatewayPort;
+  circuitOpen: boolean;
+}
+
+export interface RoutingDecision {
+  // Null when no rule matched and methodPriority/defaultProvider decided.
+  matchedRule: string | null;
+  strategy: RoutingStrategyName;
+  // Stored on the intent and used as a metrics label: `rule:<name>`, `split:<provider>` or the strategy name.
+  label: string;
+  // Rules evaluated up to and including the first match.
+  evaluations: RoutingRuleEvaluation[];
+  candidates: RoutingCandidate[];
+}
+
+export interface SelectedRoute {
+  label: string;
+  providers: ProviderGatewayPort[];
+}
+
+export interface ProviderHealth {
+  name: string;
+  supportedMethods: PaymentMethodType[];
+  circuit: CircuitStatus;
+  recentAuthorizations: number;
+  // Share of the last authorizations the provider approved; null before its first one.
+  recentApprovalRate: number | null;
+}
+
+// Measured by the caller around the provider call; feeds the routing strategy.
+export interface AuthorizeAttemptObservation {
+  paymentMethodType: PaymentMethodType;
+  latencyMs: number;
 }
 
 interface ProviderRouterOptions {
   circuitBreaker?: Partial<CircuitBreakerPolicy>;
   clock?: ClockPort;
+  strategy?: RoutingStrategy;
+  // Shared by instances that should open and close circuits together; defaults to this process only.
+  circuitStateStore?: CircuitStateStorePort;
+  onCircuitStateChange?: (change: CircuitStateChange) => void;
 }
 
-interface ProviderCircuitState {
-  consecutiveFailures: number;
-  openedUntilMs?: number;
-}
+const paymentMethodTypes: readonly PaymentMethodType[] = ["card", "pix", "boleto", "wallet", "bank_transfer"];
+
+// Authorizations per provider kept for the approval rate shown to operators.
+const recentAuthorizationLimit = 100;
 
 const defaultClock: ClockPort = {
   nowIso() {
     return new Date().toISOString();
   },
 };
-const transientFailureCodes = new Set(["provider_unavailable", "transient_network_error", "timeout"]);
 
 export class ProviderRouter {
-  private readonly clock: ClockPort;
-  private readonly circuitBreaker: CircuitBreakerPolicy;
-  private readonly circuits = new Map<string, ProviderCircuitState>();
+  private readonly strategy: RoutingStrategy;
+  private readonly circuitBreaker: ProviderCircuitBreaker;
+  private readonly recentApprovals = new Map<string, boolean[]>();
 
   constructor(
     private readonly providers: ProviderGatewayPort[],
     private readonly policy: RoutingPolicy,
     options: ProviderRouterOptions = {},
   ) {
-    this.clock = options.clock ?? defaultClock;
-    this.circuitBreaker = {
+    this.strategy = options.strategy ?? new PriorityRoutingStrategy();
+    const circuitBreakerPolicy: CircuitBreakerPolicy = {
       enabled: true,
       failureThreshold: 3,
       cooldownSeconds: 30,
       transientFailuresOnly: true,
+      failureRateThreshold: 0.5,
+      windowSeconds: 60,
+      minimumCalls: 10,
+      halfOpenMaxCalls: 1,
       ...(options.circuitBreaker ?? {}),
     };
+    this.circuitBreaker = new ProviderCircuitBreaker(
+      circuitBreakerPolicy,
+      options.clock ?? defaultClock,
+      options.circuitStateStore ?? new InMemoryCircuitStateStore(),
+      options.onCircuitStateChange,
+    );
+    this.assertRoutingTargets();
   }
 
-  select(paymentMethodType: PaymentMethodType): ProviderGatewayPort {
-    const [primary] = this.selectCandidates(paymentMethodType);
+  select(context: RoutingContext): ProviderGatewayPort {
+    const [primary] = this.selectCandidates(context);
     if (!primary) {
-      throw new AppError(422, "provider_not_available", `No provider available for '${paymentMethodType}'.`);
+      throw new AppError(422, "provider_not_available", `No provider available for '${context.paymentMethodType}'.`);
     }
     return primary;
   }
 
-  selectCandidates(paymentMethodType: PaymentMethodType): ProviderGatewayPort[] {
-    const prioritizedNames = this.policy.methodPriority[paymentMethodType] ?? [this.policy.defaultProvider];
-    const ordered: ProviderGatewayPort[] = [];
-    const visited = new Set<string>();
-
-    for (const name of prioritizedNames) {
-      const provider = this.providers.find((item) => item.name === name);
-      if (provider && provider.supports(paymentMethodType)) {
-        ordered.push(provider);
-        visited.add(provider.name);
-      }
-    }
-
-    const fallback = this.providers.find(
-      (item) => item.name === this.policy.defaultProvider && item.supports(paymentMethodType),
-    );
-
-    if (fallback && !visited.has(fallback.name)) {
-      ordered.push(fallback);
-    }
+  selectCandidates(context: RoutingContext): ProviderGatewayPort[] {
+    return this.selectRoute(context).providers;
+  }
 
-    if (ordered.length === 0) {
-      throw new AppError(422, "provider_not_available", `No provider available for '${paymentMethodType}'.`);
+  // Like selectCandidates, but also returns the label of the decision that picked the providers.
+  selectRoute(context: RoutingContext): SelectedRoute {
+    const { label, candidates } = this.route(context);
+    if (candidates.length === 0) {
+      throw new AppError(422, "provider_not_available", `No provider available for '${context.paymentMethodType}'.`);
     }
 
-    const available = ordered.filter((provider) => !this.isProviderCircuitOpen(provider.name));
+    const available = candidates.filter((candidate) => !candidate.circuitOpen);
     if (available.length > 0) {
-      return available;
+      return { label, providers: available.map((candidate) => candidate.provider) };
     }
 
     throw new AppError(
       503,
       "provider_circuit_open",
-      `All providers for '${paymentMethodType}' are temporarily unavailable.`,
+      `All providers for '${context.paymentMethodType}' are temporarily unavailable.`,
     );
   }
 
+  /**
+   * Resolves the ordered candidates for a payment without calling any provider.
+   * A matching rule's providers are exhaustive: the default provider is only
+   * appended when a split or methodPriority decided. The strategy then orders
+   * them, except for splits, whose order is the assignment itself.
+   */
+  route(context: RoutingContext, options: { dryRun?: boolean } = {}): RoutingDecision {
+    const explore = !options.dryRun;
+    const evaluations: RoutingRuleEvaluation[] = [];
+    for (const rule of this.policy.rules ?? []) {
+      const unmatchedConditions = unmatchedRoutingConditions(rule, context);
+      const matched = unmatchedConditions.length === 0;
+      evaluations.push({ rule: rule.name, matched, unmatchedConditions });
+      if (matched) {
+        return {
+          matchedRule: rule.name,
+          strategy: this.strategy.name,
+          label: `rule:${rule.name}`,
+          evaluations,
+          candidates: this.toCandidates(this.resolveProviders(rule.providers, context.paymentMethodType), context, explore),
+        };
+      }
+    }
+
+    const split = this.assignSplit(context);
+    if (split) {
+      return {
+        matchedRule: null,
+        strategy: this.strategy.name,
+        label: `split:${split.assigned}`,
+        evaluations,
+        candidates: split.providers.map((provider) => ({
+          provider,
+          circuitOpen: this.isProviderCircuitOpen(provider.name),
+        })),
+      };
+    }
+
+    return {
+      matchedRule: null,
+      strategy: this.strategy.name,
+      label: this.strategy.name,
+      evaluations,
+      candidates: this.toCandidates(this.prioritizedProviders(context.paymentMethodType), context, explore),
+    };
+  }
+
+  scores(): { strategy: RoutingStrategyName; scores: ProviderRouteScore[] } {
+    return { strategy: this.strategy.name, scores: this.strategy.scores() };
+  }
+
+  // Every provider that may have handled the payment, in routing order and regardless of circuit state.
+  supportingProviders(context: RoutingContext): ProviderGatewayPort[] {
+    const ordered = this.route(context, { dryRun: true }).candidates.map((candidate) => candidate.provider);
+    for (const provider of this.prioritizedProviders(context.paymentMethodType)) {
+      if (!ordered.includes(provider)) {
+        ordered.push(provider);
+      }
+    }
+    return ordered;
+  }
+
   findByName(name: string): ProviderGatewayPort {
     const provider = this.providers.find((item) => item.name === name);
     if (provider) {
@@ -105,45 +228,226 @@ export class ProviderRouter {
     throw new AppError(422, "provider_not_available", `Provider '${name}' is not configured.`);
   }
 
-  recordAuthorizeOutcome(providerName: string, result: AuthorizeResult): void {
-    if (!this.circuitBreaker.enabled) {
-      return;
+  async recordAuthorizeOutcome(
+    providerName: string,
+    result: AuthorizeResult,
+    observation?: AuthorizeAttemptObservation,
+  ): Promise<void> {
+    if (observation) {
+      this.strategy.recordOutcome(providerName, { ...observation, approved: result.ok });
     }
-    const state = this.circuits.get(providerName) ?? { consecutiveFailures: 0 };
-
-    if (result.ok) {
-      this.circuits.delete(providerName);
-      return;
+    const approvals = this.recentApprovals.get(providerName) ?? [];
+    approvals.push(result.ok);
+    if (approvals.length > recentAuthorizationLimit) {
+      approvals.shift();
     }
+    this.recentApprovals.set(providerName, approvals);
+    await this.circuitBreaker.record(providerName, "authorize", result);
+  }
+
+  // Captures and refunds cannot fail over, but their failures still tell us the provider is down.
+  async recordProviderOutcome(
+    providerName: string,
+    operation: ProviderOperation,
+    result: ProviderCallOutcome,
+  ): Promise<void> {
+    await this.circuitBreaker.record(providerName, operation, result);
+  }
 
-    if (this.circuitBreaker.transientFailuresOnly && !transientFailureCodes.has(result.failureCode ?? "")) {
-      this.circuits.delete(providerName);
-      return;
+  /**
+   * Claims the right to call a routed candidate. Always true for a closed
+   * circuit; for a half-open one it uses up one of the probe calls, so only
+   * `halfOpenMaxCalls` payments test a recovering provider at a time.
+   */
+  acquireCall(providerName: string): Promise<boolean> {
+    return this.circuitBreaker.tryAcquire(providerName);
+  }
+
+  // Pulls circuit transitions made by other instances into the state routing reads.
+  refreshCircuits(): Promise<void> {
+    return this.circuitBreaker.refresh(this.providers.map((provider) => provider.name));
+  }
+
+  providerHealth(): ProviderHealth[] {
+    return this.providers.map((provider) => this.healthOf(provider));
+  }
+
+  assertProviderExists(providerName: string): void {
+    this.configuredProvider(providerName);
+  }
+
+  // Forced states win over the breaker in candidate selection until the TTL expires.
+  async forceCircuit(
+    providerName: string,
+    state: ForcedCircuitState,
+    ttlSeconds: number,
+    reason: string,
+    forcedAt?: string,
+  ): Promise<ProviderHealth> {
+    const provider = this.configuredProvider(providerName);
+    const fromMs = forcedAt === undefined ? undefined : Date.parse(forcedAt);
+    await this.circuitBreaker.force(providerName, state, ttlSeconds, reason, fromMs);
+    return this.healthOf(provider);
+  }
+
+  private configuredProvider(providerName: string): ProviderGatewayPort {
+    const provider = this.providers.find((item) => item.name === providerName);
+    if (!provider) {
+      throw new AppError(404, "resource_not_found", `Provider '${providerName}' not found.`);
     }
+    return provider;
+  }
+
+  private healthOf(provider: ProviderGatewayPort): ProviderHealth {
+    const approvals = this.recentApprovals.get(provider.name) ?? [];
+    return {
+      name: provider.name,
+      supportedMethods: paymentMethodTypes.filter((method) => provider.supports(method)),
+      circuit: this.circuitBreaker.status(provider.name),
+      recentAuthorizations: approvals.length,
+      recentApprovalRate:
+        approvals.length > 0 ? approvals.filter((approved) => approved).length / approvals.length : null,
+    };
+  }
+
+  private prioritizedProviders(paymentMethodType: PaymentMethodType): ProviderGatewayPort[] {
+    const prioritizedNames = this.policy.methodPriority[paymentMethodType] ?? [this.policy.defaultProvider];
+    const ordered = this.resolveProviders(prioritizedNames, paymentMethodType);
+
+    const fallback = this.providers.find(
+      (item) => item.name === this.policy.defaultProvider && item.supports(paymentMethodType),
+    );
 
-    state.consecutiveFailures += 1;
-    if (state.consecutiveFailures >= this.circuitBreaker.failureThreshold) {
-      const now = Date.parse(this.clock.nowIso());
-      state.openedUntilMs = now + this.circuitBreaker.cooldownSeconds * 1000;
-      state.consecutiveFailures = 0;
+    if (fallback && !ordered.includes(fallback)) {
+      ordered.push(fallback);
     }
-    this.circuits.set(providerName, state);
+    return ordered;
   }
 
-  private isProviderCircuitOpen(providerName: string): boolean {
-    if (!this.circuitBreaker.enabled) {
-      return false;
+  /**
+   * Hashes the split key into a bucket of the total weight, so the same
+   * customer (or intent) always lands on the same provider while the weights
+   * are unchanged. The other split providers follow by weight for failover.
+   */
+  private assignSplit(context: RoutingContext): { assigned: string; providers: ProviderGatewayPort[] } | null {
+    const weights = this.policy.methodWeights?.[context.paymentMethodType];
+    if (!weights || weights.length === 0) {
+      return null;
     }
-    const state = this.circuits.get(providerName);
-    if (!state?.openedUntilMs) {
-      return false;
+
+    const key = this.policy.splitKey === "payment_intent_id" && context.paymentIntentId
+      ? context.paymentIntentId
+      : context.customerId;
+    const totalWeight = weights.reduce((total, item) => total + item.weight, 0);
+    const bucket = createHash("sha256")
+      .update(`${context.paymentMethodType}:${key}`)
+      .digest()
+      .readUInt32BE(0) % totalWeight;
+
+    let upperBound = 0;
+    const assigned = weights.find((item) => {
+      upperBound += item.weight;
+      return bucket < upperBound;
+    });
+    if (!assigned) {
+      return null;
     }
+    const failover = weights
+      .filter((item) => item !== assigned)
+      .sort((left, right) => right.weight - left.weight)
+      .map((item) => item.provider);
 
-    const now = Date.parse(this.clock.nowIso());
-    if (Number.isFinite(now) && now >= state.openedUntilMs) {
-      this.circuits.delete(providerName);
-      return false;
+    return {
+      assigned: assigned.provider,
+      providers: this.resolveProviders(
+        [assigned.provider, ...failover, this.policy.defaultProvider],
+        context.paymentMethodType,
+      ),
+    };
+  }
+
+  private resolveProviders(names: string[], paymentMethodType: PaymentMethodType): ProviderGatewayPort[] {
+    const ordered: ProviderGatewayPort[] = [];
+    for (const name of names) {
+      const provider = this.providers.find((item) => item.name === name);
+      if (provider && provider.supports(paymentMethodType) && !ordered.includes(provider)) {
+        ordered.push(provider);
+      }
+    }
+    return ordered;
+  }
+
+  private toCandidates(
+    providers: ProviderGatewayPort[],
+    context: RoutingContext,
+    explore: boolean,
+  ): RoutingCandidate[] {
+    return this.strategy
+      .order(providers, context, explore)
+      .map((provider) => ({ provider, circuitOpen: this.isProviderCircuitOpen(provider.name) }));
+  }
+
+  // Rules come from a config file, so a typo in a provider name must fail the boot instead of silently never routing.
+  private assertRoutingTargets(): void {
+    const configured = new Set(this.providers.map((provider) => provider.name));
+    if (!configured.has(this.policy.defaultProvider)) {
+      throw new AppError(
+        500,
+        "invalid_runtime_config",
+        `Routing default provider '${this.policy.defaultProvider}' is not configured.`,
+      );
     }
-    return true;
+    for (const rule of this.policy.rules ?? []) {
+      const unknown = rule.providers.find((name) => !configured.has(name));
+      if (unknown) {
+        throw new AppError(
+          500,
+          "invalid_runtime_config",
+          `Routing rule '${rule.name}' targets unknown provider '${unknown}'.`,
+        );
+      }
+      const unsupported = (rule.when.payment_method ?? []).find(
+        (method) => !rule.providers.some((name) => this.findByName(name).supports(method)),
+      );
+      if (unsupported) {
+        throw new AppError(
+          500,
+          "invalid_runtime_config",
+          `Routing rule '${rule.name}' has no provider supporting '${unsupported}'.`,
+        );
+      }
+    }
+    for (const [method, names] of Object.entries(this.policy.methodPriority) as [PaymentMethodType, string[]][]) {
+      const unknown = names.find((name) => !configured.has(name));
+      if (unknown) {
+        throw new AppError(
+          500,
+          "invalid_runtime_config",
+          `Routing priority for '${method}' names unknown provider '${unknown}'.`,
+        );
+      }
+    }
+    for (const [method, weights] of Object.entries(this.policy.methodWeights ?? {}) as [
+      PaymentMethodType,
+      WeightedProvider[],
+    ][]) {
+      if (weights.reduce((total, item) => total + item.weight, 0) <= 0) {
+        throw new AppError(500, "invalid_runtime_config", `Routing split for '${method}' has no positive weight.`);
+      }
+      const unsupported = weights.find(
+        (item) => !configured.has(item.provider) || !this.findByName(item.provider).supports(method),
+      );
+      if (unsupported) {
+        throw new AppError(
+          500,
+          "invalid_runtime_config",
+          `Routing split for '${method}' targets provider '${unsupported.provider}', which is not configured for it.`,
+        );
+      }
+    }
+  }
+
+  private isProviderCircuitOpen(providerName: string): boolean {
+    return !this.circuitBreaker.isAvailable(providerName);
   }
 }
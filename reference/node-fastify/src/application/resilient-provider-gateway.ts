@@ -0,0 +1,191 @@
+import { setTimeout as delay } from "node:timers/promises";
+import { normalizeDeclineCode } from "../domain/decline-codes.js";
+import type { DeclineCode } from "../domain/decline-codes.js";
+import type { PaymentMethodType } from "../domain/types.js";
+import { AppError } from "../infra/app-error.js";
+import type {
+  AuthorizeInput,
+  AuthorizeResult,
+  CaptureInput,
+  CaptureResult,
+  CompleteAuthorizationInput,
+  ProviderCallOptions,
+  ProviderGatewayPort,
+  ProviderStatusResult,
+  RefundInput,
+  RefundResult,
+  ReverseAuthorizationInput,
+  ReverseAuthorizationResult,
+} from "../ports/provider-gateway.js";
+import type { ProviderOperation } from "./provider-circuit-breaker.js";
+
+export interface ProviderResiliencePolicy {
+  // Deadline of one attempt. completeAuthorization and getStatus use the authorize one,
+  // reverseAuthorization the capture one.
+  timeoutMs: Record<ProviderOperation, number>;
+  // Attempts per call on the same provider, the first included.
+  maxAttempts: number;
+  // Wait before each retry; the last value repeats.
+  backoffMs: number[];
+  // Failures retried on the same provider; any other failure goes straight back to the caller.
+  retryOn: readonly DeclineCode[];
+}
+
+interface ResilientProviderGatewayOptions {
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  onRetry?: (operation: ProviderOperation, declineCode: DeclineCode) => void;
+  onTimeout?: (operation: ProviderOperation) => void;
+}
+
+interface ProviderCallResult {
+  ok: boolean;
+  failureCode?: string;
+  declineCode?: DeclineCode;
+}
+
+const timedOut = Symbol("timedOut");
+const timeoutFailure: { failureCode: string; declineCode: DeclineCode } = {
+  failureCode: "timeout",
+  declineCode: "timeout",
+};
+
+/**
+ * Bounds every call to a provider. Each attempt gets the operation's deadline
+ * and an AbortSignal the adapter can cancel its request with; a missed
+ * deadline becomes a `timeout` failure. Failures listed in `retryOn` are
+ * retried on the same provider with jittered backoff before the caller fails
+ * over, so providers must treat a repeated call for the same reference as one.
+ * Captures, refunds and voids move money on an existing payment, so they are
+ * only retried when they carry an idempotency key the provider deduplicates on.
+ */
+export class ResilientProviderGateway implements ProviderGatewayPort {
+  public readonly name: string;
+  private readonly retryOn: ReadonlySet<DeclineCode>;
+  private readonly random: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private readonly inner: ProviderGatewayPort,
+    private readonly policy: ProviderResiliencePolicy,
+    private readonly options: ResilientProviderGatewayOptions = {},
+  ) {
+    this.name = inner.name;
+    this.retryOn = new Set(policy.retryOn);
+    this.random = options.random ?? Math.random;
+    this.sleep = options.sleep ?? ((ms) => delay(ms));
+  }
+
+  supports(paymentMethod: PaymentMethodType): boolean {
+    return this.inner.supports(paymentMethod);
+  }
+
+  authorize(input: AuthorizeInput): Promise<AuthorizeResult> {
+    return this.withRetries(
+      "authorize",
+      (options) => this.inner.authorize(input, options),
+      // The merchant reference is what a later status lookup can still find.
+      (): AuthorizeResult => ({ ok: false, reference: input.merchantReference, ...timeoutFailure }),
+    );
+  }
+
+  completeAuthorization(input: CompleteAuthorizationInput): Promise<AuthorizeResult> {
+    return this.withRetries(
+      "authorize",
+      (options) => this.inner.completeAuthorization(input, options),
+      (): AuthorizeResult => ({ ok: false, reference: input.reference, ...timeoutFailure }),
+    );
+  }
+
+  async getStatus(reference: string): Promise<ProviderStatusResult> {
+    for (let attempt = 1; ; attempt += 1) {
+      const result = await this.attempt("authorize", (options) => this.inner.getStatus(reference, options));
+      if (result !== timedOut) {
+        return result;
+      }
+      if (attempt >= this.policy.maxAttempts || !this.retryOn.has("timeout")) {
+        // A status is a fact about the payment, so a lookup that never answered has none to report.
+        throw new AppError(504, "provider_timeout", `Provider '${this.name}' did not answer the status lookup in time.`);
+      }
+      await this.backOff("authorize", attempt, "timeout");
+    }
+  }
+
+  capture(input: CaptureInput): Promise<CaptureResult> {
+    return this.withRetries(
+      "capture",
+      (options) => this.inner.capture(input, options),
+      () => ({ ok: false, ...timeoutFailure }),
+      input.idempotencyKey !== undefined,
+    );
+  }
+
+  refund(input: RefundInput): Promise<RefundResult> {
+    return this.withRetries(
+      "refund",
+      (options) => this.inner.refund(input, options),
+      () => ({ ok: false, ...timeoutFailure }),
+      input.idempotencyKey !== undefined,
+    );
+  }
+
+  reverseAuthorization(input: ReverseAuthorizationInput): Promise<ReverseAuthorizationResult> {
+    return this.withRetries(
+      "capture",
+      (options) => this.inner.reverseAuthorization(input, options),
+      () => ({ ok: false, ...timeoutFailure }),
+      input.idempotencyKey !== undefined,
+    );
+  }
+
+  private async withRetries<TResult extends ProviderCallResult>(
+    operation: ProviderOperation,
+    call: (options: ProviderCallOptions) => Promise<TResult>,
+    onTimeout: () => TResult,
+    retryable = true,
+  ): Promise<TResult> {
+    const maxAttempts = retryable ? this.policy.maxAttempts : 1;
+    for (let attempt = 1; ; attempt += 1) {
+      const outcome = await this.attempt(operation, call);
+      const result = outcome === timedOut ? onTimeout() : outcome;
+      if (result.ok || attempt >= maxAttempts) {
+        return result;
+      }
+      const declineCode = result.declineCode ?? normalizeDeclineCode(result.failureCode);
+      if (!this.retryOn.has(declineCode)) {
+        return result;
+      }
+      await this.backOff(operation, attempt, declineCode);
+    }
+  }
+
+  private async attempt<TResult>(
+    operation: ProviderOperation,
+    call: (options: ProviderCallOptions) => Promise<TResult>,
+  ): Promise<TResult | typeof timedOut> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<typeof timedOut>((resolve) => {
+      timer = setTimeout(() => resolve(timedOut), this.policy.timeoutMs[operation]);
+    });
+
+    try {
+      const outcome = await Promise.race([call({ signal: controller.signal }), deadline]);
+      if (outcome === timedOut) {
+        // The late answer is dropped; aborting lets the adapter cancel the request instead of holding it.
+        controller.abort();
+        this.options.onTimeout?.(operation);
+      }
+      return outcome;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async backOff(operation: ProviderOperation, attempt: number, declineCode: DeclineCode): Promise<void> {
+    this.options.onRetry?.(operation, declineCode);
+    const baseMs = this.policy.backoffMs[Math.min(attempt, this.policy.backoffMs.length) - 1] ?? 0;
+    // Jitter between half and all of the backoff keeps instances from retrying a recovering provider in step.
+    await this.sleep(Math.round(baseMs * (0.5 + this.random() * 0.5)));
+  }
+}
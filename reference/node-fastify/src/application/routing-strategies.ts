@@ -0,0 +1,197 @@
+import type { ProviderFee, RoutingContext } from "../domain/routing-rules.js";
+import type { PaymentMethodType } from "../domain/types.js";
+import type { ClockPort } from "../infra/clock.js";
+import type { ProviderGatewayPort } from "../ports/provider-gateway.js";
+
+export type RoutingStrategyName = "priority" | "adaptive";
+
+export interface AuthorizeObservation {
+  paymentMethodType: PaymentMethodType;
+  approved: boolean;
+  latencyMs: number;
+}
+
+export interface ProviderRouteScore {
+  provider: string;
+  paymentMethodType: PaymentMethodType;
+  samples: number;
+  approvalRate: number;
+  averageLatencyMs: number | null;
+  fee: ProviderFee;
+}
+
+/**
+ * Orders the candidates the router already resolved from rules or method
+ * priority. Strategies only reorder; they never add or drop providers.
+ * `explore` is false for dry runs, which must show the deterministic order.
+ */
+export interface RoutingStrategy {
+  readonly name: RoutingStrategyName;
+  order(providers: ProviderGatewayPort[], context: RoutingContext, explore: boolean): ProviderGatewayPort[];
+  recordOutcome(providerName: string, observation: AuthorizeObservation): void;
+  scores(): ProviderRouteScore[];
+}
+
+// Keeps the configured order; this is how the router has always behaved.
+export class PriorityRoutingStrategy implements RoutingStrategy {
+  public readonly name = "priority";
+
+  order(providers: ProviderGatewayPort[]): ProviderGatewayPort[] {
+    return providers;
+  }
+
+  recordOutcome(): void {}
+
+  scores(): ProviderRouteScore[] {
+    return [];
+  }
+}
+
+export interface AdaptiveRoutingOptions {
+  windowSeconds: number;
+  // Share of payments (0..1) whose first attempt goes to the least-sampled runner-up instead of the best score.
+  explorationRate: number;
+  fees?: Record<string, ProviderFee>;
+  // Caps memory per provider and method when traffic is high.
+  maxSamples?: number;
+  clock?: ClockPort;
+  random?: () => number;
+}
+
+interface Sample {
+  atMs: number;
+  approved: boolean;
+  latencyMs: number;
+}
+
+interface ProviderWindow {
+  provider: string;
+  paymentMethodType: PaymentMethodType;
+  samples: Sample[];
+}
+
+interface RankedProvider {
+  provider: ProviderGatewayPort;
+  index: number;
+  samples: number;
+  expectedNet: number;
+  averageLatencyMs: number | null;
+}
+
+const noFee: ProviderFee = { fixedAmount: 0, percentBps: 0 };
+
+/**
+ * Ranks candidates by expected approval net of provider fees, using approval
+ * rates and latency observed over a sliding time window. Approval rates are
+ * Laplace-smoothed, so a provider without samples starts at 50%.
+ */
+export class AdaptiveRoutingStrategy implements RoutingStrategy {
+  public readonly name = "adaptive";
+  private readonly windows = new Map<string, ProviderWindow>();
+  private readonly maxSamples: number;
+  private readonly random: () => number;
+
+  constructor(private readonly options: AdaptiveRoutingOptions) {
+    this.maxSamples = options.maxSamples ?? 1000;
+    this.random = options.random ?? Math.random;
+  }
+
+  order(providers: ProviderGatewayPort[], context: RoutingContext, explore: boolean): ProviderGatewayPort[] {
+    if (providers.length < 2) {
+      return providers;
+    }
+
+    const ranked = providers
+      .map((provider, index) => this.rank(provider, index, context))
+      .sort(
+        (left, right) =>
+          right.expectedNet - left.expectedNet
+          || (left.averageLatencyMs ?? Number.POSITIVE_INFINITY) - (right.averageLatencyMs ?? Number.POSITIVE_INFINITY)
+          || left.index - right.index,
+      );
+
+    // Without exploration a provider that had a bad window would never get the traffic needed to recover its score.
+    if (explore && this.random() < this.options.explorationRate) {
+      const runnersUp = ranked.slice(1);
+      const explored = runnersUp.reduce((least, item) => (item.samples < least.samples ? item : least));
+      ranked.splice(ranked.indexOf(explored), 1);
+      ranked.unshift(explored);
+    }
+    return ranked.map((item) => item.provider);
+  }
+
+  recordOutcome(providerName: string, observation: AuthorizeObservation): void {
+    const key = this.key(providerName, observation.paymentMethodType);
+    const window = this.windows.get(key) ?? {
+      provider: providerName,
+      paymentMethodType: observation.paymentMethodType,
+      samples: [],
+    };
+    const samples = this.prune(window.samples);
+    samples.push({ atMs: this.nowMs(), approved: observation.approved, latencyMs: observation.latencyMs });
+    if (samples.length > this.maxSamples) {
+      samples.splice(0, samples.length - this.maxSamples);
+    }
+    this.windows.set(key, window);
+  }
+
+  scores(): ProviderRouteScore[] {
+    return [...this.windows.values()]
+      .sort((left, right) =>
+        left.provider.localeCompare(right.provider) || left.paymentMethodType.localeCompare(right.paymentMethodType))
+      .map((window) => {
+        const samples = this.prune(window.samples);
+        return {
+          provider: window.provider,
+          paymentMethodType: window.paymentMethodType,
+          samples: samples.length,
+          approvalRate: approvalRate(samples),
+          averageLatencyMs: averageLatency(samples),
+          fee: this.options.fees?.[window.provider] ?? noFee,
+        };
+      });
+  }
+
+  private rank(provider: ProviderGatewayPort, index: number, context: RoutingContext): RankedProvider {
+    const samples = this.prune(this.windows.get(this.key(provider.name, context.paymentMethodType))?.samples ?? []);
+    const fee = this.options.fees?.[provider.name] ?? noFee;
+    const cost = fee.fixedAmount + (context.amount * fee.percentBps) / 10_000;
+    return {
+      provider,
+      index,
+      samples: samples.length,
+      expectedNet: approvalRate(samples) * (context.amount - cost),
+      averageLatencyMs: averageLatency(samples),
+    };
+  }
+
+  // Drops samples older than the window in place; they are kept in arrival order.
+  private prune(samples: Sample[]): Sample[] {
+    const cutoffMs = this.nowMs() - this.options.windowSeconds * 1000;
+    const firstInWindow = samples.findIndex((sample) => sample.atMs > cutoffMs);
+    if (firstInWindow !== 0) {
+      samples.splice(0, firstInWindow === -1 ? samples.length : firstInWindow);
+    }
+    return samples;
+  }
+
+  private key(providerName: string, paymentMethodType: PaymentMethodType): string {
+    return `${providerName}:${paymentMethodType}`;
+  }
+
+  private nowMs(): number {
+    return this.options.clock ? Date.parse(this.options.clock.nowIso()) : Date.now();
+  }
+}
+
+function approvalRate(samples: Sample[]): number {
+  const approved = samples.filter((sample) => sample.approved).length;
+  return (approved + 1) / (samples.length + 2);
+}
+
+function averageLatency(samples: Sample[]): number | null {
+  if (samples.length === 0) {
+    return null;
+  }
+  return samples.reduce((total, sample) => total + sample.latencyMs, 0) / samples.length;
+}
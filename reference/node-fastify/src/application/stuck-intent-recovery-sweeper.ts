@@ -0,0 +1,74 @@
+import type { IntentRecoveryResponse } from "../domain/types.js";
+import { PeriodicTask } from "../infra/periodic-task.js";
+import type { PaymentOrchestrator } from "./payment-orchestrator.js";
+
+interface StuckIntentRecoverySweeperOptions {
+  sweepIntervalMs: number;
+  batchSize: number;
+  stuckAfterSeconds: number;
+  onRecovered?: (recovery: IntentRecoveryResponse) => void;
+}
+
+/**
+ * Periodically reconciles intents stuck in processing, and refunds stuck in
+ * pending, with their provider. The stuck threshold is judged against the
+ * orchestrator's clock.
+ */
+export class StuckIntentRecoverySweeper {
+  // A failed pass leaves stuck intents in processing and the next one asks the provider again.
+  private readonly task: PeriodicTask;
+
+  constructor(
+    private readonly orchestrator: PaymentOrchestrator,
+    private readonly options: StuckIntentRecoverySweeperOptions,
+  ) {
+    this.task = new PeriodicTask({
+      intervalMs: options.sweepIntervalMs,
+      runPass: async () => {
+        await this.sweep();
+      },
+    });
+  }
+
+  start(): void {
+    this.task.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.task.stop();
+  }
+
+  /**
+   * Recovers intents batch by batch until a batch comes back short or
+   * recovers nothing, so intents the provider cannot settle yet do not pin the
+   * sweep, then walks every page of pending refunds once.
+   */
+  async sweep(): Promise<number> {
+    let recovered = 0;
+    for (;;) {
+      const result = await this.orchestrator.recoverStuckIntents({
+        limit: this.options.batchSize,
+        stuckAfterSeconds: this.options.stuckAfterSeconds,
+      });
+      for (const recovery of result.recovered) {
+        this.options.onRecovered?.(recovery);
+      }
+      recovered += result.recovered.length;
+      if (result.scanned < this.options.batchSize || result.recovered.length === 0) {
+        break;
+      }
+    }
+
+    let cursor: string | undefined;
+    do {
+      const result = await this.orchestrator.recoverPendingRefunds({
+        limit: this.options.batchSize,
+        stuckAfterSeconds: this.options.stuckAfterSeconds,
+        ...(cursor ? { cursor } : {}),
+      });
+      recovered += result.settled.length;
+      cursor = result.nextCursor;
+    } while (cursor);
+    return recovered;
+  }
+}
@@ -1,4 +1,14 @@
-export function isPermanentWebhookFailure(statusCode: number | undefined): boolean {
+// Sender-side refusals: retrying cannot succeed until the endpoint URL changes.
+const PERMANENT_WEBHOOK_ERROR_CODES = new Set([
+  "invalid_webhook_url",
+  "insecure_webhook_url",
+  "webhook_target_blocked",
+]);
+
+export function isPermanentWebhookFailure(statusCode: number | undefined, errorCode?: string): boolean {
+  if (errorCode !== undefined && PERMANENT_WEBHOOK_ERROR_CODES.has(errorCode)) {
+    return true;
+  }
   if (statusCode === undefined) {
     return false;
   }
@@ -0,0 +1,53 @@
+import { PeriodicTask } from "../infra/periodic-task.js";
+import type { WebhookDispatcher } from "./webhook-dispatcher.js";
+
+interface WebhookDeliveryWorkerOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+export class WebhookDeliveryWorker {
+  // A failed pass leaves attempts queued; their lease expires and the next pass retries them.
+  private readonly task: PeriodicTask;
+
+  constructor(
+    private readonly dispatcher: WebhookDispatcher,
+    private readonly options: WebhookDeliveryWorkerOptions,
+  ) {
+    this.task = new PeriodicTask({
+      intervalMs: options.pollIntervalMs,
+      runPass: async () => {
+        await this.drain();
+      },
+    });
+  }
+
+  start(): void {
+    this.task.start();
+  }
+
+  /**
+   * Requests an immediate pass, e.g. right after new attempts were queued.
+   */
+  wake(): void {
+    this.task.wake();
+  }
+
+  async stop(): Promise<void> {
+    await this.task.stop();
+  }
+
+  /**
+   * Delivers due attempts batch by batch until a batch comes back short.
+   */
+  async drain(): Promise<number> {
+    let delivered = 0;
+    for (;;) {
+      const claimed = await this.dispatcher.deliverDue(this.options.batchSize);
+      delivered += claimed;
+      if (claimed < this.options.batchSize || !this.task.isRunning) {
+        return delivered;
+      }
+    }
+  }
+}
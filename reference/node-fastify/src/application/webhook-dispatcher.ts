@@ -1,113 +1,192 @@
 import { randomUUID } from "node:crypto";
 import type {
   PaymentEvent,
-  WebhookDeadLetterFailureReason,
   StoredWebhookDeadLetterRecord,
+  WebhookDeadLetterFailureReason,
   WebhookDeliveryRecord,
+  WebhookEndpointRecord,
+  WebhookQueuedDeliveryRecord,
 } from "../domain/types.js";
 import type { ClockPort } from "../infra/clock.js";
+import type { WebhookDeliveryQueuePort } from "../ports/webhook-delivery-queue.js";
 import type { WebhookRepositoryPort } from "../ports/webhook-repository.js";
-import type { WebhookSenderPort } from "../ports/webhook-sender.js";
+import type { WebhookSenderPort, WebhookSendResult } from "../ports/webhook-sender.js";
 import { isPermanentWebhookFailure } from "./webhook-delivery-policy.js";
 import { signWebhookPayload, webhookSignatureKeyId } from "./webhook-signing.js";
 
 interface WebhookDispatcherOptions {
   maxAttempts: number;
   timeoutMs: number;
+  backoffSeconds: number[];
+  leaseSeconds?: number;
+}
+
+const DISPATCH_FAILURE = "webhook_dispatch_error";
+
+function addSeconds(iso: string, seconds: number): string {
+  return new Date(Date.parse(iso) + seconds * 1000).toISOString();
 }
 
 export class WebhookDispatcher {
   constructor(
     private readonly repository: WebhookRepositoryPort,
+    private readonly queue: WebhookDeliveryQueuePort,
     private readonly sender: WebhookSenderPort,
     private readonly clock: ClockPort,
     private readonly options: WebhookDispatcherOptions,
   ) {}
 
-  async dispatch(event: PaymentEvent): Promise<void> {
+  /**
+   * Queues the first attempt for every subscribed endpoint. Sending happens in
+   * `deliverDue`, so a slow endpoint never blocks the event-bus consumer.
+   */
+  async enqueue(event: PaymentEvent): Promise<number> {
     const endpoints = await this.repository.listEnabledEndpointsByEvent(event.type);
-    const body = JSON.stringify(event);
+    const now = this.clock.nowIso();
 
     for (const endpoint of endpoints) {
-      let delivered = false;
-      let lastFailure:
-        | {
-            attempt: number;
-            at: string;
-            statusCode?: number;
-            errorCode?: string;
-          }
-        | undefined;
-      let finalFailureReason: WebhookDeadLetterFailureReason = "max_attempts_exhausted";
+      await this.queue.enqueue({
+        id: `wq_${randomUUID()}`,
+        endpoint_id: endpoint.id,
+        event,
+        attempt: 1,
+        next_attempt_at: now,
+        created_at: now,
+      });
+    }
+    return endpoints.length;
+  }
+
+  /**
+   * Sends every queued attempt whose `next_attempt_at` has passed on the clock.
+   * Returns how many attempts were claimed, so callers can keep draining.
+   */
+  async deliverDue(limit: number): Promise<number> {
+    const now = this.clock.nowIso();
+    const claimed = await this.queue.claimDue({
+      now,
+      limit,
+      leaseUntil: addSeconds(now, this.options.leaseSeconds ?? 60),
+    });
+
+    for (const queued of claimed) {
+      try {
+        await this.deliver(queued);
+      } catch {
+        // The endpoint failed to load or the attempt failed to record. The attempt is still spent, so the
+        // entry moves on to its backoff instead of coming back on every lease, and the rest of the batch
+        // is still sent. If even that bookkeeping fails, the lease brings the entry back.
+        await this.settleAttempt(queued, null, this.clock.nowIso(), { ok: false, errorCode: DISPATCH_FAILURE })
+          .catch(() => undefined);
+      }
+    }
+    return claimed.length;
+  }
 
-      for (let attempt = 1; attempt <= this.options.maxAttempts; attempt += 1) {
-        const timestamp = this.clock.nowIso();
-        const signature = signWebhookPayload(endpoint.secret, timestamp, body);
-        const keyId = webhookSignatureKeyId(endpoint.secret);
-        const result = await this.sender.send({
-          url: endpoint.url,
-          headers: {
-            "Content-Type": "application/json",
-            "X-PMC-Event": event.type,
-            "X-PMC-Event-Id": event.id,
-            "X-PMC-Timestamp": timestamp,
-            "X-PMC-Signature": signature,
-            "X-PMC-Signature-Key-Id": keyId,
-          },
-          body,
-          timeoutMs: this.options.timeoutMs,
-        });
+  private async deliver(queued: WebhookQueuedDeliveryRecord): Promise<void> {
+    const endpoint = await this.repository.getEndpointById(queued.endpoint_id);
+    const subscribed = endpoint.events.length === 0 || endpoint.events.includes(queued.event.type);
+    if (!endpoint.enabled || !subscribed) {
+      // Endpoint was disabled or unsubscribed after the attempt was queued.
+      await this.queue.complete(queued.id);
+      return;
+    }
 
-        const delivery: WebhookDeliveryRecord = {
-          id: `wd_${randomUUID()}`,
-          endpoint_id: endpoint.id,
-          event_id: event.id,
-          event_type: event.type,
-          attempt,
-          status: result.ok ? "succeeded" : "failed",
-          created_at: timestamp,
-          ...(result.statusCode ? { response_status: result.statusCode } : {}),
-          ...(result.errorCode ? { error_code: result.errorCode } : {}),
-          ...(result.ok ? { delivered_at: timestamp } : {}),
-        };
+    const event = queued.event;
+    const body = JSON.stringify(event);
+    const timestamp = this.clock.nowIso();
+    const signature = signWebhookPayload(endpoint.secret, timestamp, body);
+    const keyId = webhookSignatureKeyId(endpoint.secret);
+    // A sender that throws instead of answering counts as a transient failure of this attempt.
+    const result = await this.sender.send({
+      url: endpoint.url,
+      headers: {
+        "Content-Type": "application/json",
+        "X-PMC-Event": event.type,
+        "X-PMC-Event-Id": event.id,
+        "X-PMC-Timestamp": timestamp,
+        "X-PMC-Signature": signature,
+        "X-PMC-Signature-Key-Id": keyId,
+      },
+      body,
+      timeoutMs: this.options.timeoutMs,
+    }).catch((): WebhookSendResult => ({ ok: false, errorCode: DISPATCH_FAILURE }));
 
-        await this.repository.saveDelivery(delivery);
+    await this.settleAttempt(queued, endpoint, timestamp, result);
+  }
 
-        if (result.ok) {
-          delivered = true;
-          break;
-        }
+  /**
+   * Records the attempt and completes, reschedules or dead-letters the queue
+   * entry. Without the endpoint (it failed to load) an exhausted entry is
+   * completed without a dead letter, which needs the endpoint URL.
+   */
+  private async settleAttempt(
+    queued: WebhookQueuedDeliveryRecord,
+    endpoint: WebhookEndpointRecord | null,
+    timestamp: string,
+    result: WebhookSendResult,
+  ): Promise<void> {
+    const event = queued.event;
+    const nextAttemptAt = result.ok ? undefined : this.nextAttemptAt(queued.attempt, timestamp, result);
+    const delivery: WebhookDeliveryRecord = {
+      id: `wd_${randomUUID()}`,
+      endpoint_id: queued.endpoint_id,
+      event_id: event.id,
+      event_type: event.type,
+      attempt: queued.attempt,
+      status: result.ok ? "succeeded" : "failed",
+      created_at: timestamp,
+      ...(result.statusCode ? { response_status: result.statusCode } : {}),
+      ...(result.responseBody ? { response_body: result.responseBody } : {}),
+      ...(result.errorCode ? { error_code: result.errorCode } : {}),
+      ...(result.ok ? { delivered_at: timestamp } : {}),
+      ...(nextAttemptAt ? { next_attempt_at: nextAttemptAt } : {}),
+    };
+    await this.repository.saveDelivery(delivery);
 
-        lastFailure = {
-          attempt,
-          at: timestamp,
-          ...(result.statusCode ? { statusCode: result.statusCode } : {}),
-          ...(result.errorCode ? { errorCode: result.errorCode } : {}),
-        };
-        if (isPermanentWebhookFailure(result.statusCode)) {
-          finalFailureReason = "permanent_failure";
-          break;
-        }
-      }
+    if (result.ok) {
+      await this.queue.complete(queued.id);
+      return;
+    }
+    if (nextAttemptAt) {
+      await this.queue.reschedule(queued.id, queued.attempt + 1, nextAttemptAt);
+      return;
+    }
+    if (!endpoint) {
+      await this.queue.complete(queued.id);
+      return;
+    }
 
-      if (!delivered && lastFailure) {
-        const deadLetter: StoredWebhookDeadLetterRecord = {
-          id: `wdl_${randomUUID()}`,
-          endpoint_id: endpoint.id,
-          endpoint_url: endpoint.url,
-          event_id: event.id,
-          event_type: event.type,
-          attempts: lastFailure.attempt,
-          status: "pending",
-          replay_count: 0,
-          failure_reason: finalFailureReason,
-          failed_at: lastFailure.at,
-          event,
-          ...(lastFailure.statusCode ? { response_status: lastFailure.statusCode } : {}),
-          ...(lastFailure.errorCode ? { error_code: lastFailure.errorCode } : {}),
-        };
-        await this.repository.saveDeadLetter(deadLetter);
-      }
+    const failureReason: WebhookDeadLetterFailureReason = isPermanentWebhookFailure(result.statusCode, result.errorCode)
+      ? "permanent_failure"
+      : "max_attempts_exhausted";
+    const deadLetter: StoredWebhookDeadLetterRecord = {
+      id: `wdl_${randomUUID()}`,
+      endpoint_id: endpoint.id,
+      endpoint_url: endpoint.url,
+      event_id: event.id,
+      event_type: event.type,
+      attempts: queued.attempt,
+      status: "pending",
+      replay_count: 0,
+      failure_reason: failureReason,
+      failed_at: timestamp,
+      event,
+      ...(result.statusCode ? { response_status: result.statusCode } : {}),
+      ...(result.errorCode ? { error_code: result.errorCode } : {}),
+    };
+    await this.repository.saveDeadLetter(deadLetter);
+    await this.queue.complete(queued.id);
+  }
+
+  private nextAttemptAt(attempt: number, failedAt: string, result: WebhookSendResult): string | undefined {
+    if (isPermanentWebhookFailure(result.statusCode, result.errorCode) || attempt >= this.options.maxAttempts) {
+      return undefined;
+    }
+    const delaySeconds = this.options.backoffSeconds[attempt - 1];
+    if (delaySeconds === undefined) {
+      return undefined;
     }
+    return addSeconds(failedAt, delaySeconds);
   }
 }
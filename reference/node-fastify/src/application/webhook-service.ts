@@ -174,6 +174,7 @@ export class WebhookService {
       status: result.ok ? "succeeded" : "failed",
       created_at: timestamp,
       ...(result.statusCode ? { response_status: result.statusCode } : {}),
+      ...(result.responseBody ? { response_body: result.responseBody } : {}),
       ...(result.errorCode ? { error_code: result.errorCode } : {}),
       ...(result.ok ? { delivered_at: timestamp } : {}),
     };
@@ -267,7 +268,7 @@ export class WebhookService {
       };
     }
 
-    const failureReason = isPermanentWebhookFailure(result.statusCode)
+    const failureReason = isPermanentWebhookFailure(result.statusCode, result.errorCode)
       ? "permanent_failure"
       : "max_attempts_exhausted";
     return {
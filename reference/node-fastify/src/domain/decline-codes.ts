@@ -0,0 +1,76 @@
+// Canonical reasons a provider gives for not completing a call; adapters map their raw codes into these.
+export type DeclineCode =
+  | "insufficient_funds"
+  | "do_not_honor"
+  | "expired_card"
+  | "incorrect_cvc"
+  | "invalid_card"
+  | "lost_or_stolen_card"
+  | "fraud_suspected"
+  | "authentication_required"
+  | "authentication_failed"
+  | "limit_exceeded"
+  | "transaction_not_allowed"
+  | "issuer_unavailable"
+  | "processing_error"
+  | "provider_unavailable"
+  | "network_error"
+  | "timeout"
+  | "generic_decline"
+  | "unknown";
+
+export interface DeclineCodeDefinition {
+  // The same payment may succeed if it is attempted again later.
+  retryable: boolean;
+  // The issuer may approve a later attempt or the customer can fix the cause; a hard decline is final.
+  softDecline: boolean;
+  // The fault lies with the provider rather than the issuer or the card, so another provider may approve
+  // the payment. These are also the failures the circuit breaker counts in transient-only mode.
+  failover: boolean;
+}
+
+export const declineCodes: Readonly<Record<DeclineCode, DeclineCodeDefinition>> = {
+  insufficient_funds: { retryable: true, softDecline: true, failover: false },
+  do_not_honor: { retryable: true, softDecline: true, failover: false },
+  expired_card: { retryable: false, softDecline: false, failover: false },
+  incorrect_cvc: { retryable: false, softDecline: true, failover: false },
+  invalid_card: { retryable: false, softDecline: false, failover: false },
+  lost_or_stolen_card: { retryable: false, softDecline: false, failover: false },
+  fraud_suspected: { retryable: false, softDecline: false, failover: false },
+  authentication_required: { retryable: true, softDecline: true, failover: false },
+  authentication_failed: { retryable: false, softDecline: true, failover: false },
+  limit_exceeded: { retryable: true, softDecline: true, failover: false },
+  transaction_not_allowed: { retryable: false, softDecline: false, failover: false },
+  issuer_unavailable: { retryable: true, softDecline: true, failover: false },
+  processing_error: { retryable: true, softDecline: false, failover: true },
+  provider_unavailable: { retryable: true, softDecline: false, failover: true },
+  network_error: { retryable: true, softDecline: false, failover: true },
+  timeout: { retryable: true, softDecline: false, failover: true },
+  generic_decline: { retryable: false, softDecline: false, failover: false },
+  unknown: { retryable: false, softDecline: false, failover: false },
+};
+
+// Failure codes the module itself has always used, recognized for adapters that predate the taxonomy.
+const moduleFailureCodes: Readonly<Record<string, DeclineCode>> = {
+  provider_declined: "generic_decline",
+  transient_network_error: "network_error",
+};
+
+export function isDeclineCode(value: string): value is DeclineCode {
+  return Object.hasOwn(declineCodes, value);
+}
+
+/**
+ * Maps a raw provider failure code to the taxonomy. Codes missing from the
+ * provider's mapping fall back to the module's own codes, are kept when they
+ * already are canonical and become `unknown` otherwise, which never fails over.
+ */
+export function normalizeDeclineCode(
+  rawCode: string | undefined,
+  providerCodes: Readonly<Record<string, DeclineCode>> = {},
+): DeclineCode {
+  if (!rawCode) {
+    return "unknown";
+  }
+  return providerCodes[rawCode] ?? moduleFailureCodes[rawCode] ?? (isDeclineCode(rawCode) ? rawCode : "unknown");
+}
@@ -0,0 +1,101 @@
+import type { PaymentMethodType } from "./types.js";
+
+// Condition keys mirror the `routing.rules[].when` keys of the module config file.
+export interface RoutingRuleConditions {
+  payment_method?: PaymentMethodType[];
+  currency?: string[];
+  amount_gte?: number;
+  amount_gt?: number;
+  amount_lte?: number;
+  amount_lt?: number;
+  customer_id_prefix?: string[];
+  card_bin_country?: string[];
+  metadata?: Record<string, string>;
+}
+
+export type RoutingRuleCondition = keyof RoutingRuleConditions;
+
+export interface RoutingRule {
+  name: string;
+  when: RoutingRuleConditions;
+  // Candidates in failover order; `use: x` in the config file becomes a single entry.
+  providers: string[];
+}
+
+export interface WeightedProvider {
+  provider: string;
+  weight: number;
+}
+
+// Which id is hashed to assign a payment to a weighted split, so retries land on the same provider.
+export type TrafficSplitKey = "customer_id" | "payment_intent_id";
+
+export interface ProviderFee {
+  // Charged per authorization, in minor units of the payment currency.
+  fixedAmount: number;
+  // Charged on the payment amount, in basis points.
+  percentBps: number;
+}
+
+export interface RoutingContext {
+  paymentMethodType: PaymentMethodType;
+  currency: string;
+  amount: number;
+  customerId: string;
+  // Null for payments that do not exist yet, such as routing simulations.
+  paymentIntentId: string | null;
+  cardBinCountry: string | null;
+  metadata: Record<string, string>;
+}
+
+export const routingRuleConditions: readonly RoutingRuleCondition[] = [
+  "payment_method",
+  "currency",
+  "amount_gte",
+  "amount_gt",
+  "amount_lte",
+  "amount_lt",
+  "customer_id_prefix",
+  "card_bin_country",
+  "metadata",
+];
+
+function conditionHolds(
+  condition: RoutingRuleCondition,
+  conditions: RoutingRuleConditions,
+  context: RoutingContext,
+): boolean {
+  switch (condition) {
+    case "payment_method":
+      return conditions.payment_method?.includes(context.paymentMethodType) ?? true;
+    case "currency":
+      return conditions.currency?.includes(context.currency.toUpperCase()) ?? true;
+    case "amount_gte":
+      return conditions.amount_gte === undefined || context.amount >= conditions.amount_gte;
+    case "amount_gt":
+      return conditions.amount_gt === undefined || context.amount > conditions.amount_gt;
+    case "amount_lte":
+      return conditions.amount_lte === undefined || context.amount <= conditions.amount_lte;
+    case "amount_lt":
+      return conditions.amount_lt === undefined || context.amount < conditions.amount_lt;
+    case "customer_id_prefix":
+      return conditions.customer_id_prefix?.some((prefix) => context.customerId.startsWith(prefix)) ?? true;
+    case "card_bin_country": {
+      const country = context.cardBinCountry?.toUpperCase();
+      return conditions.card_bin_country === undefined
+        || (country !== undefined && conditions.card_bin_country.includes(country));
+    }
+    case "metadata":
+      return Object.entries(conditions.metadata ?? {}).every(([key, value]) => context.metadata[key] === value);
+  }
+}
+
+/**
+ * Returns the conditions of a rule that the context does not satisfy; an empty
+ * list means the rule matches. Conditions a rule does not set always hold.
+ */
+export function unmatchedRoutingConditions(rule: RoutingRule, context: RoutingContext): RoutingRuleCondition[] {
+  return routingRuleConditions.filter(
+    (condition) => rule.when[condition] !== undefined && !conditionHolds(condition, rule.when, context),
+  );
+}
@@ -3,7 +3,7 @@ import { AppError } from "../infra/app-error.js";
 
 const ALLOWED_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
   requires_confirmation: ["processing", "canceled"],
-  processing: ["requires_action", "succeeded", "failed"],
+  processing: ["requires_action", "succeeded", "failed", "canceled"],
   requires_action: ["processing", "failed", "canceled"],
   succeeded: [],
   failed: [],
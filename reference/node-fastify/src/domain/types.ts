@@ -1,7 +1,15 @@
+import type { DeclineCode } from "./decline-codes.js";
+
 export type PaymentMethodType = "card" | "pix" | "boleto" | "wallet" | "bank_transfer";
 
 export type CaptureMethod = "automatic" | "manual";
 
+// Customer step the provider needs before it can finish an authorization.
+export type NextAction =
+  | { type: "redirect_to_url"; redirect_url: string }
+  | { type: "display_qr_code"; qr_code: string }
+  | { type: "three_ds_challenge"; challenge: Record<string, string> };
+
 export type PaymentStatus =
   | "requires_confirmation"
   | "processing"
@@ -12,8 +20,14 @@ export type PaymentStatus =
 
 export type RefundStatus = "pending" | "succeeded" | "failed";
 export type ChargebackStatus = "open" | "under_review" | "won" | "lost";
-export type LedgerEntryType = "authorization" | "capture" | "refund" | "chargeback";
+export type PaymentReviewStatus = "pending" | "approved" | "rejected" | "canceled";
+export type PaymentReviewDecision = "approve" | "reject";
+export type LedgerEntryType = "authorization" | "authorization_reversal" | "capture" | "refund" | "chargeback";
 export type LedgerEntryDirection = "debit" | "credit";
+// What a provider reports when asked about an authorization after the fact.
+export type ProviderPaymentStatus = "authorized" | "requires_action" | "pending" | "failed" | "not_found";
+// Provider call an authorized intent is held in processing for.
+export type PendingOperation = "capture" | "cancel";
 
 export interface PaymentIntentRecord {
   id: string;
@@ -24,11 +38,23 @@ export interface PaymentIntentRecord {
   customer_id: string;
   payment_method_type: PaymentMethodType;
   payment_method_token: string;
+  // Issuing country of the card BIN, when the caller knows it; used only for routing.
+  card_bin_country: string | null;
+  metadata: Record<string, string>;
+  // Which rule, split cohort or strategy picked the providers, e.g. `rule:br_pix` or `split:provider_b`.
+  routing_decision: string | null;
+  // Canonical reason of a provider decline; null unless a provider failed the authorization.
+  decline_code: DeclineCode | null;
   authorized_amount: number;
   captured_amount: number;
   refunded_amount: number;
   provider: string | null;
   provider_reference: string | null;
+  authorization_expires_at: string | null;
+  next_action: NextAction | null;
+  // Set while a capture or cancel claim waits on the provider; lets recovery undo a claim the process dropped.
+  pending_operation: PendingOperation | null;
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -53,6 +79,53 @@ export interface ChargebackRecord {
   updated_at: string;
 }
 
+export interface PaymentReviewRecord {
+  id: string;
+  payment_intent_id: string;
+  status: PaymentReviewStatus;
+  risk_reason: string;
+  amount: number;
+  currency: string;
+  customer_id: string;
+  note: string | null;
+  decided_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IntentRecoveryRecord {
+  id: string;
+  payment_intent_id: string;
+  provider: string | null;
+  provider_reference: string | null;
+  provider_status: ProviderPaymentStatus;
+  resolved_status: PaymentStatus;
+  failure_code: string | null;
+  stuck_since: string;
+  created_at: string;
+}
+
+// Audit row of an operator override of a provider circuit (POST /v1/providers/{name}/circuit).
+export interface CircuitOverrideRecord {
+  id: string;
+  provider: string;
+  state: "open" | "closed";
+  ttl_seconds: number;
+  forced_until: string;
+  reason: string;
+  // Who forced it: `api_key:` plus a prefix of the SHA-256 of the caller's API key, never the key itself.
+  actor: string;
+  created_at: string;
+}
+
+export interface ProviderNotificationRecord {
+  provider: string;
+  notification_id: string;
+  payment_intent_id: string;
+  status: "succeeded" | "failed";
+  received_at: string;
+}
+
 export interface LedgerEntryRecord {
   id: string;
   payment_intent_id: string;
@@ -74,12 +147,19 @@ export interface PaymentIntentResponse {
   capture_method: CaptureMethod;
   customer_id: string;
   payment_method_type: PaymentMethodType;
+  card_bin_country: string | null;
+  metadata: Record<string, string>;
+  routing_decision: string | null;
+  decline_code: DeclineCode | null;
   authorized_amount: number;
   captured_amount: number;
   refunded_amount: number;
   amount_refundable: number;
   provider: string | null;
   provider_reference: string | null;
+  authorization_expires_at: string | null;
+  next_action: NextAction | null;
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -103,6 +183,43 @@ export interface ChargebackResponse {
   updated_at: string;
 }
 
+export interface PaymentReviewResponse {
+  id: string;
+  payment_intent_id: string;
+  status: PaymentReviewStatus;
+  risk_reason: string;
+  amount: number;
+  currency: string;
+  customer_id: string;
+  note: string | null;
+  decided_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IntentRecoveryResponse {
+  id: string;
+  payment_intent_id: string;
+  provider: string | null;
+  provider_reference: string | null;
+  provider_status: ProviderPaymentStatus;
+  resolved_status: PaymentStatus;
+  failure_code: string | null;
+  stuck_since: string;
+  created_at: string;
+}
+
+export interface CircuitOverrideResponse {
+  id: string;
+  provider: string;
+  state: "open" | "closed";
+  ttl_seconds: number;
+  forced_until: string;
+  reason: string;
+  actor: string;
+  created_at: string;
+}
+
 export interface LedgerEntryResponse {
   id: string;
   payment_intent_id: string;
@@ -123,8 +240,58 @@ export interface CreatePaymentIntentInput {
   payment_method: {
     type: PaymentMethodType;
     token: string;
+    bin_country?: string;
   };
   capture_method: CaptureMethod;
+  metadata?: Record<string, string>;
+}
+
+export interface SimulateRoutingInput {
+  amount: number;
+  currency: string;
+  customer: { id: string };
+  payment_method: {
+    type: PaymentMethodType;
+    bin_country?: string;
+  };
+  metadata?: Record<string, string>;
+}
+
+export interface RoutingScoresResponse {
+  strategy: "priority" | "adaptive";
+  data: {
+    provider: string;
+    payment_method_type: PaymentMethodType;
+    samples: number;
+    approval_rate: number;
+    average_latency_ms: number | null;
+    fee: { fixed_amount: number; percent_bps: number };
+  }[];
+}
+
+export interface RoutingSimulationResponse {
+  matched_rule: string | null;
+  routing_decision: string;
+  strategy: "priority" | "adaptive";
+  candidates: { provider: string; circuit_open: boolean }[];
+  evaluations: { rule: string; matched: boolean; unmatched_conditions: string[] }[];
+}
+
+export interface ForceProviderCircuitInput {
+  state: "open" | "closed";
+  ttl_seconds: number;
+  reason: string;
+}
+
+export interface ProviderResponse {
+  name: string;
+  supported_methods: PaymentMethodType[];
+  circuit_state: "closed" | "open" | "half_open";
+  consecutive_failures: number;
+  opened_until: string | null;
+  forced: { state: "open" | "closed"; until: string; reason: string } | null;
+  recent_authorizations: number;
+  recent_approval_rate: number | null;
 }
 
 export interface CreateRefundInput {
@@ -133,6 +300,15 @@ export interface CreateRefundInput {
   reason?: "requested_by_customer" | "duplicate" | "fraud" | "other";
 }
 
+export interface ResumePaymentIntentInput {
+  action_result?: Record<string, string>;
+}
+
+export interface ReviewPaymentIntentInput {
+  decision: PaymentReviewDecision;
+  note: string;
+}
+
 export interface CreateChargebackInput {
   payment_intent_id: string;
   amount: number;
@@ -152,11 +328,16 @@ export interface PaymentEvent {
     | "payment_intent.succeeded"
     | "payment_intent.failed"
     | "payment_intent.canceled"
+    | "payment_intent.authorization_released"
     | "refund.succeeded"
     | "refund.failed"
     | "chargeback.opened"
     | "chargeback.won"
-    | "chargeback.lost";
+    | "chargeback.lost"
+    | "review.approved"
+    | "review.rejected"
+    | "review.canceled"
+    | "provider.circuit_state_changed";
   occurred_at: string;
   data: Record<string, unknown>;
 }
@@ -180,9 +361,21 @@ export interface WebhookDeliveryRecord {
   attempt: number;
   status: WebhookDeliveryStatus;
   response_status?: number;
+  // Truncated to PMC_WEBHOOK_MAX_RESPONSE_BYTES.
+  response_body?: string;
   error_code?: string;
   created_at: string;
   delivered_at?: string;
+  next_attempt_at?: string;
+}
+
+export interface WebhookQueuedDeliveryRecord {
+  id: string;
+  endpoint_id: string;
+  event: PaymentEvent;
+  attempt: number;
+  next_attempt_at: string;
+  created_at: string;
 }
 
 export type WebhookDeadLetterFailureReason = "permanent_failure" | "max_attempts_exhausted";
@@ -207,3 +400,13 @@ export interface WebhookDeadLetterRecord {
 export interface StoredWebhookDeadLetterRecord extends WebhookDeadLetterRecord {
   event: PaymentEvent;
 }
+
+export interface EventDeadLetterRecord {
+  id: string;
+  event_id: string;
+  event_type: PaymentEvent["type"];
+  stream_id: string;
+  delivery_count: number;
+  failed_at: string;
+  event: PaymentEvent;
+}
@@ -0,0 +1,152 @@
+import type {
+  CircuitCommand,
+  CircuitOverride,
+  CircuitSnapshot,
+  CircuitStatePolicy,
+  CircuitStateStorePort,
+  CircuitStep,
+  CircuitTransition,
+  CircuitTransitionReason,
+} from "../ports/circuit-state-store.js";
+
+interface WindowCall {
+  atMs: number;
+  failed: boolean;
+}
+
+interface ProviderCircuit {
+  snapshot: CircuitSnapshot;
+  calls: WindowCall[];
+  forced: CircuitOverride | null;
+}
+
+const maxWindowCalls = 1000;
+
+function closedSnapshot(): CircuitSnapshot {
+  return {
+    state: "closed",
+    consecutiveFailures: 0,
+    openedUntilMs: null,
+    halfOpenedAtMs: null,
+    probesStarted: 0,
+    probesSucceeded: 0,
+    windowCalls: 0,
+    windowFailures: 0,
+    forced: null,
+  };
+}
+
+// Circuit state of a single process; the Redis store runs the same steps in Lua.
+export class InMemoryCircuitStateStore implements CircuitStateStorePort {
+  private readonly circuits = new Map<string, ProviderCircuit>();
+
+  async apply(
+    provider: string,
+    command: CircuitCommand,
+    nowMs: number,
+    policy: CircuitStatePolicy,
+  ): Promise<CircuitStep> {
+    const circuit = this.circuits.get(provider) ?? { snapshot: closedSnapshot(), calls: [], forced: null };
+    const transitions: CircuitTransition[] = [];
+    const transition = (to: CircuitSnapshot["state"], reason: CircuitTransitionReason): void => {
+      transitions.push({ from: circuit.snapshot.state, to, reason });
+      circuit.snapshot.state = to;
+    };
+    const open = (reason: CircuitTransitionReason): void => {
+      transition("open", reason);
+      circuit.snapshot = { ...closedSnapshot(), state: "open", openedUntilMs: nowMs + policy.cooldownSeconds * 1000 };
+      circuit.calls = [];
+    };
+    const cooldownMs = policy.cooldownSeconds * 1000;
+
+    if (circuit.forced && nowMs >= circuit.forced.untilMs) {
+      if (circuit.forced.state !== circuit.snapshot.state) {
+        transitions.push({ from: circuit.forced.state, to: circuit.snapshot.state, reason: "force_expired" });
+      }
+      circuit.forced = null;
+    }
+    if (command.type === "force") {
+      transitions.push({
+        from: circuit.forced?.state ?? circuit.snapshot.state,
+        to: command.override.state,
+        reason: "forced",
+      });
+      circuit.forced = { ...command.override };
+    }
+    if (circuit.forced) {
+      // A pinned circuit ignores outcomes and cooldowns until the override expires.
+      this.circuits.set(provider, circuit);
+      return {
+        snapshot: { ...circuit.snapshot, forced: { ...circuit.forced } },
+        acquired: circuit.forced.state === "closed",
+        transitions,
+      };
+    }
+
+    const { snapshot } = circuit;
+    if (snapshot.state === "open" && snapshot.openedUntilMs !== null && nowMs >= snapshot.openedUntilMs) {
+      transition("half_open", "cooldown_elapsed");
+      circuit.snapshot = { ...closedSnapshot(), state: "half_open", halfOpenedAtMs: nowMs };
+    } else if (
+      snapshot.state === "half_open"
+      && snapshot.halfOpenedAtMs !== null
+      && nowMs - snapshot.halfOpenedAtMs >= cooldownMs
+    ) {
+      // Probes whose outcome was never recorded (e.g. the process threw) must not pin the circuit half-open.
+      snapshot.probesStarted = snapshot.probesSucceeded;
+      snapshot.halfOpenedAtMs = nowMs;
+    }
+
+    let acquired = false;
+    if (command.type === "acquire") {
+      if (circuit.snapshot.state === "closed") {
+        acquired = true;
+      } else if (circuit.snapshot.state === "half_open" && circuit.snapshot.probesStarted < policy.halfOpenMaxCalls) {
+        circuit.snapshot.probesStarted += 1;
+        acquired = true;
+      }
+    } else if (command.type === "record") {
+      switch (circuit.snapshot.state) {
+        case "open":
+          // Answers to calls started before the circuit opened do not change it.
+          break;
+        case "half_open":
+          if (command.failed) {
+            open("probe_failed");
+          } else {
+            circuit.snapshot.probesSucceeded += 1;
+            if (circuit.snapshot.probesSucceeded >= policy.halfOpenMaxCalls) {
+              transition("closed", "probes_succeeded");
+              circuit.snapshot = closedSnapshot();
+            }
+          }
+          break;
+        case "closed": {
+          const cutoffMs = nowMs - policy.windowSeconds * 1000;
+          circuit.calls = circuit.calls.filter((call) => call.atMs > cutoffMs);
+          circuit.calls.push({ atMs: nowMs, failed: command.failed });
+          if (circuit.calls.length > maxWindowCalls) {
+            circuit.calls.splice(0, circuit.calls.length - maxWindowCalls);
+          }
+          circuit.snapshot.consecutiveFailures = command.failed ? circuit.snapshot.consecutiveFailures + 1 : 0;
+          const failures = circuit.calls.filter((call) => call.failed).length;
+          if (command.failed && circuit.snapshot.consecutiveFailures >= policy.failureThreshold) {
+            open("consecutive_failures");
+          } else if (
+            command.failed
+            && circuit.calls.length >= policy.minimumCalls
+            && failures / circuit.calls.length >= policy.failureRateThreshold
+          ) {
+            open("failure_rate");
+          }
+          break;
+        }
+      }
+    }
+
+    circuit.snapshot.windowCalls = circuit.calls.length;
+    circuit.snapshot.windowFailures = circuit.calls.filter((call) => call.failed).length;
+    this.circuits.set(provider, circuit);
+    return { snapshot: { ...circuit.snapshot }, acquired, transitions };
+  }
+}
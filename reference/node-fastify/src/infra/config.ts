@@ -1,4 +1,12 @@
+import { normalizeDeclineCode } from "../domain/decline-codes.js";
+import type { DeclineCode } from "../domain/decline-codes.js";
+import type { PaymentMethodType } from "../domain/types.js";
 import { AppError } from "./app-error.js";
+import { loadRoutingConfig } from "./routing-config.js";
+import type { RoutingConfig } from "./routing-config.js";
+
+// Built-in sandbox providers; each signs its notifications with its own secret.
+const sandboxProviderNames = ["provider_a", "provider_b"] as const;
 
 function invalidConfig(name: string, expectation: string): AppError {
   return new AppError(
@@ -8,6 +16,14 @@ function invalidConfig(name: string, expectation: string): AppError {
   );
 }
 
+function notificationSecretEnv(provider: string): string {
+  return `PMC_PROVIDER_NOTIFICATION_SECRET_${provider.toUpperCase()}`;
+}
+
+function defaultNotificationSecret(provider: string): string {
+  return `dev_${provider}_notification_secret_2026`;
+}
+
 function parseIntegerEnv(name: string, defaultValue: number, min: number, max: number): number {
   const raw = process.env[name];
   if (raw === undefined) {
@@ -58,6 +74,53 @@ function parseStringListEnv(name: string, minItemLength: number, maxItems: numbe
   return [...new Set(items)];
 }
 
+function parseIntegerListEnv(
+  name: string,
+  defaultValue: number[],
+  min: number,
+  max: number,
+  maxItems: number,
+): number[] {
+  const raw = process.env[name];
+  if (raw === undefined) {
+    return defaultValue;
+  }
+
+  const items = raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  if (items.length === 0) {
+    throw invalidConfig(name, "must contain at least one comma-separated integer");
+  }
+  if (items.length > maxItems) {
+    throw invalidConfig(name, `must contain at most ${maxItems} values`);
+  }
+
+  return items.map((item) => {
+    const parsed = Number(item);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw invalidConfig(name, `items must be integers between ${min} and ${max}`);
+    }
+    return parsed;
+  });
+}
+
+// Accepts canonical decline codes and the module's own raw codes, such as transient_network_error.
+function parseDeclineCodeListEnv(name: string, defaultValue: DeclineCode[]): DeclineCode[] {
+  const items = parseStringListEnv(name, 1, 20);
+  if (!items) {
+    return defaultValue;
+  }
+  return [...new Set(items.map((item) => {
+    const declineCode = normalizeDeclineCode(item);
+    if (declineCode === "unknown" && item !== "unknown") {
+      throw invalidConfig(name, `items must be decline codes, got '${item}'`);
+    }
+    return declineCode;
+  }))];
+}
+
 function parseBooleanEnv(name: string, defaultValue: boolean): boolean {
   const raw = process.env[name];
   if (raw === undefined) {
@@ -118,10 +181,29 @@ export interface RuntimeConfig {
   riskReviewAmountThreshold: number;
   webhookMaxAttempts: number;
   webhookTimeoutMs: number;
+  webhookBackoffSeconds: number[];
+  webhookWorkerPollIntervalMs: number;
+  webhookWorkerBatchSize: number;
+  webhookSender?: "memory" | "http";
+  webhookRequireHttps?: boolean;
+  webhookAllowPrivateNetworks?: boolean;
+  webhookMaxResponseBytes?: number;
   providerCircuitBreakerEnabled: boolean;
   providerCircuitBreakerFailureThreshold: number;
   providerCircuitBreakerCooldownSeconds: number;
   providerCircuitBreakerTransientOnly: boolean;
+  providerCircuitBreakerFailureRatePercent?: number;
+  providerCircuitBreakerWindowSeconds?: number;
+  providerCircuitBreakerMinimumCalls?: number;
+  providerCircuitBreakerHalfOpenMaxCalls?: number;
+  providerCircuitBreakerBackend?: "memory" | "redis";
+  providerCircuitBreakerSyncIntervalMs?: number;
+  providerAuthorizeTimeoutMs?: number;
+  providerCaptureTimeoutMs?: number;
+  providerRefundTimeoutMs?: number;
+  providerRetryMaxAttempts?: number;
+  providerRetryBackoffMs?: number[];
+  providerRetryOn?: DeclineCode[];
   metricsEnabled: boolean;
   rateLimitEnabled: boolean;
   rateLimitWindowSeconds: number;
@@ -130,14 +212,41 @@ export interface RuntimeConfig {
   idempotencyBackend?: "memory" | "postgres";
   rateLimitBackend?: "memory" | "redis";
   eventBusBackend?: "memory" | "durable";
+  webhookBackend?: "memory" | "postgres";
   postgresUrl?: string;
   redisUrl?: string;
   redisRateLimitPrefix?: string;
+  redisCircuitPrefix?: string;
   eventStreamKey?: string;
   eventConsumerGroup?: string;
   eventConsumerName?: string;
   eventConsumerBlockMs?: number;
   eventConsumerBatchSize?: number;
+  eventDeadLetterStreamKey?: string;
+  eventClaimIdleMs?: number;
+  eventClaimIntervalMs?: number;
+  eventMaxDeliveries?: number;
+  outboxRelayIntervalMs?: number;
+  outboxRelayBatchSize?: number;
+  outboxRelayMinAgeMs?: number;
+  authorizationTtlSeconds?: Record<PaymentMethodType, number>;
+  authorizationExpirySweepIntervalMs?: number;
+  authorizationExpirySweepBatchSize?: number;
+  // Notification secret of each built-in sandbox provider, by name; a provider without one gets no notifications.
+  providerNotificationSecrets?: Record<string, string>;
+  providerNotificationToleranceSeconds?: number;
+  stuckIntentThresholdSeconds?: number;
+  stuckIntentSweepIntervalMs?: number;
+  stuckIntentSweepBatchSize?: number;
+  // From the `routing` section of the file in PMC_CONFIG_FILE; absent means the built-in method priority.
+  routing?: RoutingConfig;
+  routingStrategy?: "priority" | "adaptive";
+  routingAdaptiveWindowSeconds?: number;
+  routingAdaptiveExplorationPercent?: number;
+  // Scenario the sandbox providers start in; switchable at runtime through /v1/sandbox/active-scenario.
+  sandboxScenario?: string;
+  // Registers the /v1/sandbox routes; absent means off. Never on in production.
+  sandboxAdminEnabled?: boolean;
 }
 
 export function loadRuntimeConfig(): RuntimeConfig {
@@ -166,8 +275,25 @@ export function loadRuntimeConfig(): RuntimeConfig {
     1000,
     10_000_000_000,
   );
-  const webhookMaxAttempts = parseIntegerEnv("PMC_WEBHOOK_MAX_ATTEMPTS", 3, 1, 20);
+  const webhookMaxAttempts = parseIntegerEnv("PMC_WEBHOOK_MAX_ATTEMPTS", 5, 1, 20);
   const webhookTimeoutMs = parseIntegerEnv("PMC_WEBHOOK_TIMEOUT_MS", 5000, 100, 120000);
+  const webhookBackoffSeconds = parseIntegerListEnv(
+    "PMC_WEBHOOK_BACKOFF_SECONDS",
+    [5, 30, 120, 300],
+    0,
+    86400,
+    19,
+  );
+  const webhookWorkerPollIntervalMs = parseIntegerEnv("PMC_WEBHOOK_WORKER_POLL_MS", 1000, 10, 60000);
+  const webhookWorkerBatchSize = parseIntegerEnv("PMC_WEBHOOK_WORKER_BATCH_SIZE", 50, 1, 1000);
+  const webhookSender = parseEnumEnv("PMC_WEBHOOK_SENDER", ["memory", "http"] as const, "memory");
+  const webhookRequireHttps = parseBooleanEnv("PMC_WEBHOOK_REQUIRE_HTTPS", process.env.NODE_ENV === "production");
+  const webhookAllowPrivateNetworks = parseBooleanEnv("PMC_WEBHOOK_ALLOW_PRIVATE_NETWORKS", false);
+  const webhookMaxResponseBytes = parseIntegerEnv("PMC_WEBHOOK_MAX_RESPONSE_BYTES", 4096, 0, 1_048_576);
+  const configFile = parseOptionalStringEnv("PMC_CONFIG_FILE", 1);
+  const routing = configFile ? loadRoutingConfig(configFile) : undefined;
+  // `resilience.circuit_breaker` in the config file replaces the defaults; the env vars still win.
+  const circuitBreakerFile = routing?.circuitBreaker ?? {};
   const providerCircuitBreakerEnabled = parseBooleanEnv("PMC_PROVIDER_CB_ENABLED", true);
   const providerCircuitBreakerFailureThreshold = parseIntegerEnv(
     "PMC_PROVIDER_CB_FAILURE_THRESHOLD",
@@ -177,11 +303,83 @@ export function loadRuntimeConfig(): RuntimeConfig {
   );
   const providerCircuitBreakerCooldownSeconds = parseIntegerEnv(
     "PMC_PROVIDER_CB_COOLDOWN_SECONDS",
-    30,
+    circuitBreakerFile.cooldownSeconds ?? 30,
     1,
     3600,
   );
   const providerCircuitBreakerTransientOnly = parseBooleanEnv("PMC_PROVIDER_CB_TRANSIENT_ONLY", true);
+  const providerCircuitBreakerFailureRatePercent = parseIntegerEnv(
+    "PMC_PROVIDER_CB_FAILURE_RATE_PERCENT",
+    circuitBreakerFile.failureRatePercent ?? 50,
+    1,
+    100,
+  );
+  const providerCircuitBreakerWindowSeconds = parseIntegerEnv(
+    "PMC_PROVIDER_CB_WINDOW_SECONDS",
+    circuitBreakerFile.windowSeconds ?? 60,
+    1,
+    3600,
+  );
+  const providerCircuitBreakerMinimumCalls = parseIntegerEnv(
+    "PMC_PROVIDER_CB_MINIMUM_CALLS",
+    circuitBreakerFile.minimumCalls ?? 10,
+    1,
+    10_000,
+  );
+  const providerCircuitBreakerHalfOpenMaxCalls = parseIntegerEnv(
+    "PMC_PROVIDER_CB_HALF_OPEN_MAX_CALLS",
+    circuitBreakerFile.halfOpenMaxCalls ?? 1,
+    1,
+    100,
+  );
+  const providerCircuitBreakerBackend = parseEnumEnv(
+    "PMC_PROVIDER_CB_BACKEND",
+    ["memory", "redis"] as const,
+    "memory",
+  );
+  const providerCircuitBreakerSyncIntervalMs = parseIntegerEnv(
+    "PMC_PROVIDER_CB_SYNC_INTERVAL_MS",
+    1000,
+    100,
+    60_000,
+  );
+  // `resilience.timeout_ms` and `resilience.retry` in the config file work the same way.
+  const providerCallsFile = routing?.providerCalls ?? {};
+  const providerAuthorizeTimeoutMs = parseIntegerEnv(
+    "PMC_PROVIDER_TIMEOUT_MS_AUTHORIZE",
+    providerCallsFile.authorizeTimeoutMs ?? 10_000,
+    100,
+    120_000,
+  );
+  const providerCaptureTimeoutMs = parseIntegerEnv(
+    "PMC_PROVIDER_TIMEOUT_MS_CAPTURE",
+    providerCallsFile.captureTimeoutMs ?? 10_000,
+    100,
+    120_000,
+  );
+  const providerRefundTimeoutMs = parseIntegerEnv(
+    "PMC_PROVIDER_TIMEOUT_MS_REFUND",
+    providerCallsFile.refundTimeoutMs ?? 10_000,
+    100,
+    120_000,
+  );
+  const providerRetryMaxAttempts = parseIntegerEnv(
+    "PMC_PROVIDER_RETRY_MAX_ATTEMPTS",
+    providerCallsFile.retryMaxAttempts ?? 2,
+    1,
+    10,
+  );
+  const providerRetryBackoffMs = parseIntegerListEnv(
+    "PMC_PROVIDER_RETRY_BACKOFF_MS",
+    providerCallsFile.retryBackoffMs ?? [100, 300],
+    0,
+    60_000,
+    10,
+  );
+  const providerRetryOn = parseDeclineCodeListEnv(
+    "PMC_PROVIDER_RETRY_ON",
+    providerCallsFile.retryOn ?? ["timeout", "network_error"],
+  );
   const metricsEnabled = parseBooleanEnv("PMC_METRICS_ENABLED", true);
   const rateLimitEnabled = parseBooleanEnv("PMC_RATE_LIMIT_ENABLED", true);
   const rateLimitWindowSeconds = parseIntegerEnv("PMC_RATE_LIMIT_WINDOW_SECONDS", 1, 1, 3600);
@@ -206,9 +404,15 @@ export function loadRuntimeConfig(): RuntimeConfig {
     ["memory", "durable"] as const,
     "memory",
   );
+  const webhookBackend = parseEnumEnv(
+    "PMC_WEBHOOK_BACKEND",
+    ["memory", "postgres"] as const,
+    "memory",
+  );
   const postgresUrl = parseOptionalStringEnv("PMC_POSTGRES_URL", 12);
   const redisUrl = parseOptionalStringEnv("PMC_REDIS_URL", 8);
   const redisRateLimitPrefix = parseStringEnv("PMC_REDIS_RATE_LIMIT_PREFIX", "pmc:ratelimit", 3);
+  const redisCircuitPrefix = parseStringEnv("PMC_REDIS_CIRCUIT_PREFIX", "pmc:circuit", 3);
   const eventStreamKey = parseStringEnv("PMC_EVENT_STREAM_KEY", "pmc:events", 3);
   const eventConsumerGroup = parseStringEnv("PMC_EVENT_CONSUMER_GROUP", "pmc:webhook", 3);
   const eventConsumerName = parseStringEnv(
@@ -218,6 +422,55 @@ export function loadRuntimeConfig(): RuntimeConfig {
   );
   const eventConsumerBlockMs = parseIntegerEnv("PMC_EVENT_CONSUMER_BLOCK_MS", 1000, 10, 60000);
   const eventConsumerBatchSize = parseIntegerEnv("PMC_EVENT_CONSUMER_BATCH_SIZE", 20, 1, 1000);
+  const eventDeadLetterStreamKey = parseStringEnv("PMC_EVENT_DEAD_LETTER_STREAM_KEY", `${eventStreamKey}:dead`, 3);
+  const eventClaimIdleMs = parseIntegerEnv("PMC_EVENT_CLAIM_IDLE_MS", 60000, 1000, 3_600_000);
+  const eventClaimIntervalMs = parseIntegerEnv("PMC_EVENT_CLAIM_INTERVAL_MS", 5000, 100, 600000);
+  const eventMaxDeliveries = parseIntegerEnv("PMC_EVENT_MAX_DELIVERIES", 5, 1, 100);
+  const outboxRelayIntervalMs = parseIntegerEnv("PMC_OUTBOX_RELAY_INTERVAL_MS", 1000, 10, 60000);
+  const outboxRelayBatchSize = parseIntegerEnv("PMC_OUTBOX_RELAY_BATCH_SIZE", 100, 1, 1000);
+  const outboxRelayMinAgeMs = parseIntegerEnv("PMC_OUTBOX_RELAY_MIN_AGE_MS", 5000, 0, 600000);
+  const defaultAuthorizationTtlSeconds = parseIntegerEnv("PMC_AUTHORIZATION_TTL_SECONDS", 604800, 60, 2_592_000);
+  const authorizationTtlSeconds: Record<PaymentMethodType, number> = {
+    card: parseIntegerEnv("PMC_AUTHORIZATION_TTL_SECONDS_CARD", defaultAuthorizationTtlSeconds, 60, 2_592_000),
+    pix: parseIntegerEnv("PMC_AUTHORIZATION_TTL_SECONDS_PIX", defaultAuthorizationTtlSeconds, 60, 2_592_000),
+    boleto: parseIntegerEnv("PMC_AUTHORIZATION_TTL_SECONDS_BOLETO", defaultAuthorizationTtlSeconds, 60, 2_592_000),
+    wallet: parseIntegerEnv("PMC_AUTHORIZATION_TTL_SECONDS_WALLET", defaultAuthorizationTtlSeconds, 60, 2_592_000),
+    bank_transfer: parseIntegerEnv(
+      "PMC_AUTHORIZATION_TTL_SECONDS_BANK_TRANSFER",
+      defaultAuthorizationTtlSeconds,
+      60,
+      2_592_000,
+    ),
+  };
+  const authorizationExpirySweepIntervalMs = parseIntegerEnv(
+    "PMC_AUTHORIZATION_EXPIRY_SWEEP_INTERVAL_MS",
+    60000,
+    100,
+    3_600_000,
+  );
+  const authorizationExpirySweepBatchSize = parseIntegerEnv("PMC_AUTHORIZATION_EXPIRY_SWEEP_BATCH_SIZE", 100, 1, 1000);
+  const stuckIntentThresholdSeconds = parseIntegerEnv("PMC_STUCK_INTENT_THRESHOLD_SECONDS", 300, 10, 86400);
+  const stuckIntentSweepIntervalMs = parseIntegerEnv("PMC_STUCK_INTENT_SWEEP_INTERVAL_MS", 60000, 100, 3_600_000);
+  const stuckIntentSweepBatchSize = parseIntegerEnv("PMC_STUCK_INTENT_SWEEP_BATCH_SIZE", 100, 1, 1000);
+  const providerNotificationSecrets: Record<string, string> = {};
+  for (const name of sandboxProviderNames) {
+    providerNotificationSecrets[name] = parseStringEnv(
+      notificationSecretEnv(name),
+      defaultNotificationSecret(name),
+      16,
+    );
+  }
+  const providerNotificationToleranceSeconds = parseIntegerEnv(
+    "PMC_PROVIDER_NOTIFICATION_TOLERANCE_SECONDS",
+    300,
+    10,
+    3600,
+  );
+  const routingStrategy = parseEnumEnv("PMC_ROUTING_STRATEGY", ["priority", "adaptive"] as const, "priority");
+  const routingAdaptiveWindowSeconds = parseIntegerEnv("PMC_ROUTING_ADAPTIVE_WINDOW_SECONDS", 300, 10, 86400);
+  const routingAdaptiveExplorationPercent = parseIntegerEnv("PMC_ROUTING_ADAPTIVE_EXPLORATION_PERCENT", 5, 0, 50);
+  const sandboxScenario = parseStringEnv("PMC_SANDBOX_SCENARIO", routing?.sandbox.scenario ?? "default", 1);
+  const sandboxAdminEnabled = parseBooleanEnv("PMC_SANDBOX_ADMIN_ENABLED", false);
 
   if (process.env.NODE_ENV === "production" && apiKeys.includes("dev_pmc_key")) {
     throw invalidConfig(
@@ -228,16 +481,41 @@ export function loadRuntimeConfig(): RuntimeConfig {
   if (process.env.NODE_ENV === "production" && cursorSecret === defaultCursorSecret) {
     throw invalidConfig("PMC_CURSOR_SECRET", "must not use default value in production");
   }
+  // An HTTP provider configured under a built-in name replaces the sandbox one, so its sandbox secret goes unused.
+  const replacedProviders = new Set((routing?.httpProviders ?? []).map((provider) => provider.name));
+  for (const name of sandboxProviderNames) {
+    if (
+      process.env.NODE_ENV === "production"
+      && !replacedProviders.has(name)
+      && providerNotificationSecrets[name] === defaultNotificationSecret(name)
+    ) {
+      throw invalidConfig(notificationSecretEnv(name), "must not use default value in production");
+    }
+  }
+  if (process.env.NODE_ENV === "production" && !webhookRequireHttps) {
+    throw invalidConfig("PMC_WEBHOOK_REQUIRE_HTTPS", "must not be disabled in production");
+  }
+  if (process.env.NODE_ENV === "production" && sandboxAdminEnabled) {
+    throw invalidConfig("PMC_SANDBOX_ADMIN_ENABLED", "must not be enabled in production");
+  }
   if (listDefaultLimit > listMaxLimit) {
     throw invalidConfig("PMC_LIST_DEFAULT_LIMIT", "must be lower or equal to PMC_LIST_MAX_LIMIT");
   }
   if (
-    (paymentBackend === "postgres" || idempotencyBackend === "postgres" || eventBusBackend === "durable")
+    (
+      paymentBackend === "postgres"
+      || idempotencyBackend === "postgres"
+      || eventBusBackend === "durable"
+      || webhookBackend === "postgres"
+    )
     && !postgresUrl
   ) {
     throw invalidConfig("PMC_POSTGRES_URL", "is required when postgres-backed runtime features are enabled");
   }
-  if ((rateLimitBackend === "redis" || eventBusBackend === "durable") && !redisUrl) {
+  if (
+    (rateLimitBackend === "redis" || eventBusBackend === "durable" || providerCircuitBreakerBackend === "redis")
+    && !redisUrl
+  ) {
     throw invalidConfig("PMC_REDIS_URL", "is required when redis-backed runtime features are enabled");
   }
 
@@ -258,10 +536,29 @@ export function loadRuntimeConfig(): RuntimeConfig {
     riskReviewAmountThreshold,
     webhookMaxAttempts,
     webhookTimeoutMs,
+    webhookBackoffSeconds,
+    webhookWorkerPollIntervalMs,
+    webhookWorkerBatchSize,
+    webhookSender,
+    webhookRequireHttps,
+    webhookAllowPrivateNetworks,
+    webhookMaxResponseBytes,
     providerCircuitBreakerEnabled,
     providerCircuitBreakerFailureThreshold,
     providerCircuitBreakerCooldownSeconds,
     providerCircuitBreakerTransientOnly,
+    providerCircuitBreakerFailureRatePercent,
+    providerCircuitBreakerWindowSeconds,
+    providerCircuitBreakerMinimumCalls,
+    providerCircuitBreakerHalfOpenMaxCalls,
+    providerCircuitBreakerBackend,
+    providerCircuitBreakerSyncIntervalMs,
+    providerAuthorizeTimeoutMs,
+    providerCaptureTimeoutMs,
+    providerRefundTimeoutMs,
+    providerRetryMaxAttempts,
+    providerRetryBackoffMs,
+    providerRetryOn,
     metricsEnabled,
     rateLimitEnabled,
     rateLimitWindowSeconds,
@@ -270,13 +567,36 @@ export function loadRuntimeConfig(): RuntimeConfig {
     idempotencyBackend,
     rateLimitBackend,
     eventBusBackend,
+    webhookBackend,
     redisRateLimitPrefix,
+    redisCircuitPrefix,
     eventStreamKey,
     eventConsumerGroup,
     eventConsumerName,
     eventConsumerBlockMs,
     eventConsumerBatchSize,
+    eventDeadLetterStreamKey,
+    eventClaimIdleMs,
+    eventClaimIntervalMs,
+    eventMaxDeliveries,
+    outboxRelayIntervalMs,
+    outboxRelayBatchSize,
+    outboxRelayMinAgeMs,
+    authorizationTtlSeconds,
+    authorizationExpirySweepIntervalMs,
+    authorizationExpirySweepBatchSize,
+    providerNotificationSecrets,
+    providerNotificationToleranceSeconds,
+    stuckIntentThresholdSeconds,
+    stuckIntentSweepIntervalMs,
+    stuckIntentSweepBatchSize,
+    routingStrategy,
+    routingAdaptiveWindowSeconds,
+    routingAdaptiveExplorationPercent,
+    sandboxScenario,
+    sandboxAdminEnabled,
     ...(postgresUrl ? { postgresUrl } : {}),
     ...(redisUrl ? { redisUrl } : {}),
+    ...(routing ? { routing } : {}),
   };
 }
@@ -0,0 +1,399 @@
+import { isDeclineCode } from "../domain/decline-codes.js";
+import type { DeclineCode } from "../domain/decline-codes.js";
+import type { PaymentMethodType } from "../domain/types.js";
+import { AppError } from "./app-error.js";
+import { Secret } from "./secret.js";
+
+export type HttpProviderOperation = "authorize" | "capture" | "refund" | "void";
+
+// Call inputs a request body field can be filled from.
+export type HttpRequestSource =
+  | "amount"
+  | "currency"
+  | "payment_method_type"
+  | "payment_method_token"
+  | "merchant_reference"
+  | "reference";
+
+export interface HttpResponseMapping {
+  // Dot paths into the JSON response body.
+  reference?: string;
+  status?: string;
+  // With `status`, the values that mean the call went through; any other value is a failure.
+  successValues: string[];
+  failureCode?: string;
+}
+
+export interface HttpOperationMapping {
+  method: "POST" | "PUT" | "PATCH";
+  // Appended to the endpoint; `{reference}` becomes the URL-encoded provider reference.
+  path: string;
+  // Request body field (dot path) and the call input it is filled from.
+  body: Record<string, HttpRequestSource>;
+  response: HttpResponseMapping;
+}
+
+export interface HttpStatusLookupMapping {
+  method: "GET" | "POST";
+  // Appended to the endpoint; `{reference}` becomes the provider or merchant reference looked up.
+  path: string;
+  // Dot paths into the JSON response body; a 404 means the provider does not know the payment.
+  reference?: string;
+  status: string;
+  // `status` values per outcome; any other value leaves the lookup without an answer.
+  authorizedValues: string[];
+  pendingValues: string[];
+  failedValues: string[];
+  failureCode?: string;
+}
+
+export interface HttpNotificationMapping {
+  // HMAC-SHA256 key for `{timestamp}.{raw body}`.
+  secret: Secret;
+  // Lower-case names of the headers carrying the signature and its unix-seconds timestamp.
+  signatureHeader: string;
+  timestampHeader: string;
+  toleranceSeconds: number;
+  // Dot paths into the notification body.
+  id: string;
+  reference: string;
+  status: string;
+  // `status` values per outcome; any other value makes the notification unmappable.
+  succeededValues: string[];
+  failedValues: string[];
+  failureCode?: string;
+}
+
+export interface HttpProviderConfig {
+  name: string;
+  endpoint: string;
+  supportedMethods: PaymentMethodType[];
+  auth: {
+    header: string;
+    // Prefix of the header value, e.g. `Bearer`; null sends the bare key.
+    scheme: string | null;
+    apiKey: Secret;
+  };
+  operations: Record<HttpProviderOperation, HttpOperationMapping>;
+  // From `operations.status`; null when the provider offers no lookup, which leaves stuck intents to retry.
+  statusLookup: HttpStatusLookupMapping | null;
+  // HTTP status (`402`) or status class (`4xx`) to the raw failure code reported when the body names none.
+  statusCodes: Record<string, string>;
+  // Raw failure code to its canonical decline code.
+  declineCodes: Record<string, DeclineCode>;
+  // Null when the provider sends no asynchronous notifications; its notification route then answers 404.
+  notifications: HttpNotificationMapping | null;
+}
+
+const operationNames: readonly HttpProviderOperation[] = ["authorize", "capture", "refund", "void"];
+const operationSources: Record<HttpProviderOperation, readonly HttpRequestSource[]> = {
+  authorize: ["amount", "currency", "payment_method_type", "payment_method_token", "merchant_reference"],
+  capture: ["amount", "reference"],
+  refund: ["amount", "reference"],
+  void: ["amount", "reference"],
+};
+const httpMethods: readonly HttpOperationMapping["method"][] = ["POST", "PUT", "PATCH"];
+const paymentMethodTypes: readonly PaymentMethodType[] = ["card", "pix", "boleto", "wallet", "bank_transfer"];
+const statusCodePattern = /^[1-5](\d\d|xx)$/;
+const envReferencePattern = /^\$\{([A-Za-z_][A-Za-z0-9_]*)\}$/;
+
+function invalidProviderConfig(path: string, expectation: string): AppError {
+  return new AppError(500, "invalid_runtime_config", `Provider config '${path}' ${expectation}.`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseNonEmptyString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw invalidProviderConfig(path, "must be a non-empty string");
+  }
+  return value.trim();
+}
+
+function parseStringMap(value: unknown, path: string): Record<string, string> {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isObject(value)) {
+    throw invalidProviderConfig(path, "must be an object");
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, parseNonEmptyString(item, `${path}.${key}`)]),
+  );
+}
+
+// `${NAME}` reads the secret from the environment; error messages name the variable, never the value.
+function parseSecret(value: unknown, path: string, env: NodeJS.ProcessEnv): Secret {
+  const raw = parseNonEmptyString(value, path);
+  const reference = envReferencePattern.exec(raw);
+  if (!reference?.[1]) {
+    return new Secret(raw);
+  }
+  const resolved = env[reference[1]];
+  if (!resolved) {
+    throw invalidProviderConfig(path, `references unset environment variable '${reference[1]}'`);
+  }
+  return new Secret(resolved);
+}
+
+function parseEndpoint(value: unknown, path: string): string {
+  const raw = parseNonEmptyString(value, path);
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw invalidProviderConfig(path, "must be an absolute URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw invalidProviderConfig(path, "must be an http(s) URL");
+  }
+  // Credentials belong in api_key, where they are kept out of logs and errors.
+  if (url.username || url.password) {
+    throw invalidProviderConfig(path, "must not embed credentials");
+  }
+  return raw.replace(/\/+$/, "");
+}
+
+function parseResponseMapping(value: unknown, path: string): HttpResponseMapping {
+  if (value === undefined) {
+    return { successValues: [] };
+  }
+  if (!isObject(value)) {
+    throw invalidProviderConfig(path, "must be an object");
+  }
+  const mapping: HttpResponseMapping = { successValues: [] };
+  if (value.reference !== undefined) {
+    mapping.reference = parseNonEmptyString(value.reference, `${path}.reference`);
+  }
+  if (value.failure_code !== undefined) {
+    mapping.failureCode = parseNonEmptyString(value.failure_code, `${path}.failure_code`);
+  }
+  if (value.status !== undefined) {
+    mapping.status = parseNonEmptyString(value.status, `${path}.status`);
+    const successValues: unknown = value.success_values;
+    if (!Array.isArray(successValues) || successValues.length === 0) {
+      throw invalidProviderConfig(`${path}.success_values`, "must be a non-empty list when status is mapped");
+    }
+    mapping.successValues = successValues.map((item: unknown, index) =>
+      parseNonEmptyString(String(item), `${path}.success_values[${index}]`));
+  }
+  return mapping;
+}
+
+function parseValueList(value: unknown, path: string): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalidProviderConfig(path, "must be a non-empty list");
+  }
+  return value.map((item: unknown, index) => parseNonEmptyString(String(item), `${path}[${index}]`));
+}
+
+function parseOptionalValueList(value: unknown, path: string): string[] {
+  return value === undefined ? [] : parseValueList(value, path);
+}
+
+function parseStatusLookup(value: unknown, path: string): HttpStatusLookupMapping | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!isObject(value)) {
+    throw invalidProviderConfig(path, "must be an object");
+  }
+  const method = typeof value.method === "string" ? value.method.toUpperCase() : (value.method ?? "GET");
+  if (method !== "GET" && method !== "POST") {
+    throw invalidProviderConfig(`${path}.method`, "must be one of: GET, POST");
+  }
+  const requestPath = parseNonEmptyString(value.path, `${path}.path`);
+  if (!requestPath.startsWith("/") || !requestPath.includes("{reference}")) {
+    throw invalidProviderConfig(`${path}.path`, "must start with '/' and contain '{reference}'");
+  }
+  const response = value.response;
+  if (!isObject(response)) {
+    throw invalidProviderConfig(`${path}.response`, "must be an object");
+  }
+  const mapping: HttpStatusLookupMapping = {
+    method,
+    path: requestPath,
+    status: parseNonEmptyString(response.status, `${path}.response.status`),
+    authorizedValues: parseValueList(response.authorized_values, `${path}.response.authorized_values`),
+    pendingValues: parseOptionalValueList(response.pending_values, `${path}.response.pending_values`),
+    failedValues: parseOptionalValueList(response.failed_values, `${path}.response.failed_values`),
+  };
+  if (response.reference !== undefined) {
+    mapping.reference = parseNonEmptyString(response.reference, `${path}.response.reference`);
+  }
+  if (response.failure_code !== undefined) {
+    mapping.failureCode = parseNonEmptyString(response.failure_code, `${path}.response.failure_code`);
+  }
+  return mapping;
+}
+
+function parseHeaderName(value: unknown, path: string, fallback: string): string {
+  return (value === undefined ? fallback : parseNonEmptyString(value, path)).toLowerCase();
+}
+
+function parseNotifications(value: unknown, path: string, env: NodeJS.ProcessEnv): HttpNotificationMapping | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!isObject(value)) {
+    throw invalidProviderConfig(path, "must be an object");
+  }
+  const toleranceSeconds = value.tolerance_seconds ?? 300;
+  if (typeof toleranceSeconds !== "number" || !Number.isInteger(toleranceSeconds) || toleranceSeconds < 10
+    || toleranceSeconds > 3600) {
+    throw invalidProviderConfig(`${path}.tolerance_seconds`, "must be an integer between 10 and 3600");
+  }
+  const mapping: HttpNotificationMapping = {
+    secret: parseSecret(value.secret, `${path}.secret`, env),
+    signatureHeader: parseHeaderName(value.signature_header, `${path}.signature_header`, "X-Signature"),
+    timestampHeader: parseHeaderName(value.timestamp_header, `${path}.timestamp_header`, "X-Timestamp"),
+    toleranceSeconds,
+    id: parseNonEmptyString(value.id, `${path}.id`),
+    reference: parseNonEmptyString(value.reference, `${path}.reference`),
+    status: parseNonEmptyString(value.status, `${path}.status`),
+    succeededValues: parseValueList(value.succeeded_values, `${path}.succeeded_values`),
+    failedValues: parseValueList(value.failed_values, `${path}.failed_values`),
+  };
+  if (mapping.succeededValues.some((item) => mapping.failedValues.includes(item))) {
+    throw invalidProviderConfig(`${path}.failed_values`, "must not repeat a succeeded value");
+  }
+  if (value.failure_code !== undefined) {
+    mapping.failureCode = parseNonEmptyString(value.failure_code, `${path}.failure_code`);
+  }
+  return mapping;
+}
+
+function parseOperation(value: unknown, path: string, operation: HttpProviderOperation): HttpOperationMapping {
+  if (!isObject(value)) {
+    throw invalidProviderConfig(path, "must be an object");
+  }
+  const method = typeof value.method === "string" ? value.method.toUpperCase() : (value.method ?? "POST");
+  if (!httpMethods.includes(method as HttpOperationMapping["method"])) {
+    throw invalidProviderConfig(`${path}.method`, `must be one of: ${httpMethods.join(", ")}`);
+  }
+  const requestPath = parseNonEmptyString(value.path, `${path}.path`);
+  if (!requestPath.startsWith("/")) {
+    throw invalidProviderConfig(`${path}.path`, "must start with '/'");
+  }
+
+  const body = parseStringMap(value.body, `${path}.body`);
+  const allowedSources = operationSources[operation];
+  for (const [field, source] of Object.entries(body)) {
+    if (!allowedSources.includes(source as HttpRequestSource)) {
+      throw invalidProviderConfig(`${path}.body.${field}`, `must be one of: ${allowedSources.join(", ")}`);
+    }
+  }
+
+  return {
+    method: method as HttpOperationMapping["method"],
+    path: requestPath,
+    body: body as Record<string, HttpRequestSource>,
+    response: parseResponseMapping(value.response, `${path}.response`),
+  };
+}
+
+function parseHttpProvider(value: Record<string, unknown>, path: string, env: NodeJS.ProcessEnv): HttpProviderConfig {
+  const supportedMethods: unknown = value.supported_methods;
+  if (!Array.isArray(supportedMethods) || supportedMethods.length === 0) {
+    throw invalidProviderConfig(`${path}.supported_methods`, "must be a non-empty list");
+  }
+  for (const [index, method] of supportedMethods.entries()) {
+    if (!paymentMethodTypes.includes(method as PaymentMethodType)) {
+      throw invalidProviderConfig(
+        `${path}.supported_methods[${index}]`,
+        `must be one of: ${paymentMethodTypes.join(", ")}`,
+      );
+    }
+  }
+
+  const auth = value.auth ?? {};
+  if (!isObject(auth)) {
+    throw invalidProviderConfig(`${path}.auth`, "must be an object");
+  }
+  const scheme = auth.scheme === undefined ? "Bearer" : auth.scheme;
+  if (scheme !== null && typeof scheme !== "string") {
+    throw invalidProviderConfig(`${path}.auth.scheme`, "must be a string or null");
+  }
+
+  const operations = value.operations;
+  if (!isObject(operations)) {
+    throw invalidProviderConfig(`${path}.operations`, "must be an object");
+  }
+  const parsedOperations = Object.fromEntries(
+    operationNames.map((operation) => [
+      operation,
+      parseOperation(operations[operation], `${path}.operations.${operation}`, operation),
+    ]),
+  ) as Record<HttpProviderOperation, HttpOperationMapping>;
+
+  const statusCodes = parseStringMap(value.status_codes, `${path}.status_codes`);
+  for (const status of Object.keys(statusCodes)) {
+    if (!statusCodePattern.test(status)) {
+      throw invalidProviderConfig(`${path}.status_codes.${status}`, "must be an HTTP status or class such as 4xx");
+    }
+  }
+  const declineCodes = parseStringMap(value.decline_codes, `${path}.decline_codes`);
+  for (const [rawCode, declineCode] of Object.entries(declineCodes)) {
+    if (!isDeclineCode(declineCode)) {
+      throw invalidProviderConfig(`${path}.decline_codes.${rawCode}`, "must be a canonical decline code");
+    }
+  }
+
+  return {
+    name: parseNonEmptyString(value.name, `${path}.name`),
+    endpoint: parseEndpoint(value.endpoint, `${path}.endpoint`),
+    supportedMethods: [...new Set(supportedMethods as PaymentMethodType[])],
+    auth: {
+      header: auth.header === undefined ? "Authorization" : parseNonEmptyString(auth.header, `${path}.auth.header`),
+      scheme: scheme === null || scheme.trim().length === 0 ? null : scheme.trim(),
+      apiKey: parseSecret(value.api_key, `${path}.api_key`, env),
+    },
+    operations: parsedOperations,
+    statusLookup: parseStatusLookup(operations.status, `${path}.operations.status`),
+    statusCodes,
+    declineCodes: declineCodes as Record<string, DeclineCode>,
+    notifications: parseNotifications(value.notifications, `${path}.notifications`, env),
+  };
+}
+
+/**
+ * Reads the `providers` entries with `adapter: http`. Entries without an
+ * adapter describe the built-in providers and only contribute their fees.
+ */
+export function parseHttpProviders(value: unknown, env: NodeJS.ProcessEnv = process.env): HttpProviderConfig[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw invalidProviderConfig("providers", "must be a list");
+  }
+
+  const providers: HttpProviderConfig[] = [];
+  value.forEach((provider: unknown, index) => {
+    const path = `providers[${index}]`;
+    if (!isObject(provider)) {
+      throw invalidProviderConfig(path, "must be an object");
+    }
+    if (provider.adapter === undefined || provider.adapter === "sandbox") {
+      return;
+    }
+    if (provider.adapter !== "http") {
+      throw invalidProviderConfig(`${path}.adapter`, "must be one of: sandbox, http");
+    }
+    if (provider.enabled === false) {
+      return;
+    }
+    providers.push(parseHttpProvider(provider, path, env));
+  });
+
+  const names = new Set<string>();
+  for (const provider of providers) {
+    if (names.has(provider.name)) {
+      throw invalidProviderConfig("providers", `must not repeat provider name '${provider.name}'`);
+    }
+    names.add(provider.name);
+  }
+  return providers;
+}
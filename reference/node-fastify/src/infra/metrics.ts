@@ -54,6 +54,29 @@ class CounterMetric {
   }
 }
 
+class GaugeMetric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly labelNames: string[],
+  ) {}
+
+  set(labels: LabelSet, value: number): void {
+    this.values.set(buildLabelKey(this.labelNames, labels), value);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    for (const [key, value] of this.values.entries()) {
+      const labels = parseLabelKey(this.labelNames, key);
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
 class HistogramMetric {
   private readonly values = new Map<string, { count: number; sum: number; buckets: number[] }>();
 
@@ -141,6 +164,50 @@ export class PmcMetricsRegistry {
     "Total number of refund lifecycle outcomes by status.",
     ["status"],
   );
+  private readonly outboxRelayed = new CounterMetric(
+    "pmc_outbox_relayed_events_total",
+    "Total number of outbox events republished to the stream by the outbox relay.",
+    [],
+  );
+  private readonly outboxPending = new GaugeMetric(
+    "pmc_outbox_pending_events",
+    "Number of outbox events not yet published to the stream.",
+    [],
+  );
+  private readonly outboxLag = new GaugeMetric(
+    "pmc_outbox_relay_lag_seconds",
+    "Age in seconds of the oldest outbox event not yet published to the stream.",
+    [],
+  );
+  private readonly stuckIntentRecoveries = new CounterMetric(
+    "pmc_stuck_intent_recoveries_total",
+    "Total number of payment intents recovered from processing by provider status and resolved status.",
+    ["provider_status", "resolved_status"],
+  );
+
+  private readonly routingDecisionOutcomes = new CounterMetric(
+    "pmc_routing_decision_outcomes_total",
+    "Total number of payment authorization outcomes by the routing decision that picked the providers.",
+    ["routing_decision", "outcome"],
+  );
+
+  private readonly circuitStoreFallbacks = new CounterMetric(
+    "pmc_circuit_state_store_fallbacks_total",
+    "Total number of circuit breaker commands served from local state because the shared store was unavailable.",
+    [],
+  );
+
+  private readonly providerCallRetries = new CounterMetric(
+    "pmc_provider_call_retries_total",
+    "Total number of provider calls retried on the same provider by provider, operation and decline code.",
+    ["provider", "operation", "decline_code"],
+  );
+
+  private readonly providerCallTimeouts = new CounterMetric(
+    "pmc_provider_call_timeouts_total",
+    "Total number of provider call attempts abandoned at their deadline by provider and operation.",
+    ["provider", "operation"],
+  );
 
   recordHttpRequest(method: string, route: string, statusCode: number, durationSeconds: number): void {
     this.httpRequests.inc({
@@ -200,6 +267,34 @@ export class PmcMetricsRegistry {
     }
   }
 
+  recordOutboxRelayPass(relayed: number, pending: number, lagSeconds: number): void {
+    if (relayed > 0) {
+      this.outboxRelayed.inc({}, relayed);
+    }
+    this.outboxPending.set({}, pending);
+    this.outboxLag.set({}, lagSeconds);
+  }
+
+  recordStuckIntentRecovery(providerStatus: string, resolvedStatus: string): void {
+    this.stuckIntentRecoveries.inc({ provider_status: providerStatus, resolved_status: resolvedStatus });
+  }
+
+  recordRoutingOutcome(routingDecision: string, outcome: "authorized" | "failed"): void {
+    this.routingDecisionOutcomes.inc({ routing_decision: routingDecision, outcome });
+  }
+
+  recordCircuitStoreFallback(): void {
+    this.circuitStoreFallbacks.inc({});
+  }
+
+  recordProviderCallRetry(provider: string, operation: string, declineCode: string): void {
+    this.providerCallRetries.inc({ provider, operation, decline_code: declineCode });
+  }
+
+  recordProviderCallTimeout(provider: string, operation: string): void {
+    this.providerCallTimeouts.inc({ provider, operation });
+  }
+
   renderPrometheus(): string {
     const lines = [
       ...this.httpRequests.render(),
@@ -210,6 +305,14 @@ export class PmcMetricsRegistry {
       ...this.paymentEvents.render(),
       ...this.paymentIntentStatusEvents.render(),
       ...this.refundStatusEvents.render(),
+      ...this.outboxRelayed.render(),
+      ...this.outboxPending.render(),
+      ...this.outboxLag.render(),
+      ...this.stuckIntentRecoveries.render(),
+      ...this.routingDecisionOutcomes.render(),
+      ...this.circuitStoreFallbacks.render(),
+      ...this.providerCallRetries.render(),
+      ...this.providerCallTimeouts.render(),
     ];
     return `${lines.join("\n")}\n`;
   }
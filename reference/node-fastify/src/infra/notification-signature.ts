@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { AppError } from "./app-error.js";
+import type { ClockPort } from "./clock.js";
+
+export interface NotificationSignatureScheme {
+  secret: string;
+  // Lower-case request header names.
+  signatureHeader: string;
+  timestampHeader: string;
+  toleranceSeconds: number;
+  clock: ClockPort;
+}
+
+export function signNotification(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function singleHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Checks an HMAC-SHA256 over `${timestamp}.${body}` with a unix-seconds
+ * timestamp inside the replay window; throws AppError 401 otherwise.
+ */
+export function verifyNotificationSignature(
+  headers: Record<string, string | string[] | undefined>,
+  rawBody: string,
+  scheme: NotificationSignatureScheme,
+): void {
+  const signature = singleHeader(headers[scheme.signatureHeader]);
+  const timestamp = singleHeader(headers[scheme.timestampHeader]);
+  if (!signature || !timestamp || !/^\d{1,12}$/.test(timestamp)) {
+    throw new AppError(401, "invalid_notification_signature", "Notification signature headers are missing.");
+  }
+
+  const providedBuffer = Buffer.from(signature, "utf8");
+  const expectedBuffer = Buffer.from(signNotification(scheme.secret, timestamp, rawBody), "utf8");
+  if (providedBuffer.length !== expectedBuffer.length || !timingSafeEqual(providedBuffer, expectedBuffer)) {
+    throw new AppError(401, "invalid_notification_signature", "Notification signature is invalid.");
+  }
+
+  // The timestamp is signed, so checking it after the signature rejects replays of captured requests.
+  const nowSeconds = Math.floor(Date.parse(scheme.clock.nowIso()) / 1000);
+  if (Math.abs(nowSeconds - Number(timestamp)) > scheme.toleranceSeconds) {
+    throw new AppError(401, "notification_replay_window_exceeded", "Notification timestamp is outside the replay window.");
+  }
+}
@@ -0,0 +1,92 @@
+import { SystemScheduler, type ScheduledTimer, type SchedulerPort } from "./scheduler.js";
+
+interface PeriodicTaskOptions {
+  intervalMs: number;
+  // Defaults to real timers; tests pass a scheduler they advance by hand.
+  scheduler?: SchedulerPort;
+  /**
+   * Runs one pass. Resolving `true` asks for the next pass right away, e.g.
+   * after a full batch; a rejected pass is dropped and retried next interval.
+   */
+  runPass: () => Promise<boolean | void>;
+}
+
+/**
+ * Runs a background pass every `intervalMs`, one pass at a time, on the
+ * timers of the given scheduler.
+ */
+export class PeriodicTask {
+  private running = false;
+  private timer: ScheduledTimer | null = null;
+  private passPromise: Promise<void> | null = null;
+  private wakeRequested = false;
+  private readonly scheduler: SchedulerPort;
+
+  constructor(private readonly options: PeriodicTaskOptions) {
+    this.scheduler = options.scheduler ?? new SystemScheduler();
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Requests an immediate pass. A pass already in flight picks the request
+   * up when it finishes.
+   */
+  wake(): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.passPromise) {
+      this.wakeRequested = true;
+      return;
+    }
+    this.schedule(0);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      this.timer.cancel();
+      this.timer = null;
+    }
+    if (this.passPromise) {
+      await this.passPromise;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer?.cancel();
+    this.timer = this.scheduler.schedule(delayMs, () => {
+      this.timer = null;
+      this.passPromise = this.run();
+    });
+  }
+
+  private async run(): Promise<void> {
+    let again = false;
+    try {
+      again = (await this.options.runPass()) === true;
+    } catch {
+      // The work is still pending at its source; the next pass retries it.
+    } finally {
+      this.passPromise = null;
+    }
+
+    if (!this.running) {
+      return;
+    }
+    again ||= this.wakeRequested;
+    this.wakeRequested = false;
+    this.schedule(again ? 0 : this.options.intervalMs);
+  }
+}
@@ -0,0 +1,460 @@
+import { readFileSync } from "node:fs";
+import { load } from "js-yaml";
+import { normalizeDeclineCode } from "../domain/decline-codes.js";
+import type { DeclineCode } from "../domain/decline-codes.js";
+import type { PaymentMethodType } from "../domain/types.js";
+import { routingRuleConditions } from "../domain/routing-rules.js";
+import type {
+  ProviderFee,
+  RoutingRule,
+  RoutingRuleConditions,
+  TrafficSplitKey,
+  WeightedProvider,
+} from "../domain/routing-rules.js";
+import { AppError } from "./app-error.js";
+import { parseHttpProviders } from "./http-provider-config.js";
+import type { HttpProviderConfig } from "./http-provider-config.js";
+import { parseSandboxConfig } from "./sandbox-scenarios.js";
+import type { SandboxFileConfig } from "./sandbox-scenarios.js";
+
+export interface RoutingConfig {
+  defaultProvider?: string;
+  rules: RoutingRule[];
+  methodWeights: Partial<Record<PaymentMethodType, WeightedProvider[]>>;
+  // From `routing.method_priority`; when absent the built-in priority of the sandbox providers applies.
+  methodPriority?: Partial<Record<PaymentMethodType, string[]>>;
+  splitKey?: TrafficSplitKey;
+  // From `providers[].fees`; read by the adaptive routing strategy.
+  providerFees: Record<string, ProviderFee>;
+  // From `resilience.circuit_breaker`; defaults for the PMC_PROVIDER_CB_* settings.
+  circuitBreaker: CircuitBreakerFileConfig;
+  // From `resilience.timeout_ms` and `resilience.retry`; defaults for the PMC_PROVIDER_TIMEOUT_MS_* and
+  // PMC_PROVIDER_RETRY_* settings.
+  providerCalls: ProviderCallFileConfig;
+  // `providers` entries with `adapter: http`, built as HttpProviderGateway next to the built-in providers.
+  httpProviders: HttpProviderConfig[];
+  // From `sandbox`; scenarios of the built-in sandbox providers.
+  sandbox: SandboxFileConfig;
+}
+
+export interface CircuitBreakerFileConfig {
+  failureRatePercent?: number;
+  cooldownSeconds?: number;
+  halfOpenMaxCalls?: number;
+  windowSeconds?: number;
+  minimumCalls?: number;
+}
+
+export interface ProviderCallFileConfig {
+  authorizeTimeoutMs?: number;
+  captureTimeoutMs?: number;
+  refundTimeoutMs?: number;
+  retryMaxAttempts?: number;
+  retryBackoffMs?: number[];
+  retryOn?: DeclineCode[];
+}
+
+const paymentMethodTypes: readonly PaymentMethodType[] = ["card", "pix", "boleto", "wallet", "bank_transfer"];
+const ruleKeys = new Set(["name", "when", "use", "order"]);
+const splitKeys: readonly TrafficSplitKey[] = ["customer_id", "payment_intent_id"];
+
+function invalidRoutingConfig(path: string, expectation: string): AppError {
+  return new AppError(500, "invalid_runtime_config", `Routing config '${path}' ${expectation}.`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseNonEmptyString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw invalidRoutingConfig(path, "must be a non-empty string");
+  }
+  return value.trim();
+}
+
+// Conditions accept either a single value or a list of alternatives.
+function parseStringList(value: unknown, path: string): string[] {
+  const items = Array.isArray(value) ? value : [value];
+  if (items.length === 0) {
+    throw invalidRoutingConfig(path, "must not be an empty list");
+  }
+  const parsed = items.map((item, index) =>
+    parseNonEmptyString(item, Array.isArray(value) ? `${path}[${index}]` : path));
+  return [...new Set(parsed)];
+}
+
+function parseAmount(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw invalidRoutingConfig(path, "must be a non-negative integer");
+  }
+  return value;
+}
+
+function parseConditions(value: unknown, path: string): RoutingRuleConditions {
+  if (!isObject(value)) {
+    throw invalidRoutingConfig(path, "must be an object");
+  }
+
+  const conditions: RoutingRuleConditions = {};
+  for (const [key, raw] of Object.entries(value)) {
+    const conditionPath = `${path}.${key}`;
+    switch (key) {
+      case "payment_method":
+        conditions.payment_method = parseStringList(raw, conditionPath).map((method) =>
+          parsePaymentMethod(method, conditionPath));
+        break;
+      case "currency":
+        conditions.currency = parseStringList(raw, conditionPath).map((currency) => {
+          if (!/^[A-Za-z]{3}$/.test(currency)) {
+            throw invalidRoutingConfig(conditionPath, "must only contain 3-letter ISO currency codes");
+          }
+          return currency.toUpperCase();
+        });
+        break;
+      case "amount_gte":
+      case "amount_gt":
+      case "amount_lte":
+      case "amount_lt":
+        conditions[key] = parseAmount(raw, conditionPath);
+        break;
+      case "customer_id_prefix":
+        conditions.customer_id_prefix = parseStringList(raw, conditionPath);
+        break;
+      case "card_bin_country":
+        conditions.card_bin_country = parseStringList(raw, conditionPath).map((country) => {
+          if (!/^[A-Za-z]{2}$/.test(country)) {
+            throw invalidRoutingConfig(conditionPath, "must only contain 2-letter ISO country codes");
+          }
+          return country.toUpperCase();
+        });
+        break;
+      case "metadata":
+        if (!isObject(raw) || Object.keys(raw).length === 0) {
+          throw invalidRoutingConfig(conditionPath, "must be a non-empty object");
+        }
+        conditions.metadata = Object.fromEntries(
+          Object.entries(raw).map(([metadataKey, metadataValue]) => [
+            metadataKey,
+            parseNonEmptyString(metadataValue, `${conditionPath}.${metadataKey}`),
+          ]),
+        );
+        break;
+      default:
+        throw invalidRoutingConfig(conditionPath, `is not a supported condition (${routingRuleConditions.join(", ")})`);
+    }
+  }
+  return conditions;
+}
+
+function parseRule(value: unknown, index: number): RoutingRule {
+  const path = `routing.rules[${index}]`;
+  if (!isObject(value)) {
+    throw invalidRoutingConfig(path, "must be an object");
+  }
+  for (const key of Object.keys(value)) {
+    if (!ruleKeys.has(key)) {
+      throw invalidRoutingConfig(`${path}.${key}`, "is not a supported rule field");
+    }
+  }
+  if ((value.use === undefined) === (value.order === undefined)) {
+    throw invalidRoutingConfig(path, "must set exactly one of 'use' or 'order'");
+  }
+
+  if (value.order !== undefined && !Array.isArray(value.order)) {
+    throw invalidRoutingConfig(`${path}.order`, "must be a list of provider names");
+  }
+  const providers = value.use !== undefined
+    ? [parseNonEmptyString(value.use, `${path}.use`)]
+    : parseStringList(value.order, `${path}.order`);
+
+  return {
+    name: value.name === undefined ? path : parseNonEmptyString(value.name, `${path}.name`),
+    when: value.when === undefined ? {} : parseConditions(value.when, `${path}.when`),
+    providers,
+  };
+}
+
+function parsePaymentMethod(value: string, path: string): PaymentMethodType {
+  if (!paymentMethodTypes.includes(value as PaymentMethodType)) {
+    throw invalidRoutingConfig(path, `must only contain: ${paymentMethodTypes.join(", ")}`);
+  }
+  return value as PaymentMethodType;
+}
+
+// `card: [{ provider_b: 90 }, { provider_a: 10 }]`: one single-key entry per provider, weights are relative.
+function parseSplits(value: unknown): Partial<Record<PaymentMethodType, WeightedProvider[]>> {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isObject(value)) {
+    throw invalidRoutingConfig("routing.splits", "must be an object keyed by payment method");
+  }
+
+  const splits: Partial<Record<PaymentMethodType, WeightedProvider[]>> = {};
+  for (const [method, entries] of Object.entries(value)) {
+    const path = `routing.splits.${method}`;
+    const paymentMethodType = parsePaymentMethod(method, "routing.splits");
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw invalidRoutingConfig(path, "must be a non-empty list of { provider: weight } entries");
+    }
+    const weights = entries.map((entry: unknown, index): WeightedProvider => {
+      const pairs = isObject(entry) ? Object.entries(entry) : [];
+      const [provider] = pairs;
+      if (!provider || pairs.length !== 1) {
+        throw invalidRoutingConfig(`${path}[${index}]`, "must map exactly one provider to its weight");
+      }
+      return {
+        provider: parseNonEmptyString(provider[0], `${path}[${index}]`),
+        weight: parseAmount(provider[1], `${path}[${index}].${provider[0]}`),
+      };
+    });
+    if (new Set(weights.map((item) => item.provider)).size !== weights.length) {
+      throw invalidRoutingConfig(path, "must not repeat a provider");
+    }
+    if (weights.every((item) => item.weight === 0)) {
+      throw invalidRoutingConfig(path, "must give at least one provider a positive weight");
+    }
+    splits[paymentMethodType] = weights;
+  }
+  return splits;
+}
+
+// `card: [provider_b, provider_a]`: providers tried in order for a method that no rule or split decided.
+function parseMethodPriority(value: unknown): Partial<Record<PaymentMethodType, string[]>> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isObject(value)) {
+    throw invalidRoutingConfig("routing.method_priority", "must be an object keyed by payment method");
+  }
+
+  const priority: Partial<Record<PaymentMethodType, string[]>> = {};
+  for (const [method, providers] of Object.entries(value)) {
+    const path = `routing.method_priority.${method}`;
+    const paymentMethodType = parsePaymentMethod(method, "routing.method_priority");
+    if (!Array.isArray(providers) || providers.length === 0) {
+      throw invalidRoutingConfig(path, "must be a non-empty list of provider names");
+    }
+    const names = providers.map((provider: unknown, index) => parseNonEmptyString(provider, `${path}[${index}]`));
+    if (new Set(names).size !== names.length) {
+      throw invalidRoutingConfig(path, "must not repeat a provider");
+    }
+    priority[paymentMethodType] = names;
+  }
+  return priority;
+}
+
+function parseProviderFees(value: unknown): Record<string, ProviderFee> {
+  if (value === undefined) {
+    return {};
+  }
+  if (!Array.isArray(value)) {
+    throw invalidRoutingConfig("providers", "must be a list");
+  }
+
+  const fees: Record<string, ProviderFee> = {};
+  value.forEach((provider: unknown, index) => {
+    const path = `providers[${index}]`;
+    if (!isObject(provider)) {
+      throw invalidRoutingConfig(path, "must be an object");
+    }
+    if (provider.fees === undefined) {
+      return;
+    }
+    const name = parseNonEmptyString(provider.name, `${path}.name`);
+    if (!isObject(provider.fees)) {
+      throw invalidRoutingConfig(`${path}.fees`, "must be an object");
+    }
+    const percentBps = parseAmount(provider.fees.percent_bps ?? 0, `${path}.fees.percent_bps`);
+    if (percentBps > 10_000) {
+      throw invalidRoutingConfig(`${path}.fees.percent_bps`, "must be at most 10000");
+    }
+    fees[name] = {
+      fixedAmount: parseAmount(provider.fees.fixed_amount ?? 0, `${path}.fees.fixed_amount`),
+      percentBps,
+    };
+  });
+  return fees;
+}
+
+function parsePositiveInteger(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw invalidRoutingConfig(path, "must be a positive integer");
+  }
+  return value;
+}
+
+function parseCircuitBreaker(value: unknown): CircuitBreakerFileConfig {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isObject(value)) {
+    throw invalidRoutingConfig("resilience", "must be an object");
+  }
+  const section = value.circuit_breaker;
+  if (section === undefined) {
+    return {};
+  }
+  if (!isObject(section)) {
+    throw invalidRoutingConfig("resilience.circuit_breaker", "must be an object");
+  }
+
+  const path = "resilience.circuit_breaker";
+  const config: CircuitBreakerFileConfig = {};
+  if (section.failure_rate_threshold !== undefined) {
+    const rate = section.failure_rate_threshold;
+    if (typeof rate !== "number" || rate <= 0 || rate > 1) {
+      throw invalidRoutingConfig(`${path}.failure_rate_threshold`, "must be a number greater than 0 and at most 1");
+    }
+    config.failureRatePercent = Math.max(1, Math.round(rate * 100));
+  }
+  if (section.open_state_seconds !== undefined) {
+    config.cooldownSeconds = parsePositiveInteger(section.open_state_seconds, `${path}.open_state_seconds`);
+  }
+  if (section.half_open_max_calls !== undefined) {
+    config.halfOpenMaxCalls = parsePositiveInteger(section.half_open_max_calls, `${path}.half_open_max_calls`);
+  }
+  if (section.window_seconds !== undefined) {
+    config.windowSeconds = parsePositiveInteger(section.window_seconds, `${path}.window_seconds`);
+  }
+  if (section.minimum_calls !== undefined) {
+    config.minimumCalls = parsePositiveInteger(section.minimum_calls, `${path}.minimum_calls`);
+  }
+  return config;
+}
+
+// `timeout_ms.create_payment` bounds authorization calls and `capture_payment` captures and voids.
+function parseProviderCalls(value: unknown): ProviderCallFileConfig {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isObject(value)) {
+    throw invalidRoutingConfig("resilience", "must be an object");
+  }
+
+  const config: ProviderCallFileConfig = {};
+  const timeouts = value.timeout_ms;
+  if (timeouts !== undefined) {
+    if (!isObject(timeouts)) {
+      throw invalidRoutingConfig("resilience.timeout_ms", "must be an object");
+    }
+    if (timeouts.create_payment !== undefined) {
+      config.authorizeTimeoutMs = parsePositiveInteger(timeouts.create_payment, "resilience.timeout_ms.create_payment");
+    }
+    if (timeouts.capture_payment !== undefined) {
+      config.captureTimeoutMs = parsePositiveInteger(timeouts.capture_payment, "resilience.timeout_ms.capture_payment");
+    }
+    if (timeouts.refund !== undefined) {
+      config.refundTimeoutMs = parsePositiveInteger(timeouts.refund, "resilience.timeout_ms.refund");
+    }
+  }
+
+  const retry = value.retry;
+  if (retry === undefined) {
+    return config;
+  }
+  if (!isObject(retry)) {
+    throw invalidRoutingConfig("resilience.retry", "must be an object");
+  }
+  if (retry.max_attempts !== undefined) {
+    config.retryMaxAttempts = parsePositiveInteger(retry.max_attempts, "resilience.retry.max_attempts");
+  }
+  if (retry.backoff_ms !== undefined) {
+    if (!Array.isArray(retry.backoff_ms) || retry.backoff_ms.length === 0) {
+      throw invalidRoutingConfig("resilience.retry.backoff_ms", "must be a non-empty list");
+    }
+    config.retryBackoffMs = retry.backoff_ms.map((item: unknown, index) => {
+      if (typeof item !== "number" || !Number.isInteger(item) || item < 0) {
+        throw invalidRoutingConfig(`resilience.retry.backoff_ms[${index}]`, "must be a non-negative integer");
+      }
+      return item;
+    });
+  }
+  if (retry.retry_on !== undefined) {
+    // Older files list the module's raw codes (e.g. transient_network_error); they map to their canonical code.
+    config.retryOn = [...new Set(parseStringList(retry.retry_on, "resilience.retry.retry_on").map((code) => {
+      const declineCode = normalizeDeclineCode(code);
+      if (declineCode === "unknown" && code !== "unknown") {
+        throw invalidRoutingConfig("resilience.retry.retry_on", `must list decline codes, got '${code}'`);
+      }
+      return declineCode;
+    }))];
+  }
+  return config;
+}
+
+/**
+ * Reads the `routing` section, providers, resilience and sandbox settings of the module config file.
+ * Only the shape is checked here; provider names are checked against the
+ * configured providers when the router is built.
+ */
+export function parseRoutingConfig(document: unknown): RoutingConfig {
+  if (!isObject(document)) {
+    throw invalidRoutingConfig("$", "must be a YAML object");
+  }
+  const providerFees = parseProviderFees(document.providers);
+  const circuitBreaker = parseCircuitBreaker(document.resilience);
+  const providerCalls = parseProviderCalls(document.resilience);
+  const httpProviders = parseHttpProviders(document.providers);
+  const sandbox = parseSandboxConfig(document.sandbox);
+  const routing = document.routing;
+  if (routing === undefined) {
+    return { rules: [], methodWeights: {}, providerFees, circuitBreaker, providerCalls, httpProviders, sandbox };
+  }
+  if (!isObject(routing)) {
+    throw invalidRoutingConfig("routing", "must be an object");
+  }
+  const rawRules: unknown = routing.rules ?? [];
+  if (!Array.isArray(rawRules)) {
+    throw invalidRoutingConfig("routing.rules", "must be a list");
+  }
+
+  const rules = rawRules.map((rule, index) => parseRule(rule, index));
+  const names = new Set<string>();
+  for (const rule of rules) {
+    if (names.has(rule.name)) {
+      throw invalidRoutingConfig("routing.rules", `must not repeat rule name '${rule.name}'`);
+    }
+    names.add(rule.name);
+  }
+
+  let splitKey: TrafficSplitKey | undefined;
+  if (routing.split_key !== undefined) {
+    if (!splitKeys.includes(routing.split_key as TrafficSplitKey)) {
+      throw invalidRoutingConfig("routing.split_key", `must be one of: ${splitKeys.join(", ")}`);
+    }
+    splitKey = routing.split_key as TrafficSplitKey;
+  }
+
+  const methodPriority = parseMethodPriority(routing.method_priority);
+
+  return {
+    ...(routing.default_provider !== undefined
+      ? { defaultProvider: parseNonEmptyString(routing.default_provider, "routing.default_provider") }
+      : {}),
+    rules,
+    methodWeights: parseSplits(routing.splits),
+    ...(methodPriority ? { methodPriority } : {}),
+    ...(splitKey ? { splitKey } : {}),
+    providerFees,
+    circuitBreaker,
+    providerCalls,
+    httpProviders,
+    sandbox,
+  };
+}
+
+export function loadRoutingConfig(filePath: string): RoutingConfig {
+  let document: unknown;
+  try {
+    document = load(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new AppError(
+      500,
+      "invalid_runtime_config",
+      `Config file '${filePath}' could not be read: ${(error as Error).message}`,
+    );
+  }
+  return parseRoutingConfig(document);
+}
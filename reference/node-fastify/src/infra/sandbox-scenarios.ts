@@ -0,0 +1,285 @@
+import { AppError } from "./app-error.js";
+
+export type SandboxOperation = "authorize" | "capture" | "refund" | "void";
+
+// Uniform draw between the bounds, added before the sandbox answers.
+export interface SandboxLatency {
+  minMs: number;
+  maxMs: number;
+}
+
+export interface SandboxOperationProfile {
+  // Replaces the provider-wide latency for this operation.
+  latencyMs?: SandboxLatency;
+  // Share of calls, from 0 to 1, failed with failureCode before the test token is looked at.
+  failureRate: number;
+  failureCode: string;
+}
+
+export interface SandboxProviderProfile {
+  latencyMs?: SandboxLatency;
+  operations: Partial<Record<SandboxOperation, SandboxOperationProfile>>;
+  // Pending authorizations read as authorized in status lookups once this old; absent keeps them
+  // pending until a provider notification settles them.
+  settlementDelayMs?: number;
+}
+
+export interface SandboxScenario {
+  name: string;
+  description: string;
+  // By provider name; `*` applies to every sandbox provider without its own entry.
+  providers: Record<string, SandboxProviderProfile>;
+}
+
+export interface SandboxFileConfig {
+  // Scenario active at startup; PMC_SANDBOX_SCENARIO wins over it.
+  scenario?: string;
+  // Added to the built-in scenarios, replacing one with the same name.
+  scenarios: SandboxScenario[];
+}
+
+export const DEFAULT_SANDBOX_SCENARIO = "default";
+
+const operationNames: readonly SandboxOperation[] = ["authorize", "capture", "refund", "void"];
+const scenarioNamePattern = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+// The raw codes sandbox providers fail each operation with, unless a scenario names another one.
+export const sandboxFailureCodes: Readonly<Record<SandboxOperation, string>> = {
+  authorize: "transient_network_error",
+  capture: "capture_rejected",
+  refund: "refund_rejected",
+  void: "reversal_rejected",
+};
+
+export const builtInSandboxScenarios: readonly SandboxScenario[] = [
+  {
+    name: DEFAULT_SANDBOX_SCENARIO,
+    description: "Answers at once; only the test tokens decide outcomes.",
+    providers: {},
+  },
+  {
+    name: "high_latency",
+    description: "Every sandbox provider answers within 50-250ms, captures and refunds within 100-400ms.",
+    providers: {
+      "*": {
+        latencyMs: { minMs: 50, maxMs: 250 },
+        operations: {
+          capture: { latencyMs: { minMs: 100, maxMs: 400 }, failureRate: 0, failureCode: "capture_rejected" },
+          refund: { latencyMs: { minMs: 100, maxMs: 400 }, failureRate: 0, failureCode: "refund_rejected" },
+        },
+      },
+    },
+  },
+  {
+    name: "provider_b_degraded",
+    description: "provider_b answers within 5-40ms and drops a quarter of authorizations with network errors.",
+    providers: {
+      provider_b: {
+        latencyMs: { minMs: 5, maxMs: 40 },
+        operations: {
+          authorize: { failureRate: 0.25, failureCode: "transient_network_error" },
+        },
+      },
+    },
+  },
+  {
+    name: "provider_a_outage",
+    description: "provider_a rejects every authorization as unavailable.",
+    providers: {
+      provider_a: {
+        operations: {
+          authorize: { failureRate: 1, failureCode: "provider_unavailable" },
+        },
+      },
+    },
+  },
+  {
+    name: "slow_settlement",
+    description: "Pending authorizations settle 30 seconds after they were accepted.",
+    providers: {
+      "*": { operations: {}, settlementDelayMs: 30_000 },
+    },
+  },
+];
+
+function invalidSandboxConfig(path: string, expectation: string): AppError {
+  return new AppError(500, "invalid_runtime_config", `Sandbox config '${path}' ${expectation}.`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseNonEmptyString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw invalidSandboxConfig(path, "must be a non-empty string");
+  }
+  return value.trim();
+}
+
+function parseScenarioName(value: unknown, path: string): string {
+  const name = parseNonEmptyString(value, path);
+  if (!scenarioNamePattern.test(name)) {
+    throw invalidSandboxConfig(path, "must be lowercase letters, digits, '_' or '-'");
+  }
+  return name;
+}
+
+function parseMilliseconds(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 600_000) {
+    throw invalidSandboxConfig(path, "must be an integer between 0 and 600000");
+  }
+  return value;
+}
+
+// `latency_ms: 20` is a fixed delay; `{ min, max }` a uniform range.
+function parseLatency(value: unknown, path: string): SandboxLatency {
+  if (typeof value === "number") {
+    const fixed = parseMilliseconds(value, path);
+    return { minMs: fixed, maxMs: fixed };
+  }
+  if (!isObject(value)) {
+    throw invalidSandboxConfig(path, "must be a number or an object with min and max");
+  }
+  const minMs = parseMilliseconds(value.min, `${path}.min`);
+  const maxMs = parseMilliseconds(value.max, `${path}.max`);
+  if (minMs > maxMs) {
+    throw invalidSandboxConfig(`${path}.min`, "must not exceed max");
+  }
+  return { minMs, maxMs };
+}
+
+function parseOperationProfile(value: unknown, path: string, operation: SandboxOperation): SandboxOperationProfile {
+  if (!isObject(value)) {
+    throw invalidSandboxConfig(path, "must be an object");
+  }
+  const failureRate = value.failure_rate ?? 0;
+  if (typeof failureRate !== "number" || !Number.isFinite(failureRate) || failureRate < 0 || failureRate > 1) {
+    throw invalidSandboxConfig(`${path}.failure_rate`, "must be a number between 0 and 1");
+  }
+  return {
+    ...(value.latency_ms !== undefined ? { latencyMs: parseLatency(value.latency_ms, `${path}.latency_ms`) } : {}),
+    failureRate,
+    failureCode: value.failure_code === undefined
+      ? sandboxFailureCodes[operation]
+      : parseNonEmptyString(value.failure_code, `${path}.failure_code`),
+  };
+}
+
+function parseProviderProfile(value: unknown, path: string): SandboxProviderProfile {
+  if (!isObject(value)) {
+    throw invalidSandboxConfig(path, "must be an object");
+  }
+  const operations = value.operations ?? {};
+  if (!isObject(operations)) {
+    throw invalidSandboxConfig(`${path}.operations`, "must be an object");
+  }
+  const profile: SandboxProviderProfile = { operations: {} };
+  for (const [operation, operationValue] of Object.entries(operations)) {
+    if (!operationNames.includes(operation as SandboxOperation)) {
+      throw invalidSandboxConfig(`${path}.operations.${operation}`, `must be one of: ${operationNames.join(", ")}`);
+    }
+    profile.operations[operation as SandboxOperation] = parseOperationProfile(
+      operationValue,
+      `${path}.operations.${operation}`,
+      operation as SandboxOperation,
+    );
+  }
+  if (value.latency_ms !== undefined) {
+    profile.latencyMs = parseLatency(value.latency_ms, `${path}.latency_ms`);
+  }
+  if (value.settlement_delay_ms !== undefined) {
+    profile.settlementDelayMs = parseMilliseconds(value.settlement_delay_ms, `${path}.settlement_delay_ms`);
+  }
+  return profile;
+}
+
+function parseScenario(value: unknown, path: string): SandboxScenario {
+  if (!isObject(value)) {
+    throw invalidSandboxConfig(path, "must be an object");
+  }
+  const providers = value.providers ?? {};
+  if (!isObject(providers)) {
+    throw invalidSandboxConfig(`${path}.providers`, "must be an object");
+  }
+  return {
+    name: parseScenarioName(value.name, `${path}.name`),
+    description: value.description === undefined ? "" : parseNonEmptyString(value.description, `${path}.description`),
+    providers: Object.fromEntries(
+      Object.entries(providers).map(([provider, profile]) => [
+        provider,
+        parseProviderProfile(profile, `${path}.providers.${provider}`),
+      ]),
+    ),
+  };
+}
+
+/**
+ * Reads the `sandbox` section of the module config file: the scenario
+ * active at startup and named scenarios for the sandbox providers.
+ */
+export function parseSandboxConfig(value: unknown): SandboxFileConfig {
+  if (value === undefined) {
+    return { scenarios: [] };
+  }
+  if (!isObject(value)) {
+    throw invalidSandboxConfig("sandbox", "must be an object");
+  }
+  const rawScenarios: unknown = value.scenarios ?? [];
+  if (!Array.isArray(rawScenarios)) {
+    throw invalidSandboxConfig("sandbox.scenarios", "must be a list");
+  }
+  const scenarios = rawScenarios.map((scenario: unknown, index) => parseScenario(scenario, `sandbox.scenarios[${index}]`));
+  const names = new Set<string>();
+  for (const scenario of scenarios) {
+    if (names.has(scenario.name)) {
+      throw invalidSandboxConfig("sandbox.scenarios", `must not repeat scenario name '${scenario.name}'`);
+    }
+    names.add(scenario.name);
+  }
+  return {
+    ...(value.scenario !== undefined ? { scenario: parseScenarioName(value.scenario, "sandbox.scenario") } : {}),
+    scenarios,
+  };
+}
+
+/**
+ * Holds the sandbox scenarios and which one is active. Every sandbox provider
+ * of an instance reads the same registry on each call, so switching the
+ * scenario changes their behavior at once without a restart.
+ */
+export class SandboxScenarioRegistry {
+  private readonly scenarios = new Map<string, SandboxScenario>();
+  private activeName: string;
+
+  constructor(scenarios: readonly SandboxScenario[], activeName: string = DEFAULT_SANDBOX_SCENARIO) {
+    for (const scenario of [...builtInSandboxScenarios, ...scenarios]) {
+      this.scenarios.set(scenario.name, scenario);
+    }
+    if (!this.scenarios.has(activeName)) {
+      throw new AppError(500, "invalid_runtime_config", `Sandbox scenario '${activeName}' is not defined.`);
+    }
+    this.activeName = activeName;
+  }
+
+  list(): SandboxScenario[] {
+    return [...this.scenarios.values()];
+  }
+
+  active(): SandboxScenario {
+    return this.scenarios.get(this.activeName) as SandboxScenario;
+  }
+
+  activate(name: string): SandboxScenario {
+    const scenario = this.scenarios.get(name);
+    if (!scenario) {
+      throw new AppError(404, "sandbox_scenario_not_found", `Sandbox scenario '${name}' is not defined.`);
+    }
+    this.activeName = name;
+    return scenario;
+  }
+
+  profileFor(provider: string): SandboxProviderProfile | undefined {
+    const { providers } = this.active();
+    return providers[provider] ?? providers["*"];
+  }
+}
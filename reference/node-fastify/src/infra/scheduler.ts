@@ -0,0 +1,21 @@
+export interface ScheduledTimer {
+  cancel(): void;
+}
+
+export interface SchedulerPort {
+  // Calls `callback` once after `delayMs`, unless the timer is canceled first.
+  schedule(delayMs: number, callback: () => void): ScheduledTimer;
+}
+
+// Timers are unref'd so an idle background loop never keeps the process alive.
+export class SystemScheduler implements SchedulerPort {
+  schedule(delayMs: number, callback: () => void): ScheduledTimer {
+    const timer = setTimeout(callback, delayMs);
+    timer.unref();
+    return {
+      cancel: () => {
+        clearTimeout(timer);
+      },
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { inspect } from "node:util";
+
+const redacted = "[REDACTED]";
+
+/**
+ * Wraps a credential read from configuration. Only `reveal()` returns the
+ * value; logging, JSON serialization and string interpolation print a
+ * placeholder, so a config object can be logged without leaking it.
+ */
+export class Secret {
+  constructor(private readonly value: string) {}
+
+  reveal(): string {
+    return this.value;
+  }
+
+  toString(): string {
+    return redacted;
+  }
+
+  toJSON(): string {
+    return redacted;
+  }
+
+  [inspect.custom](): string {
+    return redacted;
+  }
+}
+
+// For text that came from outside (e.g. a provider echoing request headers back) before it is stored or logged.
+export function redactSecrets(text: string, secrets: readonly Secret[]): string {
+  return secrets.reduce((current, secret) => {
+    const value = secret.reveal();
+    return value.length > 0 ? current.split(value).join(redacted) : current;
+  }, text);
+}
@@ -0,0 +1,75 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitTransitionReason =
+  | "consecutive_failures"
+  | "failure_rate"
+  | "cooldown_elapsed"
+  | "probe_failed"
+  | "probes_succeeded"
+  | "forced"
+  | "force_expired";
+
+export type ForcedCircuitState = "open" | "closed";
+
+// Operator override that pins the circuit until it expires; the state machine is frozen meanwhile.
+export interface CircuitOverride {
+  state: ForcedCircuitState;
+  untilMs: number;
+  reason: string;
+}
+
+export interface CircuitStatePolicy {
+  // Consecutive counted failures that open a closed circuit.
+  failureThreshold: number;
+  // How long an open circuit rejects calls before letting probes through.
+  cooldownSeconds: number;
+  // Share (0..1) of counted failures over the rolling window that opens a closed circuit.
+  failureRateThreshold: number;
+  windowSeconds: number;
+  // Calls the window needs before its failure rate is evaluated.
+  minimumCalls: number;
+  // Probe calls let through while half-open; that many successes close the circuit.
+  halfOpenMaxCalls: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedUntilMs: number | null;
+  halfOpenedAtMs: number | null;
+  probesStarted: number;
+  probesSucceeded: number;
+  windowCalls: number;
+  windowFailures: number;
+  forced: CircuitOverride | null;
+}
+
+export interface CircuitTransition {
+  from: CircuitState;
+  to: CircuitState;
+  reason: CircuitTransitionReason;
+}
+
+export type CircuitCommand =
+  | { type: "read" }
+  // Claims a half-open probe slot; always granted while closed.
+  | { type: "acquire" }
+  // `failed` is already filtered by the breaker (e.g. declines do not count with transient-only).
+  | { type: "record"; failed: boolean }
+  | { type: "force"; override: CircuitOverride };
+
+export interface CircuitStep {
+  snapshot: CircuitSnapshot;
+  acquired: boolean;
+  // Transitions this command caused, in order; an elapsed cooldown may precede the command's own.
+  transitions: CircuitTransition[];
+}
+
+/**
+ * Holds the circuit of each provider. Every command first applies the
+ * time-based transitions and then runs as one atomic step, so instances
+ * sharing a store agree on the state and each transition is reported once.
+ */
+export interface CircuitStateStorePort {
+  apply(provider: string, command: CircuitCommand, nowMs: number, policy: CircuitStatePolicy): Promise<CircuitStep>;
+}
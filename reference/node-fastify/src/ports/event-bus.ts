@@ -1,4 +1,4 @@
-import type { PaymentEvent } from "../domain/types.js";
+import type { EventDeadLetterRecord, PaymentEvent } from "../domain/types.js";
 
 export interface PaymentEventListInput {
   limit: number;
@@ -15,9 +15,26 @@ export interface PaymentEventListResult {
   nextCursor?: string;
 }
 
+export interface EventDeadLetterListInput {
+  limit: number;
+  cursor?: string;
+}
+
+export interface EventDeadLetterListResult {
+  data: EventDeadLetterRecord[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
 export interface EventBusPort {
   publish(event: PaymentEvent): Promise<void>;
   listPublishedEvents(input: PaymentEventListInput): Promise<PaymentEventListResult>;
   subscribe(handler: (event: PaymentEvent) => Promise<void>): void;
+  /**
+   * Poison events: deliveries that kept failing subscribers past the delivery
+   * ceiling and were parked instead of being retried forever.
+   */
+  listDeadLetters(input: EventDeadLetterListInput): Promise<EventDeadLetterListResult>;
+  requeueDeadLetter(id: string): Promise<EventDeadLetterRecord>;
   close?(): Promise<void>;
 }
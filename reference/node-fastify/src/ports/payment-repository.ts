@@ -1,12 +1,17 @@
 import type {
   ChargebackRecord,
   ChargebackStatus,
+  CircuitOverrideRecord,
+  IntentRecoveryRecord,
   LedgerEntryDirection,
   LedgerEntryRecord,
   LedgerEntryType,
   PaymentMethodType,
   PaymentIntentRecord,
+  PaymentReviewRecord,
+  PaymentReviewStatus,
   PaymentStatus,
+  ProviderNotificationRecord,
   RefundRecord,
   RefundStatus,
 } from "../domain/types.js";
@@ -24,6 +29,10 @@ export interface PaymentIntentListInput {
   paymentMethodType?: PaymentMethodType;
   createdFrom?: string;
   createdTo?: string;
+  authorizationExpiresBefore?: string;
+  updatedBefore?: string;
+  // Nothing authorized yet, or a capture/cancel claim pending: the intents stuck-intent recovery can act on.
+  awaitingProviderAnswer?: boolean;
 }
 
 export interface PaymentIntentListResult {
@@ -84,8 +93,47 @@ export interface ChargebackListResult {
   nextCursor?: string;
 }
 
+export interface PaymentReviewListInput {
+  limit: number;
+  cursor?: string;
+  paymentIntentId?: string;
+  status?: PaymentReviewStatus;
+}
+
+export interface PaymentReviewListResult {
+  data: PaymentReviewRecord[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+export interface IntentRecoveryListInput {
+  limit: number;
+  cursor?: string;
+  paymentIntentId?: string;
+}
+
+export interface IntentRecoveryListResult {
+  data: IntentRecoveryRecord[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+export interface CircuitOverrideListInput {
+  limit: number;
+  cursor?: string;
+  provider?: string;
+}
+
+export interface CircuitOverrideListResult {
+  data: CircuitOverrideRecord[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
 export interface PaymentRepositoryPort {
-  savePaymentIntent(intent: PaymentIntentRecord): Promise<void>;
+  // With expectedVersion the save only succeeds while the stored version still
+  // matches it, and throws 409 concurrent_modification otherwise.
+  savePaymentIntent(intent: PaymentIntentRecord, expectedVersion?: number): Promise<void>;
   getPaymentIntentById(id: string): Promise<PaymentIntentRecord | null>;
   listPaymentIntents(input: PaymentIntentListInput): Promise<PaymentIntentListResult>;
   saveRefund(refund: RefundRecord): Promise<void>;
@@ -93,6 +141,16 @@ export interface PaymentRepositoryPort {
   saveChargeback(chargeback: ChargebackRecord): Promise<void>;
   getChargebackById(id: string): Promise<ChargebackRecord | null>;
   listChargebacks(input: ChargebackListInput): Promise<ChargebackListResult>;
+  savePaymentReview(review: PaymentReviewRecord): Promise<void>;
+  getPaymentReviewByPaymentIntentId(paymentIntentId: string): Promise<PaymentReviewRecord | null>;
+  listPaymentReviews(input: PaymentReviewListInput): Promise<PaymentReviewListResult>;
+  // Inbox for inbound provider notifications: false when this provider already delivered the id.
+  recordProviderNotification(notification: ProviderNotificationRecord): Promise<boolean>;
+  getProviderNotification(provider: string, notificationId: string): Promise<ProviderNotificationRecord | null>;
+  saveIntentRecovery(recovery: IntentRecoveryRecord): Promise<void>;
+  listIntentRecoveries(input: IntentRecoveryListInput): Promise<IntentRecoveryListResult>;
+  saveCircuitOverride(override: CircuitOverrideRecord): Promise<void>;
+  listCircuitOverrides(input: CircuitOverrideListInput): Promise<CircuitOverrideListResult>;
   saveLedgerEntry(entry: LedgerEntryRecord): Promise<void>;
   listLedgerEntries(input: LedgerEntryListInput): Promise<LedgerEntryListResult>;
 }
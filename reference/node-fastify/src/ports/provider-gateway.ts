@@ -1,43 +1,98 @@
-import type { PaymentMethodType } from "../domain/types.js";
+import type { DeclineCode } from "../domain/decline-codes.js";
+import type { NextAction, PaymentMethodType, ProviderPaymentStatus } from "../domain/types.js";
 
 export interface AuthorizeInput {
   amount: number;
   currency: string;
   paymentMethodType: PaymentMethodType;
   paymentMethodToken: string;
+  // Our id for the payment (the intent id), so it can be looked up even if the provider reference was lost.
+  merchantReference: string;
 }
 
 export interface AuthorizeResult {
   ok: boolean;
   reference: string;
+  // The provider's own code, kept for support; declineCode is what the module acts on.
   failureCode?: string;
+  declineCode?: DeclineCode;
+  // With ok, the authorization stays pending until the customer completes this step.
+  nextAction?: NextAction;
+  // With ok, the provider accepted the payment but reports the outcome later through a notification.
+  pending?: boolean;
+}
+
+export interface CompleteAuthorizationInput {
+  amount: number;
+  currency: string;
+  reference: string;
+  actionResult: Record<string, string>;
+}
+
+export interface ProviderStatusResult {
+  status: ProviderPaymentStatus;
+  reference?: string;
+  failureCode?: string;
+  declineCode?: DeclineCode;
+  nextAction?: NextAction;
 }
 
 export interface CaptureInput {
   amount: number;
   reference: string;
+  // Repeated calls with the same key must be applied once; only keyed calls are retried on the same provider.
+  idempotencyKey?: string;
 }
 
 export interface CaptureResult {
   ok: boolean;
   failureCode?: string;
+  declineCode?: DeclineCode;
 }
 
 export interface RefundInput {
   amount: number;
   reference: string;
+  idempotencyKey?: string;
 }
 
 export interface RefundResult {
   ok: boolean;
   failureCode?: string;
+  declineCode?: DeclineCode;
+}
+
+export interface ReverseAuthorizationInput {
+  amount: number;
+  reference: string;
+  idempotencyKey?: string;
+}
+
+export interface ReverseAuthorizationResult {
+  ok: boolean;
+  failureCode?: string;
+  declineCode?: DeclineCode;
+}
+
+export interface ProviderCallOptions {
+  // Aborted once the caller stopped waiting; adapters should cancel the outgoing request.
+  signal?: AbortSignal;
 }
 
 export interface ProviderGatewayPort {
   readonly name: string;
   supports(paymentMethod: PaymentMethodType): boolean;
-  authorize(input: AuthorizeInput): Promise<AuthorizeResult>;
-  capture(input: CaptureInput): Promise<CaptureResult>;
-  refund(input: RefundInput): Promise<RefundResult>;
+  authorize(input: AuthorizeInput, options?: ProviderCallOptions): Promise<AuthorizeResult>;
+  // Finishes an authorization that returned a next action once the customer acted on it.
+  completeAuthorization(input: CompleteAuthorizationInput, options?: ProviderCallOptions): Promise<AuthorizeResult>;
+  // Looks up an authorization by provider reference or by the merchant reference sent with authorize.
+  getStatus(reference: string, options?: ProviderCallOptions): Promise<ProviderStatusResult>;
+  capture(input: CaptureInput, options?: ProviderCallOptions): Promise<CaptureResult>;
+  refund(input: RefundInput, options?: ProviderCallOptions): Promise<RefundResult>;
+  // Voids all or part of an uncaptured authorization hold.
+  reverseAuthorization(
+    input: ReverseAuthorizationInput,
+    options?: ProviderCallOptions,
+  ): Promise<ReverseAuthorizationResult>;
 }
 
@@ -0,0 +1,24 @@
+export interface ProviderNotificationRequest {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: string;
+}
+
+export type ProviderNotificationStatus = "succeeded" | "failed";
+
+export interface ProviderNotification {
+  // Provider-assigned id; redeliveries of the same notification share it.
+  id: string;
+  providerReference: string;
+  status: ProviderNotificationStatus;
+  failureCode?: string;
+}
+
+export interface ProviderNotificationVerifierPort {
+  readonly provider: string;
+  /**
+   * Checks the signature and replay window, then parses the body. Throws
+   * AppError 401 for unsigned, forged or stale requests and 422 for bodies
+   * that cannot be mapped.
+   */
+  verify(request: ProviderNotificationRequest): ProviderNotification;
+}
@@ -0,0 +1,16 @@
+import type { PaymentEvent } from "../domain/types.js";
+import type { PaymentRepositoryPort } from "./payment-repository.js";
+
+export interface UnitOfWorkContext {
+  repository: PaymentRepositoryPort;
+  /** Stages an event; it is published only if the whole unit commits. */
+  publish(event: PaymentEvent): void;
+}
+
+export interface UnitOfWorkPort {
+  /**
+   * Runs `work` so that its repository writes and staged events commit
+   * together. If `work` throws, nothing it wrote or staged becomes visible.
+   */
+  run<TResult>(work: (context: UnitOfWorkContext) => Promise<TResult>): Promise<TResult>;
+}
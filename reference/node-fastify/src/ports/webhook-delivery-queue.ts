@@ -0,0 +1,8 @@
+import type { WebhookQueuedDeliveryRecord } from "../domain/types.js";
+
+export interface WebhookDeliveryQueuePort {
+  enqueue(delivery: WebhookQueuedDeliveryRecord): Promise<void>;
+  claimDue(input: { now: string; limit: number; leaseUntil: string }): Promise<WebhookQueuedDeliveryRecord[]>;
+  reschedule(deliveryId: string, attempt: number, nextAttemptAt: string): Promise<void>;
+  complete(deliveryId: string): Promise<void>;
+}
@@ -9,6 +9,8 @@ export interface WebhookSendResult {
   ok: boolean;
   statusCode?: number;
   errorCode?: string;
+  // The start of the endpoint's response, capped by the sender.
+  responseBody?: string;
 }
 
 export interface WebhookSenderPort {
@@ -4,30 +4,58 @@ import { createHash } from "node:crypto";
 import { Pool } from "pg";
 import { PaymentOrchestrator } from "./application/payment-orchestrator.js";
 import { ProviderRouter } from "./application/provider-router.js";
+import type { RoutingPolicy } from "./application/provider-router.js";
+import { AdaptiveRoutingStrategy, PriorityRoutingStrategy } from "./application/routing-strategies.js";
+import { ResilientProviderGateway } from "./application/resilient-provider-gateway.js";
+import type { ProviderResiliencePolicy } from "./application/resilient-provider-gateway.js";
+import { AuthorizationExpirySweeper } from "./application/authorization-expiry-sweeper.js";
+import { StuckIntentRecoverySweeper } from "./application/stuck-intent-recovery-sweeper.js";
+import { WebhookDeliveryWorker } from "./application/webhook-delivery-worker.js";
 import { WebhookDispatcher } from "./application/webhook-dispatcher.js";
 import { WebhookService } from "./application/webhook-service.js";
+import { PgRedisOutboxRelay } from "./adapters/durable/outbox-relay.js";
 import { PgRedisDurableEventBus } from "./adapters/durable/pg-redis-event-bus.js";
+import { HttpNotificationVerifier } from "./adapters/http/notification-verifier.js";
+import { HttpProviderGateway } from "./adapters/http/provider-gateway.js";
+import { HttpWebhookSender } from "./adapters/http/webhook-sender.js";
 import { InMemoryEventBus } from "./adapters/inmemory/event-bus.js";
 import { InMemoryIdempotencyStore } from "./adapters/inmemory/idempotency-store.js";
 import { InMemoryPaymentRepository } from "./adapters/inmemory/payment-repository.js";
 import { InMemoryRiskEngine } from "./adapters/inmemory/risk-engine.js";
+import { InMemoryUnitOfWork } from "./adapters/inmemory/unit-of-work.js";
+import { InMemoryWebhookDeliveryQueue } from "./adapters/inmemory/webhook-delivery-queue.js";
 import { InMemoryWebhookRepository } from "./adapters/inmemory/webhook-repository.js";
 import { InMemoryWebhookSender } from "./adapters/inmemory/webhook-sender.js";
 import { PostgresIdempotencyStore } from "./adapters/postgres/idempotency-store.js";
 import { PostgresPaymentRepository } from "./adapters/postgres/payment-repository.js";
+import { PostgresUnitOfWork, type TransactionalOutbox } from "./adapters/postgres/unit-of-work.js";
+import { PostgresWebhookDeliveryQueue } from "./adapters/postgres/webhook-delivery-queue.js";
+import { PostgresWebhookRepository } from "./adapters/postgres/webhook-repository.js";
+import { RedisCircuitStateStore } from "./adapters/redis/circuit-state-store.js";
 import { RedisRateLimiter } from "./adapters/redis/rate-limiter.js";
-import { MockProviderGateway } from "./adapters/providers/mock-provider.js";
-import type { PaymentEvent, WebhookEndpointRecord } from "./domain/types.js";
+import { MockNotificationVerifier } from "./adapters/providers/mock-notifications.js";
+import { SandboxProviderGateway, sandboxTestTokens } from "./adapters/providers/sandbox-provider.js";
+import type { PaymentEvent, PaymentIntentResponse, WebhookEndpointRecord } from "./domain/types.js";
 import { SystemClock } from "./infra/clock.js";
 import { CursorTokenService } from "./infra/cursor-token.js";
 import { AppError } from "./infra/app-error.js";
 import { PmcMetricsRegistry } from "./infra/metrics.js";
 import { InMemoryRateLimiter } from "./infra/rate-limiter.js";
+import { InMemoryCircuitStateStore } from "./infra/circuit-state-store.js";
+import { SandboxScenarioRegistry } from "./infra/sandbox-scenarios.js";
+import type { SandboxLatency, SandboxScenario } from "./infra/sandbox-scenarios.js";
 import type { EventBusPort } from "./ports/event-bus.js";
 import type { IdempotencyStorePort } from "./ports/idempotency-store.js";
+import type { ProviderNotificationVerifierPort } from "./ports/provider-notification.js";
 import type { RateLimiterPort } from "./ports/rate-limiter.js";
+import type { CircuitStateStorePort } from "./ports/circuit-state-store.js";
+import type { UnitOfWorkPort } from "./ports/unit-of-work.js";
+import type { WebhookDeliveryQueuePort } from "./ports/webhook-delivery-queue.js";
+import type { WebhookRepositoryPort } from "./ports/webhook-repository.js";
+import type { WebhookSenderPort } from "./ports/webhook-sender.js";
 import { loadRuntimeConfig, type RuntimeConfig } from "./infra/config.js";
 import {
+  assertActivateSandboxScenarioInput,
   assertCaptureInput,
   assertCreateChargebackInput,
   assertCreatePaymentIntentInput,
@@ -35,7 +63,11 @@ import {
   assertResolveChargebackInput,
   assertCreateWebhookEndpointInput,
   assertReplayDeadLettersBatchInput,
+  assertResumePaymentIntentInput,
+  assertReviewPaymentIntentInput,
   assertRotateWebhookSecretInput,
+  assertSimulateRoutingInput,
+  assertForceProviderCircuitInput,
   assertUpdateWebhookEndpointInput,
   normalizeChargebackStatus,
   normalizeCurrencyCode,
@@ -48,6 +80,7 @@ import {
   normalizePositiveInteger,
   normalizeRefundStatus,
   normalizeResourceId,
+  normalizeReviewStatus,
   normalizeWebhookDeadLetterStatus,
   normalizeWebhookEventType,
   normalizeIfMatch,
@@ -56,6 +89,15 @@ import {
 
 const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9._:-]+$/;
 
+// Used when the config file has no `routing.method_priority`.
+const defaultMethodPriority: RoutingPolicy["methodPriority"] = {
+  card: ["provider_b", "provider_a"],
+  pix: ["provider_a"],
+  boleto: ["provider_a"],
+  wallet: ["provider_b"],
+  bank_transfer: ["provider_b"],
+};
+
 function setIdempotencyReplayedHeader(
   reply: { header(name: string, value: string): unknown },
   replayed: boolean,
@@ -130,6 +172,11 @@ function rateLimitIdentityFromApiKey(apiKey: string): string {
   return createHash("sha256").update(apiKey).digest("hex");
 }
 
+// Audit rows name the caller by a prefix of the key's hash, so the key itself is never stored.
+function auditActorFromApiKey(apiKey: string): string {
+  return `api_key:${createHash("sha256").update(apiKey).digest("hex").slice(0, 16)}`;
+}
+
 function webhookEndpointEtag(endpoint: WebhookEndpointRecord): string {
   const canonical = JSON.stringify({
     id: endpoint.id,
@@ -143,6 +190,53 @@ function webhookEndpointEtag(endpoint: WebhookEndpointRecord): string {
   return `"${digest.slice(0, 24)}"`;
 }
 
+function paymentIntentEtag(intent: PaymentIntentResponse): string {
+  return `"${intent.id}.v${intent.version}"`;
+}
+
+// Maps If-Match to the version the mutation must still find; "*" matches any version.
+function expectedPaymentIntentVersion(id: string, ifMatch: string | undefined): number | undefined {
+  if (!ifMatch || ifMatch === "*") {
+    return undefined;
+  }
+  const match = /^"(.+)\.v(\d+)"$/.exec(ifMatch);
+  if (!match || match[1] !== id) {
+    throw new AppError(412, "precondition_failed", "If-Match precondition failed.");
+  }
+  return Number(match[2]);
+}
+
+function presentSandboxLatency(latency: SandboxLatency | undefined): { min: number; max: number } | null {
+  return latency ? { min: latency.minMs, max: latency.maxMs } : null;
+}
+
+function presentSandboxScenario(scenario: SandboxScenario, activeName: string): Record<string, unknown> {
+  return {
+    name: scenario.name,
+    description: scenario.description,
+    active: scenario.name === activeName,
+    providers: Object.fromEntries(
+      Object.entries(scenario.providers).map(([provider, profile]) => [
+        provider,
+        {
+          latency_ms: presentSandboxLatency(profile.latencyMs),
+          operations: Object.fromEntries(
+            Object.entries(profile.operations).map(([operation, operationProfile]) => [
+              operation,
+              {
+                latency_ms: presentSandboxLatency(operationProfile.latencyMs),
+                failure_rate: operationProfile.failureRate,
+                failure_code: operationProfile.failureCode,
+              },
+            ]),
+          ),
+          settlement_delay_ms: profile.settlementDelayMs ?? null,
+        },
+      ]),
+    ),
+  };
+}
+
 export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyInstance {
   const app = Fastify({ logger: false });
   const metrics = new PmcMetricsRegistry();
@@ -156,6 +250,7 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
       config.paymentBackend === "postgres"
       || config.idempotencyBackend === "postgres"
       || config.eventBusBackend === "durable"
+      || config.webhookBackend === "postgres"
     )
       ? new Pool({ connectionString: config.postgresUrl })
       : null;
@@ -166,7 +261,12 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
   }
 
   const redisClient =
-    config.redisUrl && (config.rateLimitBackend === "redis" || config.eventBusBackend === "durable")
+    config.redisUrl
+    && (
+      config.rateLimitBackend === "redis"
+      || config.eventBusBackend === "durable"
+      || config.providerCircuitBreakerBackend === "redis"
+    )
       ? new Redis(config.redisUrl, {
         lazyConnect: false,
         maxRetriesPerRequest: 1,
@@ -221,6 +321,7 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
   }
 
   let eventBus: EventBusPort;
+  let transactionalOutbox: TransactionalOutbox | null = null;
   if (config.eventBusBackend === "durable") {
     if (!postgresPool || !redisClient) {
       throw new AppError(
@@ -235,71 +336,259 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
       consumerName: config.eventConsumerName ?? `pmc-${process.pid}`,
       blockMs: config.eventConsumerBlockMs ?? 1000,
       batchSize: config.eventConsumerBatchSize ?? 20,
+      deadLetterStreamKey: config.eventDeadLetterStreamKey ?? `${config.eventStreamKey ?? "pmc:events"}:dead`,
+      claimIdleMs: config.eventClaimIdleMs ?? 60000,
+      claimIntervalMs: config.eventClaimIntervalMs ?? 5000,
+      maxDeliveries: config.eventMaxDeliveries ?? 5,
     });
     eventBus = durableEventBus;
+    transactionalOutbox = durableEventBus;
     closeActions.push(async () => {
       await durableEventBus.close();
     });
+
+    const outboxRelay = new PgRedisOutboxRelay(postgresPool, redisClient, {
+      streamKey: config.eventStreamKey ?? "pmc:events",
+      batchSize: config.outboxRelayBatchSize ?? 100,
+      pollIntervalMs: config.outboxRelayIntervalMs ?? 1000,
+      minAgeMs: config.outboxRelayMinAgeMs ?? 5000,
+      onPass: (stats) => {
+        metrics.recordOutboxRelayPass(stats.relayed, stats.pending, stats.lagSeconds);
+      },
+    });
+    outboxRelay.start();
+    closeActions.push(async () => {
+      await outboxRelay.stop();
+    });
   } else {
     eventBus = new InMemoryEventBus();
   }
-  const webhookRepository = new InMemoryWebhookRepository();
-  const webhookSender = new InMemoryWebhookSender();
+  let webhookRepository: WebhookRepositoryPort;
+  let webhookDeliveryQueue: WebhookDeliveryQueuePort;
+  if (config.webhookBackend === "postgres") {
+    if (!postgresPool) {
+      throw new AppError(500, "invalid_runtime_config", "Postgres webhook backend requested without PostgreSQL.");
+    }
+    webhookRepository = new PostgresWebhookRepository(postgresPool);
+    webhookDeliveryQueue = new PostgresWebhookDeliveryQueue(postgresPool);
+  } else {
+    webhookRepository = new InMemoryWebhookRepository();
+    webhookDeliveryQueue = new InMemoryWebhookDeliveryQueue();
+  }
+  let webhookSender: WebhookSenderPort;
+  if (config.webhookSender === "http") {
+    const httpWebhookSender = new HttpWebhookSender({
+      requireHttps: config.webhookRequireHttps ?? true,
+      allowPrivateNetworks: config.webhookAllowPrivateNetworks ?? false,
+      maxResponseBodyBytes: config.webhookMaxResponseBytes ?? 4096,
+    });
+    closeActions.push(async () => {
+      await httpWebhookSender.close();
+    });
+    webhookSender = httpWebhookSender;
+  } else {
+    webhookSender = new InMemoryWebhookSender();
+  }
   const riskEngine = new InMemoryRiskEngine({ reviewAmountThreshold: config.riskReviewAmountThreshold });
   const cursorTokens = new CursorTokenService(config.cursorSecret, config.cursorVerificationSecrets);
 
-  const providers = [
-    new MockProviderGateway({
+  const providerResilience: ProviderResiliencePolicy = {
+    timeoutMs: {
+      authorize: config.providerAuthorizeTimeoutMs ?? 10_000,
+      capture: config.providerCaptureTimeoutMs ?? 10_000,
+      refund: config.providerRefundTimeoutMs ?? 10_000,
+    },
+    maxAttempts: config.providerRetryMaxAttempts ?? 2,
+    backoffMs: config.providerRetryBackoffMs ?? [100, 300],
+    retryOn: config.providerRetryOn ?? ["timeout", "network_error"],
+  };
+  const httpProviders = (config.routing?.httpProviders ?? []).map((providerConfig) => {
+    const provider = new HttpProviderGateway(providerConfig);
+    closeActions.push(async () => {
+      await provider.close();
+    });
+    return provider;
+  });
+  const sandboxScenarios = new SandboxScenarioRegistry(
+    config.routing?.sandbox.scenarios ?? [],
+    config.sandboxScenario ?? "default",
+  );
+  // An HTTP provider configured under a built-in name replaces that sandbox provider.
+  const httpProviderNames = new Set(httpProviders.map((provider) => provider.name));
+  const sandboxProviders = [
+    new SandboxProviderGateway({
       name: "provider_a",
       supportedMethods: ["card", "pix", "boleto"],
+      scenarios: sandboxScenarios,
+      clock,
     }),
-    new MockProviderGateway({
+    new SandboxProviderGateway({
       name: "provider_b",
       supportedMethods: ["card", "wallet", "bank_transfer"],
+      scenarios: sandboxScenarios,
+      clock,
     }),
-  ];
+  ].filter((provider) => !httpProviderNames.has(provider.name));
+  const providers = [...sandboxProviders, ...httpProviders].map((provider) => new ResilientProviderGateway(provider, providerResilience, {
+    onRetry: (operation, declineCode) => {
+      metrics.recordProviderCallRetry(provider.name, operation, declineCode);
+    },
+    onTimeout: (operation) => {
+      metrics.recordProviderCallTimeout(provider.name, operation);
+    },
+  }));
+
+  let circuitStateStore: CircuitStateStorePort;
+  if (config.providerCircuitBreakerBackend === "redis") {
+    if (!redisClient) {
+      throw new AppError(500, "invalid_runtime_config", "Redis circuit breaker state requested without Redis client.");
+    }
+    circuitStateStore = new RedisCircuitStateStore(redisClient, {
+      keyPrefix: config.redisCircuitPrefix ?? "pmc:circuit",
+      fallback: new InMemoryCircuitStateStore(),
+      onUnavailable: () => {
+        metrics.recordCircuitStoreFallback();
+      },
+    });
+  } else {
+    circuitStateStore = new InMemoryCircuitStateStore();
+  }
 
   const providerRouter = new ProviderRouter(providers, {
-    defaultProvider: "provider_a",
-    methodPriority: {
-      card: ["provider_b", "provider_a"],
-      pix: ["provider_a"],
-      boleto: ["provider_a"],
-      wallet: ["provider_b"],
-      bank_transfer: ["provider_b"],
-    },
+    defaultProvider: config.routing?.defaultProvider ?? "provider_a",
+    rules: config.routing?.rules ?? [],
+    methodWeights: config.routing?.methodWeights ?? {},
+    ...(config.routing?.splitKey ? { splitKey: config.routing.splitKey } : {}),
+    methodPriority: config.routing?.methodPriority ?? defaultMethodPriority,
   }, {
     clock,
+    strategy: config.routingStrategy === "adaptive"
+      ? new AdaptiveRoutingStrategy({
+        windowSeconds: config.routingAdaptiveWindowSeconds ?? 300,
+        explorationRate: (config.routingAdaptiveExplorationPercent ?? 5) / 100,
+        fees: config.routing?.providerFees ?? {},
+        clock,
+      })
+      : new PriorityRoutingStrategy(),
     circuitBreaker: {
       enabled: config.providerCircuitBreakerEnabled,
       failureThreshold: config.providerCircuitBreakerFailureThreshold,
       cooldownSeconds: config.providerCircuitBreakerCooldownSeconds,
       transientFailuresOnly: config.providerCircuitBreakerTransientOnly,
+      failureRateThreshold: (config.providerCircuitBreakerFailureRatePercent ?? 50) / 100,
+      windowSeconds: config.providerCircuitBreakerWindowSeconds ?? 60,
+      minimumCalls: config.providerCircuitBreakerMinimumCalls ?? 10,
+      halfOpenMaxCalls: config.providerCircuitBreakerHalfOpenMaxCalls ?? 1,
+    },
+    circuitStateStore,
+    onCircuitStateChange: (change) => {
+      void orchestrator.publishCircuitStateChange(change).catch(() => {
+        // The breaker already switched; a lost event only leaves subscribers without this transition.
+      });
     },
   });
+  if (config.providerCircuitBreakerBackend === "redis") {
+    // Routing reads the last state this instance saw; polling picks up circuits other instances opened.
+    const circuitSyncTimer = setInterval(() => {
+      void providerRouter.refreshCircuits().catch(() => {
+        // The store already fell back to local state; the next tick retries.
+      });
+    }, config.providerCircuitBreakerSyncIntervalMs ?? 1000);
+    circuitSyncTimer.unref();
+    closeActions.push(async () => {
+      clearInterval(circuitSyncTimer);
+    });
+  }
+
+  // Each provider checks its own notifications; providers without a verifier get none routed to them.
+  const notificationVerifiers = new Map<string, ProviderNotificationVerifierPort>();
+  for (const provider of sandboxProviders) {
+    const secret = config.providerNotificationSecrets?.[provider.name];
+    if (secret) {
+      notificationVerifiers.set(provider.name, new MockNotificationVerifier({
+        provider: provider.name,
+        secret,
+        toleranceSeconds: config.providerNotificationToleranceSeconds ?? 300,
+        clock,
+      }));
+    }
+  }
+  for (const providerConfig of config.routing?.httpProviders ?? []) {
+    if (providerConfig.notifications) {
+      notificationVerifiers.set(
+        providerConfig.name,
+        new HttpNotificationVerifier(providerConfig.name, providerConfig.notifications, clock),
+      );
+    }
+  }
+
+  const unitOfWork: UnitOfWorkPort =
+    config.paymentBackend === "postgres" && postgresPool
+      ? new PostgresUnitOfWork(postgresPool, eventBus, transactionalOutbox)
+      : new InMemoryUnitOfWork(repository, eventBus);
 
   const orchestrator = new PaymentOrchestrator(
     repository,
     idempotencyStore,
-    eventBus,
+    unitOfWork,
     providerRouter,
     riskEngine,
     clock,
     config.eventApiVersion,
     config.eventSource,
     config.eventSchemaVersion,
+    config.authorizationTtlSeconds ?? {},
   );
+  const authorizationExpirySweeper = new AuthorizationExpirySweeper(orchestrator, {
+    sweepIntervalMs: config.authorizationExpirySweepIntervalMs ?? 60000,
+    batchSize: config.authorizationExpirySweepBatchSize ?? 100,
+  });
+  authorizationExpirySweeper.start();
+  closeActions.push(async () => {
+    await authorizationExpirySweeper.stop();
+  });
+  const stuckIntentRecoverySweeper = new StuckIntentRecoverySweeper(orchestrator, {
+    sweepIntervalMs: config.stuckIntentSweepIntervalMs ?? 60000,
+    batchSize: config.stuckIntentSweepBatchSize ?? 100,
+    stuckAfterSeconds: config.stuckIntentThresholdSeconds ?? 300,
+    onRecovered: (recovery) => {
+      metrics.recordStuckIntentRecovery(recovery.provider_status, recovery.resolved_status);
+    },
+  });
+  stuckIntentRecoverySweeper.start();
+  closeActions.push(async () => {
+    await stuckIntentRecoverySweeper.stop();
+  });
   const webhookService = new WebhookService(webhookRepository, webhookSender, clock, cursorTokens, {
     deliveryTimeoutMs: config.webhookTimeoutMs,
   });
-  const webhookDispatcher = new WebhookDispatcher(webhookRepository, webhookSender, clock, {
+  const webhookDispatcher = new WebhookDispatcher(webhookRepository, webhookDeliveryQueue, webhookSender, clock, {
     maxAttempts: config.webhookMaxAttempts,
     timeoutMs: config.webhookTimeoutMs,
+    backoffSeconds: config.webhookBackoffSeconds,
+  });
+  const webhookDeliveryWorker = new WebhookDeliveryWorker(webhookDispatcher, {
+    pollIntervalMs: config.webhookWorkerPollIntervalMs,
+    batchSize: config.webhookWorkerBatchSize,
+  });
+  webhookDeliveryWorker.start();
+  closeActions.push(async () => {
+    await webhookDeliveryWorker.stop();
   });
 
   eventBus.subscribe(async (event) => {
     metrics.recordPublishedEvent(event.type);
-    await webhookDispatcher.dispatch(event);
+    // Only authorization outcomes carry the decision label, so cohorts compare like for like.
+    if (typeof event.data.routing_decision === "string") {
+      metrics.recordRoutingOutcome(
+        event.data.routing_decision,
+        event.type === "payment_intent.failed" ? "failed" : "authorized",
+      );
+    }
+    const queued = await webhookDispatcher.enqueue(event);
+    if (queued > 0) {
+      webhookDeliveryWorker.wake();
+    }
   });
 
   app.get("/health/live", async (_, reply) => {
@@ -318,6 +607,11 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
     if (config.metricsEnabled && request.url === "/metrics") {
       return;
     }
+    if (request.url.startsWith("/v1/provider-notifications/")) {
+      // Providers authenticate with a signature over the raw body, checked by the route.
+      reply.header("X-Request-Id", request.id);
+      return;
+    }
     const apiKey = requireBearerApiKey(request.headers, validApiKeys);
     reply.header("X-Request-Id", request.id);
     if (!config.rateLimitEnabled) {
@@ -358,6 +652,7 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
     assertCreatePaymentIntentInput(request.body);
     const result = await orchestrator.createPaymentIntent(request.body, idempotencyKey);
     setIdempotencyReplayedHeader(reply, result.idempotencyReplayed);
+    reply.header("ETag", paymentIntentEtag(result.body));
     if (result.idempotencyReplayed) {
       metrics.recordIdempotencyReplay("create_payment_intent");
     }
@@ -378,6 +673,7 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
       payment_method_type?: string;
       created_from?: string;
       created_to?: string;
+      authorization_expires_before?: string;
     };
     const limit = normalizeLimit(query.limit, config.listDefaultLimit, config.listMaxLimit);
     const cursor = normalizeCursor(query.cursor);
@@ -391,6 +687,10 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
     const paymentMethodType = normalizePaymentMethodType(query.payment_method_type);
     const createdFrom = normalizeIsoDateTime(query.created_from, "created_from");
     const createdTo = normalizeIsoDateTime(query.created_to, "created_to");
+    const authorizationExpiresBefore = normalizeIsoDateTime(
+      query.authorization_expires_before,
+      "authorization_expires_before",
+    );
     if (amountMin !== undefined && amountMax !== undefined && amountMin > amountMax) {
       throw new AppError(422, "invalid_amount_range", "amount_min must be lower or equal to amount_max.");
     }
@@ -411,6 +711,7 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
       ...(paymentMethodType ? { paymentMethodType } : {}),
       ...(createdFrom ? { createdFrom } : {}),
       ...(createdTo ? { createdTo } : {}),
+      ...(authorizationExpiresBefore ? { authorizationExpiresBefore } : {}),
     });
     return reply.status(200).send({
       data: page.data,
@@ -428,6 +729,7 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
       throw new AppError(400, "invalid_path_parameter", "Payment intent id is required.");
     }
     const paymentIntent = await orchestrator.getPaymentIntentById(params.id);
+    reply.header("ETag", paymentIntentEtag(paymentIntent));
     return reply.status(200).send(paymentIntent);
   });
 
@@ -438,8 +740,12 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
     }
     const idempotencyKey = requireIdempotencyKey(request.headers, config.idempotencyKeyMaxLength);
     setIdempotencyKeyEchoHeader(reply, idempotencyKey);
-    const result = await orchestrator.confirmPaymentIntent(params.id, idempotencyKey);
+    const expectedVersion = expectedPaymentIntentVersion(params.id, normalizeIfMatch(request.headers["if-match"]));
+    const result = await orchestrator.confirmPaymentIntent(params.id, idempotencyKey, {
+      ...(expectedVersion !== undefined ? { expectedVersion } : {}),
+    });
     setIdempotencyReplayedHeader(reply, result.idempotencyReplayed);
+    reply.header("ETag", paymentIntentEtag(result.body));
     if (result.idempotencyReplayed) {
       metrics.recordIdempotencyReplay("confirm_payment_intent");
     }
@@ -454,8 +760,13 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
     const idempotencyKey = requireIdempotencyKey(request.headers, config.idempotencyKeyMaxLength);
     setIdempotencyKeyEchoHeader(reply, idempotencyKey);
     assertCaptureInput(request.body);
-    const result = await orchestrator.capturePaymentIntent(params.id, request.body.amount, idempotencyKey);
+    const expectedVersion = expectedPaymentIntentVersion(params.id, normalizeIfMatch(request.headers["if-match"]));
+    const result = await orchestrator.capturePaymentIntent(params.id, request.body.amount, idempotencyKey, {
+      ...(expectedVersion !== undefined ? { expectedVersion } : {}),
+      ...(request.body.final_capture ? { finalCapture: true } : {}),
+    });
     setIdempotencyReplayedHeader(reply, result.idempotencyReplayed);
+    reply.header("ETag", paymentIntentEtag(result.body));
     if (result.idempotencyReplayed) {
       metrics.recordIdempotencyReplay("capture_payment_intent");
     }
@@ -469,14 +780,208 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
     }
     const idempotencyKey = requireIdempotencyKey(request.headers, config.idempotencyKeyMaxLength);
     setIdempotencyKeyEchoHeader(reply, idempotencyKey);
-    const result = await orchestrator.cancelPaymentIntent(params.id, idempotencyKey);
+    const expectedVersion = expectedPaymentIntentVersion(params.id, normalizeIfMatch(request.headers["if-match"]));
+    const result = await orchestrator.cancelPaymentIntent(params.id, idempotencyKey, {
+      ...(expectedVersion !== undefined ? { expectedVersion } : {}),
+    });
     setIdempotencyReplayedHeader(reply, result.idempotencyReplayed);
+    reply.header("ETag", paymentIntentEtag(result.body));
     if (result.idempotencyReplayed) {
       metrics.recordIdempotencyReplay("cancel_payment_intent");
     }
     return reply.status(result.statusCode).send(result.body);
   });
 
+  app.post("/v1/payment-intents/:id/resume", async (request, reply) => {
+    const params = request.params as { id?: string };
+    if (!params.id) {
+      throw new AppError(400, "invalid_path_parameter", "Payment intent id is required.");
+    }
+    const idempotencyKey = requireIdempotencyKey(request.headers, config.idempotencyKeyMaxLength);
+    setIdempotencyKeyEchoHeader(reply, idempotencyKey);
+    assertResumePaymentIntentInput(request.body);
+    const expectedVersion = expectedPaymentIntentVersion(params.id, normalizeIfMatch(request.headers["if-match"]));
+    const actionResult = request.body?.action_result;
+    const result = await orchestrator.resumePaymentIntent(
+      params.id,
+      actionResult ? { action_result: actionResult } : {},
+      idempotencyKey,
+      {
+        ...(expectedVersion !== undefined ? { expectedVersion } : {}),
+      },
+    );
+    setIdempotencyReplayedHeader(reply, result.idempotencyReplayed);
+    reply.header("ETag", paymentIntentEtag(result.body));
+    if (result.idempotencyReplayed) {
+      metrics.recordIdempotencyReplay("resume_payment_intent");
+    }
+    return reply.status(result.statusCode).send(result.body);
+  });
+
+  app.post("/v1/payment-intents/:id/review", async (request, reply) => {
+    const params = request.params as { id?: string };
+    if (!params.id) {
+      throw new AppError(400, "invalid_path_parameter", "Payment intent id is required.");
+    }
+    const idempotencyKey = requireIdempotencyKey(request.headers, config.idempotencyKeyMaxLength);
+    setIdempotencyKeyEchoHeader(reply, idempotencyKey);
+    assertReviewPaymentIntentInput(request.body);
+    const expectedVersion = expectedPaymentIntentVersion(params.id, normalizeIfMatch(request.headers["if-match"]));
+    const result = await orchestrator.reviewPaymentIntent(
+      params.id,
+      { decision: request.body.decision, note: request.body.note.trim() },
+      idempotencyKey,
+      {
+        ...(expectedVersion !== undefined ? { expectedVersion } : {}),
+      },
+    );
+    setIdempotencyReplayedHeader(reply, result.idempotencyReplayed);
+    reply.header("ETag", paymentIntentEtag(result.body));
+    if (result.idempotencyReplayed) {
+      metrics.recordIdempotencyReplay("review_payment_intent");
+    }
+    return reply.status(result.statusCode).send(result.body);
+  });
+
+  app.get("/v1/reviews", async (request, reply) => {
+    const query = request.query as {
+      limit?: string;
+      cursor?: string;
+      payment_intent_id?: string;
+      status?: string;
+    };
+    const limit = normalizeLimit(query.limit, config.listDefaultLimit, config.listMaxLimit);
+    const cursor = normalizeCursor(query.cursor);
+    const paymentIntentId = normalizeResourceId(query.payment_intent_id, "payment_intent_id");
+    const status = normalizeReviewStatus(query.status) ?? "pending";
+
+    const internalCursor = cursor ? cursorTokens.decode(cursor) : undefined;
+    const page = await orchestrator.listPaymentReviews({
+      limit,
+      status,
+      ...(internalCursor ? { cursor: internalCursor } : {}),
+      ...(paymentIntentId ? { paymentIntentId } : {}),
+    });
+    return reply.status(200).send({
+      data: page.data,
+      pagination: {
+        limit,
+        has_more: page.hasMore,
+        next_cursor: page.nextCursor ? cursorTokens.encode(page.nextCursor) : null,
+      },
+    });
+  });
+
+  app.get("/v1/intent-recoveries", async (request, reply) => {
+    const query = request.query as {
+      limit?: string;
+      cursor?: string;
+      payment_intent_id?: string;
+    };
+    const limit = normalizeLimit(query.limit, config.listDefaultLimit, config.listMaxLimit);
+    const cursor = normalizeCursor(query.cursor);
+    const paymentIntentId = normalizeResourceId(query.payment_intent_id, "payment_intent_id");
+
+    const internalCursor = cursor ? cursorTokens.decode(cursor) : undefined;
+    const page = await orchestrator.listIntentRecoveries({
+      limit,
+      ...(internalCursor ? { cursor: internalCursor } : {}),
+      ...(paymentIntentId ? { paymentIntentId } : {}),
+    });
+    return reply.status(200).send({
+      data: page.data,
+      pagination: {
+        limit,
+        has_more: page.hasMore,
+        next_cursor: page.nextCursor ? cursorTokens.encode(page.nextCursor) : null,
+      },
+    });
+  });
+
+  app.post("/v1/routing/simulate", async (request, reply) => {
+    assertSimulateRoutingInput(request.body);
+    return reply.status(200).send(orchestrator.simulateRouting(request.body));
+  });
+
+  app.get("/v1/routing/scores", async (_request, reply) => {
+    return reply.status(200).send(orchestrator.routingScores());
+  });
+
+  app.get("/v1/providers", async (_request, reply) => {
+    return reply.status(200).send(await orchestrator.listProviders());
+  });
+
+  app.post("/v1/providers/:name/circuit", async (request, reply) => {
+    const params = request.params as { name?: string };
+    if (!params.name) {
+      throw new AppError(400, "invalid_path_parameter", "Provider name is required.");
+    }
+    const idempotencyKey = requireIdempotencyKey(request.headers, config.idempotencyKeyMaxLength);
+    setIdempotencyKeyEchoHeader(reply, idempotencyKey);
+    assertForceProviderCircuitInput(request.body);
+    const actor = auditActorFromApiKey(requireBearerApiKey(request.headers, validApiKeys));
+    const result = await orchestrator.forceProviderCircuit(params.name, request.body, idempotencyKey, actor);
+    setIdempotencyReplayedHeader(reply, result.idempotencyReplayed);
+    if (result.idempotencyReplayed) {
+      metrics.recordIdempotencyReplay("force_provider_circuit");
+    }
+    return reply.status(result.statusCode).send(result.body);
+  });
+
+  app.get("/v1/circuit-overrides", async (request, reply) => {
+    const query = request.query as {
+      limit?: string;
+      cursor?: string;
+      provider?: string;
+    };
+    const limit = normalizeLimit(query.limit, config.listDefaultLimit, config.listMaxLimit);
+    const cursor = normalizeCursor(query.cursor);
+    const provider = normalizeResourceId(query.provider, "provider");
+
+    const internalCursor = cursor ? cursorTokens.decode(cursor) : undefined;
+    const page = await orchestrator.listCircuitOverrides({
+      limit,
+      ...(internalCursor ? { cursor: internalCursor } : {}),
+      ...(provider ? { provider } : {}),
+    });
+    return reply.status(200).send({
+      data: page.data,
+      pagination: {
+        limit,
+        has_more: page.hasMore,
+        next_cursor: page.nextCursor ? cursorTokens.encode(page.nextCursor) : null,
+      },
+    });
+  });
+
+  // The active scenario lives in this instance's memory and changes real provider outcomes, so these stay off in production.
+  if (config.sandboxAdminEnabled) {
+    app.get("/v1/sandbox/scenarios", async (_request, reply) => {
+      const activeName = sandboxScenarios.active().name;
+      return reply.status(200).send({
+        active: activeName,
+        data: sandboxScenarios.list().map((scenario) => presentSandboxScenario(scenario, activeName)),
+      });
+    });
+
+    // Only the built-in sandbox providers follow the scenario; HTTP providers are never affected.
+    app.put("/v1/sandbox/active-scenario", async (request, reply) => {
+      assertActivateSandboxScenarioInput(request.body);
+      const scenario = sandboxScenarios.activate(request.body.name.trim());
+      return reply.status(200).send(presentSandboxScenario(scenario, scenario.name));
+    });
+
+    app.get("/v1/sandbox/test-tokens", async (_request, reply) => {
+      return reply.status(200).send({
+        data: sandboxTestTokens.map((entry) => ({
+          token: entry.token,
+          description: entry.description,
+          providers: entry.providers ?? null,
+        })),
+      });
+    });
+  }
+
   app.post("/v1/refunds", async (request, reply) => {
     const idempotencyKey = requireIdempotencyKey(request.headers, config.idempotencyKeyMaxLength);
     setIdempotencyKeyEchoHeader(reply, idempotencyKey);
@@ -879,6 +1384,61 @@ export function buildApp(config: RuntimeConfig = loadRuntimeConfig()): FastifyIn
     return reply.status(200).send(result);
   });
 
+  app.get("/v1/event-dead-letters", async (request, reply) => {
+    const query = request.query as { limit?: string; cursor?: string };
+    const limit = normalizeLimit(query.limit, config.listDefaultLimit, config.listMaxLimit);
+    const cursor = normalizeCursor(query.cursor);
+    const internalCursor = cursor ? cursorTokens.decode(cursor) : undefined;
+    const page = await eventBus.listDeadLetters({
+      limit,
+      ...(internalCursor ? { cursor: internalCursor } : {}),
+    });
+    return reply.status(200).send({
+      data: page.data,
+      pagination: {
+        limit,
+        has_more: page.hasMore,
+        next_cursor: page.nextCursor ? cursorTokens.encode(page.nextCursor) : null,
+      },
+    });
+  });
+
+  app.post("/v1/event-dead-letters/:id/requeue", async (request, reply) => {
+    const params = request.params as { id?: string };
+    if (!params.id) {
+      throw new AppError(400, "invalid_path_parameter", "Event dead letter id is required.");
+    }
+    const deadLetter = await eventBus.requeueDeadLetter(params.id);
+    return reply.status(202).send(deadLetter);
+  });
+
+  void app.register(async (scope) => {
+    // Signatures cover the exact bytes the provider sent, so the body is kept as a string.
+    scope.addContentTypeParser("application/json", { parseAs: "string" }, (_request, body, done) => {
+      done(null, body);
+    });
+
+    scope.post("/v1/provider-notifications/:provider", async (request, reply) => {
+      const params = request.params as { provider?: string };
+      const verifier = params.provider ? notificationVerifiers.get(params.provider) : undefined;
+      if (!verifier) {
+        throw new AppError(
+          404,
+          "resource_not_found",
+          `Provider '${params.provider ?? ""}' has no notification verifier.`,
+        );
+      }
+      const rawBody = typeof request.body === "string" ? request.body : "";
+      const notification = verifier.verify({ headers: request.headers, rawBody });
+      const result = await orchestrator.handleProviderNotification(verifier.provider, notification);
+      return reply.status(200).send({
+        received: true,
+        outcome: result.outcome,
+        payment_intent_id: result.paymentIntentId,
+      });
+    });
+  });
+
   if (config.metricsEnabled) {
     app.get("/metrics", async (_request, reply) => {
       const payload = metrics.renderPrometheus();
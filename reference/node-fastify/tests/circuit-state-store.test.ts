@@ -0,0 +1,220 @@
+import type { Redis } from "ioredis";
+import { LuaFactory } from "wasmoon";
+import type { LuaEngine } from "wasmoon";
+import { afterEach, describe, expect, it } from "vitest";
+import { RedisCircuitStateStore } from "../src/adapters/redis/circuit-state-store.js";
+import { InMemoryCircuitStateStore } from "../src/infra/circuit-state-store.js";
+import type { CircuitStatePolicy, CircuitStateStorePort } from "../src/ports/circuit-state-store.js";
+
+/**
+ * Runs EVAL scripts in a real Lua VM with the hash and sorted-set commands the
+ * circuit script uses. Replies follow Redis: numbers are truncated to integers
+ * and false becomes null. Keys never expire here.
+ */
+class LuaRedis {
+  private engine: LuaEngine | null = null;
+  private readonly hashes = new Map<string, Map<string, string>>();
+  private readonly sortedSets = new Map<string, Map<string, number>>();
+
+  async eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<Array<number | string | null>> {
+    const engine = await this.start();
+    const reply: Array<number | string | null> = [];
+    engine.global.set("KEYS", args.slice(0, numKeys).map(String));
+    engine.global.set("ARGV", args.slice(numKeys).map(String));
+    engine.global.set("push_reply", (value: unknown) => {
+      reply.push(typeof value === "number" ? Math.trunc(value) : value === false ? null : String(value));
+    });
+    await engine.doString(`local reply = (function()\n${script}\nend)()\nfor i = 1, #reply do push_reply(reply[i]) end`);
+    return reply;
+  }
+
+  close(): void {
+    this.engine?.global.close();
+  }
+
+  private async start(): Promise<LuaEngine> {
+    if (!this.engine) {
+      this.engine = await new LuaFactory().createEngine();
+      // Redis runs Lua 5.1, where unpack is still a global.
+      await this.engine.doString("unpack = table.unpack");
+      this.engine.global.set("redis", {
+        call: (command: string, ...args: unknown[]) => this.call(command, args.map(String)),
+      });
+    }
+    return this.engine;
+  }
+
+  private call(command: string, args: string[]): unknown {
+    const [key = "", ...rest] = args;
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    const sortedSet = this.sortedSets.get(key) ?? new Map<string, number>();
+    const byScore = (): string[] =>
+      [...sortedSet.entries()].sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0])).map(([member]) => member);
+
+    switch (command.toUpperCase()) {
+      case "HGET":
+        return hash.get(rest[0] ?? "") ?? false;
+      case "HSET":
+        for (let index = 0; index + 1 < rest.length; index += 2) {
+          hash.set(rest[index] ?? "", rest[index + 1] ?? "");
+        }
+        this.hashes.set(key, hash);
+        return rest.length / 2;
+      case "DEL":
+        for (const name of args) {
+          this.hashes.delete(name);
+          this.sortedSets.delete(name);
+        }
+        return args.length;
+      case "PEXPIRE":
+        return 1;
+      case "ZADD":
+        sortedSet.set(rest[1] ?? "", Number(rest[0]));
+        this.sortedSets.set(key, sortedSet);
+        return 1;
+      case "ZCARD":
+        return sortedSet.size;
+      case "ZRANGE":
+        return byScore().slice(Number(rest[0]), Number(rest[1]) + 1);
+      case "ZREM":
+        return rest.filter((member) => sortedSet.delete(member)).length;
+      case "ZREMRANGEBYRANK":
+        return byScore().slice(Number(rest[0]), Number(rest[1]) + 1).filter((member) => sortedSet.delete(member)).length;
+      case "ZREMRANGEBYSCORE": {
+        const max = Number(rest[1]);
+        return [...sortedSet.entries()].filter(([member, score]) => score <= max && sortedSet.delete(member)).length;
+      }
+      default:
+        throw new Error(`LuaRedis does not implement ${command}.`);
+    }
+  }
+}
+
+const basePolicy: CircuitStatePolicy = {
+  failureThreshold: 3,
+  cooldownSeconds: 30,
+  failureRateThreshold: 0.5,
+  windowSeconds: 60,
+  minimumCalls: 10,
+  halfOpenMaxCalls: 2,
+};
+
+const redisClients: LuaRedis[] = [];
+
+// Both stores must walk the same state machine; the Redis one runs CIRCUIT_STEP_LUA for every command.
+const stores: Array<[string, () => CircuitStateStorePort]> = [
+  ["InMemoryCircuitStateStore", () => new InMemoryCircuitStateStore()],
+  ["RedisCircuitStateStore", () => {
+    const redis = new LuaRedis();
+    redisClients.push(redis);
+    return new RedisCircuitStateStore(redis as unknown as Redis, {
+      keyPrefix: "pmc:circuit",
+      // A script error must fail the test instead of being hidden by the fallback.
+      fallback: { apply: () => Promise.reject(new Error("circuit script failed")) },
+      timeoutMs: 5000,
+    });
+  }],
+];
+
+describe.each(stores)("%s", (_name, createStore) => {
+  afterEach(() => {
+    redisClients.splice(0).forEach((redis) => redis.close());
+  });
+
+  it("opens after the consecutive failure threshold and rejects calls until the cooldown", async () => {
+    const store = createStore();
+    const record = (failed: boolean, nowMs: number) => store.apply("provider_b", { type: "record", failed }, nowMs, basePolicy);
+
+    await record(true, 1000);
+    await record(true, 2000);
+    expect((await record(false, 3000)).snapshot).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+    await record(true, 4000);
+    await record(true, 5000);
+    const opened = await record(true, 6000);
+
+    expect(opened.transitions).toEqual([{ from: "closed", to: "open", reason: "consecutive_failures" }]);
+    expect(opened.snapshot).toMatchObject({ state: "open", openedUntilMs: 36_000, windowCalls: 0, windowFailures: 0 });
+    expect((await store.apply("provider_b", { type: "acquire" }, 35_999, basePolicy)).acquired).toBe(false);
+    // Answers to calls started before the circuit opened do not change it.
+    expect((await record(true, 20_000)).transitions).toEqual([]);
+  });
+
+  it("opens on the failure rate of the rolling window only", async () => {
+    const store = createStore();
+    const policy = { ...basePolicy, failureThreshold: 100, minimumCalls: 4 };
+    const record = (failed: boolean, nowMs: number) => store.apply("provider_b", { type: "record", failed }, nowMs, policy);
+
+    await record(true, 0);
+    await record(true, 1000);
+    // Both failures left the window before the next calls.
+    await record(false, 70_000);
+    await record(false, 70_000);
+    await record(false, 70_000);
+    expect((await record(true, 70_000)).snapshot).toMatchObject({
+      state: "closed",
+      windowCalls: 4,
+      windowFailures: 1,
+    });
+    expect((await record(true, 70_000)).snapshot.state).toBe("closed");
+    const opened = await record(true, 70_000);
+
+    expect(opened.transitions).toEqual([{ from: "closed", to: "open", reason: "failure_rate" }]);
+    expect(opened.snapshot).toMatchObject({ state: "open", openedUntilMs: 100_000 });
+  });
+
+  it("limits half-open probes, recycles stale ones and closes or reopens on their outcome", async () => {
+    const store = createStore();
+    const policy = { ...basePolicy, failureThreshold: 1 };
+    const acquire = (nowMs: number) => store.apply("provider_b", { type: "acquire" }, nowMs, policy);
+    const record = (failed: boolean, nowMs: number) => store.apply("provider_b", { type: "record", failed }, nowMs, policy);
+
+    await record(true, 0);
+    const firstProbe = await acquire(30_000);
+    expect(firstProbe.transitions).toEqual([{ from: "open", to: "half_open", reason: "cooldown_elapsed" }]);
+    expect(firstProbe).toMatchObject({ acquired: true, snapshot: { state: "half_open", probesStarted: 1 } });
+    expect((await acquire(31_000)).acquired).toBe(true);
+    expect((await acquire(32_000)).acquired).toBe(false);
+
+    // Probes that never reported free their slots after another cooldown.
+    expect((await acquire(60_000)).snapshot).toMatchObject({ probesStarted: 1, halfOpenedAtMs: 60_000 });
+    expect((await record(false, 61_000)).snapshot).toMatchObject({ state: "half_open", probesSucceeded: 1 });
+    const closed = await record(false, 62_000);
+    expect(closed.transitions).toEqual([{ from: "half_open", to: "closed", reason: "probes_succeeded" }]);
+    expect(closed.snapshot).toMatchObject({ state: "closed", probesStarted: 0, probesSucceeded: 0 });
+
+    await record(true, 63_000);
+    await acquire(93_000);
+    const reopened = await record(true, 94_000);
+    expect(reopened.transitions).toEqual([{ from: "half_open", to: "open", reason: "probe_failed" }]);
+    expect(reopened.snapshot).toMatchObject({ state: "open", openedUntilMs: 124_000 });
+  });
+
+  it("pins a forced state until it expires and then resumes the underlying circuit", async () => {
+    const store = createStore();
+    const policy = { ...basePolicy, failureThreshold: 1 };
+    const apply = (command: Parameters<CircuitStateStorePort["apply"]>[1], nowMs: number) =>
+      store.apply("provider_b", command, nowMs, policy);
+
+    const forcedOpen = await apply({ type: "force", override: { state: "open", untilMs: 60_000, reason: "maintenance" } }, 0);
+    expect(forcedOpen.transitions).toEqual([{ from: "closed", to: "open", reason: "forced" }]);
+    expect(forcedOpen.snapshot.forced).toEqual({ state: "open", untilMs: 60_000, reason: "maintenance" });
+    expect((await apply({ type: "acquire" }, 1000)).acquired).toBe(false);
+
+    const expired = await apply({ type: "read" }, 60_000);
+    expect(expired.transitions).toEqual([{ from: "open", to: "closed", reason: "force_expired" }]);
+    expect(expired.snapshot).toMatchObject({ state: "closed", forced: null });
+
+    await apply({ type: "record", failed: true }, 61_000);
+    const forcedClosed = await apply(
+      { type: "force", override: { state: "closed", untilMs: 71_000, reason: "acquirer confirmed" } },
+      62_000,
+    );
+    expect(forcedClosed.transitions).toEqual([{ from: "open", to: "closed", reason: "forced" }]);
+    // Outcomes are ignored while pinned.
+    expect(await apply({ type: "record", failed: true }, 63_000)).toMatchObject({ acquired: true, transitions: [] });
+
+    const resumed = await apply({ type: "acquire" }, 71_000);
+    expect(resumed.transitions).toEqual([{ from: "closed", to: "open", reason: "force_expired" }]);
+    expect(resumed).toMatchObject({ acquired: false, snapshot: { state: "open", openedUntilMs: 91_000, forced: null } });
+  });
+});
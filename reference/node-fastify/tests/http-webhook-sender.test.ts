@@ -0,0 +1,171 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { HttpWebhookSender, isBlockedWebhookAddress } from "../src/adapters/http/webhook-sender.js";
+import { isPermanentWebhookFailure } from "../src/application/webhook-delivery-policy.js";
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server;
+let port = 0;
+let handler: Handler = (_request, response) => {
+  response.end();
+};
+const senders: HttpWebhookSender[] = [];
+
+function buildSender(options: Partial<ConstructorParameters<typeof HttpWebhookSender>[0]> = {}): HttpWebhookSender {
+  const sender = new HttpWebhookSender({
+    requireHttps: false,
+    allowPrivateNetworks: true,
+    maxResponseBodyBytes: 1024,
+    ...options,
+  });
+  senders.push(sender);
+  return sender;
+}
+
+function send(sender: HttpWebhookSender, url = `http://127.0.0.1:${port}/hooks`, timeoutMs = 2000) {
+  return sender.send({
+    url,
+    headers: { "Content-Type": "application/json", "X-PMC-Event": "payment_intent.succeeded" },
+    body: JSON.stringify({ id: "evt_1" }),
+    timeoutMs,
+  });
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    handler(request, response);
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  port = (server.address() as AddressInfo).port;
+});
+
+afterEach(async () => {
+  for (const sender of senders.splice(0)) {
+    await sender.close();
+  }
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+});
+
+describe("HttpWebhookSender", () => {
+  it("posts the signed payload and reports 2xx as delivered", async () => {
+    let received: { method: string | undefined; event: string | string[] | undefined; body: string } | undefined;
+    handler = (request, response) => {
+      let body = "";
+      request.on("data", (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      request.on("end", () => {
+        received = { method: request.method, event: request.headers["x-pmc-event"], body };
+        response.writeHead(204).end();
+      });
+    };
+
+    const result = await send(buildSender());
+
+    expect(result).toEqual({ ok: true, statusCode: 204 });
+    expect(received).toEqual({ method: "POST", event: "payment_intent.succeeded", body: "{\"id\":\"evt_1\"}" });
+  });
+
+  it("maps response statuses onto the retry policy vocabulary", async () => {
+    const sender = buildSender();
+    for (const [status, errorCode, permanent] of [
+      [400, "invalid_webhook_request", true],
+      [429, "rate_limited", false],
+      [503, "transient_webhook_error", false],
+    ] as const) {
+      handler = (_request, response) => {
+        response.writeHead(status).end("nope");
+      };
+      const result = await send(sender);
+      expect(result).toEqual({ ok: false, statusCode: status, errorCode, responseBody: "nope" });
+      expect(isPermanentWebhookFailure(result.statusCode, result.errorCode)).toBe(permanent);
+    }
+  });
+
+  it("reports a timeout when the endpoint does not answer in time", async () => {
+    handler = () => {
+      // Never respond.
+    };
+
+    const result = await send(buildSender(), undefined, 100);
+
+    expect(result).toEqual({ ok: false, errorCode: "webhook_timeout" });
+  });
+
+  it("keeps the response body up to the configured cap", async () => {
+    handler = (_request, response) => {
+      response.writeHead(200);
+      response.write("x".repeat(4096));
+      // Keep the response open: only the cap can end the read.
+    };
+
+    const result = await send(buildSender({ maxResponseBodyBytes: 512 }));
+
+    expect(result).toEqual({ ok: true, statusCode: 200, responseBody: "x".repeat(512) });
+  });
+
+  it("refuses loopback and private targets by default", async () => {
+    const sender = buildSender({ allowPrivateNetworks: false });
+
+    await expect(send(sender)).resolves.toEqual({ ok: false, errorCode: "webhook_target_blocked" });
+    await expect(send(sender, `http://[::1]:${port}/hooks`)).resolves.toEqual({
+      ok: false,
+      errorCode: "webhook_target_blocked",
+    });
+    await expect(send(sender, `http://localhost:${port}/hooks`)).resolves.toEqual({
+      ok: false,
+      errorCode: "webhook_target_blocked",
+    });
+    expect(isPermanentWebhookFailure(undefined, "webhook_target_blocked")).toBe(true);
+  });
+
+  it("checks the resolved address, so public names rebound to internal hosts are refused", async () => {
+    let requests = 0;
+    handler = (_request, response) => {
+      requests += 1;
+      response.end();
+    };
+    const sender = buildSender({
+      allowPrivateNetworks: false,
+      resolveHost: () => Promise.resolve([{ address: "127.0.0.1", family: 4 }]),
+    });
+
+    const result = await send(sender, `http://hooks.merchant.example:${port}/hooks`);
+
+    expect(result).toEqual({ ok: false, errorCode: "webhook_target_blocked" });
+    expect(requests).toBe(0);
+  });
+
+  it("rejects plain http when https is required and malformed urls", async () => {
+    const sender = buildSender({ requireHttps: true });
+
+    await expect(send(sender)).resolves.toEqual({ ok: false, errorCode: "insecure_webhook_url" });
+    await expect(send(sender, "ftp://merchant.example/hooks")).resolves.toEqual({
+      ok: false,
+      errorCode: "invalid_webhook_url",
+    });
+    await expect(send(sender, "not a url")).resolves.toEqual({ ok: false, errorCode: "invalid_webhook_url" });
+  });
+
+  it("classifies special-purpose address ranges", () => {
+    expect(isBlockedWebhookAddress("10.1.2.3")).toBe(true);
+    expect(isBlockedWebhookAddress("169.254.169.254")).toBe(true);
+    expect(isBlockedWebhookAddress("::ffff:192.168.0.10")).toBe(true);
+    expect(isBlockedWebhookAddress("fd00::1")).toBe(true);
+    expect(isBlockedWebhookAddress("::127.0.0.1")).toBe(true);
+    expect(isBlockedWebhookAddress("64:ff9b::a9fe:a9fe")).toBe(true);
+    expect(isBlockedWebhookAddress("64:ff9b::10.0.0.1")).toBe(true);
+    expect(isBlockedWebhookAddress("93.184.216.34")).toBe(false);
+    expect(isBlockedWebhookAddress("2606:2800:220:1::1")).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import type { Redis } from "ioredis";
+import type { Pool } from "pg";
+import { describe, expect, it } from "vitest";
+import { PgRedisOutboxRelay } from "../src/adapters/durable/outbox-relay.js";
+import { PmcMetricsRegistry } from "../src/infra/metrics.js";
+
+interface CapturedQuery {
+  text: string;
+  values: unknown[];
+}
+
+function buildPool(unpublished: Array<Record<string, unknown>>): { pool: Pool; queries: CapturedQuery[]; released: () => boolean } {
+  const queries: CapturedQuery[] = [];
+  let released = false;
+  const respond = (text: string, values: unknown[] = []) => {
+    queries.push({ text: text.trim(), values });
+    if (text.includes("FOR UPDATE SKIP LOCKED")) {
+      return Promise.resolve({ rows: unpublished, rowCount: unpublished.length });
+    }
+    if (text.includes("COUNT(*)")) {
+      return Promise.resolve({ rows: [{ pending: 1, lag_seconds: "12.5" }], rowCount: 1 });
+    }
+    return Promise.resolve({ rows: [], rowCount: 1 });
+  };
+  const pool = {
+    query: respond,
+    connect: () =>
+      Promise.resolve({
+        query: respond,
+        release: () => {
+          released = true;
+        },
+      }),
+  } as unknown as Pool;
+  return { pool, queries, released: () => released };
+}
+
+function buildRedis(failOn?: string): { redis: Redis; added: string[] } {
+  const added: string[] = [];
+  const redis = {
+    xadd: (_key: string, _id: string, _field: string, eventId: string) => {
+      if (eventId === failOn) {
+        return Promise.reject(new Error("connection lost"));
+      }
+      added.push(eventId);
+      return Promise.resolve(`1700000000000-${added.length}`);
+    },
+  } as unknown as Redis;
+  return { redis, added };
+}
+
+const options = { streamKey: "pmc:events", batchSize: 10, pollIntervalMs: 1000, minAgeMs: 5000 };
+
+describe("PgRedisOutboxRelay", () => {
+  it("republishes locked unpublished rows and stamps their stream ids", async () => {
+    const { pool, queries, released } = buildPool([
+      { event_id: "evt_1", payload: { id: "evt_1" } },
+      { event_id: "evt_2", payload: { id: "evt_2" } },
+    ]);
+    const { redis, added } = buildRedis();
+    const relay = new PgRedisOutboxRelay(pool, redis, options);
+
+    const stats = await relay.relayBatch();
+
+    expect(stats).toEqual({ relayed: 2, pending: 1, lagSeconds: 12.5 });
+    expect(added).toEqual(["evt_1", "evt_2"]);
+    expect(queries[0]?.text).toBe("BEGIN");
+    expect(queries[1]?.text).toContain("published_at IS NULL");
+    expect(queries[1]?.values).toEqual([5000, 10]);
+    expect(queries[2]?.values).toEqual(["evt_1", "1700000000000-1"]);
+    expect(queries[3]?.values).toEqual(["evt_2", "1700000000000-2"]);
+    expect(queries[4]?.text).toBe("COMMIT");
+    expect(released()).toBe(true);
+  });
+
+  it("rolls back so rows stay unpublished when the stream is unavailable", async () => {
+    const { pool, queries, released } = buildPool([
+      { event_id: "evt_1", payload: { id: "evt_1" } },
+      { event_id: "evt_2", payload: { id: "evt_2" } },
+    ]);
+    const { redis } = buildRedis("evt_2");
+    const relay = new PgRedisOutboxRelay(pool, redis, options);
+
+    await expect(relay.relayBatch()).rejects.toThrowError("connection lost");
+
+    expect(queries.map((query) => query.text)).not.toContain("COMMIT");
+    expect(queries.at(-1)?.text).toBe("ROLLBACK");
+    expect(released()).toBe(true);
+  });
+
+  it("exposes relay lag and backlog as prometheus gauges", () => {
+    const metrics = new PmcMetricsRegistry();
+
+    metrics.recordOutboxRelayPass(3, 7, 42.5);
+
+    const rendered = metrics.renderPrometheus();
+    expect(rendered).toContain("pmc_outbox_relayed_events_total 3");
+    expect(rendered).toContain("# TYPE pmc_outbox_pending_events gauge");
+    expect(rendered).toContain("pmc_outbox_pending_events 7");
+    expect(rendered).toContain("pmc_outbox_relay_lag_seconds 42.5");
+  });
+});
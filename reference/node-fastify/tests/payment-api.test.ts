@@ -1,7 +1,13 @@
+import { createHash } from "node:crypto";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import type { FastifyInstance } from "fastify";
 import { buildApp } from "../src/server.js";
+import { MockProviderNotifier } from "../src/adapters/providers/mock-notifications.js";
+import { SystemClock } from "../src/infra/clock.js";
+import { loadRuntimeConfig } from "../src/infra/config.js";
 import { CursorTokenService } from "../src/infra/cursor-token.js";
+import { parseHttpProviders } from "../src/infra/http-provider-config.js";
+import { signNotification } from "../src/infra/notification-signature.js";
 
 function withAuth(headers?: Record<string, string>): Record<string, string> {
   return {
@@ -14,11 +20,44 @@ function withAuthAndIdempotency(key: string): Record<string, string> {
   return withAuth({ "Idempotency-Key": key });
 }
 
+// Webhook attempts are sent by a background worker; poll until it has caught up.
+async function waitForWebhookState(
+  app: FastifyInstance,
+  url: string,
+  isSettled: (data: Array<{ event_type: string }>) => boolean,
+): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (Date.now() < deadline) {
+    const response = await app.inject({ method: "GET", url, headers: withAuth() });
+    if (isSettled(response.json<{ data: Array<{ event_type: string }> }>().data)) {
+      return;
+    }
+    await new Promise<void>((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error(`Timed out waiting for webhook worker on ${url}.`);
+}
+
+async function waitForWebhookDeliveries(app: FastifyInstance, count: number, eventType: string): Promise<void> {
+  await waitForWebhookState(
+    app,
+    "/v1/webhook-deliveries?limit=500",
+    (data) => data.filter((item) => item.event_type === eventType).length >= count,
+  );
+}
+
+async function waitForWebhookDeadLetters(app: FastifyInstance, count: number): Promise<void> {
+  await waitForWebhookState(app, "/v1/webhook-dead-letters?limit=500", (data) => data.length >= count);
+}
+
 describe("Payment API", () => {
   let app: FastifyInstance;
 
   beforeEach(async () => {
-    app = buildApp();
+    app = buildApp({
+      ...loadRuntimeConfig(),
+      webhookBackoffSeconds: [0, 0],
+      webhookWorkerPollIntervalMs: 10,
+    });
     await app.ready();
   });
 
@@ -62,6 +101,9 @@ describe("Payment API", () => {
       riskReviewAmountThreshold: 1_000_000,
       webhookMaxAttempts: 3,
       webhookTimeoutMs: 5000,
+      webhookBackoffSeconds: [5, 30, 120, 300],
+      webhookWorkerPollIntervalMs: 1000,
+      webhookWorkerBatchSize: 50,
       providerCircuitBreakerEnabled: true,
       providerCircuitBreakerFailureThreshold: 3,
       providerCircuitBreakerCooldownSeconds: 30,
@@ -206,6 +248,9 @@ describe("Payment API", () => {
       riskReviewAmountThreshold: 1_000_000,
       webhookMaxAttempts: 3,
       webhookTimeoutMs: 5000,
+      webhookBackoffSeconds: [5, 30, 120, 300],
+      webhookWorkerPollIntervalMs: 1000,
+      webhookWorkerBatchSize: 50,
       providerCircuitBreakerEnabled: true,
       providerCircuitBreakerFailureThreshold: 3,
       providerCircuitBreakerCooldownSeconds: 30,
@@ -248,6 +293,9 @@ describe("Payment API", () => {
       riskReviewAmountThreshold: 1_000_000,
       webhookMaxAttempts: 3,
       webhookTimeoutMs: 5000,
+      webhookBackoffSeconds: [5, 30, 120, 300],
+      webhookWorkerPollIntervalMs: 1000,
+      webhookWorkerBatchSize: 50,
       providerCircuitBreakerEnabled: true,
       providerCircuitBreakerFailureThreshold: 3,
       providerCircuitBreakerCooldownSeconds: 30,
@@ -634,6 +682,53 @@ describe("Payment API", () => {
     expect(oldWindow.json().data.length).toBe(0);
   });
 
+  it("filters payment intents by authorization expiry", async () => {
+    const created = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("list-filter-authorization-expiry-create"),
+      payload: {
+        amount: 2400,
+        currency: "BRL",
+        customer: { id: "cus_filter_authorization_expiry" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "manual",
+      },
+    });
+    const confirmed = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${created.json().id}/confirm`,
+      headers: withAuthAndIdempotency("list-filter-authorization-expiry-confirm"),
+    });
+    expect(confirmed.statusCode).toBe(200);
+    const expiresAt = confirmed.json().authorization_expires_at as string;
+    expect(Date.parse(expiresAt)).toBeGreaterThan(Date.now());
+
+    const expiring = await app.inject({
+      method: "GET",
+      url: `/v1/payment-intents?authorization_expires_before=${encodeURIComponent(expiresAt)}`,
+      headers: withAuth(),
+    });
+    expect(expiring.statusCode).toBe(200);
+    expect(expiring.json().data.map((intent: { id: string }) => intent.id)).toContain(created.json().id);
+
+    const pastWindow = await app.inject({
+      method: "GET",
+      url: "/v1/payment-intents?authorization_expires_before=2000-01-01T00:00:00.000Z",
+      headers: withAuth(),
+    });
+    expect(pastWindow.statusCode).toBe(200);
+    expect(pastWindow.json().data.length).toBe(0);
+
+    const invalid = await app.inject({
+      method: "GET",
+      url: "/v1/payment-intents?authorization_expires_before=not-a-date",
+      headers: withAuth(),
+    });
+    expect(invalid.statusCode).toBe(422);
+    expect(invalid.json().error.code).toBe("invalid_authorization_expires_before");
+  });
+
   it("rejects invalid payment-intent list filters", async () => {
     const invalidStatus = await app.inject({
       method: "GET",
@@ -804,6 +899,226 @@ describe("Payment API", () => {
     expect(capture.json().status).toBe("succeeded");
   });
 
+  it("versions payment intents with ETag and enforces If-Match on mutations", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("etag-create-1"),
+      payload: {
+        amount: 5000,
+        currency: "BRL",
+        customer: { id: "cus_etag" },
+        payment_method: { type: "card", token: "tok_test_manual" },
+        capture_method: "manual",
+      },
+    });
+    expect(create.statusCode).toBe(201);
+    const id = create.json<{ id: string; version: number }>().id;
+    expect(create.json<{ version: number }>().version).toBe(1);
+    const createdEtag = String(create.headers.etag);
+
+    const found = await app.inject({
+      method: "GET",
+      url: `/v1/payment-intents/${id}`,
+      headers: withAuth(),
+    });
+    expect(found.headers.etag).toBe(createdEtag);
+
+    const confirm = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: { ...withAuthAndIdempotency("etag-confirm-1"), "If-Match": createdEtag },
+    });
+    expect(confirm.statusCode).toBe(200);
+    expect(confirm.json<{ version: number }>().version).toBe(3);
+    expect(confirm.headers.etag).not.toBe(createdEtag);
+
+    const staleCancel = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/cancel`,
+      headers: { ...withAuthAndIdempotency("etag-cancel-1"), "If-Match": createdEtag },
+    });
+    expect(staleCancel.statusCode).toBe(412);
+    expect(staleCancel.json().error.code).toBe("precondition_failed");
+
+    const capture = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/capture`,
+      headers: { ...withAuthAndIdempotency("etag-capture-1"), "If-Match": String(confirm.headers.etag) },
+      payload: { amount: 5000 },
+    });
+    expect(capture.statusCode).toBe(200);
+    expect(capture.json().status).toBe("succeeded");
+  });
+
+  it("lets only one of two concurrent captures claim a payment intent", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("concurrent-capture-create-1"),
+      payload: {
+        amount: 5000,
+        currency: "BRL",
+        customer: { id: "cus_concurrent_capture" },
+        payment_method: { type: "card", token: "tok_test_manual" },
+        capture_method: "manual",
+      },
+    });
+    const id = create.json<{ id: string }>().id;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("concurrent-capture-confirm-1"),
+    });
+
+    const [first, second] = await Promise.all(
+      ["concurrent-capture-a", "concurrent-capture-b"].map((key) =>
+        app.inject({
+          method: "POST",
+          url: `/v1/payment-intents/${id}/capture`,
+          headers: withAuthAndIdempotency(key),
+          payload: { amount: 5000 },
+        }),
+      ),
+    );
+
+    expect([first?.statusCode, second?.statusCode].sort()).toEqual([200, 409]);
+    const found = await app.inject({
+      method: "GET",
+      url: `/v1/payment-intents/${id}`,
+      headers: withAuth(),
+    });
+    expect(found.json()).toMatchObject({ status: "succeeded", captured_amount: 5000 });
+  });
+
+  it("voids the authorization when a manual intent is canceled", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("void-cancel-create-1"),
+      payload: {
+        amount: 5000,
+        currency: "BRL",
+        customer: { id: "cus_void_cancel" },
+        payment_method: { type: "card", token: "tok_test_manual" },
+        capture_method: "manual",
+      },
+    });
+    const id = create.json<{ id: string }>().id;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("void-cancel-confirm-1"),
+    });
+
+    const cancel = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/cancel`,
+      headers: withAuthAndIdempotency("void-cancel-do-1"),
+    });
+    expect(cancel.statusCode).toBe(200);
+    expect(cancel.json().status).toBe("canceled");
+
+    const ledger = await app.inject({
+      method: "GET",
+      url: `/v1/ledger-entries?payment_intent_id=${id}&entry_type=authorization_reversal`,
+      headers: withAuth(),
+    });
+    expect(ledger.json().data).toEqual([
+      expect.objectContaining({ entry_type: "authorization_reversal", direction: "debit", amount: 5000 }),
+    ]);
+    const events = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=payment_intent.authorization_released`,
+      headers: withAuth(),
+    });
+    expect(events.json().data).toEqual([
+      expect.objectContaining({ data: { payment_intent_id: id, amount: 5000, reason: "canceled" } }),
+    ]);
+  });
+
+  it("releases the uncaptured remainder on a final partial capture", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("final-capture-create-1"),
+      payload: {
+        amount: 5000,
+        currency: "BRL",
+        customer: { id: "cus_final_capture" },
+        payment_method: { type: "card", token: "tok_test_manual" },
+        capture_method: "manual",
+      },
+    });
+    const id = create.json<{ id: string }>().id;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("final-capture-confirm-1"),
+    });
+
+    const capture = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/capture`,
+      headers: withAuthAndIdempotency("final-capture-do-1"),
+      payload: { amount: 3000, final_capture: true },
+    });
+    expect(capture.statusCode).toBe(200);
+    expect(capture.json()).toMatchObject({ status: "succeeded", captured_amount: 3000 });
+
+    const ledger = await app.inject({
+      method: "GET",
+      url: `/v1/ledger-entries?payment_intent_id=${id}&entry_type=authorization_reversal`,
+      headers: withAuth(),
+    });
+    expect(ledger.json().data).toEqual([expect.objectContaining({ amount: 2000 })]);
+
+    const invalid = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/capture`,
+      headers: withAuthAndIdempotency("final-capture-invalid-1"),
+      payload: { amount: 1000, final_capture: "yes" },
+    });
+    expect(invalid.statusCode).toBe(422);
+    expect(invalid.json().error.code).toBe("invalid_final_capture");
+  });
+
+  it("keeps the intent cancelable when the provider cannot void the authorization", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("void-fail-create-1"),
+      payload: {
+        amount: 5000,
+        currency: "BRL",
+        customer: { id: "cus_void_fail" },
+        payment_method: { type: "card", token: "tok_test_void_fail" },
+        capture_method: "manual",
+      },
+    });
+    const id = create.json<{ id: string }>().id;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("void-fail-confirm-1"),
+    });
+
+    const cancel = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/cancel`,
+      headers: withAuthAndIdempotency("void-fail-cancel-1"),
+    });
+    expect(cancel.statusCode).toBe(502);
+    expect(cancel.json().error.code).toBe("authorization_release_failed");
+
+    const found = await app.inject({
+      method: "GET",
+      url: `/v1/payment-intents/${id}`,
+      headers: withAuth(),
+    });
+    expect(found.json().status).toBe("requires_action");
+  });
+
   it("creates refund after successful payment", async () => {
     const create = await app.inject({
       method: "POST",
@@ -851,6 +1166,46 @@ describe("Payment API", () => {
     expect(paymentIntent.json().amount_refundable).toBe(3500);
   });
 
+  it("reserves the refund amount so concurrent refunds cannot exceed the captured amount", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("concurrent-refund-create"),
+      payload: {
+        amount: 5000,
+        currency: "BRL",
+        customer: { id: "cus_concurrent_refund" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "automatic",
+      },
+    });
+    const id = create.json<{ id: string }>().id;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("concurrent-refund-confirm"),
+    });
+
+    const [first, second] = await Promise.all(
+      ["concurrent-refund-a", "concurrent-refund-b"].map((key) =>
+        app.inject({
+          method: "POST",
+          url: "/v1/refunds",
+          headers: withAuthAndIdempotency(key),
+          payload: { payment_intent_id: id, amount: 3000 },
+        }),
+      ),
+    );
+
+    expect([first?.statusCode, second?.statusCode].sort()).toEqual([201, 422]);
+    const found = await app.inject({
+      method: "GET",
+      url: `/v1/payment-intents/${id}`,
+      headers: withAuth(),
+    });
+    expect(found.json()).toMatchObject({ refunded_amount: 3000, amount_refundable: 2000 });
+  });
+
   it("lists refunds with cursor pagination", async () => {
     for (const index of [1, 2, 3]) {
       const create = await app.inject({
@@ -1145,231 +1500,1455 @@ describe("Payment API", () => {
     expect(captureOnly.json().data[0].direction).toBe("credit");
   });
 
-  it("rejects invalid ledger list filters", async () => {
-    const invalidType = await app.inject({
+  it("rejects invalid ledger list filters", async () => {
+    const invalidType = await app.inject({
+      method: "GET",
+      url: "/v1/ledger-entries?entry_type=invalid",
+      headers: withAuth(),
+    });
+    expect(invalidType.statusCode).toBe(422);
+    expect(invalidType.json().error.code).toBe("invalid_ledger_entry_type");
+
+    const invalidDirection = await app.inject({
+      method: "GET",
+      url: "/v1/ledger-entries?direction=invalid",
+      headers: withAuth(),
+    });
+    expect(invalidDirection.statusCode).toBe(422);
+    expect(invalidDirection.json().error.code).toBe("invalid_ledger_direction");
+
+    const invalidAmountRange = await app.inject({
+      method: "GET",
+      url: "/v1/ledger-entries?amount_min=5000&amount_max=1000",
+      headers: withAuth(),
+    });
+    expect(invalidAmountRange.statusCode).toBe(422);
+    expect(invalidAmountRange.json().error.code).toBe("invalid_amount_range");
+
+    const invalidCreatedRange = await app.inject({
+      method: "GET",
+      url: "/v1/ledger-entries?created_from=2026-12-31T00:00:00.000Z&created_to=2026-01-01T00:00:00.000Z",
+      headers: withAuth(),
+    });
+    expect(invalidCreatedRange.statusCode).toBe(422);
+    expect(invalidCreatedRange.json().error.code).toBe("invalid_created_range");
+  });
+
+  it("lists payment events with cursor pagination and filters", async () => {
+    const createA = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("events-list-create-a"),
+      payload: {
+        amount: 2200,
+        currency: "BRL",
+        customer: { id: "cus_events_a" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "automatic",
+      },
+    });
+    const paymentIntentA = createA.json().id as string;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${paymentIntentA}/confirm`,
+      headers: withAuthAndIdempotency("events-list-confirm-a"),
+    });
+
+    const createB = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("events-list-create-b"),
+      payload: {
+        amount: 2300,
+        currency: "BRL",
+        customer: { id: "cus_events_b" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "automatic",
+      },
+    });
+    const paymentIntentB = createB.json().id as string;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${paymentIntentB}/confirm`,
+      headers: withAuthAndIdempotency("events-list-confirm-b"),
+    });
+
+    const firstPage = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${paymentIntentA}&limit=2`,
+      headers: withAuth(),
+    });
+    const firstPageBody = firstPage.json<{
+      data: Array<{ id: string; data: { payment_intent_id?: string } }>;
+      pagination: { limit: number; has_more: boolean; next_cursor: string | null };
+    }>();
+    expect(firstPage.statusCode).toBe(200);
+    expect(firstPageBody.data.length).toBe(2);
+    expect(firstPageBody.pagination.limit).toBe(2);
+    expect(firstPageBody.pagination.has_more).toBe(true);
+    expect(firstPageBody.pagination.next_cursor).toBeTypeOf("string");
+    expect(firstPageBody.pagination.next_cursor).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(
+      firstPageBody.data.every((event) => event.data.payment_intent_id === paymentIntentA),
+    ).toBe(true);
+
+    const secondPage = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${paymentIntentA}&limit=2&cursor=${firstPageBody.pagination.next_cursor}`,
+      headers: withAuth(),
+    });
+    const secondPageBody = secondPage.json<{
+      data: Array<{ id: string; data: { payment_intent_id?: string } }>;
+      pagination: { has_more: boolean; next_cursor: string | null };
+    }>();
+    expect(secondPage.statusCode).toBe(200);
+    expect(secondPageBody.data.length).toBe(1);
+    expect(secondPageBody.pagination.has_more).toBe(false);
+    expect(secondPageBody.pagination.next_cursor).toBeNull();
+    expect(
+      secondPageBody.data.every((event) => event.data.payment_intent_id === paymentIntentA),
+    ).toBe(true);
+
+    const succeededOnly = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${paymentIntentA}&event_type=payment_intent.succeeded`,
+      headers: withAuth(),
+    });
+    expect(succeededOnly.statusCode).toBe(200);
+    expect(succeededOnly.json().data.length).toBe(1);
+    expect(succeededOnly.json().data[0].type).toBe("payment_intent.succeeded");
+
+    const futureWindow = await app.inject({
+      method: "GET",
+      url: "/v1/payment-events?occurred_from=2099-01-01T00:00:00.000Z",
+      headers: withAuth(),
+    });
+    expect(futureWindow.statusCode).toBe(200);
+    expect(futureWindow.json().data.length).toBe(0);
+  });
+
+  it("rejects invalid payment-events list filters", async () => {
+    const invalidEventType = await app.inject({
+      method: "GET",
+      url: "/v1/payment-events?event_type=unknown.event",
+      headers: withAuth(),
+    });
+    expect(invalidEventType.statusCode).toBe(422);
+    expect(invalidEventType.json().error.code).toBe("invalid_webhook_event_type");
+
+    const invalidOccurredFrom = await app.inject({
+      method: "GET",
+      url: "/v1/payment-events?occurred_from=not-a-date",
+      headers: withAuth(),
+    });
+    expect(invalidOccurredFrom.statusCode).toBe(422);
+    expect(invalidOccurredFrom.json().error.code).toBe("invalid_occurred_from");
+
+    const invalidRange = await app.inject({
+      method: "GET",
+      url: "/v1/payment-events?occurred_from=2026-12-31T00:00:00.000Z&occurred_to=2026-01-01T00:00:00.000Z",
+      headers: withAuth(),
+    });
+    expect(invalidRange.statusCode).toBe(422);
+    expect(invalidRange.json().error.code).toBe("invalid_occurred_range");
+  });
+
+  it("falls back to secondary provider on transient authorization failure", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("failover-1"),
+      payload: {
+        amount: 2500,
+        currency: "BRL",
+        customer: { id: "cus_failover" },
+        payment_method: { type: "card", token: "tok_test_transient" },
+        capture_method: "automatic",
+      },
+    });
+
+    const confirm = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${create.json().id}/confirm`,
+      headers: withAuthAndIdempotency("failover-confirm-1"),
+    });
+
+    expect(confirm.statusCode).toBe(200);
+    expect(confirm.json().status).toBe("succeeded");
+    expect(confirm.json().provider).toBe("provider_a");
+    expect(confirm.json().provider_reference).toBeTypeOf("string");
+  });
+
+  it("opens the circuit of a failing provider and publishes the state change", async () => {
+    const breakerApp = buildApp({
+      ...loadRuntimeConfig(),
+      webhookBackoffSeconds: [0, 0],
+      webhookWorkerPollIntervalMs: 10,
+      providerCircuitBreakerFailureThreshold: 1,
+    });
+    await breakerApp.ready();
+
+    try {
+      const create = await breakerApp.inject({
+        method: "POST",
+        url: "/v1/payment-intents",
+        headers: withAuthAndIdempotency("breaker-create"),
+        payload: {
+          amount: 2500,
+          currency: "BRL",
+          customer: { id: "cus_breaker" },
+          payment_method: { type: "card", token: "tok_test_transient" },
+          capture_method: "automatic",
+        },
+      });
+      const confirm = await breakerApp.inject({
+        method: "POST",
+        url: `/v1/payment-intents/${create.json().id}/confirm`,
+        headers: withAuthAndIdempotency("breaker-confirm"),
+      });
+      expect(confirm.json().provider).toBe("provider_a");
+
+      const deadline = Date.now() + 2000;
+      let events: Array<{ data: Record<string, unknown> }> = [];
+      while (events.length === 0 && Date.now() < deadline) {
+        await new Promise<void>((resolve) => setTimeout(resolve, 10));
+        const response = await breakerApp.inject({
+          method: "GET",
+          url: "/v1/payment-events?event_type=provider.circuit_state_changed",
+          headers: withAuth(),
+        });
+        events = response.json().data;
+      }
+      expect(events).toHaveLength(1);
+      expect(events[0]?.data).toMatchObject({
+        provider: "provider_b",
+        previous_state: "closed",
+        state: "open",
+        reason: "consecutive_failures",
+        operation: "authorize",
+        opened_until: expect.any(String),
+      });
+
+      const simulated = await breakerApp.inject({
+        method: "POST",
+        url: "/v1/routing/simulate",
+        headers: withAuth(),
+        payload: { amount: 2500, currency: "BRL", customer: { id: "cus_breaker" }, payment_method: { type: "card" } },
+      });
+      expect(simulated.json().candidates).toEqual([
+        { provider: "provider_b", circuit_open: true },
+        { provider: "provider_a", circuit_open: false },
+      ]);
+    } finally {
+      await breakerApp.close();
+    }
+  });
+
+  it("lists provider health and forces a circuit open for planned maintenance", async () => {
+    const adminApp = buildApp({ ...loadRuntimeConfig(), webhookWorkerPollIntervalMs: 10 });
+    await adminApp.ready();
+
+    try {
+      const listed = await adminApp.inject({ method: "GET", url: "/v1/providers", headers: withAuth() });
+      expect(listed.statusCode).toBe(200);
+      expect(listed.json().data).toEqual([
+        {
+          name: "provider_a",
+          supported_methods: ["card", "pix", "boleto"],
+          circuit_state: "closed",
+          consecutive_failures: 0,
+          opened_until: null,
+          forced: null,
+          recent_authorizations: 0,
+          recent_approval_rate: null,
+        },
+        expect.objectContaining({ name: "provider_b", supported_methods: ["card", "wallet", "bank_transfer"] }),
+      ]);
+
+      const invalid = await adminApp.inject({
+        method: "POST",
+        url: "/v1/providers/provider_b/circuit",
+        headers: withAuthAndIdempotency("force-invalid"),
+        payload: { state: "half_open", ttl_seconds: 600, reason: "maintenance" },
+      });
+      expect(invalid.statusCode).toBe(422);
+      expect(invalid.json().error.code).toBe("invalid_circuit_state");
+
+      const unknown = await adminApp.inject({
+        method: "POST",
+        url: "/v1/providers/provider_z/circuit",
+        headers: withAuthAndIdempotency("force-unknown"),
+        payload: { state: "open", ttl_seconds: 600, reason: "maintenance" },
+      });
+      expect(unknown.statusCode).toBe(404);
+
+      const forced = await adminApp.inject({
+        method: "POST",
+        url: "/v1/providers/provider_b/circuit",
+        headers: withAuthAndIdempotency("force-open"),
+        payload: { state: "open", ttl_seconds: 600, reason: "Acquirer maintenance window" },
+      });
+      expect(forced.statusCode).toBe(200);
+      expect(forced.json()).toMatchObject({
+        name: "provider_b",
+        circuit_state: "open",
+        forced: { state: "open", until: expect.any(String), reason: "Acquirer maintenance window" },
+      });
+
+      const simulated = await adminApp.inject({
+        method: "POST",
+        url: "/v1/routing/simulate",
+        headers: withAuth(),
+        payload: { amount: 2500, currency: "BRL", customer: { id: "cus_forced" }, payment_method: { type: "wallet" } },
+      });
+      expect(simulated.json().candidates).toEqual([{ provider: "provider_b", circuit_open: true }]);
+
+      const deadline = Date.now() + 2000;
+      let events: Array<{ data: Record<string, unknown> }> = [];
+      while (events.length === 0 && Date.now() < deadline) {
+        await new Promise<void>((resolve) => setTimeout(resolve, 10));
+        const response = await adminApp.inject({
+          method: "GET",
+          url: "/v1/payment-events?event_type=provider.circuit_state_changed",
+          headers: withAuth(),
+        });
+        events = response.json().data;
+      }
+      expect(events).toHaveLength(1);
+      expect(events[0]?.data).toMatchObject({
+        provider: "provider_b",
+        previous_state: "closed",
+        state: "open",
+        reason: "forced",
+        operation: null,
+        forced_until: forced.json().forced.until,
+        forced_reason: "Acquirer maintenance window",
+      });
+
+      const replayed = await adminApp.inject({
+        method: "POST",
+        url: "/v1/providers/provider_b/circuit",
+        headers: withAuthAndIdempotency("force-open"),
+        payload: { state: "open", ttl_seconds: 600, reason: "Acquirer maintenance window" },
+      });
+      expect(replayed.headers["x-idempotency-replayed"]).toBe("true");
+
+      // One audit row per applied override, naming the caller by a hash prefix of its API key.
+      const overrides = await adminApp.inject({
+        method: "GET",
+        url: "/v1/circuit-overrides?provider=provider_b",
+        headers: withAuth(),
+      });
+      expect(overrides.statusCode).toBe(200);
+      expect(overrides.json()).toEqual({
+        data: [
+          {
+            id: expect.stringMatching(/^cov_/),
+            provider: "provider_b",
+            state: "open",
+            ttl_seconds: 600,
+            forced_until: forced.json().forced.until,
+            reason: "Acquirer maintenance window",
+            actor: `api_key:${createHash("sha256").update("dev_pmc_key").digest("hex").slice(0, 16)}`,
+            created_at: expect.any(String),
+          },
+        ],
+        pagination: { limit: 50, has_more: false, next_cursor: null },
+      });
+      const otherProvider = await adminApp.inject({
+        method: "GET",
+        url: "/v1/circuit-overrides?provider=provider_z",
+        headers: withAuth(),
+      });
+      expect(otherProvider.json().data).toEqual([]);
+    } finally {
+      await adminApp.close();
+    }
+  });
+
+  it("blocks payment when risk engine denies transaction", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("risk-deny-1"),
+      payload: {
+        amount: 3000,
+        currency: "BRL",
+        customer: { id: "blocked_001" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "automatic",
+      },
+    });
+
+    const confirm = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${create.json().id}/confirm`,
+      headers: withAuthAndIdempotency("risk-deny-confirm-1"),
+    });
+
+    expect(confirm.statusCode).toBe(200);
+    expect(confirm.json().status).toBe("failed");
+  });
+
+  it("moves payment to requires_action when risk engine requests review", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("risk-review-1"),
+      payload: {
+        amount: 1000000,
+        currency: "BRL",
+        customer: { id: "cus_high_value" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "automatic",
+      },
+    });
+
+    const confirm = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${create.json().id}/confirm`,
+      headers: withAuthAndIdempotency("risk-review-confirm-1"),
+    });
+
+    expect(confirm.statusCode).toBe(200);
+    expect(confirm.json().status).toBe("requires_action");
+  });
+
+  it("parks 3DS authorizations on a next action and resumes them", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("three-ds-create"),
+      payload: {
+        amount: 4200,
+        currency: "BRL",
+        customer: { id: "cus_three_ds" },
+        payment_method: { type: "card", token: "tok_test_3ds" },
+        capture_method: "automatic",
+      },
+    });
+    const id = create.json().id as string;
+    expect(create.json().next_action).toBeNull();
+
+    const confirm = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("three-ds-confirm"),
+    });
+    expect(confirm.statusCode).toBe(200);
+    expect(confirm.json().status).toBe("requires_action");
+    expect(confirm.json().authorized_amount).toBe(0);
+    expect(confirm.json().next_action.type).toBe("three_ds_challenge");
+    expect(confirm.json().next_action.challenge.acs_url).toContain("https://");
+
+    const resume = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/resume`,
+      headers: withAuthAndIdempotency("three-ds-resume"),
+      payload: { action_result: { authentication_result: "succeeded" } },
+    });
+    expect(resume.statusCode).toBe(200);
+    expect(resume.json().status).toBe("succeeded");
+    expect(resume.json().captured_amount).toBe(4200);
+    expect(resume.json().next_action).toBeNull();
+
+    const replay = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/resume`,
+      headers: withAuthAndIdempotency("three-ds-resume"),
+      payload: { action_result: { authentication_result: "succeeded" } },
+    });
+    expect(replay.headers["x-idempotency-replayed"]).toBe("true");
+
+    const again = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/resume`,
+      headers: withAuthAndIdempotency("three-ds-resume-again"),
+    });
+    expect(again.statusCode).toBe(409);
+    expect(again.json().error.code).toBe("no_pending_action");
+  });
+
+  it("fails the payment when the customer does not pass the 3DS challenge", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("three-ds-fail-create"),
+      payload: {
+        amount: 4200,
+        currency: "BRL",
+        customer: { id: "cus_three_ds_fail" },
+        payment_method: { type: "card", token: "tok_test_3ds" },
+        capture_method: "manual",
+      },
+    });
+    const id = create.json().id as string;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("three-ds-fail-confirm"),
+    });
+
+    const capture = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/capture`,
+      headers: withAuthAndIdempotency("three-ds-fail-capture"),
+      payload: { amount: 4200 },
+    });
+    expect(capture.statusCode).toBe(409);
+    expect(capture.json().error.code).toBe("customer_action_required");
+
+    const invalid = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/resume`,
+      headers: withAuthAndIdempotency("three-ds-fail-invalid"),
+      payload: { action_result: { authentication_result: 1 } },
+    });
+    expect(invalid.statusCode).toBe(422);
+    expect(invalid.json().error.code).toBe("invalid_action_result");
+
+    const resume = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/resume`,
+      headers: withAuthAndIdempotency("three-ds-fail-resume"),
+      payload: { action_result: { authentication_result: "failed" } },
+    });
+    expect(resume.statusCode).toBe(200);
+    expect(resume.json().status).toBe("failed");
+    expect(resume.json().decline_code).toBe("authentication_failed");
+
+    const failed = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=payment_intent.failed`,
+      headers: withAuth(),
+    });
+    expect(failed.json().data[0].data.failure_code).toBe("authentication_failed");
+  });
+
+  it("maps provider decline codes to the canonical taxonomy and fails over only on provider faults", async () => {
+    const confirmWithToken = async (key: string, token: string) => {
+      const create = await app.inject({
+        method: "POST",
+        url: "/v1/payment-intents",
+        headers: withAuthAndIdempotency(`${key}-create`),
+        payload: {
+          amount: 3100,
+          currency: "BRL",
+          customer: { id: `cus_${key}` },
+          payment_method: { type: "card", token },
+          capture_method: "automatic",
+        },
+      });
+      expect(create.json().decline_code).toBeNull();
+      return app.inject({
+        method: "POST",
+        url: `/v1/payment-intents/${create.json().id}/confirm`,
+        headers: withAuthAndIdempotency(`${key}-confirm`),
+      });
+    };
+
+    // An issuer decline would be declined by every provider, so the first answer is final.
+    const insufficient = await confirmWithToken("decline-funds", "tok_test_insufficient_funds");
+    expect(insufficient.json()).toMatchObject({
+      status: "failed",
+      provider: "provider_b",
+      decline_code: "insufficient_funds",
+    });
+    const failed = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${insufficient.json().id}&event_type=payment_intent.failed`,
+      headers: withAuth(),
+    });
+    expect(failed.json().data[0].data).toMatchObject({ failure_code: "51", decline_code: "insufficient_funds" });
+
+    // A provider outage on every candidate keeps the canonical provider fault.
+    const unavailable = await confirmWithToken("decline-unavailable", "tok_test_unavailable");
+    expect(unavailable.json()).toMatchObject({
+      status: "failed",
+      provider: "provider_a",
+      decline_code: "provider_unavailable",
+    });
+  });
+
+  it("keeps the decline code of a rejected capture on the intent and its failed event", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("capture-decline-create"),
+      payload: {
+        amount: 4200,
+        currency: "BRL",
+        customer: { id: "cus_capture_decline" },
+        payment_method: { type: "card", token: "tok_test_capture_fail" },
+        capture_method: "manual",
+      },
+    });
+    const id = create.json<{ id: string }>().id;
+    const confirm = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("capture-decline-confirm"),
+    });
+    expect(confirm.json()).toMatchObject({ status: "requires_action", decline_code: null });
+
+    const capture = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/capture`,
+      headers: withAuthAndIdempotency("capture-decline-capture"),
+      payload: { amount: 4200 },
+    });
+    expect(capture.statusCode).toBe(200);
+    expect(capture.json()).toMatchObject({ status: "failed", captured_amount: 0, decline_code: "generic_decline" });
+
+    const failed = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=payment_intent.failed`,
+      headers: withAuth(),
+    });
+    expect(failed.json().data[0].data).toEqual({
+      payment_intent_id: id,
+      failure_code: "capture_rejected",
+      decline_code: "generic_decline",
+    });
+  });
+
+  it("times out a hung provider, retries transient failures and then fails over", async () => {
+    const resilientApp = buildApp({
+      ...loadRuntimeConfig(),
+      webhookBackoffSeconds: [0, 0],
+      webhookWorkerPollIntervalMs: 10,
+      providerAuthorizeTimeoutMs: 100,
+      providerRetryBackoffMs: [0],
+    });
+    await resilientApp.ready();
+
+    try {
+      const confirmWithToken = async (key: string, token: string) => {
+        const create = await resilientApp.inject({
+          method: "POST",
+          url: "/v1/payment-intents",
+          headers: withAuthAndIdempotency(`${key}-create`),
+          payload: {
+            amount: 4200,
+            currency: "BRL",
+            customer: { id: `cus_${key}` },
+            payment_method: { type: "card", token },
+            capture_method: "automatic",
+          },
+        });
+        return resilientApp.inject({
+          method: "POST",
+          url: `/v1/payment-intents/${create.json().id}/confirm`,
+          headers: withAuthAndIdempotency(`${key}-confirm`),
+        });
+      };
+
+      // provider_b never answers; both attempts hit the deadline before the payment moves to provider_a.
+      const startedAt = Date.now();
+      const hung = await confirmWithToken("resilience-timeout", "tok_test_timeout");
+      expect(hung.json()).toMatchObject({ status: "succeeded", provider: "provider_a" });
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+
+      // provider_b drops the first attempt only, so the retry succeeds without failing over.
+      const flaky = await confirmWithToken("resilience-flaky", "tok_test_flaky");
+      expect(flaky.json()).toMatchObject({ status: "succeeded", provider: "provider_b", decline_code: null });
+
+      const metrics = await resilientApp.inject({ method: "GET", url: "/metrics" });
+      expect(metrics.body).toContain('pmc_provider_call_timeouts_total{provider="provider_b",operation="authorize"} 2');
+      expect(metrics.body).toContain(
+        'pmc_provider_call_retries_total{provider="provider_b",operation="authorize",decline_code="timeout"} 1',
+      );
+      expect(metrics.body).toContain(
+        'pmc_provider_call_retries_total{provider="provider_b",operation="authorize",decline_code="network_error"} 1',
+      );
+    } finally {
+      await resilientApp.close();
+    }
+  });
+
+  it("switches the sandbox scenario at runtime and lists the test token catalog", async () => {
+    const sandboxApp = buildApp({ ...loadRuntimeConfig(), sandboxAdminEnabled: true });
+    await sandboxApp.ready();
+
+    try {
+      const confirmPix = async (key: string) => {
+        const create = await sandboxApp.inject({
+          method: "POST",
+          url: "/v1/payment-intents",
+          headers: withAuthAndIdempotency(`${key}-create`),
+          payload: {
+            amount: 1500,
+            currency: "BRL",
+            customer: { id: `cus_${key}` },
+            payment_method: { type: "pix", token: "tok_test_pix" },
+            capture_method: "automatic",
+          },
+        });
+        return sandboxApp.inject({
+          method: "POST",
+          url: `/v1/payment-intents/${create.json().id}/confirm`,
+          headers: withAuthAndIdempotency(`${key}-confirm`),
+        });
+      };
+
+      const tokens = await sandboxApp.inject({ method: "GET", url: "/v1/sandbox/test-tokens", headers: withAuth() });
+      expect(tokens.json().data).toContainEqual({
+        token: "tok_test_timeout",
+        description: "provider_b never answers, so the call runs into its timeout.",
+        providers: ["provider_b"],
+      });
+
+      const scenarios = await sandboxApp.inject({ method: "GET", url: "/v1/sandbox/scenarios", headers: withAuth() });
+      expect(scenarios.json().active).toBe("default");
+      expect(scenarios.json().data.map((scenario: { name: string }) => scenario.name)).toEqual(
+        expect.arrayContaining(["default", "high_latency", "provider_b_degraded", "provider_a_outage", "slow_settlement"]),
+      );
+
+      const outage = await sandboxApp.inject({
+        method: "PUT",
+        url: "/v1/sandbox/active-scenario",
+        headers: withAuth(),
+        payload: { name: "provider_a_outage" },
+      });
+      expect(outage.statusCode).toBe(200);
+      expect(outage.json()).toMatchObject({
+        name: "provider_a_outage",
+        active: true,
+        providers: {
+          provider_a: {
+            latency_ms: null,
+            operations: { authorize: { latency_ms: null, failure_rate: 1, failure_code: "provider_unavailable" } },
+            settlement_delay_ms: null,
+          },
+        },
+      });
+      // Pix only goes through provider_a, so nothing is left to fail over to.
+      expect((await confirmPix("sandbox-outage")).json()).toMatchObject({
+        status: "failed",
+        decline_code: "provider_unavailable",
+      });
+
+      const unknown = await sandboxApp.inject({
+        method: "PUT",
+        url: "/v1/sandbox/active-scenario",
+        headers: withAuth(),
+        payload: { name: "meteor_strike" },
+      });
+      expect(unknown.statusCode).toBe(404);
+      expect(unknown.json().error.code).toBe("sandbox_scenario_not_found");
+      const invalid = await sandboxApp.inject({
+        method: "PUT",
+        url: "/v1/sandbox/active-scenario",
+        headers: withAuth(),
+        payload: { name: "" },
+      });
+      expect(invalid.statusCode).toBe(422);
+
+      await sandboxApp.inject({
+        method: "PUT",
+        url: "/v1/sandbox/active-scenario",
+        headers: withAuth(),
+        payload: { name: "default" },
+      });
+      expect((await confirmPix("sandbox-recovered")).json()).toMatchObject({ status: "succeeded", provider: "provider_a" });
+    } finally {
+      await sandboxApp.close();
+    }
+  });
+
+  it("does not register the sandbox routes without PMC_SANDBOX_ADMIN_ENABLED", async () => {
+    for (const [method, url] of [
+      ["GET", "/v1/sandbox/scenarios"],
+      ["PUT", "/v1/sandbox/active-scenario"],
+      ["GET", "/v1/sandbox/test-tokens"],
+    ] as const) {
+      const response = await app.inject({
+        method,
+        url,
+        headers: withAuth(),
+        ...(method === "PUT" ? { payload: { name: "provider_a_outage" } } : {}),
+      });
+      expect(response.statusCode).toBe(404);
+      expect(response.json().error.code).toBe("resource_not_found");
+    }
+  });
+
+  it("settles an asynchronous boleto from a signed provider notification exactly once", async () => {
+    const notifier = new MockProviderNotifier("dev_provider_a_notification_secret_2026", new SystemClock());
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("notification-create"),
+      payload: {
+        amount: 15900,
+        currency: "BRL",
+        customer: { id: "cus_notification" },
+        payment_method: { type: "boleto", token: "tok_test_async" },
+        capture_method: "automatic",
+      },
+    });
+    const id = create.json().id as string;
+
+    const confirm = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("notification-confirm"),
+    });
+    expect(confirm.statusCode).toBe(200);
+    expect(confirm.json().status).toBe("processing");
+    expect(confirm.json().provider).toBe("provider_a");
+    const reference = confirm.json().provider_reference as string;
+
+    const signed = notifier.build({ id: "ntf_boleto_paid", reference, status: "succeeded" });
+    const notify = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_a",
+      headers: signed.headers,
+      payload: signed.body,
+    });
+    expect(notify.statusCode).toBe(200);
+    expect(notify.json()).toEqual({ received: true, outcome: "applied", payment_intent_id: id });
+
+    const redelivery = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_a",
+      headers: signed.headers,
+      payload: signed.body,
+    });
+    expect(redelivery.statusCode).toBe(200);
+    expect(redelivery.json().outcome).toBe("duplicate");
+
+    const intent = await app.inject({ method: "GET", url: `/v1/payment-intents/${id}`, headers: withAuth() });
+    expect(intent.json().status).toBe("succeeded");
+    expect(intent.json().authorized_amount).toBe(15900);
+    expect(intent.json().captured_amount).toBe(15900);
+
+    const ledger = await app.inject({
+      method: "GET",
+      url: `/v1/ledger-entries?payment_intent_id=${id}`,
+      headers: withAuth(),
+    });
+    const entryTypes = ledger.json<{ data: Array<{ entry_type: string }> }>().data.map((entry) => entry.entry_type);
+    expect(entryTypes.sort()).toEqual(["authorization", "capture"]);
+
+    const succeeded = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=payment_intent.succeeded`,
+      headers: withAuth(),
+    });
+    expect(succeeded.json().data).toHaveLength(1);
+  });
+
+  it("rejects unsigned, stale or misrouted provider notifications and applies failures", async () => {
+    const notifier = new MockProviderNotifier("dev_provider_a_notification_secret_2026", new SystemClock());
+    const forger = new MockProviderNotifier("forged_notification_secret_0000", new SystemClock());
+    const create = await app.inject({
+      method: "POST",
+      url: "/v1/payment-intents",
+      headers: withAuthAndIdempotency("notification-fail-create"),
+      payload: {
+        amount: 8800,
+        currency: "BRL",
+        customer: { id: "cus_notification_fail" },
+        payment_method: { type: "boleto", token: "tok_test_async" },
+        capture_method: "automatic",
+      },
+    });
+    const id = create.json().id as string;
+    const confirm = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("notification-fail-confirm"),
+    });
+    const reference = confirm.json().provider_reference as string;
+
+    const forged = forger.build({ reference, status: "succeeded" });
+    const forgedResponse = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_a",
+      headers: forged.headers,
+      payload: forged.body,
+    });
+    expect(forgedResponse.statusCode).toBe(401);
+    expect(forgedResponse.json().error.code).toBe("invalid_notification_signature");
+
+    const stale = notifier.build({
+      reference,
+      status: "succeeded",
+      timestamp: Math.floor(Date.now() / 1000) - 3600,
+    });
+    const staleResponse = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_a",
+      headers: stale.headers,
+      payload: stale.body,
+    });
+    expect(staleResponse.statusCode).toBe(401);
+    expect(staleResponse.json().error.code).toBe("notification_replay_window_exceeded");
+
+    const misrouted = notifier.build({ reference, status: "succeeded" });
+    const unknownProvider = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_z",
+      headers: misrouted.headers,
+      payload: misrouted.body,
+    });
+    expect(unknownProvider.statusCode).toBe(404);
+    // provider_b checks its own secret, so provider_a's signature does not pass there.
+    const otherProvider = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_b",
+      headers: misrouted.headers,
+      payload: misrouted.body,
+    });
+    expect(otherProvider.statusCode).toBe(401);
+    const providerBSigned = new MockProviderNotifier("dev_provider_b_notification_secret_2026", new SystemClock()).build({
+      reference,
+      status: "succeeded",
+    });
+    const otherReference = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_b",
+      headers: providerBSigned.headers,
+      payload: providerBSigned.body,
+    });
+    expect(otherReference.statusCode).toBe(404);
+
+    const declined = notifier.build({ reference, status: "failed", failureCode: "boleto_expired" });
+    const declinedResponse = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_a",
+      headers: declined.headers,
+      payload: declined.body,
+    });
+    expect(declinedResponse.json().outcome).toBe("applied");
+
+    const late = notifier.build({ reference, status: "succeeded" });
+    const lateResponse = await app.inject({
+      method: "POST",
+      url: "/v1/provider-notifications/provider_a",
+      headers: late.headers,
+      payload: late.body,
+    });
+    expect(lateResponse.json().outcome).toBe("ignored");
+
+    const intent = await app.inject({ method: "GET", url: `/v1/payment-intents/${id}`, headers: withAuth() });
+    expect(intent.json().status).toBe("failed");
+    const failed = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=payment_intent.failed`,
+      headers: withAuth(),
+    });
+    expect(failed.json().data[0].data.failure_code).toBe("boleto_expired");
+  });
+
+  it("routes notifications only to providers with their own verifier", async () => {
+    const httpProvider = (name: string, notifications?: Record<string, unknown>) => ({
+      name,
+      adapter: "http",
+      endpoint: "https://acquirer.example/v1",
+      api_key: "sk_test_acquirer",
+      supported_methods: ["card"],
+      operations: {
+        authorize: { path: "/payments" },
+        capture: { path: "/payments/{reference}/capture" },
+        refund: { path: "/payments/{reference}/refunds" },
+        void: { path: "/payments/{reference}/void" },
+      },
+      ...(notifications ? { notifications } : {}),
+    });
+    const notifyingApp = buildApp({
+      ...loadRuntimeConfig(),
+      routing: {
+        rules: [],
+        methodWeights: {},
+        providerFees: {},
+        circuitBreaker: {},
+        providerCalls: {},
+        httpProviders: parseHttpProviders([
+          httpProvider("provider_b"),
+          httpProvider("acquirer_c", {
+            secret: "acquirer_c_notification_secret",
+            id: "event_id",
+            reference: "payment.id",
+            status: "event",
+            succeeded_values: ["payment.approved"],
+            failed_values: ["payment.declined"],
+          }),
+        ]),
+        sandbox: { scenarios: [] },
+      },
+    });
+    await notifyingApp.ready();
+
+    try {
+      const sandboxSigned = new MockProviderNotifier("dev_provider_a_notification_secret_2026", new SystemClock()).build({
+        reference: "acquirer_ref_1",
+        status: "succeeded",
+      });
+      // provider_b is now an HTTP provider without notifications, so the sandbox verifier is gone with it.
+      const replaced = await notifyingApp.inject({
+        method: "POST",
+        url: "/v1/provider-notifications/provider_b",
+        headers: sandboxSigned.headers,
+        payload: sandboxSigned.body,
+      });
+      expect(replaced.statusCode).toBe(404);
+
+      // acquirer_c checks its own secret and headers.
+      const wrongScheme = await notifyingApp.inject({
+        method: "POST",
+        url: "/v1/provider-notifications/acquirer_c",
+        headers: sandboxSigned.headers,
+        payload: sandboxSigned.body,
+      });
+      expect(wrongScheme.statusCode).toBe(401);
+
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const body = JSON.stringify({ event_id: "evt_acq_1", event: "payment.approved", payment: { id: "acquirer_ref_1" } });
+      const signed = await notifyingApp.inject({
+        method: "POST",
+        url: "/v1/provider-notifications/acquirer_c",
+        headers: {
+          "content-type": "application/json",
+          "x-signature": signNotification("acquirer_c_notification_secret", timestamp, body),
+          "x-timestamp": timestamp,
+        },
+        payload: body,
+      });
+      // Verified and parsed; the reference just belongs to no payment intent.
+      expect(signed.statusCode).toBe(404);
+      expect(signed.json().error.message).toMatch(/acquirer_ref_1/);
+    } finally {
+      await notifyingApp.close();
+    }
+  });
+
+  it("lists stuck-intent recoveries with cursor pagination", async () => {
+    const empty = await app.inject({ method: "GET", url: "/v1/intent-recoveries?limit=5", headers: withAuth() });
+    expect(empty.statusCode).toBe(200);
+    expect(empty.json()).toEqual({ data: [], pagination: { limit: 5, has_more: false, next_cursor: null } });
+
+    const invalidFilter = await app.inject({
       method: "GET",
-      url: "/v1/ledger-entries?entry_type=invalid",
+      url: "/v1/intent-recoveries?cursor=not-a-token",
       headers: withAuth(),
     });
-    expect(invalidType.statusCode).toBe(422);
-    expect(invalidType.json().error.code).toBe("invalid_ledger_entry_type");
+    expect(invalidFilter.statusCode).toBe(422);
+  });
 
-    const invalidDirection = await app.inject({
-      method: "GET",
-      url: "/v1/ledger-entries?direction=invalid",
-      headers: withAuth(),
+  it("routes payments with configured rules and explains them in a dry run", async () => {
+    const routedApp = buildApp({
+      ...loadRuntimeConfig(),
+      webhookBackoffSeconds: [0, 0],
+      webhookWorkerPollIntervalMs: 10,
+      routing: {
+        rules: [
+          {
+            name: "foreign_marketplace_cards",
+            when: { payment_method: ["card"], card_bin_country: ["US"], metadata: { channel: "marketplace" } },
+            providers: ["provider_a"],
+          },
+        ],
+        methodWeights: {},
+        providerFees: {},
+        circuitBreaker: {},
+        providerCalls: {},
+        httpProviders: [],
+        sandbox: { scenarios: [] },
+      },
     });
-    expect(invalidDirection.statusCode).toBe(422);
-    expect(invalidDirection.json().error.code).toBe("invalid_ledger_direction");
+    await routedApp.ready();
 
-    const invalidAmountRange = await app.inject({
-      method: "GET",
-      url: "/v1/ledger-entries?amount_min=5000&amount_max=1000",
-      headers: withAuth(),
-    });
-    expect(invalidAmountRange.statusCode).toBe(422);
-    expect(invalidAmountRange.json().error.code).toBe("invalid_amount_range");
+    try {
+      const payment = {
+        amount: 2500,
+        currency: "USD",
+        customer: { id: "cus_routing" },
+        payment_method: { type: "card", bin_country: "us" },
+        metadata: { channel: "marketplace" },
+      };
+      const simulated = await routedApp.inject({
+        method: "POST",
+        url: "/v1/routing/simulate",
+        headers: withAuth(),
+        payload: payment,
+      });
+      expect(simulated.statusCode).toBe(200);
+      expect(simulated.json()).toEqual({
+        matched_rule: "foreign_marketplace_cards",
+        strategy: "priority",
+        routing_decision: "rule:foreign_marketplace_cards",
+        candidates: [{ provider: "provider_a", circuit_open: false }],
+        evaluations: [{ rule: "foreign_marketplace_cards", matched: true, unmatched_conditions: [] }],
+      });
 
-    const invalidCreatedRange = await app.inject({
-      method: "GET",
-      url: "/v1/ledger-entries?created_from=2026-12-31T00:00:00.000Z&created_to=2026-01-01T00:00:00.000Z",
-      headers: withAuth(),
-    });
-    expect(invalidCreatedRange.statusCode).toBe(422);
-    expect(invalidCreatedRange.json().error.code).toBe("invalid_created_range");
+      const unmatched = await routedApp.inject({
+        method: "POST",
+        url: "/v1/routing/simulate",
+        headers: withAuth(),
+        payload: { ...payment, metadata: { channel: "store" } },
+      });
+      expect(unmatched.json().matched_rule).toBeNull();
+      expect(unmatched.json().evaluations[0].unmatched_conditions).toEqual(["metadata"]);
+      expect(unmatched.json().candidates.map((candidate: { provider: string }) => candidate.provider)).toEqual([
+        "provider_b",
+        "provider_a",
+      ]);
+
+      const create = await routedApp.inject({
+        method: "POST",
+        url: "/v1/payment-intents",
+        headers: withAuthAndIdempotency("routing-rule-create"),
+        payload: {
+          ...payment,
+          payment_method: { ...payment.payment_method, token: "tok_test_visa" },
+          capture_method: "automatic",
+        },
+      });
+      expect(create.statusCode).toBe(201);
+      expect(create.json().card_bin_country).toBe("US");
+      expect(create.json().metadata).toEqual({ channel: "marketplace" });
+
+      const confirm = await routedApp.inject({
+        method: "POST",
+        url: `/v1/payment-intents/${create.json().id}/confirm`,
+        headers: withAuthAndIdempotency("routing-rule-confirm"),
+      });
+      expect(confirm.json().status).toBe("succeeded");
+      expect(confirm.json().provider).toBe("provider_a");
+      expect(confirm.json().routing_decision).toBe("rule:foreign_marketplace_cards");
+
+      const invalid = await routedApp.inject({
+        method: "POST",
+        url: "/v1/routing/simulate",
+        headers: withAuth(),
+        payload: { ...payment, payment_method: { type: "pix", bin_country: "US" } },
+      });
+      expect(invalid.statusCode).toBe(422);
+      expect(invalid.json().error.code).toBe("invalid_payment_method");
+    } finally {
+      await routedApp.close();
+    }
   });
 
-  it("lists payment events with cursor pagination and filters", async () => {
-    const createA = await app.inject({
-      method: "POST",
-      url: "/v1/payment-intents",
-      headers: withAuthAndIdempotency("events-list-create-a"),
-      payload: {
-        amount: 2200,
-        currency: "BRL",
-        customer: { id: "cus_events_a" },
-        payment_method: { type: "card", token: "tok_test_visa" },
-        capture_method: "automatic",
+  it("splits card traffic by weight and labels intents and metrics with the cohort", async () => {
+    const splitApp = buildApp({
+      ...loadRuntimeConfig(),
+      webhookBackoffSeconds: [0, 0],
+      webhookWorkerPollIntervalMs: 10,
+      routing: {
+        rules: [],
+        methodWeights: { card: [{ provider: "provider_a", weight: 1 }, { provider: "provider_b", weight: 0 }] },
+        providerFees: {},
+        circuitBreaker: {},
+        providerCalls: {},
+        httpProviders: [],
+        sandbox: { scenarios: [] },
       },
     });
-    const paymentIntentA = createA.json().id as string;
-    await app.inject({
-      method: "POST",
-      url: `/v1/payment-intents/${paymentIntentA}/confirm`,
-      headers: withAuthAndIdempotency("events-list-confirm-a"),
+    await splitApp.ready();
+
+    try {
+      const create = await splitApp.inject({
+        method: "POST",
+        url: "/v1/payment-intents",
+        headers: withAuthAndIdempotency("split-create"),
+        payload: {
+          amount: 1800,
+          currency: "BRL",
+          customer: { id: "cus_split" },
+          payment_method: { type: "card", token: "tok_test_visa" },
+          capture_method: "automatic",
+        },
+      });
+      expect(create.json().routing_decision).toBeNull();
+
+      const confirm = await splitApp.inject({
+        method: "POST",
+        url: `/v1/payment-intents/${create.json().id}/confirm`,
+        headers: withAuthAndIdempotency("split-confirm"),
+      });
+      expect(confirm.json().status).toBe("succeeded");
+      expect(confirm.json().provider).toBe("provider_a");
+      expect(confirm.json().routing_decision).toBe("split:provider_a");
+
+      const metrics = await splitApp.inject({ method: "GET", url: "/metrics" });
+      expect(metrics.body).toContain(
+        'pmc_routing_decision_outcomes_total{routing_decision="split:provider_a",outcome="authorized"} 1',
+      );
+    } finally {
+      await splitApp.close();
+    }
+  });
+
+  it("exposes adaptive routing scores learned from authorizations", async () => {
+    const priority = await app.inject({ method: "GET", url: "/v1/routing/scores", headers: withAuth() });
+    expect(priority.statusCode).toBe(200);
+    expect(priority.json()).toEqual({ strategy: "priority", data: [] });
+
+    const adaptiveApp = buildApp({
+      ...loadRuntimeConfig(),
+      webhookBackoffSeconds: [0, 0],
+      webhookWorkerPollIntervalMs: 10,
+      routingStrategy: "adaptive",
+      routingAdaptiveExplorationPercent: 0,
     });
+    await adaptiveApp.ready();
 
-    const createB = await app.inject({
+    try {
+      const create = await adaptiveApp.inject({
+        method: "POST",
+        url: "/v1/payment-intents",
+        headers: withAuthAndIdempotency("adaptive-create"),
+        payload: {
+          amount: 1500,
+          currency: "BRL",
+          customer: { id: "cus_adaptive" },
+          payment_method: { type: "card", token: "tok_test_visa" },
+          capture_method: "automatic",
+        },
+      });
+      await adaptiveApp.inject({
+        method: "POST",
+        url: `/v1/payment-intents/${create.json().id}/confirm`,
+        headers: withAuthAndIdempotency("adaptive-confirm"),
+      });
+
+      const scores = await adaptiveApp.inject({ method: "GET", url: "/v1/routing/scores", headers: withAuth() });
+      expect(scores.json().strategy).toBe("adaptive");
+      expect(scores.json().data).toEqual([
+        {
+          provider: "provider_b",
+          payment_method_type: "card",
+          samples: 1,
+          approval_rate: 2 / 3,
+          average_latency_ms: expect.any(Number),
+          fee: { fixed_amount: 0, percent_bps: 0 },
+        },
+      ]);
+    } finally {
+      await adaptiveApp.close();
+    }
+  });
+
+  it("approves a held payment from the review queue and resumes authorization", async () => {
+    const create = await app.inject({
       method: "POST",
       url: "/v1/payment-intents",
-      headers: withAuthAndIdempotency("events-list-create-b"),
+      headers: withAuthAndIdempotency("review-approve-create"),
       payload: {
-        amount: 2300,
+        amount: 1000000,
         currency: "BRL",
-        customer: { id: "cus_events_b" },
+        customer: { id: "cus_review_approve" },
         payment_method: { type: "card", token: "tok_test_visa" },
         capture_method: "automatic",
       },
     });
-    const paymentIntentB = createB.json().id as string;
+    const id = create.json().id as string;
     await app.inject({
       method: "POST",
-      url: `/v1/payment-intents/${paymentIntentB}/confirm`,
-      headers: withAuthAndIdempotency("events-list-confirm-b"),
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("review-approve-confirm"),
     });
 
-    const firstPage = await app.inject({
+    const queue = await app.inject({
       method: "GET",
-      url: `/v1/payment-events?payment_intent_id=${paymentIntentA}&limit=2`,
+      url: `/v1/reviews?payment_intent_id=${id}`,
       headers: withAuth(),
     });
-    const firstPageBody = firstPage.json<{
-      data: Array<{ id: string; data: { payment_intent_id?: string } }>;
-      pagination: { limit: number; has_more: boolean; next_cursor: string | null };
-    }>();
-    expect(firstPage.statusCode).toBe(200);
-    expect(firstPageBody.data.length).toBe(2);
-    expect(firstPageBody.pagination.limit).toBe(2);
-    expect(firstPageBody.pagination.has_more).toBe(true);
-    expect(firstPageBody.pagination.next_cursor).toBeTypeOf("string");
-    expect(firstPageBody.pagination.next_cursor).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
-    expect(
-      firstPageBody.data.every((event) => event.data.payment_intent_id === paymentIntentA),
-    ).toBe(true);
-
-    const secondPage = await app.inject({
-      method: "GET",
-      url: `/v1/payment-events?payment_intent_id=${paymentIntentA}&limit=2&cursor=${firstPageBody.pagination.next_cursor}`,
-      headers: withAuth(),
+    expect(queue.statusCode).toBe(200);
+    expect(queue.json().data).toHaveLength(1);
+    expect(queue.json().data[0]).toMatchObject({
+      payment_intent_id: id,
+      status: "pending",
+      risk_reason: "high_amount_review",
+      note: null,
     });
-    const secondPageBody = secondPage.json<{
-      data: Array<{ id: string; data: { payment_intent_id?: string } }>;
-      pagination: { has_more: boolean; next_cursor: string | null };
-    }>();
-    expect(secondPage.statusCode).toBe(200);
-    expect(secondPageBody.data.length).toBe(1);
-    expect(secondPageBody.pagination.has_more).toBe(false);
-    expect(secondPageBody.pagination.next_cursor).toBeNull();
-    expect(
-      secondPageBody.data.every((event) => event.data.payment_intent_id === paymentIntentA),
-    ).toBe(true);
 
-    const succeededOnly = await app.inject({
-      method: "GET",
-      url: `/v1/payment-events?payment_intent_id=${paymentIntentA}&event_type=payment_intent.succeeded`,
-      headers: withAuth(),
+    const approve = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/review`,
+      headers: withAuthAndIdempotency("review-approve-decision"),
+      payload: { decision: "approve", note: "Customer verified by phone." },
     });
-    expect(succeededOnly.statusCode).toBe(200);
-    expect(succeededOnly.json().data.length).toBe(1);
-    expect(succeededOnly.json().data[0].type).toBe("payment_intent.succeeded");
+    expect(approve.statusCode).toBe(200);
+    expect(approve.json().status).toBe("succeeded");
+    expect(approve.json().provider_reference).not.toBeNull();
 
-    const futureWindow = await app.inject({
+    const pending = await app.inject({
       method: "GET",
-      url: "/v1/payment-events?occurred_from=2099-01-01T00:00:00.000Z",
+      url: `/v1/reviews?payment_intent_id=${id}`,
       headers: withAuth(),
     });
-    expect(futureWindow.statusCode).toBe(200);
-    expect(futureWindow.json().data.length).toBe(0);
-  });
+    expect(pending.json().data).toHaveLength(0);
 
-  it("rejects invalid payment-events list filters", async () => {
-    const invalidEventType = await app.inject({
+    const approved = await app.inject({
       method: "GET",
-      url: "/v1/payment-events?event_type=unknown.event",
+      url: `/v1/reviews?payment_intent_id=${id}&status=approved`,
       headers: withAuth(),
     });
-    expect(invalidEventType.statusCode).toBe(422);
-    expect(invalidEventType.json().error.code).toBe("invalid_webhook_event_type");
+    expect(approved.json().data[0]).toMatchObject({ status: "approved", note: "Customer verified by phone." });
 
-    const invalidOccurredFrom = await app.inject({
+    const events = await app.inject({
       method: "GET",
-      url: "/v1/payment-events?occurred_from=not-a-date",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=review.approved`,
       headers: withAuth(),
     });
-    expect(invalidOccurredFrom.statusCode).toBe(422);
-    expect(invalidOccurredFrom.json().error.code).toBe("invalid_occurred_from");
+    expect(events.json().data).toHaveLength(1);
 
-    const invalidRange = await app.inject({
-      method: "GET",
-      url: "/v1/payment-events?occurred_from=2026-12-31T00:00:00.000Z&occurred_to=2026-01-01T00:00:00.000Z",
-      headers: withAuth(),
+    const again = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/review`,
+      headers: withAuthAndIdempotency("review-approve-decision-again"),
+      payload: { decision: "reject", note: "Changed my mind." },
     });
-    expect(invalidRange.statusCode).toBe(422);
-    expect(invalidRange.json().error.code).toBe("invalid_occurred_range");
+    expect(again.statusCode).toBe(409);
+    expect(again.json().error.code).toBe("review_already_decided");
   });
 
-  it("falls back to secondary provider on transient authorization failure", async () => {
+  it("rejects a held payment from the review queue", async () => {
     const create = await app.inject({
       method: "POST",
       url: "/v1/payment-intents",
-      headers: withAuthAndIdempotency("failover-1"),
+      headers: withAuthAndIdempotency("review-reject-create"),
       payload: {
-        amount: 2500,
+        amount: 1000000,
         currency: "BRL",
-        customer: { id: "cus_failover" },
-        payment_method: { type: "card", token: "tok_test_transient" },
+        customer: { id: "cus_review_reject" },
+        payment_method: { type: "card", token: "tok_test_visa" },
         capture_method: "automatic",
       },
     });
+    const id = create.json().id as string;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("review-reject-confirm"),
+    });
 
-    const confirm = await app.inject({
+    const reject = await app.inject({
       method: "POST",
-      url: `/v1/payment-intents/${create.json().id}/confirm`,
-      headers: withAuthAndIdempotency("failover-confirm-1"),
+      url: `/v1/payment-intents/${id}/review`,
+      headers: withAuthAndIdempotency("review-reject-decision"),
+      payload: { decision: "reject", note: "Card reported stolen." },
     });
+    expect(reject.statusCode).toBe(200);
+    expect(reject.json().status).toBe("failed");
+    expect(reject.json().provider).toBeNull();
 
-    expect(confirm.statusCode).toBe(200);
-    expect(confirm.json().status).toBe("succeeded");
-    expect(confirm.json().provider).toBe("provider_a");
-    expect(confirm.json().provider_reference).toBeTypeOf("string");
+    const failed = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=payment_intent.failed`,
+      headers: withAuth(),
+    });
+    expect(failed.json().data[0].data.failure_code).toBe("risk_rejected_manual");
+
+    const rejected = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=review.rejected`,
+      headers: withAuth(),
+    });
+    expect(rejected.json().data[0].data).toMatchObject({ note: "Card reported stolen." });
   });
 
-  it("blocks payment when risk engine denies transaction", async () => {
+  it("closes the review of a held payment that is canceled", async () => {
     const create = await app.inject({
       method: "POST",
       url: "/v1/payment-intents",
-      headers: withAuthAndIdempotency("risk-deny-1"),
+      headers: withAuthAndIdempotency("review-cancel-create"),
       payload: {
-        amount: 3000,
+        amount: 1000000,
         currency: "BRL",
-        customer: { id: "blocked_001" },
+        customer: { id: "cus_review_cancel" },
         payment_method: { type: "card", token: "tok_test_visa" },
         capture_method: "automatic",
       },
     });
+    const id = create.json().id as string;
+    await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/confirm`,
+      headers: withAuthAndIdempotency("review-cancel-confirm"),
+    });
 
-    const confirm = await app.inject({
+    const cancel = await app.inject({
       method: "POST",
-      url: `/v1/payment-intents/${create.json().id}/confirm`,
-      headers: withAuthAndIdempotency("risk-deny-confirm-1"),
+      url: `/v1/payment-intents/${id}/cancel`,
+      headers: withAuthAndIdempotency("review-cancel-cancel"),
     });
+    expect(cancel.json().status).toBe("canceled");
 
-    expect(confirm.statusCode).toBe(200);
-    expect(confirm.json().status).toBe("failed");
+    const pending = await app.inject({ method: "GET", url: "/v1/reviews", headers: withAuth() });
+    expect(pending.json().data.map((review: { payment_intent_id: string }) => review.payment_intent_id)).not.toContain(id);
+    const canceled = await app.inject({ method: "GET", url: "/v1/reviews?status=canceled", headers: withAuth() });
+    expect(canceled.json().data).toMatchObject([{ payment_intent_id: id, status: "canceled", decided_at: null }]);
+
+    const events = await app.inject({
+      method: "GET",
+      url: `/v1/payment-events?payment_intent_id=${id}&event_type=review.canceled`,
+      headers: withAuth(),
+    });
+    expect(events.json().data[0].data).toMatchObject({ payment_intent_id: id, risk_reason: expect.any(String) });
+
+    const approve = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/review`,
+      headers: withAuthAndIdempotency("review-cancel-approve"),
+      payload: { decision: "approve", note: "Too late." },
+    });
+    expect(approve.statusCode).toBe(409);
+    expect(approve.json().error.code).toBe("review_already_decided");
   });
 
-  it("moves payment to requires_action when risk engine requests review", async () => {
+  it("rejects invalid review requests", async () => {
     const create = await app.inject({
       method: "POST",
       url: "/v1/payment-intents",
-      headers: withAuthAndIdempotency("risk-review-1"),
+      headers: withAuthAndIdempotency("review-invalid-create"),
       payload: {
-        amount: 1000000,
+        amount: 1500,
         currency: "BRL",
-        customer: { id: "cus_high_value" },
+        customer: { id: "cus_review_invalid" },
         payment_method: { type: "card", token: "tok_test_visa" },
         capture_method: "automatic",
       },
     });
+    const id = create.json().id as string;
 
-    const confirm = await app.inject({
+    const invalidDecision = await app.inject({
       method: "POST",
-      url: `/v1/payment-intents/${create.json().id}/confirm`,
-      headers: withAuthAndIdempotency("risk-review-confirm-1"),
+      url: `/v1/payment-intents/${id}/review`,
+      headers: withAuthAndIdempotency("review-invalid-decision"),
+      payload: { decision: "maybe", note: "?" },
     });
+    expect(invalidDecision.statusCode).toBe(422);
+    expect(invalidDecision.json().error.code).toBe("invalid_review_decision");
 
-    expect(confirm.statusCode).toBe(200);
-    expect(confirm.json().status).toBe("requires_action");
+    const missingNote = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/review`,
+      headers: withAuthAndIdempotency("review-invalid-note"),
+      payload: { decision: "approve" },
+    });
+    expect(missingNote.statusCode).toBe(422);
+    expect(missingNote.json().error.code).toBe("invalid_review_note");
+
+    const notUnderReview = await app.inject({
+      method: "POST",
+      url: `/v1/payment-intents/${id}/review`,
+      headers: withAuthAndIdempotency("review-invalid-missing"),
+      payload: { decision: "approve", note: "Looks fine." },
+    });
+    expect(notUnderReview.statusCode).toBe(404);
+
+    const invalidStatus = await app.inject({
+      method: "GET",
+      url: "/v1/reviews?status=open",
+      headers: withAuth(),
+    });
+    expect(invalidStatus.statusCode).toBe(422);
+    expect(invalidStatus.json().error.code).toBe("invalid_review_status");
   });
 
   it("registers webhook endpoint and lists endpoints", async () => {
@@ -1678,6 +3257,24 @@ describe("Payment API", () => {
     expect(rotated.json().error.code).toBe("resource_not_found");
   });
 
+  it("lists no event dead letters on the in-memory bus and rejects unknown requeues", async () => {
+    const listed = await app.inject({
+      method: "GET",
+      url: "/v1/event-dead-letters?limit=10",
+      headers: withAuth(),
+    });
+    expect(listed.statusCode).toBe(200);
+    expect(listed.json()).toEqual({ data: [], pagination: { limit: 10, has_more: false, next_cursor: null } });
+
+    const requeued = await app.inject({
+      method: "POST",
+      url: "/v1/event-dead-letters/1700000000000-0/requeue",
+      headers: withAuth(),
+    });
+    expect(requeued.statusCode).toBe(404);
+    expect(requeued.json().error.code).toBe("resource_not_found");
+  });
+
   it("rejects invalid payload when rotating webhook secret", async () => {
     const register = await app.inject({
       method: "POST",
@@ -1784,6 +3381,7 @@ describe("Payment API", () => {
       url: `/v1/payment-intents/${create.json().id}/confirm`,
       headers: withAuthAndIdempotency("webhook-success-confirm"),
     });
+    await waitForWebhookDeliveries(app, 1, "payment_intent.succeeded");
 
     const deliveries = await app.inject({
       method: "GET",
@@ -1823,6 +3421,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeliveries(app, 3, "payment_intent.created");
 
     const deliveries = await app.inject({
       method: "GET",
@@ -1860,6 +3459,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const deliveries = await app.inject({
       method: "GET",
@@ -1898,6 +3498,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeliveries(app, 3, "payment_intent.created");
 
     const deliveries = await app.inject({
       method: "GET",
@@ -1938,6 +3539,7 @@ describe("Payment API", () => {
         },
       });
     }
+    await waitForWebhookDeadLetters(app, 2);
 
     const firstPage = await app.inject({
       method: "GET",
@@ -2002,6 +3604,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const deadLetters = await app.inject({
       method: "GET",
@@ -2042,6 +3645,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const deadLetters = await app.inject({
       method: "GET",
@@ -2082,6 +3686,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const deadLettersBeforeReplay = await app.inject({
       method: "GET",
@@ -2134,6 +3739,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const deadLettersBeforeReplay = await app.inject({
       method: "GET",
@@ -2178,6 +3784,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const deadLettersBeforeReplay = await app.inject({
       method: "GET",
@@ -2236,6 +3843,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const deadLettersBeforeReplay = await app.inject({
       method: "GET",
@@ -2286,6 +3894,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     await app.inject({
       method: "PATCH",
@@ -2339,6 +3948,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const firstBatch = await app.inject({
       method: "POST",
@@ -2421,6 +4031,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const list = await app.inject({
       method: "GET",
@@ -2465,6 +4076,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const deadLettersBeforeReplay = await app.inject({
       method: "GET",
@@ -2525,6 +4137,7 @@ describe("Payment API", () => {
         capture_method: "automatic",
       },
     });
+    await waitForWebhookDeadLetters(app, 1);
 
     const filtered = await app.inject({
       method: "GET",
@@ -2581,6 +4194,7 @@ describe("Payment API", () => {
         },
       });
     }
+    await waitForWebhookDeadLetters(app, 2);
 
     const firstPage = await app.inject({
       method: "GET",
@@ -2690,6 +4304,9 @@ describe("Payment API", () => {
       riskReviewAmountThreshold: 1_000_000,
       webhookMaxAttempts: 3,
       webhookTimeoutMs: 5000,
+      webhookBackoffSeconds: [5, 30, 120, 300],
+      webhookWorkerPollIntervalMs: 1000,
+      webhookWorkerBatchSize: 50,
       providerCircuitBreakerEnabled: true,
       providerCircuitBreakerFailureThreshold: 3,
       providerCircuitBreakerCooldownSeconds: 30,
@@ -2862,6 +4479,14 @@ describe("Payment API", () => {
 
     expect(refund.statusCode).toBe(201);
     expect(refund.json().status).toBe("failed");
+    // The amount reserved for the refund goes back once the provider rejects it.
+    const paymentIntent = await app.inject({
+      method: "GET",
+      url: `/v1/payment-intents/${paymentIntentId}`,
+      headers: withAuth(),
+    });
+    expect(paymentIntent.json()).toMatchObject({ refunded_amount: 0, amount_refundable: 3000 });
+    await waitForWebhookDeliveries(app, 1, "refund.failed");
 
     const deliveries = await app.inject({
       method: "GET",
@@ -2993,6 +4618,7 @@ describe("Payment API", () => {
       url: `/v1/payment-intents/${create.json().id}/cancel`,
       headers: withAuthAndIdempotency("cancel-webhook-cancel"),
     });
+    await waitForWebhookDeliveries(app, 1, "payment_intent.canceled");
 
     const deliveries = await app.inject({
       method: "GET",
@@ -3,11 +3,36 @@ import { InMemoryEventBus } from "../src/adapters/inmemory/event-bus.js";
 import { InMemoryIdempotencyStore } from "../src/adapters/inmemory/idempotency-store.js";
 import { InMemoryPaymentRepository } from "../src/adapters/inmemory/payment-repository.js";
 import { InMemoryRiskEngine } from "../src/adapters/inmemory/risk-engine.js";
-import { MockProviderGateway } from "../src/adapters/providers/mock-provider.js";
+import { InMemoryUnitOfWork } from "../src/adapters/inmemory/unit-of-work.js";
+import { SandboxProviderGateway } from "../src/adapters/providers/sandbox-provider.js";
 import { PaymentOrchestrator } from "../src/application/payment-orchestrator.js";
 import { ProviderRouter } from "../src/application/provider-router.js";
-import { SystemClock } from "../src/infra/clock.js";
-import type { PaymentIntentRecord } from "../src/domain/types.js";
+import { AppError } from "../src/infra/app-error.js";
+import { SystemClock, type ClockPort } from "../src/infra/clock.js";
+import type { CircuitOverrideRecord, PaymentIntentRecord } from "../src/domain/types.js";
+import type {
+  AuthorizeInput,
+  AuthorizeResult,
+  CaptureInput,
+  CaptureResult,
+  ProviderStatusResult,
+  RefundInput,
+  RefundResult,
+  ReverseAuthorizationInput,
+  ReverseAuthorizationResult,
+} from "../src/ports/provider-gateway.js";
+
+class ManualClock implements ClockPort {
+  constructor(private currentMs: number) {}
+
+  nowIso(): string {
+    return new Date(this.currentMs).toISOString();
+  }
+
+  advanceSeconds(seconds: number): void {
+    this.currentMs += seconds * 1000;
+  }
+}
 
 class SlowPaymentRepository extends InMemoryPaymentRepository {
   override async savePaymentIntent(intent: PaymentIntentRecord): Promise<void> {
@@ -16,6 +41,12 @@ class SlowPaymentRepository extends InMemoryPaymentRepository {
   }
 }
 
+class FailingAuditRepository extends InMemoryPaymentRepository {
+  override async saveCircuitOverride(override: CircuitOverrideRecord): Promise<void> {
+    throw new Error(`audit table unavailable for ${override.provider}`);
+  }
+}
+
 describe("PaymentOrchestrator events", () => {
   it("publishes events with api_version", async () => {
     const repository = new InMemoryPaymentRepository();
@@ -25,7 +56,7 @@ describe("PaymentOrchestrator events", () => {
     const clock = new SystemClock();
     const providerRouter = new ProviderRouter(
       [
-        new MockProviderGateway({
+        new SandboxProviderGateway({
           name: "provider_a",
           supportedMethods: ["card", "pix", "boleto"],
         }),
@@ -39,7 +70,7 @@ describe("PaymentOrchestrator events", () => {
     const orchestrator = new PaymentOrchestrator(
       repository,
       idempotencyStore,
-      eventBus,
+      new InMemoryUnitOfWork(repository, eventBus),
       providerRouter,
       riskEngine,
       clock,
@@ -77,7 +108,7 @@ describe("PaymentOrchestrator events", () => {
     const clock = new SystemClock();
     const providerRouter = new ProviderRouter(
       [
-        new MockProviderGateway({
+        new SandboxProviderGateway({
           name: "provider_a",
           supportedMethods: ["card", "pix", "boleto"],
         }),
@@ -91,7 +122,7 @@ describe("PaymentOrchestrator events", () => {
     const orchestrator = new PaymentOrchestrator(
       repository,
       idempotencyStore,
-      eventBus,
+      new InMemoryUnitOfWork(repository, eventBus),
       providerRouter,
       riskEngine,
       clock,
@@ -120,3 +151,630 @@ describe("PaymentOrchestrator events", () => {
     expect(events).toHaveLength(1);
   });
 });
+
+describe("PaymentOrchestrator authorization expiry", () => {
+  function buildOrchestrator(clock: ClockPort) {
+    const repository = new InMemoryPaymentRepository();
+    const eventBus = new InMemoryEventBus();
+    const providerRouter = new ProviderRouter(
+      [
+        new SandboxProviderGateway({
+          name: "provider_a",
+          supportedMethods: ["card", "pix", "boleto"],
+        }),
+      ],
+      {
+        defaultProvider: "provider_a",
+        methodPriority: { card: ["provider_a"] },
+      },
+    );
+    const orchestrator = new PaymentOrchestrator(
+      repository,
+      new InMemoryIdempotencyStore(),
+      new InMemoryUnitOfWork(repository, eventBus),
+      providerRouter,
+      new InMemoryRiskEngine({ reviewAmountThreshold: 1_000_000 }),
+      clock,
+      "2026-02-08.2",
+      "payment-module-core-test",
+      "1.0.1",
+      { card: 3600 },
+    );
+    return { repository, eventBus, orchestrator };
+  }
+
+  async function authorizeManualIntent(orchestrator: PaymentOrchestrator, token: string, key: string) {
+    const created = await orchestrator.createPaymentIntent(
+      {
+        amount: 5000,
+        currency: "BRL",
+        customer: { id: "cus_authorization_expiry" },
+        payment_method: { type: "card", token },
+        capture_method: "manual",
+      },
+      `${key}-create`,
+    );
+    return orchestrator.confirmPaymentIntent(created.body.id, `${key}-confirm`);
+  }
+
+  it("cancels expired authorizations and releases them at the provider", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, eventBus, orchestrator } = buildOrchestrator(clock);
+    const confirmed = await authorizeManualIntent(orchestrator, "tok_test_visa", "expiry-release");
+    expect(confirmed.body.status).toBe("requires_action");
+    expect(confirmed.body.authorization_expires_at).toBe("2026-03-01T11:00:00.000Z");
+
+    clock.advanceSeconds(1800);
+    expect(await orchestrator.expireAuthorizations(10)).toEqual({ scanned: 0, expired: 0 });
+
+    clock.advanceSeconds(1800);
+    expect(await orchestrator.expireAuthorizations(10)).toEqual({ scanned: 1, expired: 1 });
+
+    const intent = await orchestrator.getPaymentIntentById(confirmed.body.id);
+    expect(intent.status).toBe("canceled");
+    const canceled = eventBus.getPublishedEvents().find((event) => event.type === "payment_intent.canceled");
+    expect(canceled?.data).toMatchObject({
+      payment_intent_id: confirmed.body.id,
+      cancellation_reason: "authorization_expired",
+    });
+    const ledger = await repository.listLedgerEntries({ limit: 10, paymentIntentId: confirmed.body.id });
+    expect(ledger.data.map((entry) => entry.entry_type)).toContain("authorization_reversal");
+  });
+
+  it("still cancels an expired authorization when the provider rejects the void", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, orchestrator } = buildOrchestrator(clock);
+    const confirmed = await authorizeManualIntent(orchestrator, "tok_test_void_fail", "expiry-void-fail");
+
+    clock.advanceSeconds(3600);
+    expect(await orchestrator.expireAuthorizations(10)).toEqual({ scanned: 1, expired: 1 });
+
+    const intent = await orchestrator.getPaymentIntentById(confirmed.body.id);
+    expect(intent.status).toBe("canceled");
+    const ledger = await repository.listLedgerEntries({ limit: 10, paymentIntentId: confirmed.body.id });
+    expect(ledger.data.map((entry) => entry.entry_type)).not.toContain("authorization_reversal");
+  });
+
+  it("leaves authorizations without a configured lifetime alone", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { orchestrator } = buildOrchestrator(clock);
+    const created = await orchestrator.createPaymentIntent(
+      {
+        amount: 5000,
+        currency: "BRL",
+        customer: { id: "cus_authorization_expiry" },
+        payment_method: { type: "pix", token: "tok_test_pix" },
+        capture_method: "manual",
+      },
+      "expiry-pix-create",
+    );
+    const confirmed = await orchestrator.confirmPaymentIntent(created.body.id, "expiry-pix-confirm");
+    expect(confirmed.body.authorization_expires_at).toBeNull();
+
+    clock.advanceSeconds(30 * 86400);
+    expect(await orchestrator.expireAuthorizations(10)).toEqual({ scanned: 0, expired: 0 });
+  });
+});
+
+describe("PaymentOrchestrator stuck intent recovery", () => {
+  // Dies after the provider answered an authorization, before the answer is stored.
+  class CrashingPaymentRepository extends InMemoryPaymentRepository {
+    crashAfterAuthorize = true;
+    failRefundReleases = false;
+
+    override async savePaymentIntent(intent: PaymentIntentRecord, expectedVersion?: number): Promise<void> {
+      if (this.crashAfterAuthorize && intent.provider_reference) {
+        throw new Error("process crashed before persisting the provider answer");
+      }
+      const stored = await this.getPaymentIntentById(intent.id);
+      if (this.failRefundReleases && stored && intent.refunded_amount < stored.refunded_amount) {
+        throw new Error("database connection lost while releasing the refund");
+      }
+      await super.savePaymentIntent(intent, expectedVersion);
+    }
+  }
+
+  class CrashingProviderGateway extends SandboxProviderGateway {
+    crashOnCapture = false;
+    crashOnVoid = false;
+    crashOnRefund = false;
+    readonly unavailableLookups = new Set<string>();
+    readonly captureKeys: Array<string | undefined> = [];
+
+    override async getStatus(reference: string): Promise<ProviderStatusResult> {
+      if (this.unavailableLookups.has(reference)) {
+        throw new AppError(504, "provider_timeout", "Provider did not answer the status lookup in time.");
+      }
+      return super.getStatus(reference);
+    }
+
+    override async capture(input: CaptureInput): Promise<CaptureResult> {
+      this.captureKeys.push(input.idempotencyKey);
+      if (this.crashOnCapture) {
+        throw new Error("process crashed before the capture answer arrived");
+      }
+      return super.capture(input);
+    }
+
+    override async reverseAuthorization(input: ReverseAuthorizationInput): Promise<ReverseAuthorizationResult> {
+      if (this.crashOnVoid) {
+        throw new Error("provider connection dropped during the void");
+      }
+      return super.reverseAuthorization(input);
+    }
+
+    override async refund(input: RefundInput): Promise<RefundResult> {
+      if (this.crashOnRefund) {
+        throw new Error("provider connection dropped during the refund");
+      }
+      return super.refund(input);
+    }
+  }
+
+  function buildOrchestrator(clock: ClockPort) {
+    const repository = new CrashingPaymentRepository();
+    const eventBus = new InMemoryEventBus();
+    const provider = new CrashingProviderGateway({
+      name: "provider_a",
+      supportedMethods: ["card", "pix", "boleto"],
+    });
+    const providerRouter = new ProviderRouter([provider], {
+      defaultProvider: "provider_a",
+      methodPriority: { card: ["provider_a"] },
+    });
+    const orchestrator = new PaymentOrchestrator(
+      repository,
+      new InMemoryIdempotencyStore(),
+      new InMemoryUnitOfWork(repository, eventBus),
+      providerRouter,
+      new InMemoryRiskEngine({ reviewAmountThreshold: 1_000_000 }),
+      clock,
+      "2026-02-08.2",
+      "payment-module-core-test",
+      "1.0.1",
+    );
+    return { repository, eventBus, provider, orchestrator };
+  }
+
+  async function strandIntent(orchestrator: PaymentOrchestrator, token: string, key: string): Promise<string> {
+    const created = await orchestrator.createPaymentIntent(
+      {
+        amount: 7300,
+        currency: "BRL",
+        customer: { id: "cus_stuck_recovery" },
+        payment_method: { type: "card", token },
+        capture_method: "automatic",
+      },
+      `${key}-create`,
+    );
+    await expect(orchestrator.confirmPaymentIntent(created.body.id, `${key}-confirm`)).rejects.toThrow(
+      "process crashed",
+    );
+    const stranded = await orchestrator.getPaymentIntentById(created.body.id);
+    expect(stranded.status).toBe("processing");
+    expect(stranded.provider_reference).toBeNull();
+    return created.body.id;
+  }
+
+  it("settles an intent the provider authorized before the crash", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, eventBus, orchestrator } = buildOrchestrator(clock);
+    const id = await strandIntent(orchestrator, "tok_test_visa", "stuck-authorized");
+    repository.crashAfterAuthorize = false;
+
+    clock.advanceSeconds(60);
+    expect(await orchestrator.recoverStuckIntents({ limit: 10, stuckAfterSeconds: 300 })).toEqual({
+      scanned: 0,
+      recovered: [],
+    });
+
+    clock.advanceSeconds(300);
+    const result = await orchestrator.recoverStuckIntents({ limit: 10, stuckAfterSeconds: 300 });
+    expect(result.scanned).toBe(1);
+    expect(result.recovered).toHaveLength(1);
+    expect(result.recovered[0]).toMatchObject({
+      payment_intent_id: id,
+      provider: "provider_a",
+      provider_status: "authorized",
+      resolved_status: "succeeded",
+      failure_code: null,
+      stuck_since: "2026-03-01T10:00:00.000Z",
+    });
+
+    const intent = await orchestrator.getPaymentIntentById(id);
+    expect(intent.status).toBe("succeeded");
+    expect(intent.provider_reference).toMatch(/^provider_a_/);
+    const ledger = await repository.listLedgerEntries({ limit: 10, paymentIntentId: id });
+    expect(ledger.data.map((entry) => entry.entry_type).sort()).toEqual(["authorization", "capture"]);
+    expect(eventBus.getPublishedEvents().some((event) => event.type === "payment_intent.succeeded")).toBe(true);
+
+    const recoveries = await orchestrator.listIntentRecoveries({ limit: 10, paymentIntentId: id });
+    expect(recoveries.data).toHaveLength(1);
+  });
+
+  it("fails an intent the provider never received and leaves pending ones for later", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, orchestrator } = buildOrchestrator(clock);
+    const pendingId = await strandIntent(orchestrator, "tok_test_async", "stuck-pending");
+
+    const lost = await orchestrator.createPaymentIntent(
+      {
+        amount: 7300,
+        currency: "BRL",
+        customer: { id: "cus_stuck_recovery" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "automatic",
+      },
+      "stuck-lost-create",
+    );
+    const claimed = await repository.getPaymentIntentById(lost.body.id);
+    if (!claimed) {
+      throw new Error("intent not found");
+    }
+    await repository.savePaymentIntent({ ...claimed, status: "processing", version: claimed.version + 1 });
+    repository.crashAfterAuthorize = false;
+
+    clock.advanceSeconds(600);
+    const result = await orchestrator.recoverStuckIntents({ limit: 10, stuckAfterSeconds: 300 });
+    expect(result.scanned).toBe(2);
+    expect(result.recovered).toHaveLength(1);
+    expect(result.recovered[0]).toMatchObject({
+      payment_intent_id: lost.body.id,
+      provider_status: "not_found",
+      resolved_status: "failed",
+      failure_code: "authorization_not_found",
+    });
+
+    const pending = await orchestrator.getPaymentIntentById(pendingId);
+    expect(pending.status).toBe("processing");
+    expect(pending.updated_at).toBe("2026-03-01T10:10:00.000Z");
+    expect(await orchestrator.recoverStuckIntents({ limit: 10, stuckAfterSeconds: 300 })).toEqual({
+      scanned: 0,
+      recovered: [],
+    });
+  });
+
+  it("moves past intents it cannot look up or has no claim to undo", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, provider, orchestrator } = buildOrchestrator(clock);
+    const lostId = await strandIntent(orchestrator, "tok_test_visa", "stuck-page-lost");
+    clock.advanceSeconds(1);
+    const unansweredId = await strandIntent(orchestrator, "tok_test_visa", "stuck-page-unanswered");
+    provider.unavailableLookups.add(unansweredId);
+    repository.crashAfterAuthorize = false;
+    // An authorized intent in processing without a pending claim, as rows from before claims were tracked.
+    const created = await orchestrator.createPaymentIntent(
+      {
+        amount: 7300,
+        currency: "BRL",
+        customer: { id: "cus_stuck_recovery" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "manual",
+      },
+      "stuck-page-held-create",
+    );
+    await orchestrator.confirmPaymentIntent(created.body.id, "stuck-page-held-confirm");
+    const held = await repository.getPaymentIntentById(created.body.id);
+    if (!held) {
+      throw new Error("intent not found");
+    }
+    await repository.savePaymentIntent({ ...held, status: "processing", version: held.version + 1 });
+
+    clock.advanceSeconds(600);
+    // The held intent never takes a page slot, and the unanswered one gives its slot up after one try.
+    expect(await orchestrator.recoverStuckIntents({ limit: 1, stuckAfterSeconds: 300 })).toEqual({
+      scanned: 1,
+      recovered: [],
+    });
+    const unanswered = await repository.getPaymentIntentById(unansweredId);
+    expect(unanswered).toMatchObject({ status: "processing", updated_at: "2026-03-01T10:10:01.000Z" });
+
+    const result = await orchestrator.recoverStuckIntents({ limit: 1, stuckAfterSeconds: 300 });
+    expect(result.recovered).toMatchObject([{ payment_intent_id: lostId, resolved_status: "succeeded" }]);
+    expect(await orchestrator.recoverStuckIntents({ limit: 1, stuckAfterSeconds: 300 })).toEqual({
+      scanned: 0,
+      recovered: [],
+    });
+
+    provider.unavailableLookups.clear();
+    clock.advanceSeconds(600);
+    const retried = await orchestrator.recoverStuckIntents({ limit: 1, stuckAfterSeconds: 300 });
+    expect(retried.recovered).toMatchObject([{ payment_intent_id: unansweredId, resolved_status: "succeeded" }]);
+  });
+
+  it("hands back a capture claim that threw and flags a cancel claim that never reported", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, provider, orchestrator } = buildOrchestrator(clock);
+    repository.crashAfterAuthorize = false;
+    const authorize = async (key: string) => {
+      const created = await orchestrator.createPaymentIntent(
+        {
+          amount: 7300,
+          currency: "BRL",
+          customer: { id: "cus_stuck_recovery" },
+          payment_method: { type: "card", token: "tok_test_visa" },
+          capture_method: "manual",
+        },
+        `${key}-create`,
+      );
+      await orchestrator.confirmPaymentIntent(created.body.id, `${key}-confirm`);
+      return created.body.id;
+    };
+
+    // A capture call that throws hands its claim back at once.
+    const captureId = await authorize("stuck-capture");
+    provider.crashOnCapture = true;
+    await expect(orchestrator.capturePaymentIntent(captureId, 7300, "stuck-capture-1")).rejects.toThrow(
+      "process crashed",
+    );
+    expect(await repository.getPaymentIntentById(captureId)).toMatchObject({
+      status: "requires_action",
+      pending_operation: null,
+    });
+    provider.crashOnCapture = false;
+    expect((await orchestrator.capturePaymentIntent(captureId, 7300, "stuck-capture-2")).body.status).toBe(
+      "succeeded",
+    );
+    // The provider may have applied the lost call, so the retry carries the same idempotency key.
+    expect(provider.captureKeys).toEqual([`${captureId}:capture:0:7300`, `${captureId}:capture:0:7300`]);
+
+    // A process that dies while voiding leaves the claim for the sweeper, which cannot tell whether the void landed.
+    const cancelId = await authorize("stuck-cancel");
+    const authorized = await repository.getPaymentIntentById(cancelId);
+    if (!authorized) {
+      throw new Error("intent not found");
+    }
+    await repository.savePaymentIntent({
+      ...authorized,
+      status: "processing",
+      pending_operation: "cancel",
+      version: authorized.version + 1,
+    });
+
+    clock.advanceSeconds(600);
+    const result = await orchestrator.recoverStuckIntents({ limit: 10, stuckAfterSeconds: 300 });
+    expect(result.recovered).toHaveLength(1);
+    expect(result.recovered[0]).toMatchObject({
+      payment_intent_id: cancelId,
+      provider_status: "authorized",
+      resolved_status: "processing",
+      failure_code: "cancel_unconfirmed",
+      stuck_since: "2026-03-01T10:00:00.000Z",
+    });
+    expect(await repository.getPaymentIntentById(cancelId)).toMatchObject({
+      status: "processing",
+      pending_operation: "cancel",
+      updated_at: "2026-03-01T10:10:00.000Z",
+    });
+    await expect(orchestrator.cancelPaymentIntent(cancelId, "stuck-cancel-retry")).rejects.toMatchObject({
+      code: "invalid_payment_state",
+    });
+
+    // Flagged once; later passes only move it out of the page.
+    clock.advanceSeconds(600);
+    expect(await orchestrator.recoverStuckIntents({ limit: 10, stuckAfterSeconds: 300 })).toEqual({
+      scanned: 1,
+      recovered: [],
+    });
+    expect((await orchestrator.listIntentRecoveries({ limit: 10, paymentIntentId: cancelId })).data).toHaveLength(1);
+    expect((await repository.getPaymentIntentById(cancelId))?.updated_at).toBe("2026-03-01T10:20:00.000Z");
+  });
+
+  it("ignores an authorization notification while a capture claim holds the intent", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, orchestrator } = buildOrchestrator(clock);
+    repository.crashAfterAuthorize = false;
+    const created = await orchestrator.createPaymentIntent(
+      {
+        amount: 7300,
+        currency: "BRL",
+        customer: { id: "cus_stuck_recovery" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "manual",
+      },
+      "notification-claim-create",
+    );
+    await orchestrator.confirmPaymentIntent(created.body.id, "notification-claim-confirm");
+    const authorized = await repository.getPaymentIntentById(created.body.id);
+    if (!authorized?.provider_reference) {
+      throw new Error("intent not authorized");
+    }
+    const claimed = { ...authorized, status: "processing" as const, pending_operation: "capture" as const };
+    await repository.savePaymentIntent({ ...claimed, version: authorized.version + 1 });
+
+    expect(await orchestrator.handleProviderNotification("provider_a", {
+      id: "ntf_during_capture",
+      providerReference: authorized.provider_reference,
+      status: "succeeded",
+    })).toEqual({ outcome: "ignored", paymentIntentId: created.body.id });
+
+    expect(await repository.getPaymentIntentById(created.body.id)).toMatchObject({
+      status: "processing",
+      pending_operation: "capture",
+      authorized_amount: 7300,
+      captured_amount: 0,
+    });
+    const ledger = await repository.listLedgerEntries({ limit: 10, paymentIntentId: created.body.id });
+    expect(ledger.data.map((entry) => entry.entry_type)).toEqual(["authorization"]);
+  });
+
+  it("commits a final capture whose remainder release throws", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, provider, orchestrator } = buildOrchestrator(clock);
+    repository.crashAfterAuthorize = false;
+    const created = await orchestrator.createPaymentIntent(
+      {
+        amount: 7300,
+        currency: "BRL",
+        customer: { id: "cus_stuck_recovery" },
+        payment_method: { type: "card", token: "tok_test_visa" },
+        capture_method: "manual",
+      },
+      "final-capture-void-create",
+    );
+    await orchestrator.confirmPaymentIntent(created.body.id, "final-capture-void-confirm");
+
+    provider.crashOnVoid = true;
+    const captured = await orchestrator.capturePaymentIntent(created.body.id, 3000, "final-capture-void", {
+      finalCapture: true,
+    });
+    expect(captured.body).toMatchObject({ status: "requires_action", captured_amount: 3000 });
+    expect(await repository.getPaymentIntentById(created.body.id)).toMatchObject({ pending_operation: null });
+    const ledger = await repository.listLedgerEntries({ limit: 10, paymentIntentId: created.body.id });
+    expect(ledger.data.map((entry) => entry.entry_type).sort()).toEqual(["authorization", "capture"]);
+
+    // The remainder is still authorized, so a cancel can retry the release.
+    provider.crashOnVoid = false;
+    expect((await orchestrator.cancelPaymentIntent(created.body.id, "final-capture-void-cancel")).body.status).toBe(
+      "canceled",
+    );
+  });
+  it("settles refunds whose failed call could not release the reservation", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T10:00:00.000Z"));
+    const { repository, eventBus, provider, orchestrator } = buildOrchestrator(clock);
+    repository.crashAfterAuthorize = false;
+    const strandRefund = async (token: string, key: string) => {
+      const created = await orchestrator.createPaymentIntent(
+        {
+          amount: 7300,
+          currency: "BRL",
+          customer: { id: "cus_stuck_recovery" },
+          payment_method: { type: "card", token },
+          capture_method: "automatic",
+        },
+        `${key}-create`,
+      );
+      await orchestrator.confirmPaymentIntent(created.body.id, `${key}-confirm`);
+      await expect(
+        orchestrator.createRefund({ payment_intent_id: created.body.id, amount: 2000 }, `${key}-refund`),
+      ).rejects.toThrow("database connection lost");
+      const [refund] = (await orchestrator.listRefunds({ limit: 10, paymentIntentId: created.body.id })).data;
+      expect(refund?.status).toBe("pending");
+      expect((await repository.getPaymentIntentById(created.body.id))?.refunded_amount).toBe(2000);
+      return { intentId: created.body.id, refundId: refund?.id };
+    };
+
+    provider.crashOnRefund = true;
+    repository.failRefundReleases = true;
+    const lost = await strandRefund("tok_test_visa", "stuck-refund-lost");
+    const rejected = await strandRefund("tok_test_refund_fail", "stuck-refund-rejected");
+    provider.crashOnRefund = false;
+    repository.failRefundReleases = false;
+
+    clock.advanceSeconds(60);
+    expect(await orchestrator.recoverPendingRefunds({ limit: 10, stuckAfterSeconds: 300 })).toEqual({
+      scanned: 0,
+      settled: [],
+    });
+
+    clock.advanceSeconds(300);
+    const result = await orchestrator.recoverPendingRefunds({ limit: 10, stuckAfterSeconds: 300 });
+    expect(result.scanned).toBe(2);
+    expect(result.settled.map((refund) => [refund.id, refund.status]).sort()).toEqual(
+      [[lost.refundId, "succeeded"], [rejected.refundId, "failed"]].sort(),
+    );
+
+    // The replay kept the reservation of the refund the provider applied and gave back the rejected one.
+    expect((await repository.getPaymentIntentById(lost.intentId))?.refunded_amount).toBe(2000);
+    expect((await repository.getPaymentIntentById(rejected.intentId))?.refunded_amount).toBe(0);
+    const ledger = await repository.listLedgerEntries({ limit: 10, paymentIntentId: lost.intentId });
+    expect(ledger.data.filter((entry) => entry.entry_type === "refund")).toHaveLength(1);
+    const events = eventBus.getPublishedEvents();
+    expect(events.filter((event) => event.type === "refund.succeeded")).toHaveLength(1);
+    expect(events.filter((event) => event.type === "refund.failed")).toHaveLength(1);
+
+    expect(await orchestrator.recoverPendingRefunds({ limit: 10, stuckAfterSeconds: 300 })).toEqual({
+      scanned: 0,
+      settled: [],
+    });
+  });
+});
+
+describe("PaymentOrchestrator circuit overrides", () => {
+  it("leaves the circuit alone when the audit row fails to commit", async () => {
+    const repository = new FailingAuditRepository();
+    const eventBus = new InMemoryEventBus();
+    const providerRouter = new ProviderRouter(
+      [new SandboxProviderGateway({ name: "provider_a", supportedMethods: ["card", "pix", "boleto"] })],
+      { defaultProvider: "provider_a", methodPriority: { card: ["provider_a"] } },
+    );
+    const orchestrator = new PaymentOrchestrator(
+      repository,
+      new InMemoryIdempotencyStore(),
+      new InMemoryUnitOfWork(repository, eventBus),
+      providerRouter,
+      new InMemoryRiskEngine({ reviewAmountThreshold: 1_000_000 }),
+      new SystemClock(),
+      "2026-02-08.2",
+      "payment-module-core-test",
+      "1.0.1",
+    );
+
+    await expect(
+      orchestrator.forceProviderCircuit(
+        "provider_a",
+        { state: "open", ttl_seconds: 300, reason: "acquirer maintenance" },
+        "force-audit-fails",
+        "ops@example.com",
+      ),
+    ).rejects.toThrow("audit table unavailable");
+
+    const [health] = (await orchestrator.listProviders()).data;
+    expect(health?.forced).toBeNull();
+    expect(health?.circuit_state).toBe("closed");
+  });
+});
+
+describe("PaymentOrchestrator provider failover", () => {
+  class UnreachableProviderGateway extends SandboxProviderGateway {
+    override async authorize(input: AuthorizeInput): Promise<AuthorizeResult> {
+      throw new Error(`connection reset while authorizing ${input.merchantReference}`);
+    }
+  }
+
+  it("fails over and records a transient failure when a provider throws", async () => {
+    const clock = new ManualClock(Date.parse("2026-02-08T10:00:00.000Z"));
+    const repository = new InMemoryPaymentRepository();
+    const providerRouter = new ProviderRouter(
+      [
+        new UnreachableProviderGateway({ name: "provider_a", supportedMethods: ["card"] }),
+        new SandboxProviderGateway({ name: "provider_b", supportedMethods: ["card"] }),
+      ],
+      { defaultProvider: "provider_a", methodPriority: { card: ["provider_a", "provider_b"] } },
+      { clock, circuitBreaker: { failureThreshold: 1, cooldownSeconds: 60, halfOpenMaxCalls: 1 } },
+    );
+    const orchestrator = new PaymentOrchestrator(
+      repository,
+      new InMemoryIdempotencyStore(),
+      new InMemoryUnitOfWork(repository, new InMemoryEventBus()),
+      providerRouter,
+      new InMemoryRiskEngine({ reviewAmountThreshold: 1_000_000 }),
+      clock,
+      "2026-02-08.2",
+      "payment-module-core-test",
+      "1.0.1",
+    );
+    const pay = async (key: string) => {
+      const created = await orchestrator.createPaymentIntent(
+        {
+          amount: 2100,
+          currency: "BRL",
+          customer: { id: "cus_failover_throw" },
+          payment_method: { type: "card", token: "tok_test_visa" },
+          capture_method: "automatic",
+        },
+        `${key}-create`,
+      );
+      return (await orchestrator.confirmPaymentIntent(created.body.id, `${key}-confirm`)).body;
+    };
+    const providerA = async () => (await orchestrator.listProviders()).data.find((item) => item.name === "provider_a");
+
+    expect(await pay("failover-throw-1")).toMatchObject({ status: "succeeded", provider: "provider_b" });
+    expect((await providerA())?.circuit_state).toBe("open");
+
+    // The half-open probe throws too; it must reopen the circuit rather than hold the only probe slot forever.
+    clock.advanceSeconds(60);
+    expect(await pay("failover-throw-2")).toMatchObject({ status: "succeeded", provider: "provider_b" });
+    expect((await providerA())?.circuit_state).toBe("open");
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { PeriodicTask } from "../src/infra/periodic-task.js";
+import type { ScheduledTimer, SchedulerPort } from "../src/infra/scheduler.js";
+
+// Fires timers only when the test advances it, letting each pass settle before the next timer.
+class ManualScheduler implements SchedulerPort {
+  private nowMs = 0;
+  private timers: Array<{ dueMs: number; callback: () => void }> = [];
+
+  schedule(delayMs: number, callback: () => void): ScheduledTimer {
+    const timer = { dueMs: this.nowMs + delayMs, callback };
+    this.timers.push(timer);
+    return {
+      cancel: () => {
+        this.timers = this.timers.filter((item) => item !== timer);
+      },
+    };
+  }
+
+  get pending(): number {
+    return this.timers.length;
+  }
+
+  async advance(ms: number): Promise<void> {
+    const targetMs = this.nowMs + ms;
+    await settle();
+    for (;;) {
+      const [next] = [...this.timers].sort((a, b) => a.dueMs - b.dueMs);
+      if (!next || next.dueMs > targetMs) {
+        break;
+      }
+      this.timers = this.timers.filter((item) => item !== next);
+      this.nowMs = next.dueMs;
+      next.callback();
+      await settle();
+    }
+    this.nowMs = targetMs;
+  }
+}
+
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("PeriodicTask", () => {
+  it("runs a pass per interval and right away when a pass asks for more", async () => {
+    const scheduler = new ManualScheduler();
+    const results = [true, false, false];
+    let passes = 0;
+    const task = new PeriodicTask({
+      intervalMs: 1000,
+      scheduler,
+      runPass: () => {
+        passes += 1;
+        return Promise.resolve(results.shift() ?? false);
+      },
+    });
+
+    task.start();
+    await scheduler.advance(0);
+    expect(passes).toBe(2);
+
+    await scheduler.advance(999);
+    expect(passes).toBe(2);
+    await scheduler.advance(1);
+    expect(passes).toBe(3);
+
+    await task.stop();
+    expect(scheduler.pending).toBe(0);
+    await scheduler.advance(5000);
+    expect(passes).toBe(3);
+  });
+
+  it("keeps going after a failed pass and honours a wake during a pass", async () => {
+    const scheduler = new ManualScheduler();
+    let passes = 0;
+    let release: (() => void) | undefined;
+    const task = new PeriodicTask({
+      intervalMs: 1000,
+      scheduler,
+      runPass: async () => {
+        passes += 1;
+        if (passes === 1) {
+          throw new Error("source unavailable");
+        }
+        if (passes === 2) {
+          await new Promise<void>((resolve) => {
+            release = resolve;
+          });
+        }
+      },
+    });
+
+    task.start();
+    await scheduler.advance(1000);
+    expect(passes).toBe(2);
+
+    task.wake();
+    release?.();
+    await scheduler.advance(0);
+    expect(passes).toBe(3);
+
+    await task.stop();
+    expect(task.isRunning).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import type { Redis } from "ioredis";
+import type { Pool } from "pg";
+import { describe, expect, it } from "vitest";
+import { PgRedisDurableEventBus } from "../src/adapters/durable/pg-redis-event-bus.js";
+import type { PaymentEvent } from "../src/domain/types.js";
+import { AppError } from "../src/infra/app-error.js";
+
+type StreamMessage = [string, string[]];
+
+function buildEvent(id: string): PaymentEvent {
+  return {
+    id,
+    type: "payment_intent.succeeded",
+    api_version: "2026-02-08",
+    source: "payment-module-core",
+    event_version: "1.0.0",
+    occurred_at: "2026-02-08T10:00:00.000Z",
+    data: { payment_intent_id: "pi_1" },
+  };
+}
+
+// Registers a handler without starting the blocking consumer loop.
+function addSubscriber(bus: PgRedisDurableEventBus, handler: (event: PaymentEvent) => Promise<void>): void {
+  (bus as unknown as { subscribers: Array<(event: PaymentEvent) => Promise<void>> }).subscribers.push(handler);
+}
+
+function streamFields(event: PaymentEvent): string[] {
+  return ["event_id", event.id, "event_json", JSON.stringify(event)];
+}
+
+function buildPool(): Pool {
+  return {
+    query: () => Promise.resolve({ rows: [], rowCount: 1 }),
+  } as unknown as Pool;
+}
+
+class FakeStreams {
+  readonly streams = new Map<string, StreamMessage[]>();
+  readonly acked: string[] = [];
+  pending: StreamMessage[] = [];
+  deliveries = new Map<string, number>();
+  private sequence = 0;
+
+  build(): Redis {
+    const redis = {
+      duplicate: () => redis,
+      xautoclaim: () => Promise.resolve(["0-0", this.pending.splice(0), []]),
+      xpending: (_key: string, _group: string, id: string) =>
+        Promise.resolve([[id, "pmc-test", 60000, this.deliveries.get(id) ?? 1]]),
+      xack: (_key: string, _group: string, id: string) => {
+        this.acked.push(id);
+        return Promise.resolve(1);
+      },
+      xadd: (key: string, _id: string, ...fields: string[]) => {
+        this.sequence += 1;
+        const entryId = `1700000000000-${this.sequence}`;
+        this.streams.set(key, [...(this.streams.get(key) ?? []), [entryId, fields]]);
+        return Promise.resolve(entryId);
+      },
+      xrevrange: (key: string, end: string, _start: string, _count: string, count: number) => {
+        const entries = [...(this.streams.get(key) ?? [])].reverse();
+        const startIndex = end === "+" ? 0 : entries.findIndex(([id]) => `(${id}` === end) + 1;
+        return Promise.resolve(entries.slice(startIndex, startIndex + count));
+      },
+      xrange: (key: string, id: string) =>
+        Promise.resolve((this.streams.get(key) ?? []).filter(([entryId]) => entryId === id)),
+      xdel: (key: string, id: string) => {
+        this.streams.set(key, (this.streams.get(key) ?? []).filter(([entryId]) => entryId !== id));
+        return Promise.resolve(1);
+      },
+    } as unknown as Redis;
+    return redis;
+  }
+}
+
+const options = {
+  streamKey: "pmc:events",
+  consumerGroup: "pmc:webhook",
+  consumerName: "pmc-test",
+  blockMs: 10,
+  batchSize: 10,
+  claimIdleMs: 1000,
+  maxDeliveries: 3,
+};
+
+describe("PgRedisDurableEventBus pending entry recovery", () => {
+  it("redelivers reclaimed entries and parks the ones past the delivery ceiling", async () => {
+    const streams = new FakeStreams();
+    const bus = new PgRedisDurableEventBus(buildPool(), streams.build(), options);
+    const delivered: string[] = [];
+    addSubscriber(bus, (event) => {
+      delivered.push(event.id);
+      return Promise.resolve();
+    });
+    streams.pending = [
+      ["1-0", streamFields(buildEvent("evt_retry"))],
+      ["2-0", streamFields(buildEvent("evt_poison"))],
+    ];
+    streams.deliveries.set("1-0", 2);
+    streams.deliveries.set("2-0", 4);
+
+    const reclaimed = await bus.reclaimPending();
+
+    expect(reclaimed).toBe(2);
+    expect(delivered).toEqual(["evt_retry"]);
+    expect(streams.acked).toEqual(["1-0", "2-0"]);
+    const page = await bus.listDeadLetters({ limit: 10 });
+    expect(page.hasMore).toBe(false);
+    expect(page.data).toEqual([
+      expect.objectContaining({
+        event_id: "evt_poison",
+        event_type: "payment_intent.succeeded",
+        stream_id: "2-0",
+        delivery_count: 4,
+      }),
+    ]);
+  });
+
+  it("leaves failed entries pending so a later reclaim retries them", async () => {
+    const streams = new FakeStreams();
+    const bus = new PgRedisDurableEventBus(buildPool(), streams.build(), options);
+    addSubscriber(bus, () => Promise.reject(new Error("subscriber down")));
+    streams.pending = [["1-0", streamFields(buildEvent("evt_failing"))]];
+
+    await bus.reclaimPending();
+
+    expect(streams.acked).toEqual([]);
+  });
+
+  it("pages dead letters newest first and requeues them onto the main stream", async () => {
+    const streams = new FakeStreams();
+    const redis = streams.build();
+    const bus = new PgRedisDurableEventBus(buildPool(), redis, options);
+    for (const id of ["evt_1", "evt_2", "evt_3"]) {
+      const event = buildEvent(id);
+      await redis.xadd("pmc:events:dead", "*", "event_id", id, "event_json", JSON.stringify(event), "stream_id", "9-0");
+    }
+
+    const firstPage = await bus.listDeadLetters({ limit: 2 });
+    expect(firstPage.data.map((item) => item.event_id)).toEqual(["evt_3", "evt_2"]);
+    expect(firstPage.hasMore).toBe(true);
+    const secondPage = await bus.listDeadLetters({ limit: 2, cursor: firstPage.nextCursor as string });
+    expect(secondPage.data.map((item) => item.event_id)).toEqual(["evt_1"]);
+
+    const requeued = await bus.requeueDeadLetter(secondPage.data[0]?.id as string);
+    expect(requeued.event_id).toBe("evt_1");
+    expect(streams.streams.get("pmc:events")?.map(([, fields]) => fields[1])).toEqual(["evt_1"]);
+    expect((await bus.listDeadLetters({ limit: 10 })).data).toHaveLength(2);
+
+    await expect(bus.requeueDeadLetter(requeued.id)).rejects.toThrowError(AppError);
+    await expect(bus.requeueDeadLetter("not-a-stream-id")).rejects.toThrowError(AppError);
+  });
+});
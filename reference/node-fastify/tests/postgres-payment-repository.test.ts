@@ -0,0 +1,104 @@
+import type { Pool } from "pg";
+import { describe, expect, it } from "vitest";
+import { decodeKeysetCursor, encodeKeysetCursor } from "../src/adapters/postgres/keyset-cursor.js";
+import { PostgresPaymentRepository } from "../src/adapters/postgres/payment-repository.js";
+import { AppError } from "../src/infra/app-error.js";
+import { CursorTokenService } from "../src/infra/cursor-token.js";
+
+interface CapturedQuery {
+  text: string;
+  values: unknown[];
+}
+
+function buildPool(rows: Array<Record<string, unknown>>): { pool: Pool; queries: CapturedQuery[] } {
+  const queries: CapturedQuery[] = [];
+  const pool = {
+    query: (text: string, values: unknown[] = []) => {
+      queries.push({ text, values });
+      return Promise.resolve({ rows, rowCount: rows.length });
+    },
+  } as unknown as Pool;
+  return { pool, queries };
+}
+
+function refundRow(id: string, createdAt: string, keysetAt = createdAt.replace("Z", "000Z")): Record<string, unknown> {
+  return {
+    id,
+    payment_intent_id: "pi_1",
+    amount: "500",
+    status: "succeeded",
+    reason: null,
+    created_at: new Date(createdAt),
+    keyset_at: keysetAt,
+  };
+}
+
+describe("PostgresPaymentRepository keyset pagination", () => {
+  it("fetches limit + 1 rows and derives the next cursor from the last returned row", async () => {
+    const { pool, queries } = buildPool([
+      refundRow("re_3", "2026-02-08T10:00:03.000Z"),
+      refundRow("re_2", "2026-02-08T10:00:02.000Z"),
+      refundRow("re_1", "2026-02-08T10:00:01.000Z"),
+    ]);
+    const repository = new PostgresPaymentRepository(pool);
+
+    const page = await repository.listRefunds({ limit: 2, status: "succeeded" });
+
+    expect(page.data.map((refund) => refund.id)).toEqual(["re_3", "re_2"]);
+    expect(page.hasMore).toBe(true);
+    expect(page.nextCursor).toBe("2026-02-08T10:00:02.000000Z:re_2");
+    expect(queries[0]?.text).toContain("LIMIT $2");
+    expect(queries[0]?.values).toEqual(["succeeded", 3]);
+  });
+
+  it("seeks past the cursor position instead of scanning from the start", async () => {
+    const { pool, queries } = buildPool([refundRow("re_1", "2026-02-08T10:00:01.000Z")]);
+    const repository = new PostgresPaymentRepository(pool);
+
+    const page = await repository.listRefunds({ limit: 2, cursor: "2026-02-08T10:00:02.000Z:re_2" });
+
+    expect(page.data.map((refund) => refund.id)).toEqual(["re_1"]);
+    expect(page.hasMore).toBe(false);
+    expect(page.nextCursor).toBeUndefined();
+    expect(queries[0]?.text).toContain("(created_at, id) < ($1::timestamptz, $2)");
+    expect(queries[0]?.text).toContain("LIMIT $3");
+    expect(queries[0]?.values).toEqual(["2026-02-08T10:00:02.000Z", "re_2", 3]);
+  });
+
+  it("keeps the microseconds of the database timestamp in the cursor", async () => {
+    const { pool, queries } = buildPool([
+      refundRow("re_2", "2026-02-08T10:00:02.123Z", "2026-02-08T10:00:02.123456Z"),
+      refundRow("re_1", "2026-02-08T10:00:02.123Z", "2026-02-08T10:00:02.123001Z"),
+    ]);
+    const repository = new PostgresPaymentRepository(pool);
+
+    const page = await repository.listRefunds({ limit: 1 });
+
+    expect(page.data[0]?.created_at).toBe("2026-02-08T10:00:02.123Z");
+    expect(page.nextCursor).toBe("2026-02-08T10:00:02.123456Z:re_2");
+    expect(queries[0]?.text).toContain("'YYYY-MM-DD\"T\"HH24:MI:SS.US\"Z\"') AS keyset_at");
+
+    await repository.listRefunds({ limit: 1, cursor: page.nextCursor as string });
+    expect(queries[1]?.values).toEqual(["2026-02-08T10:00:02.123456Z", "re_2", 2]);
+  });
+
+  it("rejects cursors that do not carry a keyset position", async () => {
+    const { pool, queries } = buildPool([]);
+    const repository = new PostgresPaymentRepository(pool);
+
+    await expect(repository.listPaymentIntents({ limit: 10, cursor: "pi_legacy" })).rejects.toThrowError(AppError);
+    expect(queries).toHaveLength(0);
+  });
+});
+
+describe("keyset cursor", () => {
+  it("round-trips through the cursor token envelope", () => {
+    const tokens = new CursorTokenService("test_cursor_secret_123456");
+    const cursor = encodeKeysetCursor("2026-02-08T10:00:00.123Z", "evt_0f3b");
+
+    expect(decodeKeysetCursor(tokens.decode(tokens.encode(cursor)))).toEqual({
+      timestamp: "2026-02-08T10:00:00.123Z",
+      id: "evt_0f3b",
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import type { Pool } from "pg";
+import { describe, expect, it } from "vitest";
+import { PostgresWebhookRepository } from "../src/adapters/postgres/webhook-repository.js";
+import { AppError } from "../src/infra/app-error.js";
+
+interface CapturedQuery {
+  text: string;
+  values: unknown[];
+}
+
+function buildPool(
+  rows: Array<Record<string, unknown>>,
+  rowCount = rows.length,
+): { pool: Pool; queries: CapturedQuery[] } {
+  const queries: CapturedQuery[] = [];
+  const pool = {
+    query: (text: string, values: unknown[] = []) => {
+      queries.push({ text, values });
+      return Promise.resolve({ rows, rowCount });
+    },
+  } as unknown as Pool;
+  return { pool, queries };
+}
+
+function deadLetterRow(id: string, failedAt: string): Record<string, unknown> {
+  return {
+    id,
+    endpoint_id: "we_1",
+    endpoint_url: "https://merchant.example/webhooks",
+    event_id: "evt_1",
+    event_type: "payment_intent.succeeded",
+    attempts: 3,
+    status: "pending",
+    replay_count: 0,
+    failure_reason: "max_attempts_exhausted",
+    response_status: 503,
+    error_code: null,
+    failed_at: new Date(failedAt),
+    last_replayed_at: null,
+    keyset_at: failedAt.replace("Z", "000Z"),
+  };
+}
+
+describe("PostgresWebhookRepository", () => {
+  it("maps endpoint rows and filters enabled endpoints by subscribed event", async () => {
+    const { pool, queries } = buildPool([
+      {
+        id: "we_1",
+        url: "https://merchant.example/webhooks",
+        events: ["payment_intent.succeeded"],
+        secret: "whsec_1",
+        enabled: true,
+        created_at: new Date("2026-02-08T10:00:00.000Z"),
+      },
+    ]);
+    const repository = new PostgresWebhookRepository(pool);
+
+    const endpoints = await repository.listEnabledEndpointsByEvent("payment_intent.succeeded");
+
+    expect(endpoints).toEqual([
+      {
+        id: "we_1",
+        url: "https://merchant.example/webhooks",
+        events: ["payment_intent.succeeded"],
+        secret: "whsec_1",
+        enabled: true,
+        created_at: "2026-02-08T10:00:00.000Z",
+      },
+    ]);
+    expect(queries[0]?.text).toContain("cardinality(events) = 0 OR $1 = ANY(events)");
+    expect(queries[0]?.values).toEqual(["payment_intent.succeeded"]);
+  });
+
+  it("paginates dead letters by failure time with filters applied in SQL", async () => {
+    const { pool, queries } = buildPool([
+      deadLetterRow("wdl_2", "2026-02-08T10:00:02.000Z"),
+      deadLetterRow("wdl_1", "2026-02-08T10:00:01.000Z"),
+    ]);
+    const repository = new PostgresWebhookRepository(pool);
+
+    const page = await repository.listDeadLetters({ limit: 1, status: "pending", endpointId: "we_1" });
+
+    expect(page.data).toHaveLength(1);
+    expect(page.data[0]).toMatchObject({ id: "wdl_2", response_status: 503 });
+    expect(page.data[0]).not.toHaveProperty("error_code");
+    expect(page.hasMore).toBe(true);
+    expect(page.nextCursor).toBe("2026-02-08T10:00:02.000000Z:wdl_2");
+    expect(queries[0]?.text).toContain("ORDER BY failed_at DESC, id DESC");
+    expect(queries[0]?.values).toEqual(["pending", "we_1", 2]);
+  });
+
+  it("returns not found when updating a missing endpoint or dead letter", async () => {
+    const { pool } = buildPool([], 0);
+    const repository = new PostgresWebhookRepository(pool);
+
+    await expect(repository.updateEndpoint("we_missing", { enabled: false })).rejects.toThrowError(AppError);
+    await expect(repository.getDeadLetterById("wdl_missing")).rejects.toThrowError(AppError);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { SandboxProviderGateway } from "../src/adapters/providers/sandbox-provider.js";
+import {
+  formatConformanceReport,
+  runProviderConformance,
+} from "../src/application/provider-conformance.js";
+import type { ProviderConformanceFixtures } from "../src/application/provider-conformance.js";
+import { AppError } from "../src/infra/app-error.js";
+import type {
+  AuthorizeInput,
+  AuthorizeResult,
+  ProviderCallOptions,
+  ProviderStatusResult,
+  RefundInput,
+  RefundResult,
+} from "../src/ports/provider-gateway.js";
+
+const withoutAction: ProviderConformanceFixtures = {
+  paymentMethodType: "card",
+  currency: "BRL",
+  amount: 1000,
+  approveToken: "tok_test_visa",
+  declines: [
+    { token: "tok_test_fail", declineCode: "generic_decline" },
+    { token: "tok_test_insufficient_funds", declineCode: "insufficient_funds" },
+    { token: "tok_test_unavailable", declineCode: "provider_unavailable" },
+  ],
+};
+const fixtures: ProviderConformanceFixtures = { ...withoutAction, actionToken: "tok_test_3ds" };
+
+// Breaks the contract in the ways adapters usually do: refunds ignore both the idempotency key and the captured amount.
+class NonConformingProvider extends SandboxProviderGateway {
+  private readonly refunded = new Set<string>();
+
+  constructor() {
+    super({ name: "provider_broken", supportedMethods: ["card"] });
+  }
+
+  override async authorize(input: AuthorizeInput, options?: ProviderCallOptions): Promise<AuthorizeResult> {
+    const result = await super.authorize(input, options);
+    return result.ok ? result : { ok: false, reference: result.reference, failureCode: "05" };
+  }
+
+  override async getStatus(reference: string): Promise<ProviderStatusResult> {
+    throw new AppError(501, "provider_operation_not_supported", `No status lookups for '${reference}'.`);
+  }
+
+  override async refund(input: RefundInput): Promise<RefundResult> {
+    if (this.refunded.has(input.reference)) {
+      return { ok: false, failureCode: "duplicate_refund", declineCode: "generic_decline" };
+    }
+    this.refunded.add(input.reference);
+    return { ok: true };
+  }
+}
+
+describe("runProviderConformance", () => {
+  it("certifies the sandbox provider", async () => {
+    const report = await runProviderConformance(
+      () => new SandboxProviderGateway({ name: "provider_a", supportedMethods: ["card", "pix"] }),
+      fixtures,
+    );
+
+    expect(report.passed, formatConformanceReport(report)).toBe(true);
+    expect(report.provider).toBe("provider_a");
+    expect(report.checks.map((check) => [check.name, check.status])).toEqual([
+      ["declares_payment_method", "passed"],
+      ["authorize_approves", "passed"],
+      ["authorize_declines_with_canonical_codes", "passed"],
+      ["status_lookup", "passed"],
+      ["complete_authorization", "passed"],
+      ["partial_captures", "passed"],
+      ["refunds_are_idempotent", "passed"],
+      ["refund_beyond_captured_fails", "passed"],
+      ["reverse_authorization", "passed"],
+    ]);
+  });
+
+  it("reports contract violations and skips unsupported operations", async () => {
+    const disposed: string[] = [];
+    const report = await runProviderConformance(() => new NonConformingProvider(), withoutAction, {
+      dispose: (provider) => {
+        disposed.push(provider.name);
+      },
+    });
+
+    expect(report.passed).toBe(false);
+    expect(Object.fromEntries(report.checks.map((check) => [check.name, check.status]))).toMatchObject({
+      authorize_approves: "passed",
+      authorize_declines_with_canonical_codes: "failed",
+      status_lookup: "skipped",
+      complete_authorization: "skipped",
+      refunds_are_idempotent: "failed",
+      refund_beyond_captured_fails: "failed",
+    });
+    expect(report.checks.find((check) => check.name === "authorize_declines_with_canonical_codes")?.detail)
+      .toBe("authorize of 'tok_test_fail' failed with non-canonical decline code 'undefined'.");
+    expect(disposed).toHaveLength(report.checks.length);
+    expect(formatConformanceReport(report)).toContain("FAILED  refunds_are_idempotent - repeated refund failed");
+    expect(report.checks.find((check) => check.name === "refund_beyond_captured_fails")?.detail)
+      .toBe("refund beyond the captured amount succeeded but was expected to fail.");
+  });
+
+  it("fails a call that outlives its deadline", async () => {
+    const report = await runProviderConformance(
+      () => new SandboxProviderGateway({ name: "provider_b", supportedMethods: ["card"] }),
+      { ...fixtures, approveToken: "tok_test_timeout" },
+      { callTimeoutMs: 20 },
+    );
+
+    expect(report.checks.find((check) => check.name === "authorize_approves")).toEqual({
+      name: "authorize_approves",
+      status: "failed",
+      detail: "authorize did not answer within 20ms.",
+    });
+  });
+});
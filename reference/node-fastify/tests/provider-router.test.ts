@@ -1,15 +1,26 @@
+import type { Redis } from "ioredis";
 import { describe, expect, it } from "vitest";
+import { RedisCircuitStateStore } from "../src/adapters/redis/circuit-state-store.js";
+import type { CircuitStateChange } from "../src/application/provider-circuit-breaker.js";
 import { ProviderRouter } from "../src/application/provider-router.js";
+import { AdaptiveRoutingStrategy } from "../src/application/routing-strategies.js";
+import type { RoutingContext } from "../src/domain/routing-rules.js";
 import type { PaymentMethodType } from "../src/domain/types.js";
+import { InMemoryCircuitStateStore } from "../src/infra/circuit-state-store.js";
 import type { ClockPort } from "../src/infra/clock.js";
+import type { CircuitStateStorePort } from "../src/ports/circuit-state-store.js";
 import type {
   AuthorizeInput,
   AuthorizeResult,
   CaptureInput,
   CaptureResult,
+  CompleteAuthorizationInput,
   ProviderGatewayPort,
+  ProviderStatusResult,
   RefundInput,
   RefundResult,
+  ReverseAuthorizationInput,
+  ReverseAuthorizationResult,
 } from "../src/ports/provider-gateway.js";
 
 class MutableClock implements ClockPort {
@@ -39,6 +50,14 @@ class StubProvider implements ProviderGatewayPort {
     return { ok: true, reference: `${this.name}_auth` };
   }
 
+  async completeAuthorization(input: CompleteAuthorizationInput): Promise<AuthorizeResult> {
+    return { ok: true, reference: input.reference };
+  }
+
+  async getStatus(reference: string): Promise<ProviderStatusResult> {
+    return { status: "authorized", reference };
+  }
+
   async capture(input: CaptureInput): Promise<CaptureResult> {
     void input;
     return { ok: true };
@@ -48,10 +67,25 @@ class StubProvider implements ProviderGatewayPort {
     void input;
     return { ok: true };
   }
+
+  async reverseAuthorization(input: ReverseAuthorizationInput): Promise<ReverseAuthorizationResult> {
+    void input;
+    return { ok: true };
+  }
 }
 
+const cardPayment: RoutingContext = {
+  paymentMethodType: "card",
+  currency: "BRL",
+  amount: 1000,
+  customerId: "cus_1",
+  paymentIntentId: null,
+  cardBinCountry: null,
+  metadata: {},
+};
+
 describe("ProviderRouter circuit breaker", () => {
-  it("opens transient provider circuit and skips provider", () => {
+  it("opens transient provider circuit and skips provider", async () => {
     const clock = new MutableClock("2026-02-08T10:00:00.000Z");
     const providerA = new StubProvider("provider_a", ["card"]);
     const providerB = new StubProvider("provider_b", ["card"]);
@@ -72,17 +106,17 @@ describe("ProviderRouter circuit breaker", () => {
       },
     );
 
-    router.recordAuthorizeOutcome("provider_b", {
+    await router.recordAuthorizeOutcome("provider_b", {
       ok: false,
       reference: "provider_b_1",
       failureCode: "transient_network_error",
     });
-    const candidates = router.selectCandidates("card");
+    const candidates = router.selectCandidates(cardPayment);
     expect(candidates[0]?.name).toBe("provider_a");
     expect(candidates.some((provider) => provider.name === "provider_b")).toBe(false);
   });
 
-  it("reopens provider after cooldown", () => {
+  it("reopens provider after cooldown", async () => {
     const clock = new MutableClock("2026-02-08T10:00:00.000Z");
     const providerA = new StubProvider("provider_a", ["card"]);
     const providerB = new StubProvider("provider_b", ["card"]);
@@ -103,18 +137,18 @@ describe("ProviderRouter circuit breaker", () => {
       },
     );
 
-    router.recordAuthorizeOutcome("provider_b", {
+    await router.recordAuthorizeOutcome("provider_b", {
       ok: false,
       reference: "provider_b_1",
       failureCode: "provider_unavailable",
     });
     clock.setNow("2026-02-08T10:01:01.000Z");
 
-    const candidates = router.selectCandidates("card");
+    const candidates = router.selectCandidates(cardPayment);
     expect(candidates[0]?.name).toBe("provider_b");
   });
 
-  it("does not open circuit for non-transient declines when transient-only is enabled", () => {
+  it("does not open circuit for non-transient declines when transient-only is enabled", async () => {
     const clock = new MutableClock("2026-02-08T10:00:00.000Z");
     const providerA = new StubProvider("provider_a", ["card"]);
     const providerB = new StubProvider("provider_b", ["card"]);
@@ -135,12 +169,484 @@ describe("ProviderRouter circuit breaker", () => {
       },
     );
 
-    router.recordAuthorizeOutcome("provider_b", {
+    await router.recordAuthorizeOutcome("provider_b", {
       ok: false,
       reference: "provider_b_1",
       failureCode: "provider_declined",
     });
-    const candidates = router.selectCandidates("card");
+    const candidates = router.selectCandidates(cardPayment);
     expect(candidates[0]?.name).toBe("provider_b");
   });
+
+  it("counts failures by the canonical decline code the adapter mapped", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    const changes: CircuitStateChange[] = [];
+    const router = breakerRouter(clock, changes);
+
+    // Issuer-side declines say nothing about the provider, whatever its raw code looks like.
+    await router.recordAuthorizeOutcome("provider_b", {
+      ok: false,
+      reference: "ref_b",
+      failureCode: "91",
+      declineCode: "issuer_unavailable",
+    });
+    expect(changes).toEqual([]);
+
+    await router.recordAuthorizeOutcome("provider_b", {
+      ok: false,
+      reference: "ref_b",
+      failureCode: "E_GATEWAY",
+      declineCode: "processing_error",
+    });
+    expect(changes).toEqual([expect.objectContaining({ to: "open", reason: "consecutive_failures" })]);
+  });
+
+  function breakerRouter(clock: MutableClock, changes: CircuitStateChange[], halfOpenMaxCalls = 2): ProviderRouter {
+    return new ProviderRouter(
+      [new StubProvider("provider_a", ["card"]), new StubProvider("provider_b", ["card"])],
+      {
+        defaultProvider: "provider_a",
+        methodPriority: { card: ["provider_b", "provider_a"] },
+      },
+      {
+        clock,
+        circuitBreaker: {
+          failureThreshold: 1,
+          cooldownSeconds: 60,
+          failureRateThreshold: 0.5,
+          windowSeconds: 60,
+          minimumCalls: 4,
+          halfOpenMaxCalls,
+        },
+        onCircuitStateChange: (change) => changes.push(change),
+      },
+    );
+  }
+  const unavailable = { ok: false, reference: "ref_b", failureCode: "provider_unavailable" };
+
+  it("lets a limited number of probes through while half-open and closes once they succeed", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    const changes: CircuitStateChange[] = [];
+    const router = breakerRouter(clock, changes);
+
+    await router.recordAuthorizeOutcome("provider_b", unavailable);
+    expect(await router.acquireCall("provider_b")).toBe(false);
+    clock.setNow("2026-02-08T10:01:00.000Z");
+
+    expect(router.selectCandidates(cardPayment)[0]?.name).toBe("provider_b");
+    expect(await router.acquireCall("provider_b")).toBe(true);
+    expect(await router.acquireCall("provider_b")).toBe(true);
+    expect(await router.acquireCall("provider_b")).toBe(false);
+    expect(router.selectCandidates(cardPayment).map((provider) => provider.name)).toEqual(["provider_a"]);
+
+    await router.recordAuthorizeOutcome("provider_b", { ok: true, reference: "ref_b" });
+    await router.recordAuthorizeOutcome("provider_b", { ok: true, reference: "ref_b" });
+    expect(router.selectCandidates(cardPayment)[0]?.name).toBe("provider_b");
+    expect(changes.map((change) => [change.from, change.to, change.reason])).toEqual([
+      ["closed", "open", "consecutive_failures"],
+      ["open", "half_open", "cooldown_elapsed"],
+      ["half_open", "closed", "probes_succeeded"],
+    ]);
+    expect(changes[0]).toMatchObject({
+      provider: "provider_b",
+      operation: "authorize",
+      openedUntil: "2026-02-08T10:01:00.000Z",
+    });
+  });
+
+  it("reopens the circuit when a half-open probe fails", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    const changes: CircuitStateChange[] = [];
+    const router = breakerRouter(clock, changes, 1);
+
+    await router.recordAuthorizeOutcome("provider_b", unavailable);
+    clock.setNow("2026-02-08T10:01:00.000Z");
+    expect(await router.acquireCall("provider_b")).toBe(true);
+    await router.recordAuthorizeOutcome("provider_b", unavailable);
+
+    expect(await router.acquireCall("provider_b")).toBe(false);
+    expect(changes.at(-1)).toMatchObject({ from: "half_open", to: "open", reason: "probe_failed" });
+  });
+
+  it("opens on the failure rate of the rolling window and counts capture and refund failures", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    const changes: CircuitStateChange[] = [];
+    const router = new ProviderRouter(
+      [new StubProvider("provider_a", ["card"]), new StubProvider("provider_b", ["card"])],
+      { defaultProvider: "provider_a", methodPriority: { card: ["provider_b", "provider_a"] } },
+      {
+        clock,
+        circuitBreaker: { failureThreshold: 5, failureRateThreshold: 0.5, windowSeconds: 60, minimumCalls: 4 },
+        onCircuitStateChange: (change) => changes.push(change),
+      },
+    );
+
+    await router.recordAuthorizeOutcome("provider_b", { ok: true, reference: "ref_b" });
+    await router.recordProviderOutcome("provider_b", "capture", { ok: false, failureCode: "timeout" });
+    await router.recordAuthorizeOutcome("provider_b", { ok: true, reference: "ref_b" });
+    expect(router.selectCandidates(cardPayment)[0]?.name).toBe("provider_b");
+
+    // Calls older than the window no longer count towards the rate.
+    clock.setNow("2026-02-08T10:00:59.000Z");
+    await router.recordProviderOutcome("provider_b", "refund", { ok: false, failureCode: "provider_unavailable" });
+    expect(changes).toEqual([
+      expect.objectContaining({ to: "open", reason: "failure_rate", operation: "refund" }),
+    ]);
+    expect(router.selectCandidates(cardPayment).map((provider) => provider.name)).toEqual(["provider_a"]);
+
+    const windowed = new ProviderRouter(
+      [new StubProvider("provider_b", ["card"])],
+      { defaultProvider: "provider_b", methodPriority: {} },
+      { clock, circuitBreaker: { failureThreshold: 5, failureRateThreshold: 0.6, minimumCalls: 2 } },
+    );
+    await windowed.recordProviderOutcome("provider_b", "capture", { ok: false, failureCode: "timeout" });
+    clock.setNow("2026-02-08T10:02:00.000Z");
+    await windowed.recordAuthorizeOutcome("provider_b", { ok: true, reference: "ref_b" });
+    await windowed.recordProviderOutcome("provider_b", "refund", { ok: false, failureCode: "timeout" });
+    expect(await windowed.acquireCall("provider_b")).toBe(true);
+  });
+
+  function sharedRouter(clock: MutableClock, store: CircuitStateStorePort, changes: CircuitStateChange[]) {
+    return new ProviderRouter(
+      [new StubProvider("provider_a", ["card"]), new StubProvider("provider_b", ["card"])],
+      { defaultProvider: "provider_a", methodPriority: { card: ["provider_b", "provider_a"] } },
+      {
+        clock,
+        circuitBreaker: { failureThreshold: 2, cooldownSeconds: 60 },
+        circuitStateStore: store,
+        onCircuitStateChange: (change) => changes.push(change),
+      },
+    );
+  }
+
+  it("opens and closes a provider on every instance that shares the circuit state store", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    const store = new InMemoryCircuitStateStore();
+    const changesA: CircuitStateChange[] = [];
+    const changesB: CircuitStateChange[] = [];
+    const instanceA = sharedRouter(clock, store, changesA);
+    const instanceB = sharedRouter(clock, store, changesB);
+
+    // Failures seen by different instances add up to the shared threshold.
+    await instanceA.recordAuthorizeOutcome("provider_b", unavailable);
+    await instanceB.recordAuthorizeOutcome("provider_b", unavailable);
+    expect(instanceB.selectCandidates(cardPayment).map((provider) => provider.name)).toEqual(["provider_a"]);
+    expect(instanceA.selectCandidates(cardPayment)[0]?.name).toBe("provider_b");
+    await instanceA.refreshCircuits();
+    expect(instanceA.selectCandidates(cardPayment).map((provider) => provider.name)).toEqual(["provider_a"]);
+
+    clock.setNow("2026-02-08T10:01:00.000Z");
+    expect(await instanceA.acquireCall("provider_b")).toBe(true);
+    expect(await instanceB.acquireCall("provider_b")).toBe(false);
+    await instanceA.recordAuthorizeOutcome("provider_b", { ok: true, reference: "ref_b" });
+    await instanceB.refreshCircuits();
+    expect(instanceB.selectCandidates(cardPayment)[0]?.name).toBe("provider_b");
+
+    // Each transition is reported once, by the instance whose call caused it.
+    expect(changesA.map((change) => change.to)).toEqual(["half_open", "closed"]);
+    expect(changesB.map((change) => change.to)).toEqual(["open"]);
+  });
+
+  it("falls back to local circuit state while Redis is unavailable", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    const errors: unknown[] = [];
+    const redis = { eval: () => Promise.reject(new Error("connection refused")) } as unknown as Redis;
+    const store = new RedisCircuitStateStore(redis, {
+      keyPrefix: "pmc:circuit",
+      fallback: new InMemoryCircuitStateStore(),
+      onUnavailable: (error) => errors.push(error),
+    });
+    const changes: CircuitStateChange[] = [];
+    const router = sharedRouter(clock, store, changes);
+
+    await router.recordAuthorizeOutcome("provider_b", unavailable);
+    await router.recordAuthorizeOutcome("provider_b", unavailable);
+
+    expect(router.selectCandidates(cardPayment).map((provider) => provider.name)).toEqual(["provider_a"]);
+    expect(changes).toEqual([expect.objectContaining({ to: "open", reason: "consecutive_failures" })]);
+    expect(errors).toHaveLength(2);
+  });
+
+  it("respects forced circuit states until their TTL expires", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    const changes: CircuitStateChange[] = [];
+    const router = sharedRouter(clock, new InMemoryCircuitStateStore(), changes);
+
+    // Forced closed keeps routing to the provider even when it fails.
+    await router.forceCircuit("provider_b", "closed", 60, "acquirer confirmed it is healthy");
+    await router.recordAuthorizeOutcome("provider_b", unavailable);
+    await router.recordAuthorizeOutcome("provider_b", unavailable);
+    expect(await router.acquireCall("provider_b")).toBe(true);
+    expect(router.selectCandidates(cardPayment)[0]?.name).toBe("provider_b");
+
+    const health = await router.forceCircuit("provider_b", "open", 300, "acquirer maintenance");
+    expect(health).toMatchObject({
+      name: "provider_b",
+      supportedMethods: ["card"],
+      circuit: {
+        state: "open",
+        forced: { state: "open", until: "2026-02-08T10:05:00.000Z", reason: "acquirer maintenance" },
+      },
+      recentAuthorizations: 2,
+      recentApprovalRate: 0,
+    });
+    expect(router.selectCandidates(cardPayment).map((provider) => provider.name)).toEqual(["provider_a"]);
+    expect(await router.acquireCall("provider_b")).toBe(false);
+
+    clock.setNow("2026-02-08T10:05:00.000Z");
+    expect(router.selectCandidates(cardPayment)[0]?.name).toBe("provider_b");
+    expect(await router.acquireCall("provider_b")).toBe(true);
+    expect(changes.map((change) => [change.from, change.to, change.reason])).toEqual([
+      ["closed", "closed", "forced"],
+      ["closed", "open", "forced"],
+      ["open", "closed", "force_expired"],
+    ]);
+    expect(changes[1]).toMatchObject({
+      operation: null,
+      openedUntil: "2026-02-08T10:05:00.000Z",
+      forcedUntil: "2026-02-08T10:05:00.000Z",
+      forcedReason: "acquirer maintenance",
+    });
+    await expect(router.forceCircuit("provider_z", "open", 60, "typo")).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
+
+describe("ProviderRouter routing rules", () => {
+  const providerA = new StubProvider("provider_a", ["card", "pix"]);
+  const providerB = new StubProvider("provider_b", ["card"]);
+  const router = new ProviderRouter([providerA, providerB], {
+    defaultProvider: "provider_a",
+    methodPriority: { card: ["provider_a"] },
+    rules: [
+      {
+        name: "usd_high_value",
+        when: { currency: ["USD"], amount_gte: 10_000 },
+        providers: ["provider_b"],
+      },
+      {
+        name: "vip_app",
+        when: { customer_id_prefix: ["vip_"], metadata: { channel: "app" } },
+        providers: ["provider_b", "provider_a"],
+      },
+      {
+        name: "foreign_cards",
+        when: { payment_method: ["card"], card_bin_country: ["US", "GB"] },
+        providers: ["provider_b"],
+      },
+    ],
+  });
+
+  it("picks the first matching rule and explains the rules before it", () => {
+    const decision = router.route({
+      ...cardPayment,
+      customerId: "vip_42",
+      metadata: { channel: "app" },
+    });
+
+    expect(decision.matchedRule).toBe("vip_app");
+    expect(decision.label).toBe("rule:vip_app");
+    expect(decision.evaluations).toEqual([
+      { rule: "usd_high_value", matched: false, unmatchedConditions: ["currency", "amount_gte"] },
+      { rule: "vip_app", matched: true, unmatchedConditions: [] },
+    ]);
+    expect(router.selectCandidates({ ...cardPayment, customerId: "vip_42", metadata: { channel: "app" } })
+      .map((provider) => provider.name)).toEqual(["provider_b", "provider_a"]);
+  });
+
+  it("matches on card BIN country and falls back to method priority when no rule matches", () => {
+    expect(router.route({ ...cardPayment, cardBinCountry: "us" }).matchedRule).toBe("foreign_cards");
+
+    const fallback = router.route({ ...cardPayment, cardBinCountry: "BR" });
+    expect(fallback.matchedRule).toBeNull();
+    expect(fallback.evaluations.map((evaluation) => evaluation.matched)).toEqual([false, false, false]);
+    expect(fallback.candidates.map((candidate) => candidate.provider.name)).toEqual(["provider_a"]);
+  });
+
+  it("rejects rules and priorities that target providers that are not configured", () => {
+    expect(() => new ProviderRouter([providerA], {
+      defaultProvider: "provider_a",
+      methodPriority: {},
+      rules: [{ name: "typo", when: {}, providers: ["provider_z"] }],
+    })).toThrowError(/unknown provider 'provider_z'/);
+
+    expect(() => new ProviderRouter([providerA, providerB], {
+      defaultProvider: "provider_a",
+      methodPriority: {},
+      rules: [{ name: "pix_on_b", when: { payment_method: ["pix"] }, providers: ["provider_b"] }],
+    })).toThrowError(/no provider supporting 'pix'/);
+
+    expect(() => new ProviderRouter([providerA], {
+      defaultProvider: "provider_a",
+      methodPriority: { card: ["provider_a", "provider_z"] },
+    })).toThrowError(/priority for 'card' names unknown provider 'provider_z'/);
+  });
+});
+
+describe("ProviderRouter weighted splits", () => {
+  const providerA = new StubProvider("provider_a", ["card", "pix"]);
+  const providerB = new StubProvider("provider_b", ["card"]);
+  const providerC = new StubProvider("provider_c", ["card"]);
+  const policy = {
+    defaultProvider: "provider_a",
+    methodPriority: { card: ["provider_a"] },
+    methodWeights: {
+      card: [
+        { provider: "provider_b", weight: 90 },
+        { provider: "provider_c", weight: 10 },
+      ],
+    },
+  };
+
+  it("assigns customers to providers in proportion to the weights and keeps them sticky", () => {
+    const router = new ProviderRouter([providerA, providerB, providerC], policy);
+    const assigned = Array.from({ length: 1000 }, (_, index) =>
+      router.route({ ...cardPayment, customerId: `cus_${index}` }).label);
+    const canary = assigned.filter((label) => label === "split:provider_c").length;
+
+    expect(assigned.every((label) => label === "split:provider_b" || label === "split:provider_c")).toBe(true);
+    expect(canary).toBeGreaterThan(60);
+    expect(canary).toBeLessThan(140);
+    for (let index = 0; index < 20; index += 1) {
+      const context = { ...cardPayment, customerId: `cus_${index}`, paymentIntentId: `pi_${index}` };
+      expect(router.route(context).label).toBe(assigned[index]);
+    }
+    expect(router.route({ ...cardPayment, paymentMethodType: "pix" }).label).toBe("priority");
+  });
+
+  it("fails over to the other split providers by weight and then the default provider", async () => {
+    const router = new ProviderRouter([providerA, providerB, providerC], policy, {
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    const customerId = Array.from({ length: 100 }, (_, index) => `cus_${index}`).find(
+      (id) => router.route({ ...cardPayment, customerId: id }).label === "split:provider_c",
+    );
+    expect(customerId).toBeDefined();
+    const context = { ...cardPayment, customerId: customerId ?? "" };
+
+    expect(router.selectCandidates(context).map((provider) => provider.name)).toEqual([
+      "provider_c",
+      "provider_b",
+      "provider_a",
+    ]);
+
+    await router.recordAuthorizeOutcome("provider_c", {
+      ok: false,
+      reference: "ref_c",
+      failureCode: "provider_unavailable",
+    });
+    expect(router.selectRoute(context)).toMatchObject({ label: "split:provider_c" });
+    expect(router.selectCandidates(context).map((provider) => provider.name)).toEqual(["provider_b", "provider_a"]);
+  });
+
+  it("hashes the intent id when the split key is the payment intent", () => {
+    const router = new ProviderRouter([providerA, providerB, providerC], { ...policy, splitKey: "payment_intent_id" });
+    const labels = new Set(
+      Array.from({ length: 200 }, (_, index) =>
+        router.route({ ...cardPayment, paymentIntentId: `pi_${index}` }).label),
+    );
+
+    expect(labels).toEqual(new Set(["split:provider_b", "split:provider_c"]));
+  });
+
+  it("rejects splits that target providers not configured for the method", () => {
+    expect(() => new ProviderRouter([providerA, providerB], {
+      ...policy,
+      methodWeights: { pix: [{ provider: "provider_b", weight: 100 }] },
+    })).toThrowError(/split for 'pix' targets provider 'provider_b'/);
+
+    expect(() => new ProviderRouter([providerA, providerB], {
+      ...policy,
+      methodWeights: { card: [{ provider: "provider_b", weight: 0 }] },
+    })).toThrowError(/no positive weight/);
+  });
+});
+
+describe("ProviderRouter adaptive strategy", () => {
+  function buildAdaptiveRouter(clock: MutableClock, random: () => number) {
+    const strategy = new AdaptiveRoutingStrategy({
+      windowSeconds: 60,
+      explorationRate: 0.1,
+      fees: {
+        provider_a: { fixedAmount: 0, percentBps: 100 },
+        provider_b: { fixedAmount: 50, percentBps: 300 },
+      },
+      clock,
+      random,
+    });
+    const router = new ProviderRouter(
+      [new StubProvider("provider_a", ["card"]), new StubProvider("provider_b", ["card"])],
+      { defaultProvider: "provider_a", methodPriority: { card: ["provider_b", "provider_a"] } },
+      { clock, strategy, circuitBreaker: { enabled: false } },
+    );
+    const record = async (provider: string, approved: number, declined: number, latencyMs: number): Promise<void> => {
+      for (let index = 0; index < approved + declined; index += 1) {
+        await router.recordAuthorizeOutcome(
+          provider,
+          index < approved
+            ? { ok: true, reference: `${provider}_${index}` }
+            : { ok: false, reference: `${provider}_${index}`, failureCode: "card_declined" },
+          { paymentMethodType: "card", latencyMs },
+        );
+      }
+    };
+    return { router, record };
+  }
+
+  it("orders candidates by expected approval net of fees and exposes windowed scores", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    const { router, record } = buildAdaptiveRouter(clock, () => 0.99);
+    await record("provider_a", 8, 2, 120);
+    await record("provider_b", 9, 1, 80);
+
+    // provider_b approves more, but its fees outweigh that on a small payment.
+    expect(router.selectCandidates({ ...cardPayment, amount: 200 }).map((provider) => provider.name)).toEqual([
+      "provider_a",
+      "provider_b",
+    ]);
+    expect(router.selectCandidates({ ...cardPayment, amount: 1_000_000 }).map((provider) => provider.name)).toEqual([
+      "provider_b",
+      "provider_a",
+    ]);
+
+    const { strategy, scores } = router.scores();
+    expect(strategy).toBe("adaptive");
+    expect(scores).toEqual([
+      {
+        provider: "provider_a",
+        paymentMethodType: "card",
+        samples: 10,
+        approvalRate: 0.75,
+        averageLatencyMs: 120,
+        fee: { fixedAmount: 0, percentBps: 100 },
+      },
+      {
+        provider: "provider_b",
+        paymentMethodType: "card",
+        samples: 10,
+        approvalRate: 10 / 12,
+        averageLatencyMs: 80,
+        fee: { fixedAmount: 50, percentBps: 300 },
+      },
+    ]);
+
+    clock.setNow("2026-02-08T10:01:01.000Z");
+    expect(router.scores().scores.map((score) => score.samples)).toEqual([0, 0]);
+  });
+
+  it("sends an exploration share to the least-sampled runner-up so a recovering provider gets traffic", async () => {
+    const clock = new MutableClock("2026-02-08T10:00:00.000Z");
+    let draw = 0.5;
+    const { router, record } = buildAdaptiveRouter(clock, () => draw);
+    await record("provider_a", 1, 9, 100);
+    await record("provider_b", 20, 0, 100);
+
+    expect(router.selectCandidates(cardPayment)[0]?.name).toBe("provider_b");
+
+    draw = 0.05;
+    expect(router.selectCandidates(cardPayment)[0]?.name).toBe("provider_a");
+    // Dry runs never explore, so simulations show the ranked order.
+    expect(router.route(cardPayment, { dryRun: true }).candidates[0]?.provider.name).toBe("provider_b");
+  });
 });
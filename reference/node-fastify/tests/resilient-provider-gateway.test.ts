@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { ResilientProviderGateway } from "../src/application/resilient-provider-gateway.js";
+import type { ProviderResiliencePolicy } from "../src/application/resilient-provider-gateway.js";
+import type { DeclineCode } from "../src/domain/decline-codes.js";
+import type { PaymentMethodType } from "../src/domain/types.js";
+import type {
+  AuthorizeInput,
+  AuthorizeResult,
+  CaptureInput,
+  CaptureResult,
+  CompleteAuthorizationInput,
+  ProviderCallOptions,
+  ProviderGatewayPort,
+  ProviderStatusResult,
+  RefundInput,
+  RefundResult,
+  ReverseAuthorizationInput,
+  ReverseAuthorizationResult,
+} from "../src/ports/provider-gateway.js";
+
+// Answers authorize from a script; "hang" waits until the caller aborts.
+class ScriptedProvider implements ProviderGatewayPort {
+  public readonly name = "provider_scripted";
+  public authorizeCalls = 0;
+  public aborted = 0;
+  // Idempotency key of every capture, refund and void attempt.
+  public settleKeys: Array<string | undefined> = [];
+  public settleResult: CaptureResult = { ok: true };
+
+  constructor(private readonly script: Array<AuthorizeResult | "hang">) {}
+
+  supports(paymentMethod: PaymentMethodType): boolean {
+    return paymentMethod === "card";
+  }
+
+  async authorize(input: AuthorizeInput, options?: ProviderCallOptions): Promise<AuthorizeResult> {
+    const step = this.script[Math.min(this.authorizeCalls, this.script.length - 1)];
+    this.authorizeCalls += 1;
+    if (step === "hang" || !step) {
+      await this.hang(options?.signal);
+      return { ok: true, reference: input.merchantReference };
+    }
+    return step;
+  }
+
+  async completeAuthorization(input: CompleteAuthorizationInput): Promise<AuthorizeResult> {
+    return { ok: true, reference: input.reference };
+  }
+
+  async getStatus(reference: string, options?: ProviderCallOptions): Promise<ProviderStatusResult> {
+    await this.hang(options?.signal);
+    return { status: "authorized", reference };
+  }
+
+  async capture(input: CaptureInput): Promise<CaptureResult> {
+    this.settleKeys.push(input.idempotencyKey);
+    return this.settleResult;
+  }
+
+  async refund(input: RefundInput): Promise<RefundResult> {
+    this.settleKeys.push(input.idempotencyKey);
+    return this.settleResult;
+  }
+
+  async reverseAuthorization(input: ReverseAuthorizationInput): Promise<ReverseAuthorizationResult> {
+    this.settleKeys.push(input.idempotencyKey);
+    return this.settleResult;
+  }
+
+  private hang(signal: AbortSignal | undefined): Promise<void> {
+    return new Promise((resolve) => {
+      signal?.addEventListener("abort", () => {
+        this.aborted += 1;
+        resolve();
+      }, { once: true });
+    });
+  }
+}
+
+const authorizeInput: AuthorizeInput = {
+  amount: 1000,
+  currency: "BRL",
+  paymentMethodType: "card",
+  paymentMethodToken: "tok_test_visa",
+  merchantReference: "pi_resilience",
+};
+
+function policy(overrides: Partial<ProviderResiliencePolicy> = {}): ProviderResiliencePolicy {
+  return {
+    timeoutMs: { authorize: 20, capture: 20, refund: 20 },
+    maxAttempts: 3,
+    backoffMs: [100, 400],
+    retryOn: ["timeout", "network_error"],
+    ...overrides,
+  };
+}
+
+describe("ResilientProviderGateway", () => {
+  it("aborts an attempt at its deadline and reports it as a timeout", async () => {
+    const inner = new ScriptedProvider(["hang"]);
+    const timeouts: string[] = [];
+    const gateway = new ResilientProviderGateway(inner, policy({ maxAttempts: 1 }), {
+      onTimeout: (operation) => timeouts.push(operation),
+    });
+
+    const result = await gateway.authorize(authorizeInput);
+
+    expect(result).toEqual({
+      ok: false,
+      reference: "pi_resilience",
+      failureCode: "timeout",
+      declineCode: "timeout",
+    });
+    expect(inner.aborted).toBe(1);
+    expect(timeouts).toEqual(["authorize"]);
+  });
+
+  it("retries listed failures on the same provider with jittered backoff", async () => {
+    const inner = new ScriptedProvider([
+      { ok: false, reference: "ref_1", failureCode: "transient_network_error" },
+      "hang",
+      { ok: true, reference: "ref_3" },
+    ]);
+    const sleeps: number[] = [];
+    const retries: DeclineCode[] = [];
+    const gateway = new ResilientProviderGateway(inner, policy(), {
+      random: () => 0,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+      onRetry: (_operation, declineCode) => retries.push(declineCode),
+    });
+
+    const result = await gateway.authorize(authorizeInput);
+
+    expect(result).toEqual({ ok: true, reference: "ref_3" });
+    expect(inner.authorizeCalls).toBe(3);
+    expect(retries).toEqual(["network_error", "timeout"]);
+    // With the lowest draw each wait is half its backoff.
+    expect(sleeps).toEqual([50, 200]);
+  });
+
+  it("returns declines at once and gives up after the last attempt", async () => {
+    const declined = new ScriptedProvider([
+      { ok: false, reference: "ref_declined", failureCode: "51", declineCode: "insufficient_funds" },
+    ]);
+    const declinedGateway = new ResilientProviderGateway(declined, policy(), { sleep: async () => {} });
+    expect(await declinedGateway.authorize(authorizeInput)).toMatchObject({ declineCode: "insufficient_funds" });
+    expect(declined.authorizeCalls).toBe(1);
+
+    const failing = new ScriptedProvider([{ ok: false, reference: "ref_down", declineCode: "network_error" }]);
+    const failingGateway = new ResilientProviderGateway(failing, policy({ maxAttempts: 2 }), {
+      sleep: async () => {},
+    });
+    expect(await failingGateway.authorize(authorizeInput)).toMatchObject({ ok: false, declineCode: "network_error" });
+    expect(failing.authorizeCalls).toBe(2);
+  });
+
+  it("retries captures, refunds and voids on the same provider only with an idempotency key", async () => {
+    const inner = new ScriptedProvider([]);
+    inner.settleResult = { ok: false, failureCode: "transient_network_error" };
+    const gateway = new ResilientProviderGateway(inner, policy(), { sleep: async () => {} });
+
+    expect(await gateway.capture({ amount: 1000, reference: "ref_1" })).toMatchObject({ ok: false });
+    expect(inner.settleKeys).toEqual([undefined]);
+
+    inner.settleKeys = [];
+    await gateway.refund({ amount: 500, reference: "ref_1", idempotencyKey: "re_1" });
+    expect(inner.settleKeys).toEqual(["re_1", "re_1", "re_1"]);
+
+    inner.settleKeys = [];
+    await gateway.reverseAuthorization({ amount: 500, reference: "ref_1" });
+    await gateway.capture({ amount: 500, reference: "ref_1", idempotencyKey: "pi_1:capture:0" });
+    expect(inner.settleKeys).toEqual([undefined, "pi_1:capture:0", "pi_1:capture:0", "pi_1:capture:0"]);
+  });
+
+  it("fails a status lookup the provider never answers", async () => {
+    const inner = new ScriptedProvider([]);
+    const gateway = new ResilientProviderGateway(inner, policy({ maxAttempts: 2 }), { sleep: async () => {} });
+
+    await expect(gateway.getStatus("pi_resilience")).rejects.toMatchObject({ code: "provider_timeout" });
+    expect(inner.aborted).toBe(2);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import { SandboxProviderGateway } from "../src/adapters/providers/sandbox-provider.js";
+import type { ClockPort } from "../src/infra/clock.js";
+import { SandboxScenarioRegistry, parseSandboxConfig } from "../src/infra/sandbox-scenarios.js";
+import type { SandboxScenario } from "../src/infra/sandbox-scenarios.js";
+import type { AuthorizeInput } from "../src/ports/provider-gateway.js";
+
+class ManualClock implements ClockPort {
+  constructor(private current: number) {}
+
+  nowIso(): string {
+    return new Date(this.current).toISOString();
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
+
+function authorizeInput(paymentMethodToken: string, merchantReference = "pi_sandbox"): AuthorizeInput {
+  return { amount: 1000, currency: "BRL", paymentMethodType: "card", paymentMethodToken, merchantReference };
+}
+
+describe("SandboxProviderGateway", () => {
+  it("looks test tokens up exactly and scopes provider-specific ones", async () => {
+    const providerA = new SandboxProviderGateway({ name: "provider_a", supportedMethods: ["card"] });
+    const providerB = new SandboxProviderGateway({ name: "provider_b", supportedMethods: ["card"] });
+
+    expect(await providerA.authorize(authorizeInput("tok_test_insufficient_funds"))).toMatchObject({
+      ok: false,
+      failureCode: "51",
+      declineCode: "insufficient_funds",
+    });
+    // Only the catalog entry itself declines; a token that merely contains it is approved.
+    expect(await providerA.authorize(authorizeInput("tok_test_fail_later"))).toMatchObject({ ok: true });
+    expect(await providerA.authorize(authorizeInput("tok_test_transient"))).toMatchObject({ ok: true });
+    expect(await providerB.authorize(authorizeInput("tok_test_transient"))).toMatchObject({
+      ok: false,
+      declineCode: "network_error",
+    });
+
+    const refundFail = await providerA.authorize(authorizeInput("tok_test_refund_fail"));
+    expect(await providerA.capture({ amount: 1000, reference: refundFail.reference })).toEqual({ ok: true });
+    expect(await providerA.refund({ amount: 1000, reference: refundFail.reference })).toEqual({
+      ok: false,
+      failureCode: "refund_rejected",
+      declineCode: "generic_decline",
+    });
+  });
+
+  it("adds the active scenario's latency and failure rates per operation", async () => {
+    const scenario: SandboxScenario = {
+      name: "flaky_captures",
+      description: "Slow authorizations and failing captures on provider_b.",
+      providers: {
+        provider_b: {
+          latencyMs: { minMs: 30, maxMs: 30 },
+          operations: {
+            capture: { latencyMs: { minMs: 0, maxMs: 0 }, failureRate: 0.5, failureCode: "capture_rejected" },
+          },
+        },
+      },
+    };
+    const scenarios = new SandboxScenarioRegistry([scenario]);
+    let draw = 0.4;
+    const providerA = new SandboxProviderGateway({ name: "provider_a", supportedMethods: ["card"], scenarios });
+    const providerB = new SandboxProviderGateway({
+      name: "provider_b",
+      supportedMethods: ["card"],
+      scenarios,
+      random: () => draw,
+    });
+
+    const before = await providerB.authorize(authorizeInput("tok_test_visa"));
+    expect(await providerB.capture({ amount: 1000, reference: before.reference })).toEqual({ ok: true });
+
+    scenarios.activate("flaky_captures");
+    const startedAt = performance.now();
+    const authorized = await providerB.authorize(authorizeInput("tok_test_visa"));
+    expect(performance.now() - startedAt).toBeGreaterThanOrEqual(25);
+    expect(authorized.ok).toBe(true);
+    expect(await providerB.capture({ amount: 400, reference: authorized.reference })).toEqual({
+      ok: false,
+      failureCode: "capture_rejected",
+      declineCode: "generic_decline",
+    });
+    draw = 0.6;
+    expect(await providerB.capture({ amount: 400, reference: authorized.reference })).toEqual({ ok: true });
+    // Providers without a profile in the scenario are untouched.
+    expect(await providerA.capture({ amount: 1000, reference: "provider_a_ref" })).toEqual({ ok: true });
+
+    scenarios.activate("default");
+    draw = 0.4;
+    expect(await providerB.capture({ amount: 400, reference: authorized.reference })).toEqual({ ok: true });
+  });
+
+  it("declines captures beyond the authorization and refunds beyond the capture", async () => {
+    const provider = new SandboxProviderGateway({ name: "provider_a", supportedMethods: ["card"] });
+    const manual = await provider.authorize(authorizeInput("tok_test_visa"));
+    const overCapture = { ok: false, failureCode: "capture_amount_exceeded", declineCode: "transaction_not_allowed" };
+    const overRefund = { ok: false, failureCode: "refund_amount_exceeded", declineCode: "transaction_not_allowed" };
+
+    expect(await provider.capture({ amount: 600, reference: manual.reference })).toEqual({ ok: true });
+    expect(await provider.capture({ amount: 500, reference: manual.reference })).toEqual(overCapture);
+    expect(await provider.refund({ amount: 700, reference: manual.reference })).toEqual(overRefund);
+    expect(await provider.refund({ amount: 600, reference: manual.reference })).toEqual({ ok: true });
+    expect(await provider.refund({ amount: 1, reference: manual.reference })).toEqual(overRefund);
+
+    // Without a capture call the authorization was captured with it.
+    const automatic = await provider.authorize(authorizeInput("tok_test_visa"));
+    expect(await provider.refund({ amount: 1000, reference: automatic.reference })).toEqual({ ok: true });
+    expect(await provider.refund({ amount: 1, reference: automatic.reference })).toEqual(overRefund);
+  });
+
+  it("answers a repeated capture, refund or void key with its first answer", async () => {
+    const scenarios = new SandboxScenarioRegistry([
+      {
+        name: "failing_refunds",
+        description: "Every refund on provider_a fails.",
+        providers: { provider_a: { operations: { refund: { failureRate: 1, failureCode: "refund_rejected" } } } },
+      },
+    ]);
+    const provider = new SandboxProviderGateway({ name: "provider_a", supportedMethods: ["card"], scenarios });
+    const authorized = await provider.authorize(authorizeInput("tok_test_visa"));
+    const refund = { amount: 400, reference: authorized.reference, idempotencyKey: "re_1" };
+
+    scenarios.activate("failing_refunds");
+    // An injected failure means the provider never took the call, so the key stays free.
+    expect(await provider.refund(refund)).toMatchObject({ ok: false, failureCode: "refund_rejected" });
+    scenarios.activate("default");
+    expect(await provider.refund(refund)).toEqual({ ok: true });
+
+    scenarios.activate("failing_refunds");
+    expect(await provider.refund(refund)).toEqual({ ok: true });
+    expect(await provider.refund({ ...refund, idempotencyKey: "re_2" })).toMatchObject({ ok: false });
+  });
+
+  it("settles pending authorizations after the scenario's settlement delay", async () => {
+    const clock = new ManualClock(Date.parse("2026-03-01T12:00:00.000Z"));
+    const scenarios = new SandboxScenarioRegistry([]);
+    const provider = new SandboxProviderGateway({ name: "provider_a", supportedMethods: ["card"], scenarios, clock });
+
+    const pending = await provider.authorize(authorizeInput("tok_test_async", "pi_settle"));
+    expect(pending).toMatchObject({ ok: true, pending: true });
+
+    clock.advance(60_000);
+    expect(await provider.getStatus("pi_settle")).toEqual({ status: "pending", reference: pending.reference });
+
+    scenarios.activate("slow_settlement");
+    clock.advance(-40_000);
+    expect(await provider.getStatus("pi_settle")).toMatchObject({ status: "pending" });
+    clock.advance(10_000);
+    expect(await provider.getStatus("pi_settle")).toEqual({ status: "authorized", reference: pending.reference });
+    // Once settled it stays settled, whatever the scenario.
+    scenarios.activate("default");
+    expect(await provider.getStatus(pending.reference)).toMatchObject({ status: "authorized" });
+  });
+});
+
+describe("SandboxScenarioRegistry", () => {
+  it("merges configured scenarios over the built-in ones", () => {
+    const config = parseSandboxConfig({
+      scenario: "slow_b",
+      scenarios: [
+        {
+          name: "slow_b",
+          providers: {
+            provider_b: { latency_ms: { min: 10, max: 50 }, operations: { refund: { failure_rate: 0.1 } } },
+          },
+        },
+        { name: "high_latency", description: "Overrides the built-in one.", providers: { "*": { latency_ms: 5 } } },
+      ],
+    });
+    const registry = new SandboxScenarioRegistry(config.scenarios, config.scenario);
+
+    expect(registry.active().name).toBe("slow_b");
+    expect(registry.profileFor("provider_b")).toEqual({
+      latencyMs: { minMs: 10, maxMs: 50 },
+      operations: { refund: { failureRate: 0.1, failureCode: "refund_rejected" } },
+    });
+    expect(registry.profileFor("provider_a")).toBeUndefined();
+    expect(registry.activate("high_latency").description).toBe("Overrides the built-in one.");
+    expect(registry.profileFor("provider_a")).toEqual({ latencyMs: { minMs: 5, maxMs: 5 }, operations: {} });
+    expect(registry.list().map((scenario) => scenario.name)).toContain("provider_a_outage");
+
+    expect(() => registry.activate("missing")).toThrowError(/Sandbox scenario 'missing' is not defined/);
+    expect(() => new SandboxScenarioRegistry([], "missing")).toThrowError(/is not defined/);
+  });
+
+  it("rejects malformed scenarios", () => {
+    expect(() => parseSandboxConfig({ scenarios: [{ name: "Bad Name" }] })).toThrowError(/scenarios\[0\]\.name/);
+    expect(() =>
+      parseSandboxConfig({ scenarios: [{ name: "x", providers: { provider_a: { latency_ms: { min: 50, max: 10 } } } }] }),
+    ).toThrowError(/latency_ms\.min/);
+    expect(() =>
+      parseSandboxConfig({
+        scenarios: [{ name: "x", providers: { provider_a: { operations: { authorize: { failure_rate: 2 } } } } }],
+      }),
+    ).toThrowError(/failure_rate/);
+    expect(() =>
+      parseSandboxConfig({ scenarios: [{ name: "x", providers: { provider_a: { operations: { settle: {} } } } }] }),
+    ).toThrowError(/operations\.settle/);
+    expect(() => parseSandboxConfig({ scenarios: [{ name: "x" }, { name: "x" }] })).toThrowError(/repeat/);
+  });
+});
@@ -9,6 +9,7 @@ describe("Payment state machine", () => {
     expect(canTransition("processing", "requires_action")).toBe(true);
     expect(canTransition("requires_confirmation", "canceled")).toBe(true);
     expect(canTransition("requires_action", "canceled")).toBe(true);
+    expect(canTransition("processing", "canceled")).toBe(true);
   });
 
   it("blocks invalid transitions", () => {
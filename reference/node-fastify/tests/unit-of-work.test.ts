@@ -0,0 +1,221 @@
+import type { Pool, PoolClient } from "pg";
+import { describe, expect, it } from "vitest";
+import { InMemoryEventBus } from "../src/adapters/inmemory/event-bus.js";
+import { InMemoryPaymentRepository } from "../src/adapters/inmemory/payment-repository.js";
+import { InMemoryUnitOfWork } from "../src/adapters/inmemory/unit-of-work.js";
+import { PostgresUnitOfWork, type TransactionalOutbox } from "../src/adapters/postgres/unit-of-work.js";
+import type { LedgerEntryRecord, PaymentEvent, PaymentIntentRecord } from "../src/domain/types.js";
+
+function buildEvent(id: string): PaymentEvent {
+  return {
+    id,
+    type: "payment_intent.succeeded",
+    api_version: "2026-02-08",
+    source: "payment-module-core",
+    event_version: "1.0.0",
+    occurred_at: "2026-02-08T10:00:00.000Z",
+    data: { payment_intent_id: "pi_1" },
+  };
+}
+
+function buildLedgerEntry(): LedgerEntryRecord {
+  return {
+    id: "le_1",
+    payment_intent_id: "pi_1",
+    refund_id: null,
+    entry_type: "capture",
+    direction: "credit",
+    amount: 1000,
+    currency: "BRL",
+    provider: "provider_a",
+    provider_reference: "ref_1",
+    created_at: "2026-02-08T10:00:00.000Z",
+  };
+}
+
+function buildIntent(): PaymentIntentRecord {
+  return {
+    id: "pi_1",
+    amount: 1000,
+    currency: "BRL",
+    status: "processing",
+    capture_method: "automatic",
+    customer_id: "cus_1",
+    payment_method_type: "card",
+    payment_method_token: "tok_test_visa",
+    card_bin_country: null,
+    metadata: {},
+    routing_decision: null,
+    decline_code: null,
+    authorized_amount: 0,
+    captured_amount: 0,
+    refunded_amount: 0,
+    provider: null,
+    provider_reference: null,
+    authorization_expires_at: null,
+    next_action: null,
+    pending_operation: null,
+    version: 1,
+    created_at: "2026-02-08T10:00:00.000Z",
+    updated_at: "2026-02-08T10:00:00.000Z",
+  };
+}
+
+class RecordingOutbox implements TransactionalOutbox {
+  constructor(private readonly log: string[]) {}
+
+  stageEvent(_client: PoolClient, event: PaymentEvent): Promise<void> {
+    this.log.push(`stage:${event.id}`);
+    return Promise.resolve();
+  }
+
+  publishStaged(event: PaymentEvent): Promise<void> {
+    this.log.push(`publish:${event.id}`);
+    return Promise.resolve();
+  }
+}
+
+function buildPool(log: string[], failOn?: string): Pool {
+  const client = {
+    query: (sql: string) => {
+      const statement = sql.trim().split(/\s+/).slice(0, 3).join(" ");
+      log.push(statement);
+      if (failOn && sql.includes(failOn)) {
+        return Promise.reject(new Error("insert failed"));
+      }
+      return Promise.resolve({ rows: [], rowCount: 1 });
+    },
+    release: () => {
+      log.push("release");
+    },
+  };
+  return {
+    connect: () => Promise.resolve(client),
+  } as unknown as Pool;
+}
+
+describe("PostgresUnitOfWork", () => {
+  it("stages outbox rows before COMMIT and publishes them afterwards", async () => {
+    const log: string[] = [];
+    const unitOfWork = new PostgresUnitOfWork(buildPool(log), new InMemoryEventBus(), new RecordingOutbox(log));
+
+    await unitOfWork.run(async (tx) => {
+      await tx.repository.saveLedgerEntry(buildLedgerEntry());
+      tx.publish(buildEvent("evt_1"));
+    });
+
+    expect(log).toEqual([
+      "BEGIN",
+      "INSERT INTO pmc_ledger_entries",
+      "stage:evt_1",
+      "COMMIT",
+      "release",
+      "publish:evt_1",
+    ]);
+  });
+
+  it("rolls back and publishes nothing when a write fails mid-unit", async () => {
+    const log: string[] = [];
+    const eventBus = new InMemoryEventBus();
+    const unitOfWork = new PostgresUnitOfWork(buildPool(log, "pmc_ledger_entries"), eventBus, new RecordingOutbox(log));
+
+    await expect(
+      unitOfWork.run(async (tx) => {
+        tx.publish(buildEvent("evt_1"));
+        await tx.repository.saveLedgerEntry(buildLedgerEntry());
+      }),
+    ).rejects.toThrowError("insert failed");
+
+    expect(log).toEqual(["BEGIN", "INSERT INTO pmc_ledger_entries", "ROLLBACK", "release"]);
+    expect(eventBus.getPublishedEvents()).toHaveLength(0);
+  });
+});
+
+describe("InMemoryUnitOfWork", () => {
+  it("applies writes and publishes events only once the unit completes", async () => {
+    const repository = new InMemoryPaymentRepository();
+    const eventBus = new InMemoryEventBus();
+    const unitOfWork = new InMemoryUnitOfWork(repository, eventBus);
+    await repository.savePaymentIntent(buildIntent());
+
+    await unitOfWork.run(async (tx) => {
+      const intent = await tx.repository.getPaymentIntentById("pi_1");
+      await tx.repository.savePaymentIntent({ ...buildIntent(), status: "succeeded", captured_amount: 1000 });
+      await tx.repository.saveLedgerEntry(buildLedgerEntry());
+      tx.publish(buildEvent("evt_1"));
+      expect(intent?.status).toBe("processing");
+      expect((await tx.repository.getPaymentIntentById("pi_1"))?.status).toBe("succeeded");
+      expect((await repository.getPaymentIntentById("pi_1"))?.status).toBe("processing");
+      expect(eventBus.getPublishedEvents()).toHaveLength(0);
+    });
+
+    expect((await repository.getPaymentIntentById("pi_1"))?.status).toBe("succeeded");
+    expect((await repository.listLedgerEntries({ limit: 10 })).data).toHaveLength(1);
+    expect(eventBus.getPublishedEvents().map((event) => event.id)).toEqual(["evt_1"]);
+  });
+
+  it("leaves state, ledger and events untouched when the unit fails mid-operation", async () => {
+    const repository = new InMemoryPaymentRepository();
+    const eventBus = new InMemoryEventBus();
+    const unitOfWork = new InMemoryUnitOfWork(repository, eventBus);
+    await repository.savePaymentIntent(buildIntent());
+
+    await expect(
+      unitOfWork.run(async (tx) => {
+        const intent = await tx.repository.getPaymentIntentById("pi_1");
+        if (!intent) {
+          throw new Error("missing intent");
+        }
+        intent.status = "succeeded";
+        await tx.repository.savePaymentIntent(intent);
+        await tx.repository.saveLedgerEntry(buildLedgerEntry());
+        tx.publish(buildEvent("evt_1"));
+        throw new Error("provider bookkeeping failed");
+      }),
+    ).rejects.toThrowError("provider bookkeeping failed");
+
+    expect((await repository.getPaymentIntentById("pi_1"))?.status).toBe("processing");
+    expect((await repository.listLedgerEntries({ limit: 10 })).data).toHaveLength(0);
+    expect(eventBus.getPublishedEvents()).toHaveLength(0);
+  });
+
+  it("rejects a stale version without applying the unit's other writes", async () => {
+    const repository = new InMemoryPaymentRepository();
+    const eventBus = new InMemoryEventBus();
+    const unitOfWork = new InMemoryUnitOfWork(repository, eventBus);
+    await repository.savePaymentIntent(buildIntent());
+    await repository.savePaymentIntent({ ...buildIntent(), version: 2 }, 1);
+
+    await expect(
+      unitOfWork.run(async (tx) => {
+        await tx.repository.saveLedgerEntry(buildLedgerEntry());
+        await tx.repository.savePaymentIntent({ ...buildIntent(), status: "succeeded", version: 2 }, 1);
+        tx.publish(buildEvent("evt_1"));
+      }),
+    ).rejects.toMatchObject({ statusCode: 409, code: "concurrent_modification" });
+
+    expect((await repository.getPaymentIntentById("pi_1"))?.version).toBe(2);
+    expect((await repository.listLedgerEntries({ limit: 10 })).data).toHaveLength(0);
+    expect(eventBus.getPublishedEvents()).toHaveLength(0);
+  });
+
+  it("checks every staged version before writing any intent", async () => {
+    const repository = new InMemoryPaymentRepository();
+    const eventBus = new InMemoryEventBus();
+    const unitOfWork = new InMemoryUnitOfWork(repository, eventBus);
+    await repository.savePaymentIntent(buildIntent());
+    await repository.savePaymentIntent({ ...buildIntent(), id: "pi_2" });
+
+    await expect(
+      unitOfWork.run(async (tx) => {
+        await tx.repository.savePaymentIntent({ ...buildIntent(), status: "succeeded", version: 2 }, 1);
+        await tx.repository.savePaymentIntent({ ...buildIntent(), id: "pi_2", status: "succeeded", version: 2 }, 1);
+        // Another writer commits pi_2 after it was staged here.
+        await repository.savePaymentIntent({ ...buildIntent(), id: "pi_2", status: "failed", version: 2 }, 1);
+      }),
+    ).rejects.toMatchObject({ statusCode: 409, code: "concurrent_modification" });
+
+    expect(await repository.getPaymentIntentById("pi_1")).toMatchObject({ status: "processing", version: 1 });
+    expect(await repository.getPaymentIntentById("pi_2")).toMatchObject({ status: "failed", version: 2 });
+  });
+});
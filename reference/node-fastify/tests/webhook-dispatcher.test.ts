@@ -1,6 +1,7 @@
 import { createHash } from "node:crypto";
 import { describe, expect, it } from "vitest";
 import { WebhookDispatcher } from "../src/application/webhook-dispatcher.js";
+import { InMemoryWebhookDeliveryQueue } from "../src/adapters/inmemory/webhook-delivery-queue.js";
 import type {
   PaymentEvent,
   StoredWebhookDeadLetterRecord,
@@ -27,9 +28,15 @@ function sampleEvent(): PaymentEvent {
   };
 }
 
-class FixedClock implements ClockPort {
+class MutableClock implements ClockPort {
+  private nowMs = Date.parse("2026-02-08T01:00:00.000Z");
+
   nowIso(): string {
-    return "2026-02-08T01:00:00.000Z";
+    return new Date(this.nowMs).toISOString();
+  }
+
+  advanceSeconds(seconds: number): void {
+    this.nowMs += seconds * 1000;
   }
 }
 
@@ -43,7 +50,7 @@ function buildRepository(
       throw new Error("not used");
     },
     async getEndpointById() {
-      throw new Error("not used");
+      return endpoint;
     },
     async updateEndpoint() {
       throw new Error("not used");
@@ -96,16 +103,19 @@ describe("WebhookDispatcher", () => {
     const sender: WebhookSenderPort = {
       async send(input) {
         requests.push(input);
-        return { ok: true, statusCode: 200 };
+        return { ok: true, statusCode: 200, responseBody: "accepted" };
       },
     };
 
-    const dispatcher = new WebhookDispatcher(repository, sender, new FixedClock(), {
+    const dispatcher = new WebhookDispatcher(repository, new InMemoryWebhookDeliveryQueue(), sender, new MutableClock(), {
       maxAttempts: 3,
       timeoutMs: 5000,
+      backoffSeconds: [5, 30],
     });
 
-    await dispatcher.dispatch(sampleEvent());
+    await dispatcher.enqueue(sampleEvent());
+    expect(requests.length).toBe(0);
+    await dispatcher.deliverDue(10);
 
     expect(requests.length).toBe(1);
     const request = requests.at(0);
@@ -123,9 +133,10 @@ describe("WebhookDispatcher", () => {
       throw new Error("Expected at least one saved delivery.");
     }
     expect(delivery.status).toBe("succeeded");
+    expect(delivery.response_body).toBe("accepted");
   });
 
-  it("stores dead letter when max attempts are exhausted", async () => {
+  it("schedules retries from the backoff schedule and dead-letters once it is exhausted", async () => {
     const endpoint: WebhookEndpointRecord = {
       id: "we_test_fail_1",
       url: "memory://merchant/always-fail",
@@ -144,15 +155,34 @@ describe("WebhookDispatcher", () => {
         return { ok: false, errorCode: "transient_webhook_error" };
       },
     };
-    const dispatcher = new WebhookDispatcher(repository, sender, new FixedClock(), {
+    const clock = new MutableClock();
+    const dispatcher = new WebhookDispatcher(repository, new InMemoryWebhookDeliveryQueue(), sender, clock, {
       maxAttempts: 3,
       timeoutMs: 5000,
+      backoffSeconds: [5, 30],
     });
 
-    await dispatcher.dispatch(sampleEvent());
+    await dispatcher.enqueue(sampleEvent());
+    expect(await dispatcher.deliverDue(10)).toBe(1);
+    expect(deliveries.at(0)?.next_attempt_at).toBe("2026-02-08T01:00:05.000Z");
+
+    clock.advanceSeconds(4);
+    expect(await dispatcher.deliverDue(10)).toBe(0);
+
+    clock.advanceSeconds(1);
+    expect(await dispatcher.deliverDue(10)).toBe(1);
+    expect(deliveries.at(1)?.next_attempt_at).toBe("2026-02-08T01:00:35.000Z");
+    expect(deadLetters.length).toBe(0);
+
+    clock.advanceSeconds(30);
+    expect(await dispatcher.deliverDue(10)).toBe(1);
+    expect(deliveries.at(2)?.next_attempt_at).toBeUndefined();
+
+    clock.advanceSeconds(3600);
+    expect(await dispatcher.deliverDue(10)).toBe(0);
 
     expect(sends).toBe(3);
-    expect(deliveries.length).toBe(3);
+    expect(deliveries.map((delivery) => delivery.attempt)).toEqual([1, 2, 3]);
     expect(deadLetters.length).toBe(1);
     const deadLetter = deadLetters.at(0);
     expect(deadLetter).toBeDefined();
@@ -185,14 +215,17 @@ describe("WebhookDispatcher", () => {
         return { ok: false, statusCode: 400, errorCode: "invalid_webhook_request" };
       },
     };
-    const dispatcher = new WebhookDispatcher(repository, sender, new FixedClock(), {
+    const dispatcher = new WebhookDispatcher(repository, new InMemoryWebhookDeliveryQueue(), sender, new MutableClock(), {
       maxAttempts: 3,
       timeoutMs: 5000,
+      backoffSeconds: [5, 30],
     });
 
-    await dispatcher.dispatch(sampleEvent());
+    await dispatcher.enqueue(sampleEvent());
+    await dispatcher.deliverDue(10);
 
     expect(sends).toBe(1);
+    expect(deliveries.at(0)?.next_attempt_at).toBeUndefined();
     expect(deliveries.length).toBe(1);
     expect(deadLetters.length).toBe(1);
     const deadLetter = deadLetters.at(0);
@@ -206,4 +239,100 @@ describe("WebhookDispatcher", () => {
     expect(deadLetter.replay_count).toBe(0);
     expect(deadLetter.response_status).toBe(400);
   });
+
+  it("records a throwing attempt as failed and keeps delivering the rest of the batch", async () => {
+    const endpoint: WebhookEndpointRecord = {
+      id: "we_test_throw_1",
+      url: "memory://merchant/throws",
+      events: ["payment_intent.created"],
+      secret: "whsec_secret_delta",
+      enabled: true,
+      created_at: "2026-02-08T00:00:00.000Z",
+    };
+    const deliveries: WebhookDeliveryRecord[] = [];
+    const deadLetters: StoredWebhookDeadLetterRecord[] = [];
+    const repository = buildRepository(endpoint, deliveries, deadLetters);
+    const sent: string[] = [];
+    const sender: WebhookSenderPort = {
+      async send(input) {
+        const eventId = input.headers["X-PMC-Event-Id"] ?? "";
+        if (eventId === "evt_throw") {
+          throw new Error("socket exploded");
+        }
+        sent.push(eventId);
+        return { ok: true, statusCode: 200 };
+      },
+    };
+    const clock = new MutableClock();
+    const queue = new InMemoryWebhookDeliveryQueue();
+    const dispatcher = new WebhookDispatcher(repository, queue, sender, clock, {
+      maxAttempts: 2,
+      timeoutMs: 5000,
+      backoffSeconds: [5],
+    });
+
+    await dispatcher.enqueue({ ...sampleEvent(), id: "evt_throw" });
+    await dispatcher.enqueue({ ...sampleEvent(), id: "evt_ok" });
+    expect(await dispatcher.deliverDue(10)).toBe(2);
+
+    expect(sent).toEqual(["evt_ok"]);
+    expect(deliveries.find((delivery) => delivery.event_id === "evt_throw")).toMatchObject({
+      attempt: 1,
+      status: "failed",
+      error_code: "webhook_dispatch_error",
+      next_attempt_at: "2026-02-08T01:00:05.000Z",
+    });
+
+    // The second attempt is the last one, so the entry is dead-lettered rather than leased again forever.
+    clock.advanceSeconds(5);
+    expect(await dispatcher.deliverDue(10)).toBe(1);
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({ event_id: "evt_throw", attempts: 2, failure_reason: "max_attempts_exhausted" });
+    clock.advanceSeconds(3600);
+    expect(await dispatcher.deliverDue(10)).toBe(0);
+  });
+
+  it("spends the attempt when the endpoint cannot be loaded", async () => {
+    const endpoint: WebhookEndpointRecord = {
+      id: "we_test_lookup_1",
+      url: "memory://merchant/lookup",
+      events: ["payment_intent.created"],
+      secret: "whsec_secret_epsilon",
+      enabled: true,
+      created_at: "2026-02-08T00:00:00.000Z",
+    };
+    const deliveries: WebhookDeliveryRecord[] = [];
+    const deadLetters: StoredWebhookDeadLetterRecord[] = [];
+    const repository: WebhookRepositoryPort = {
+      ...buildRepository(endpoint, deliveries, deadLetters),
+      async getEndpointById() {
+        throw new Error("connection reset");
+      },
+    };
+    const sender: WebhookSenderPort = {
+      async send() {
+        return { ok: true, statusCode: 200 };
+      },
+    };
+    const clock = new MutableClock();
+    const dispatcher = new WebhookDispatcher(repository, new InMemoryWebhookDeliveryQueue(), sender, clock, {
+      maxAttempts: 2,
+      timeoutMs: 5000,
+      backoffSeconds: [5],
+    });
+
+    await dispatcher.enqueue(sampleEvent());
+    expect(await dispatcher.deliverDue(10)).toBe(1);
+    clock.advanceSeconds(5);
+    expect(await dispatcher.deliverDue(10)).toBe(1);
+    clock.advanceSeconds(3600);
+    expect(await dispatcher.deliverDue(10)).toBe(0);
+
+    expect(deliveries.map((delivery) => [delivery.attempt, delivery.error_code])).toEqual([
+      [1, "webhook_dispatch_error"],
+      [2, "webhook_dispatch_error"],
+    ]);
+    // A dead letter needs the endpoint URL, so an entry whose endpoint never loaded is only completed.
+    expect(deadLetters).toHaveLength(0);
+  });
 });